@@ -0,0 +1,707 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/lib/auth-context";
+import {
+  getUsers,
+  getWorkAssignments,
+  createWorkAssignment,
+  approveWorkAssignment,
+  deleteWorkAssignment,
+  getBusinessTrips,
+  approveBusinessTrip,
+} from "@/lib/api-client";
+import { ATTENDANCE_MODE_LABELS } from "@/lib/types";
+import type { BusinessTrip, User, WorkAssignment } from "@/lib/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Briefcase,
+  Calendar,
+  Check,
+  X,
+  Plus,
+  Trash2,
+  AlertCircle,
+  CheckCircle2,
+  Home,
+  Plane,
+} from "lucide-react";
+
+const emptyForm = {
+  userId: "",
+  mode: "wfh" as WorkAssignment["mode"],
+  startDate: "",
+  endDate: "",
+  purpose: "",
+  destinationName: "",
+  latitude: "",
+  longitude: "",
+  radiusMeters: "200",
+};
+
+export default function AdminAssignmentsPage() {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [assignments, setAssignments] = useState<WorkAssignment[]>([]);
+  const [trips, setTrips] = useState<BusinessTrip[]>([]);
+  const [modeFilter, setModeFilter] = useState<"all" | WorkAssignment["mode"]>("all");
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [modeFilter]);
+
+  const loadData = async () => {
+    try {
+      const [allUsers, list, allTrips] = await Promise.all([
+        getUsers(),
+        getWorkAssignments(modeFilter === "all" ? undefined : { mode: modeFilter }),
+        getBusinessTrips(),
+      ]);
+      setUsers(allUsers.filter((u) => u.role === "employee"));
+      setAssignments(list);
+      setTrips(allTrips);
+    } catch (err) {
+      console.error("Error loading work assignments:", err);
+    }
+  };
+
+  const pendingAssignments = assignments.filter((a) => a.status === "pending");
+  const pendingTrips = trips.filter((t) => t.status === "pending");
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleApprove = async (assignmentId: string, approved: boolean) => {
+    setError(null);
+
+    const result = await approveWorkAssignment(assignmentId, approved);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    showSuccess(approved ? "Pengajuan WFH disetujui" : "Pengajuan WFH ditolak");
+    loadData();
+  };
+
+  const handleApproveTrip = async (tripId: string, approved: boolean) => {
+    setError(null);
+
+    const result = await approveBusinessTrip(tripId, approved);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    showSuccess(approved ? "Perjalanan dinas disetujui" : "Perjalanan dinas ditolak");
+    loadData();
+  };
+
+  const handleDelete = async (assignmentId: string) => {
+    if (!confirm("Batalkan penugasan ini?")) return;
+
+    setError(null);
+    if (!(await deleteWorkAssignment(assignmentId))) {
+      setError("Gagal membatalkan penugasan");
+      return;
+    }
+
+    showSuccess("Penugasan berhasil dibatalkan");
+    loadData();
+  };
+
+  const openCreateDialog = () => {
+    const today = new Date().toISOString().split("T")[0];
+    setForm({ ...emptyForm, userId: users[0]?.id || "", startDate: today, endDate: today });
+    setFormError(null);
+    setShowDialog(true);
+  };
+
+  const handleCreate = async () => {
+    setFormError(null);
+    setIsSubmitting(true);
+
+    const result = await createWorkAssignment({
+      userId: form.userId,
+      mode: form.mode,
+      startDate: form.startDate,
+      endDate: form.endDate,
+      purpose: form.purpose,
+      ...(form.mode === "field" && {
+        destinationName: form.destinationName,
+        latitude: parseFloat(form.latitude),
+        longitude: parseFloat(form.longitude),
+        radiusMeters: parseInt(form.radiusMeters, 10) || undefined,
+      }),
+    });
+    setIsSubmitting(false);
+
+    if ("error" in result) {
+      setFormError(result.error);
+      return;
+    }
+
+    setShowDialog(false);
+    showSuccess(form.mode === "wfh" ? "Hari WFH berhasil ditetapkan" : "Penugasan dinas luar berhasil dibuat");
+    loadData();
+  };
+
+  const getUserById = (userId: string) => users.find((u) => u.id === userId);
+
+  const getInitials = (name: string) => {
+    return name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const formatRange = (range: { startDate: string; endDate: string }) =>
+    range.startDate === range.endDate
+      ? formatDate(range.startDate)
+      : `${formatDate(range.startDate)} - ${formatDate(range.endDate)}`;
+
+  const getStatusBadge = (status: WorkAssignment["status"] | BusinessTrip["status"]) => {
+    switch (status) {
+      case "approved":
+        return <Badge className="bg-success text-success-foreground">Disetujui</Badge>;
+      case "rejected":
+        return <Badge variant="destructive">Ditolak</Badge>;
+      default:
+        return <Badge variant="secondary">Pending</Badge>;
+    }
+  };
+
+  const getModeBadge = (mode: WorkAssignment["mode"]) => (
+    <Badge variant="outline" className="gap-1">
+      {mode === "wfh" ? <Home className="h-3 w-3" /> : <Briefcase className="h-3 w-3" />}
+      {ATTENDANCE_MODE_LABELS[mode]}
+    </Badge>
+  );
+
+  const isFormValid =
+    form.userId &&
+    form.startDate &&
+    form.endDate &&
+    form.purpose.trim() &&
+    (form.mode === "wfh" || (form.destinationName.trim() && form.latitude && form.longitude));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Briefcase className="h-6 w-6" />
+            WFH & Dinas Luar
+          </h1>
+          <p className="text-muted-foreground">
+            Kelola hari WFH, penugasan dinas luar dan perjalanan dinas karyawan
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select
+            value={modeFilter}
+            onValueChange={(v) => setModeFilter(v as typeof modeFilter)}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Mode</SelectItem>
+              <SelectItem value="wfh">{ATTENDANCE_MODE_LABELS.wfh}</SelectItem>
+              <SelectItem value="field">{ATTENDANCE_MODE_LABELS.field}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={openCreateDialog} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Tambah
+          </Button>
+        </div>
+      </div>
+
+      {/* Success Alert */}
+      {success && (
+        <Alert className="border-success bg-success/10">
+          <CheckCircle2 className="h-4 w-4 text-success" />
+          <AlertDescription className="text-success">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Error Alert */}
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="assignments">
+        <TabsList>
+          <TabsTrigger value="assignments">
+            WFH & Dinas Luar
+            {pendingAssignments.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {pendingAssignments.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="trips">
+            Perjalanan Dinas
+            {pendingTrips.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {pendingTrips.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="assignments" className="space-y-6">
+          {/* Pending WFH Requests */}
+          {pendingAssignments.length > 0 && (
+            <Card className="border-warning">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Home className="h-5 w-5 text-warning" />
+                  Pengajuan WFH Pending
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {pendingAssignments.map((assignment) => {
+                    const employee = getUserById(assignment.userId);
+                    if (!employee) return null;
+
+                    return (
+                      <div
+                        key={assignment.id}
+                        className="flex items-center gap-4 p-4 rounded-lg border"
+                      >
+                        <Avatar>
+                          <AvatarFallback className="bg-primary/10 text-primary">
+                            {getInitials(employee.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="font-medium">{employee.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatRange(assignment)}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Keperluan: {assignment.purpose}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-destructive hover:text-destructive bg-transparent"
+                            onClick={() => handleApprove(assignment.id, false)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleApprove(assignment.id, true)}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* All Assignments */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Daftar WFH & Dinas Luar</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {assignments.length === 0 ? (
+                <div className="text-center py-12">
+                  <Calendar className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">Belum ada WFH atau dinas luar</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Karyawan</TableHead>
+                        <TableHead>Mode</TableHead>
+                        <TableHead>Tanggal</TableHead>
+                        <TableHead>Tujuan</TableHead>
+                        <TableHead>Keperluan</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Aksi</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {assignments.map((assignment) => {
+                        const employee = getUserById(assignment.userId);
+                        if (!employee) return null;
+
+                        return (
+                          <TableRow key={assignment.id}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Avatar className="h-8 w-8">
+                                  <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                                    {getInitials(employee.name)}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span>{employee.name}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{getModeBadge(assignment.mode)}</TableCell>
+                            <TableCell>{formatRange(assignment)}</TableCell>
+                            <TableCell>
+                              {assignment.destinationName ? (
+                                <span>
+                                  {assignment.destinationName}
+                                  <span className="text-xs text-muted-foreground">
+                                    {" "}({assignment.radiusMeters} m)
+                                  </span>
+                                </span>
+                              ) : (
+                                <span className="text-muted-foreground">-</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="max-w-[200px] truncate">
+                              {assignment.purpose}
+                            </TableCell>
+                            <TableCell>{getStatusBadge(assignment.status)}</TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => handleDelete(assignment.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="trips" className="space-y-6">
+          {/* Pending Business Trips */}
+          {pendingTrips.length > 0 && (
+            <Card className="border-warning">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Plane className="h-5 w-5 text-warning" />
+                  Perjalanan Dinas Pending
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {pendingTrips.map((trip) => {
+                    const employee = getUserById(trip.userId);
+                    if (!employee) return null;
+                    const canDecide = !trip.approverId || trip.approverId === user?.id;
+
+                    return (
+                      <div
+                        key={trip.id}
+                        className="flex items-center gap-4 p-4 rounded-lg border"
+                      >
+                        <Avatar>
+                          <AvatarFallback className="bg-primary/10 text-primary">
+                            {getInitials(employee.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="font-medium">{employee.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {trip.destination} | {formatRange(trip)}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Keperluan: {trip.purpose}
+                          </p>
+                          {!canDecide && (
+                            <p className="text-xs text-muted-foreground">
+                              Menunggu persetujuan {trip.approverName}
+                            </p>
+                          )}
+                        </div>
+                        {canDecide && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-destructive hover:text-destructive bg-transparent"
+                              onClick={() => handleApproveTrip(trip.id, false)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => handleApproveTrip(trip.id, true)}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* All Business Trips */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Riwayat Perjalanan Dinas</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {trips.length === 0 ? (
+                <div className="text-center py-12">
+                  <Calendar className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">Belum ada perjalanan dinas</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Karyawan</TableHead>
+                        <TableHead>Tujuan</TableHead>
+                        <TableHead>Tanggal</TableHead>
+                        <TableHead>Keperluan</TableHead>
+                        <TableHead>Penyetuju</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trips.map((trip) => {
+                        const employee = getUserById(trip.userId);
+                        if (!employee) return null;
+
+                        return (
+                          <TableRow key={trip.id}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Avatar className="h-8 w-8">
+                                  <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                                    {getInitials(employee.name)}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span>{employee.name}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{trip.destination}</TableCell>
+                            <TableCell>{formatRange(trip)}</TableCell>
+                            <TableCell className="max-w-[200px] truncate">
+                              {trip.purpose}
+                            </TableCell>
+                            <TableCell>{trip.approverName || "-"}</TableCell>
+                            <TableCell>{getStatusBadge(trip.status)}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Create Dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Tambah WFH / Dinas Luar</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {formError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label>Karyawan</Label>
+              <Select value={form.userId} onValueChange={(v) => setForm({ ...form, userId: v })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih karyawan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {employee.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <Select
+                value={form.mode}
+                onValueChange={(v) => setForm({ ...form, mode: v as WorkAssignment["mode"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="wfh">{ATTENDANCE_MODE_LABELS.wfh}</SelectItem>
+                  <SelectItem value="field">{ATTENDANCE_MODE_LABELS.field}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assignmentStart">Dari Tanggal</Label>
+                <Input
+                  id="assignmentStart"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignmentEnd">Sampai Tanggal</Label>
+                <Input
+                  id="assignmentEnd"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            {form.mode === "field" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="destinationName">Lokasi Tujuan</Label>
+                  <Input
+                    id="destinationName"
+                    placeholder="Contoh: Kantor Klien Pekanbaru"
+                    value={form.destinationName}
+                    onChange={(e) => setForm({ ...form, destinationName: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="destinationLat">Latitude</Label>
+                    <Input
+                      id="destinationLat"
+                      type="number"
+                      step="any"
+                      value={form.latitude}
+                      onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="destinationLng">Longitude</Label>
+                    <Input
+                      id="destinationLng"
+                      type="number"
+                      step="any"
+                      value={form.longitude}
+                      onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="destinationRadius">Radius (m)</Label>
+                    <Input
+                      id="destinationRadius"
+                      type="number"
+                      min={1}
+                      value={form.radiusMeters}
+                      onChange={(e) => setForm({ ...form, radiusMeters: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="assignmentPurpose">Keperluan</Label>
+              <Textarea
+                id="assignmentPurpose"
+                value={form.purpose}
+                onChange={(e) => setForm({ ...form, purpose: e.target.value })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {form.mode === "wfh"
+                ? "Presensi WFH tidak memakai geofence kantor."
+                : "Presensi dinas luar dicocokkan dengan radius lokasi tujuan, bukan geofence kantor."}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Batal
+            </Button>
+            <Button onClick={handleCreate} disabled={isSubmitting || !isFormValid}>
+              {isSubmitting ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,16 +1,42 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import {
   getUsers,
-  getAttendanceRecords,
+  getAttendanceByDate,
   getOvertimeRecords,
   approveOvertime,
-} from "@/lib/data-store";
+  getOvertimePlans,
+  approveOvertimePlan,
+  getOfficeLocations,
+  backfillAbsences,
+  getCorrections,
+  getSuspiciousPunches,
+  approveCorrection,
+  getEarlyLeaveRequests,
+  approveEarlyLeave,
+} from "@/lib/api-client";
 import { useAuth } from "@/lib/auth-context";
-import type { User, AttendanceRecord, OvertimeRecord } from "@/lib/types";
+import type {
+  User,
+  AttendanceRecord,
+  OvertimeRecord,
+  OvertimePlan,
+  AttendanceCorrection,
+  EarlyLeaveRequest,
+  GeofenceMatch,
+  OfficeLocation,
+  PhotoDuplicate,
+  SuspiciousPunch,
+  FaceMatch,
+  LocationFlag,
+  AttendanceMode,
+} from "@/lib/types";
+import { ATTENDANCE_MODE_LABELS, LOCATION_FLAG_LABELS } from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -30,11 +56,13 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { PhotoThumbnail } from "@/components/photo-thumbnail";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
+  DialogFooter,
 } from "@/components/ui/dialog";
 import {
   Clock,
@@ -47,6 +75,15 @@ import {
   ChevronLeft,
   ChevronRight,
   CheckCircle2,
+  Building2,
+  UserX,
+  AlertCircle,
+  FilePen,
+  ScanFace,
+  UserRoundX,
+  MapPinX,
+  WifiOff,
+  DoorOpen,
 } from "lucide-react";
 
 export default function AdminAttendancePage() {
@@ -54,36 +91,90 @@ export default function AdminAttendancePage() {
   const [users, setUsers] = useState<User[]>([]);
   const [records, setRecords] = useState<AttendanceRecord[]>([]);
   const [overtimeRecords, setOvertimeRecords] = useState<OvertimeRecord[]>([]);
+  const [overtimePlans, setOvertimePlans] = useState<OvertimePlan[]>([]);
   const [selectedDate, setSelectedDate] = useState(
     new Date().toISOString().split("T")[0]
   );
   const [selectedRecord, setSelectedRecord] = useState<AttendanceRecord | null>(
     null
   );
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [earlyLeaves, setEarlyLeaves] = useState<EarlyLeaveRequest[]>([]);
   const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sites, setSites] = useState<OfficeLocation[]>([]);
+  const [siteFilter, setSiteFilter] = useState("all");
+  const [modeFilter, setModeFilter] = useState<"all" | AttendanceMode>("all");
+  const [showBackfillDialog, setShowBackfillDialog] = useState(false);
+  const [backfillRange, setBackfillRange] = useState({ startDate: "", endDate: "" });
+  const [backfillError, setBackfillError] = useState<string | null>(null);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const [suspiciousRange, setSuspiciousRange] = useState(() => ({
+    startDate: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
+    endDate: new Date().toISOString().split("T")[0],
+  }));
+  const [suspiciousPunches, setSuspiciousPunches] = useState<SuspiciousPunch[]>([]);
 
   useEffect(() => {
     loadData();
   }, [selectedDate]);
 
-  const loadData = () => {
-    const allUsers = getUsers();
-    setUsers(allUsers.filter((u) => u.role === "employee"));
+  useEffect(() => {
+    if (!suspiciousRange.startDate || !suspiciousRange.endDate) return;
+    getSuspiciousPunches(suspiciousRange.startDate, suspiciousRange.endDate)
+      .then(setSuspiciousPunches)
+      .catch((err) => console.error("Error loading suspicious punches:", err));
+  }, [suspiciousRange]);
 
-    const allRecords = getAttendanceRecords();
-    setRecords(allRecords.filter((r) => r.date === selectedDate));
+  useEffect(() => {
+    getOfficeLocations()
+      .then(setSites)
+      .catch((err) => console.error("Error loading sites:", err));
+  }, []);
 
-    setOvertimeRecords(getOvertimeRecords());
+  const loadData = async () => {
+    try {
+      const [allUsers, dayRecords, overtimes, plans, allCorrections, allEarlyLeaves] = await Promise.all([
+        getUsers(),
+        getAttendanceByDate(selectedDate),
+        getOvertimeRecords(),
+        getOvertimePlans({ status: "pending" }),
+        getCorrections(),
+        getEarlyLeaveRequests(),
+      ]);
+      setUsers(allUsers.filter((u) => u.role === "employee"));
+      setRecords(dayRecords);
+      setOvertimeRecords(overtimes);
+      setOvertimePlans(plans);
+      setCorrections(allCorrections);
+      setEarlyLeaves(allEarlyLeaves);
+    } catch (error) {
+      console.error("Error loading attendance data:", error);
+    }
   };
 
+  const autoClosedRecords = records.filter((r) => r.autoClosed);
+
+  const faceMismatchRecords = records.filter(
+    (r) => r.checkIn?.faceMatch?.matched === false || r.checkOut?.faceMatch?.matched === false
+  );
+
+  const spoofedLocationRecords = records.filter(
+    (r) => !!r.checkIn?.locationFlags?.length || !!r.checkOut?.locationFlags?.length
+  );
+
+  const offlineRecords = records.filter(
+    (r) => r.checkIn?.submittedOffline || r.checkOut?.submittedOffline
+  );
+
   const pendingOvertimes = overtimeRecords.filter(
     (o) => o.status === "pending" && o.endTime
   );
 
-  const handleApproveOvertime = (overtimeId: string, approved: boolean) => {
+  const handleApproveOvertime = async (overtimeId: string, approved: boolean) => {
     if (!user) return;
 
-    const result = approveOvertime(overtimeId, user.id, approved);
+    const result = await approveOvertime(overtimeId, user.id, approved);
     if (!("error" in result)) {
       setSuccess(approved ? "Lembur disetujui" : "Lembur ditolak");
       loadData();
@@ -91,10 +182,122 @@ export default function AdminAttendancePage() {
     }
   };
 
+  const handleApproveOvertimePlan = async (planId: string, approved: boolean) => {
+    setError(null);
+
+    const result = await approveOvertimePlan(planId, approved);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setSuccess(approved ? "Rencana lembur disetujui" : "Rencana lembur ditolak");
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const pendingCorrections = corrections.filter((c) => c.status === "pending");
+
+  const handleApproveCorrection = async (correctionId: string, approved: boolean) => {
+    setError(null);
+
+    const result = await approveCorrection(correctionId, approved);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setSuccess(approved ? "Koreksi disetujui, presensi diperbarui" : "Koreksi ditolak");
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const pendingEarlyLeaves = earlyLeaves.filter((e) => e.status === "pending");
+
+  const handleApproveEarlyLeave = async (requestId: string, approved: boolean) => {
+    setError(null);
+
+    const result = await approveEarlyLeave(requestId, approved);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setSuccess(approved ? "Izin pulang cepat disetujui" : "Izin pulang cepat ditolak");
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const formatCorrectionChange = (from: string | null, to: string | null) =>
+    to ? `${from || "-"} → ${to}` : "Tidak diubah";
+
+  const openBackfillDialog = () => {
+    // Hari ini belum selesai, jadi default ke kemarin
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const date = yesterday.toISOString().split("T")[0];
+    setBackfillRange({ startDate: date, endDate: date });
+    setBackfillError(null);
+    setShowBackfillDialog(true);
+  };
+
+  const handleBackfill = async () => {
+    setBackfillError(null);
+    setIsBackfilling(true);
+
+    const result = await backfillAbsences(backfillRange.startDate, backfillRange.endDate);
+    setIsBackfilling(false);
+
+    if ("error" in result) {
+      setBackfillError(result.error);
+      return;
+    }
+
+    setShowBackfillDialog(false);
+    setSuccess(result.message);
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
   const getUserById = (userId: string) => {
     return users.find((u) => u.id === userId);
   };
 
+  const renderFaceMatch = (faceMatch: FaceMatch) => {
+    const percentage = Math.round(faceMatch.score * 100);
+    return faceMatch.matched ? (
+      <Badge variant="outline" className="border-success text-success">
+        Wajah cocok {percentage}%
+      </Badge>
+    ) : (
+      <Badge variant="destructive" className="gap-1">
+        <UserRoundX className="h-3 w-3" />
+        Wajah tidak cocok {percentage}%
+      </Badge>
+    );
+  };
+
+  const renderDuplicate = (duplicate: PhotoDuplicate) => {
+    const owner = getUserById(duplicate.userId);
+    return (
+      <Badge variant="destructive" className="gap-1">
+        <ScanFace className="h-3 w-3" />
+        Foto mirip {owner ? `foto ${owner.name}` : "foto lain"}
+      </Badge>
+    );
+  };
+
+  const renderLocationFlags = (flags: LocationFlag[]) => (
+    <div className="flex flex-wrap gap-1">
+      {flags.map((flag) => (
+        <Badge key={flag} variant="destructive" className="gap-1">
+          <MapPinX className="h-3 w-3" />
+          {LOCATION_FLAG_LABELS[flag]}
+        </Badge>
+      ))}
+    </div>
+  );
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -134,11 +337,42 @@ export default function AdminAttendancePage() {
         return <Badge className="bg-warning text-warning-foreground">Terlambat</Badge>;
       case "absent":
         return <Badge variant="destructive">Tidak Hadir</Badge>;
+      case "leave":
+        return <Badge variant="outline" className="border-primary text-primary">Cuti</Badge>;
+      case "sick":
+        return <Badge variant="outline" className="border-primary text-primary">Sakit</Badge>;
+      case "permit":
+        return <Badge variant="outline" className="border-primary text-primary">Izin</Badge>;
+      case "early_leave":
+        return <Badge variant="outline" className="border-warning text-warning">Pulang Cepat</Badge>;
+      case "half_day":
+        return <Badge variant="outline" className="border-warning text-warning">Setengah Hari</Badge>;
+      case "business_trip":
+        return <Badge variant="outline" className="border-primary text-primary">Perjalanan Dinas</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
   };
 
+  const renderGeofence = (geofence: GeofenceMatch | null) => {
+    if (!geofence?.officeLocationName) {
+      return <span className="text-muted-foreground">-</span>;
+    }
+    return (
+      <div className="flex flex-col gap-1">
+        <span className="text-sm">{geofence.officeLocationName}</span>
+        <span className="text-xs text-muted-foreground">
+          {geofence.distance !== null ? `${geofence.distance} m` : "-"}
+          {!geofence.withinRadius && (
+            <Badge variant="destructive" className="ml-2">
+              Di luar area
+            </Badge>
+          )}
+        </span>
+      </div>
+    );
+  };
+
   const prevDay = () => {
     const date = new Date(selectedDate);
     date.setDate(date.getDate() - 1);
@@ -151,6 +385,35 @@ export default function AdminAttendancePage() {
     setSelectedDate(date.toISOString().split("T")[0]);
   };
 
+  // Group employees by the site they punched at, falling back to their primary site
+  const getEmployeeSiteId = (employee: User) => {
+    const record = records.find((r) => r.userId === employee.id);
+    return (
+      record?.checkIn?.geofence?.officeLocationId ||
+      employee.siteIds?.[0] ||
+      null
+    );
+  };
+
+  const siteGroups = [
+    ...sites.map((site) => ({ id: site.id as string | null, name: site.name })),
+    { id: null, name: "Tanpa Site" },
+  ]
+    .filter(
+      (group) =>
+        siteFilter === "all" || siteFilter === (group.id ?? "none")
+    )
+    .map((group) => ({
+      ...group,
+      employees: users.filter(
+        (employee) =>
+          getEmployeeSiteId(employee) === group.id &&
+          (modeFilter === "all" ||
+            records.find((r) => r.userId === employee.id)?.mode === modeFilter)
+      ),
+    }))
+    .filter((group) => group.employees.length > 0);
+
   // Calculate stats
   const presentCount = records.filter((r) => r.checkIn).length;
   const lateCount = records.filter((r) => r.status === "late").length;
@@ -159,14 +422,20 @@ export default function AdminAttendancePage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
-          <Clock className="h-6 w-6" />
-          Data Presensi
-        </h1>
-        <p className="text-muted-foreground">
-          Lihat dan kelola data kehadiran karyawan
-        </p>
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Clock className="h-6 w-6" />
+            Data Presensi
+          </h1>
+          <p className="text-muted-foreground">
+            Lihat dan kelola data kehadiran karyawan
+          </p>
+        </div>
+        <Button variant="outline" onClick={openBackfillDialog} className="gap-2">
+          <UserX className="h-4 w-4" />
+          Tandai Absen
+        </Button>
       </div>
 
       {/* Success Alert */}
@@ -177,20 +446,96 @@ export default function AdminAttendancePage() {
         </Alert>
       )}
 
+      {/* Error Alert */}
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
       <Tabs defaultValue="daily">
         <TabsList>
           <TabsTrigger value="daily">Harian</TabsTrigger>
           <TabsTrigger value="overtime">
             Lembur
-            {pendingOvertimes.length > 0 && (
+            {pendingOvertimes.length + overtimePlans.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {pendingOvertimes.length + overtimePlans.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="corrections">
+            Koreksi
+            {pendingCorrections.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {pendingCorrections.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="early-leave">
+            Pulang Cepat
+            {pendingEarlyLeaves.length > 0 && (
               <Badge variant="destructive" className="ml-2">
-                {pendingOvertimes.length}
+                {pendingEarlyLeaves.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="suspicious">
+            Foto Mirip
+            {suspiciousPunches.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {suspiciousPunches.length}
               </Badge>
             )}
           </TabsTrigger>
         </TabsList>
 
         <TabsContent value="daily" className="space-y-6">
+          {/* Auto-closed Notice */}
+          {autoClosedRecords.length > 0 && (
+            <Alert className="border-warning bg-warning/10">
+              <AlertCircle className="h-4 w-4 text-warning" />
+              <AlertDescription>
+                {autoClosedRecords.length} karyawan lupa check-out dan presensinya
+                ditutup otomatis pada jam pulang jadwal. Periksa dan koreksi bila perlu.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Face Mismatch Notice */}
+          {faceMismatchRecords.length > 0 && (
+            <Alert variant="destructive">
+              <UserRoundX className="h-4 w-4" />
+              <AlertDescription>
+                {faceMismatchRecords.length} presensi memiliki selfie yang tidak cocok dengan
+                foto referensi wajah. Buka detail presensi untuk meninjau.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Suspicious GPS Notice */}
+          {spoofedLocationRecords.length > 0 && (
+            <Alert variant="destructive">
+              <MapPinX className="h-4 w-4" />
+              <AlertDescription>
+                {spoofedLocationRecords.length} presensi memiliki lokasi GPS yang mencurigakan
+                (dugaan lokasi palsu). Buka detail presensi untuk meninjau.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Offline Punch Notice */}
+          {offlineRecords.length > 0 && (
+            <Alert>
+              <WifiOff className="h-4 w-4" />
+              <AlertDescription>
+                {offlineRecords.length} presensi dikirim offline dan dicatat dengan jam perangkat.
+                Periksa jam dan keterlambatannya lalu koreksi bila perlu.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Date Selector */}
           <Card>
             <CardContent className="pt-6">
@@ -251,9 +596,45 @@ export default function AdminAttendancePage() {
           {/* Attendance Table */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">
-                Data Kehadiran - {formatDate(selectedDate)}
-              </CardTitle>
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <CardTitle className="text-lg">
+                  Data Kehadiran - {formatDate(selectedDate)}
+                </CardTitle>
+                <div className="flex gap-2">
+                  <Select
+                    value={modeFilter}
+                    onValueChange={(v) => setModeFilter(v as typeof modeFilter)}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Semua Mode</SelectItem>
+                      {(Object.keys(ATTENDANCE_MODE_LABELS) as AttendanceMode[]).map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {ATTENDANCE_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {sites.length > 0 && (
+                    <Select value={siteFilter} onValueChange={setSiteFilter}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Semua Site</SelectItem>
+                        {sites.map((site) => (
+                          <SelectItem key={site.id} value={site.id}>
+                            {site.name}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="none">Tanpa Site</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
               {users.length === 0 ? (
@@ -271,69 +652,150 @@ export default function AdminAttendancePage() {
                         <TableHead>Karyawan</TableHead>
                         <TableHead>Check-in</TableHead>
                         <TableHead>Check-out</TableHead>
+                        <TableHead>Lokasi</TableHead>
                         <TableHead>Jam Kerja</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead className="text-right">Aksi</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {users.map((employee) => {
-                        const record = records.find(
-                          (r) => r.userId === employee.id
-                        );
-
-                        return (
-                          <TableRow key={employee.id}>
-                            <TableCell>
-                              <div className="flex items-center gap-3">
-                                <Avatar>
-                                  <AvatarFallback className="bg-primary/10 text-primary">
-                                    {getInitials(employee.name)}
-                                  </AvatarFallback>
-                                </Avatar>
-                                <div>
-                                  <p className="font-medium">{employee.name}</p>
-                                  <p className="text-xs text-muted-foreground">
-                                    {employee.position}
-                                  </p>
-                                </div>
-                              </div>
-                            </TableCell>
-                            <TableCell>{record?.checkIn?.time || "-"}</TableCell>
-                            <TableCell>
-                              {record?.checkOut?.time || "-"}
-                            </TableCell>
-                            <TableCell>
-                              {record?.workHours
-                                ? `${record.workHours.toFixed(1)} jam`
-                                : "-"}
-                            </TableCell>
-                            <TableCell>
-                              {record?.checkIn ? (
-                                getStatusBadge(record.status)
-                              ) : (
-                                <Badge
-                                  variant="outline"
-                                  className="text-muted-foreground"
-                                >
-                                  Belum Hadir
+                      {siteGroups.map((group) => (
+                        <Fragment key={group.id ?? "none"}>
+                          <TableRow className="bg-muted/50 hover:bg-muted/50">
+                            <TableCell colSpan={7}>
+                              <span className="flex items-center gap-2 font-medium">
+                                <Building2 className="h-4 w-4 text-muted-foreground" />
+                                {group.name}
+                                <Badge variant="outline">
+                                  {group.employees.length}
                                 </Badge>
-                              )}
-                            </TableCell>
-                            <TableCell className="text-right">
-                              {record?.checkIn && (
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => setSelectedRecord(record)}
-                                >
-                                  <Eye className="h-4 w-4" />
-                                </Button>
-                              )}
+                              </span>
                             </TableCell>
                           </TableRow>
-                        );
-                      })}
+                          {group.employees.map((employee) => {
+                            const record = records.find(
+                              (r) => r.userId === employee.id
+                            );
+
+                            return (
+                              <TableRow key={employee.id}>
+                                <TableCell>
+                                  <div className="flex items-center gap-3">
+                                    <Avatar>
+                                      <AvatarFallback className="bg-primary/10 text-primary">
+                                        {getInitials(employee.name)}
+                                      </AvatarFallback>
+                                    </Avatar>
+                                    <div>
+                                      <p className="font-medium">{employee.name}</p>
+                                      <p className="text-xs text-muted-foreground">
+                                        {employee.position}
+                                      </p>
+                                    </div>
+                                  </div>
+                                </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-2">
+                                    <PhotoThumbnail entry={record?.checkIn ?? null} alt="Check-in" />
+                                    {record?.checkIn?.time || "-"}
+                                    {record?.checkIn?.photoDuplicate && (
+                                      <ScanFace className="h-4 w-4 text-destructive" aria-label="Foto mirip" />
+                                    )}
+                                    {record?.checkIn?.faceMatch?.matched === false && (
+                                      <UserRoundX className="h-4 w-4 text-destructive" aria-label="Wajah tidak cocok" />
+                                    )}
+                                    {record?.checkIn?.faceUnverified && (
+                                      <UserRoundX className="h-4 w-4 text-muted-foreground" aria-label="Wajah belum diverifikasi" />
+                                    )}
+                                    {!!record?.checkIn?.locationFlags?.length && (
+                                      <MapPinX className="h-4 w-4 text-destructive" aria-label="Lokasi mencurigakan" />
+                                    )}
+                                    {record?.checkIn?.submittedOffline && (
+                                      <Badge variant="outline">Offline</Badge>
+                                    )}
+                                    {record?.checkIn?.method === "qr" && (
+                                      <Badge variant="outline">QR</Badge>
+                                    )}
+                                    {record?.checkIn?.method === "pin" && (
+                                      <Badge variant="outline">PIN</Badge>
+                                    )}
+                                  </div>
+                                </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-2">
+                                    <PhotoThumbnail entry={record?.checkOut ?? null} alt="Check-out" />
+                                    {record?.checkOut?.time || "-"}
+                                    {record?.checkOut?.photoDuplicate && (
+                                      <ScanFace className="h-4 w-4 text-destructive" aria-label="Foto mirip" />
+                                    )}
+                                    {record?.checkOut?.faceMatch?.matched === false && (
+                                      <UserRoundX className="h-4 w-4 text-destructive" aria-label="Wajah tidak cocok" />
+                                    )}
+                                    {record?.checkOut?.faceUnverified && (
+                                      <UserRoundX className="h-4 w-4 text-muted-foreground" aria-label="Wajah belum diverifikasi" />
+                                    )}
+                                    {!!record?.checkOut?.locationFlags?.length && (
+                                      <MapPinX className="h-4 w-4 text-destructive" aria-label="Lokasi mencurigakan" />
+                                    )}
+                                    {record?.checkOut?.submittedOffline && (
+                                      <Badge variant="outline">Offline</Badge>
+                                    )}
+                                    {record?.checkOut?.method === "qr" && (
+                                      <Badge variant="outline">QR</Badge>
+                                    )}
+                                    {record?.checkOut?.method === "pin" && (
+                                      <Badge variant="outline">PIN</Badge>
+                                    )}
+                                    {record?.autoClosed && (
+                                      <Badge variant="outline" className="border-warning text-warning">
+                                        Otomatis
+                                      </Badge>
+                                    )}
+                                  </div>
+                                </TableCell>
+                                <TableCell>
+                                  {record?.checkIn
+                                    ? renderGeofence(record.checkIn.geofence)
+                                    : "-"}
+                                  {record?.mode && record.mode !== "office" && (
+                                    <Badge variant="outline" className="mt-1">
+                                      {ATTENDANCE_MODE_LABELS[record.mode]}
+                                    </Badge>
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  {record?.workHours
+                                    ? `${record.workHours.toFixed(1)} jam`
+                                    : "-"}
+                                </TableCell>
+                                <TableCell>
+                                  {record ? (
+                                    getStatusBadge(record.status)
+                                  ) : (
+                                    <Badge
+                                      variant="outline"
+                                      className="text-muted-foreground"
+                                    >
+                                      Belum Hadir
+                                    </Badge>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {record?.checkIn && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setSelectedRecord(record)}
+                                    >
+                                      <Eye className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </Fragment>
+                      ))}
                     </TableBody>
                   </Table>
                 </div>
@@ -343,6 +805,64 @@ export default function AdminAttendancePage() {
         </TabsContent>
 
         <TabsContent value="overtime" className="space-y-6">
+          {/* Pending Overtime Plans */}
+          {overtimePlans.length > 0 && (
+            <Card className="border-warning">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Timer className="h-5 w-5 text-warning" />
+                  Rencana Lembur Pending
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {overtimePlans.map((plan) => {
+                    const employee = getUserById(plan.userId);
+                    if (!employee) return null;
+
+                    return (
+                      <div
+                        key={plan.id}
+                        className="flex items-center gap-4 p-4 rounded-lg border"
+                      >
+                        <Avatar>
+                          <AvatarFallback className="bg-primary/10 text-primary">
+                            {getInitials(employee.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="font-medium">{employee.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatDate(plan.date)} | Rencana {plan.expectedHours} jam
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Alasan: {plan.reason}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-destructive hover:text-destructive bg-transparent"
+                            onClick={() => handleApproveOvertimePlan(plan.id, false)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleApproveOvertimePlan(plan.id, true)}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Pending Overtimes */}
           {pendingOvertimes.length > 0 && (
             <Card className="border-warning">
@@ -375,6 +895,13 @@ export default function AdminAttendancePage() {
                             {overtime.endTime} ({overtime.duration.toFixed(1)}{" "}
                             jam)
                           </p>
+                          <p className="text-sm text-muted-foreground">
+                            {overtime.plannedHours !== null
+                              ? `Rencana ${overtime.plannedHours} jam, kelebihan ${(
+                                  overtime.duration - overtime.approvedHours
+                                ).toFixed(1)} jam menunggu persetujuan`
+                              : "Tanpa rencana lembur"}
+                          </p>
                           <p className="text-sm text-muted-foreground">
                             Alasan: {overtime.reason}
                           </p>
@@ -428,6 +955,7 @@ export default function AdminAttendancePage() {
                         <TableHead>Karyawan</TableHead>
                         <TableHead>Tanggal</TableHead>
                         <TableHead>Waktu</TableHead>
+                        <TableHead>Rencana</TableHead>
                         <TableHead>Durasi</TableHead>
                         <TableHead>Alasan</TableHead>
                         <TableHead>Status</TableHead>
@@ -454,10 +982,21 @@ export default function AdminAttendancePage() {
                             <TableCell>
                               {overtime.startTime} - {overtime.endTime || "..."}
                             </TableCell>
+                            <TableCell>
+                              {overtime.plannedHours !== null
+                                ? `${overtime.plannedHours} jam`
+                                : "-"}
+                            </TableCell>
                             <TableCell>
                               {overtime.duration > 0
                                 ? `${overtime.duration.toFixed(1)} jam`
                                 : "-"}
+                              {overtime.endTime &&
+                                overtime.approvedHours !== overtime.duration && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Diakui {overtime.approvedHours.toFixed(1)} jam
+                                  </p>
+                                )}
                             </TableCell>
                             <TableCell className="max-w-[200px] truncate">
                               {overtime.reason}
@@ -485,6 +1024,406 @@ export default function AdminAttendancePage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="corrections" className="space-y-6">
+          {/* Pending Corrections */}
+          {pendingCorrections.length > 0 && (
+            <Card className="border-warning">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <FilePen className="h-5 w-5 text-warning" />
+                  Pengajuan Koreksi Pending
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {pendingCorrections.map((correction) => {
+                    const employee = getUserById(correction.userId);
+                    if (!employee) return null;
+
+                    return (
+                      <div
+                        key={correction.id}
+                        className="flex items-center gap-4 p-4 rounded-lg border"
+                      >
+                        <Avatar>
+                          <AvatarFallback className="bg-primary/10 text-primary">
+                            {getInitials(employee.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="font-medium">{employee.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatDate(correction.date)} | Check-in:{" "}
+                            {formatCorrectionChange(correction.original.checkInTime, correction.checkInTime)}{" "}
+                            | Check-out:{" "}
+                            {formatCorrectionChange(correction.original.checkOutTime, correction.checkOutTime)}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Alasan: {correction.reason}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-destructive hover:text-destructive bg-transparent"
+                            onClick={() =>
+                              handleApproveCorrection(correction.id, false)
+                            }
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() =>
+                              handleApproveCorrection(correction.id, true)
+                            }
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* All Corrections */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Riwayat Koreksi</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {corrections.length === 0 ? (
+                <div className="text-center py-12">
+                  <FilePen className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">
+                    Belum ada pengajuan koreksi
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Karyawan</TableHead>
+                        <TableHead>Tanggal</TableHead>
+                        <TableHead>Check-in</TableHead>
+                        <TableHead>Check-out</TableHead>
+                        <TableHead>Data Asli</TableHead>
+                        <TableHead>Alasan</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {corrections.map((correction) => {
+                        const employee = getUserById(correction.userId);
+                        if (!employee) return null;
+
+                        return (
+                          <TableRow key={correction.id}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Avatar className="h-8 w-8">
+                                  <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                                    {getInitials(employee.name)}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span>{employee.name}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{formatDate(correction.date)}</TableCell>
+                            <TableCell>{correction.checkInTime || "-"}</TableCell>
+                            <TableCell>{correction.checkOutTime || "-"}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {correction.original.checkInTime || "-"} -{" "}
+                              {correction.original.checkOutTime || "-"} (
+                              {correction.original.workHours.toFixed(1)} jam)
+                            </TableCell>
+                            <TableCell className="max-w-[200px] truncate">
+                              {correction.reason}
+                            </TableCell>
+                            <TableCell>
+                              {correction.status === "approved" && (
+                                <Badge className="bg-success text-success-foreground">
+                                  Disetujui
+                                </Badge>
+                              )}
+                              {correction.status === "rejected" && (
+                                <Badge variant="destructive">Ditolak</Badge>
+                              )}
+                              {correction.status === "pending" && (
+                                <Badge variant="secondary">Pending</Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="early-leave" className="space-y-6">
+          {/* Pending Early Leaves */}
+          {pendingEarlyLeaves.length > 0 && (
+            <Card className="border-warning">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <DoorOpen className="h-5 w-5 text-warning" />
+                  Izin Pulang Cepat Pending
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {pendingEarlyLeaves.map((earlyLeave) => {
+                    const employee = getUserById(earlyLeave.userId);
+                    if (!employee) return null;
+
+                    return (
+                      <div
+                        key={earlyLeave.id}
+                        className="flex items-center gap-4 p-4 rounded-lg border"
+                      >
+                        <Avatar>
+                          <AvatarFallback className="bg-primary/10 text-primary">
+                            {getInitials(employee.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="font-medium">{employee.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatDate(earlyLeave.date)} | Pulang pukul {earlyLeave.leaveTime}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Alasan: {earlyLeave.reason}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-destructive hover:text-destructive bg-transparent"
+                            onClick={() =>
+                              handleApproveEarlyLeave(earlyLeave.id, false)
+                            }
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() =>
+                              handleApproveEarlyLeave(earlyLeave.id, true)
+                            }
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* All Early Leaves */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Riwayat Izin Pulang Cepat</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {earlyLeaves.length === 0 ? (
+                <div className="text-center py-12">
+                  <DoorOpen className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">
+                    Belum ada izin pulang cepat
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Karyawan</TableHead>
+                        <TableHead>Tanggal</TableHead>
+                        <TableHead>Jam Pulang</TableHead>
+                        <TableHead>Alasan</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {earlyLeaves.map((earlyLeave) => {
+                        const employee = getUserById(earlyLeave.userId);
+                        if (!employee) return null;
+
+                        return (
+                          <TableRow key={earlyLeave.id}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Avatar className="h-8 w-8">
+                                  <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                                    {getInitials(employee.name)}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span>{employee.name}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{formatDate(earlyLeave.date)}</TableCell>
+                            <TableCell>{earlyLeave.leaveTime}</TableCell>
+                            <TableCell className="max-w-[200px] truncate">
+                              {earlyLeave.reason}
+                            </TableCell>
+                            <TableCell>
+                              {earlyLeave.status === "approved" && (
+                                <Badge className="bg-success text-success-foreground">
+                                  Disetujui
+                                </Badge>
+                              )}
+                              {earlyLeave.status === "rejected" && (
+                                <Badge variant="destructive">Ditolak</Badge>
+                              )}
+                              {earlyLeave.status === "pending" && (
+                                <Badge variant="secondary">Pending</Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="suspicious" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <CardTitle className="text-lg">Presensi dengan Foto Mirip</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Foto yang hampir sama dengan foto sebelumnya karyawan tersebut atau foto karyawan lain di hari yang sama
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    value={suspiciousRange.startDate}
+                    onChange={(e) =>
+                      setSuspiciousRange({ ...suspiciousRange, startDate: e.target.value })
+                    }
+                    className="w-40"
+                  />
+                  <span className="text-muted-foreground">-</span>
+                  <Input
+                    type="date"
+                    value={suspiciousRange.endDate}
+                    onChange={(e) =>
+                      setSuspiciousRange({ ...suspiciousRange, endDate: e.target.value })
+                    }
+                    className="w-40"
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {suspiciousPunches.length === 0 ? (
+                <div className="text-center py-12">
+                  <ScanFace className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">
+                    Tidak ada foto mirip pada rentang tanggal ini
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Karyawan</TableHead>
+                        <TableHead>Tanggal</TableHead>
+                        <TableHead>Presensi</TableHead>
+                        <TableHead>Foto</TableHead>
+                        <TableHead>Mirip Dengan</TableHead>
+                        <TableHead>Selisih</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {suspiciousPunches.map((punch) => {
+                        const employee = getUserById(punch.userId);
+                        const owner = getUserById(punch.duplicate.userId);
+
+                        return (
+                          <TableRow key={`${punch.recordId}-${punch.type}`}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Avatar className="h-8 w-8">
+                                  <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                                    {getInitials(employee?.name || "?")}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span>{employee?.name || punch.userId}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{formatDate(punch.date)}</TableCell>
+                            <TableCell>
+                              {punch.type === "check-in" ? "Check-in" : "Check-out"} {punch.time}
+                            </TableCell>
+                            <TableCell>
+                              <a href={punch.photoUrl} target="_blank" rel="noopener noreferrer">
+                                <img
+                                  src={punch.photoThumbnail}
+                                  alt="Foto presensi"
+                                  loading="lazy"
+                                  className="h-12 w-12 rounded object-cover bg-muted"
+                                />
+                              </a>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <img
+                                  src={punch.duplicate.thumbnailUrl}
+                                  alt="Foto mirip"
+                                  loading="lazy"
+                                  className="h-12 w-12 rounded object-cover bg-muted"
+                                />
+                                <div className="text-sm">
+                                  <p>
+                                    {punch.duplicate.userId === punch.userId
+                                      ? "Foto sendiri"
+                                      : owner?.name || punch.duplicate.userId}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {new Date(punch.duplicate.capturedAt).toLocaleString("id-ID")}
+                                  </p>
+                                </div>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              {punch.duplicate.distance === 0 ? (
+                                <Badge variant="destructive">Identik</Badge>
+                              ) : (
+                                <Badge variant="outline">{punch.duplicate.distance} bit</Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Detail Dialog */}
@@ -526,6 +1465,15 @@ export default function AdminAttendancePage() {
                   <h4 className="font-medium flex items-center gap-2">
                     <Clock className="h-4 w-4 text-primary" />
                     Check-in: {selectedRecord.checkIn.time}
+                    {selectedRecord.checkIn.submittedOffline && (
+                      <Badge variant="outline">Dikirim Offline</Badge>
+                    )}
+                    {selectedRecord.checkIn.method === "qr" && (
+                      <Badge variant="outline">Kiosk QR</Badge>
+                    )}
+                    {selectedRecord.checkIn.method === "pin" && (
+                      <Badge variant="outline">Tablet PIN</Badge>
+                    )}
                   </h4>
                   <div className="grid grid-cols-2 gap-2">
                     <div className="aspect-square rounded-lg overflow-hidden bg-muted">
@@ -542,6 +1490,39 @@ export default function AdminAttendancePage() {
                           {selectedRecord.checkIn.location.address}
                         </span>
                       </div>
+                      {typeof selectedRecord.checkIn.location.accuracy === "number" && (
+                        <p className="text-xs text-muted-foreground mt-1 ml-6">
+                          Akurasi GPS ±{Math.round(selectedRecord.checkIn.location.accuracy)} m
+                        </p>
+                      )}
+                      {selectedRecord.checkIn.geofence && (
+                        <div className="mt-2">
+                          {renderGeofence(selectedRecord.checkIn.geofence)}
+                        </div>
+                      )}
+                      {selectedRecord.checkIn.photoDuplicate && (
+                        <div className="mt-2">
+                          {renderDuplicate(selectedRecord.checkIn.photoDuplicate)}
+                        </div>
+                      )}
+                      {selectedRecord.checkIn.faceMatch && (
+                        <div className="mt-2">
+                          {renderFaceMatch(selectedRecord.checkIn.faceMatch)}
+                        </div>
+                      )}
+                      {selectedRecord.checkIn.faceUnverified && (
+                        <div className="mt-2">
+                          <Badge variant="outline" className="gap-1">
+                            <UserRoundX className="h-3 w-3" />
+                            Wajah belum diverifikasi
+                          </Badge>
+                        </div>
+                      )}
+                      {!!selectedRecord.checkIn.locationFlags?.length && (
+                        <div className="mt-2">
+                          {renderLocationFlags(selectedRecord.checkIn.locationFlags)}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -553,6 +1534,20 @@ export default function AdminAttendancePage() {
                   <h4 className="font-medium flex items-center gap-2">
                     <Clock className="h-4 w-4 text-primary" />
                     Check-out: {selectedRecord.checkOut.time}
+                    {selectedRecord.checkOut.submittedOffline && (
+                      <Badge variant="outline">Dikirim Offline</Badge>
+                    )}
+                    {selectedRecord.checkOut.method === "qr" && (
+                      <Badge variant="outline">Kiosk QR</Badge>
+                    )}
+                    {selectedRecord.checkOut.method === "pin" && (
+                      <Badge variant="outline">Tablet PIN</Badge>
+                    )}
+                    {selectedRecord.autoClosed && (
+                      <Badge variant="outline" className="border-warning text-warning">
+                        Ditutup Otomatis
+                      </Badge>
+                    )}
                   </h4>
                   <div className="grid grid-cols-2 gap-2">
                     <div className="aspect-square rounded-lg overflow-hidden bg-muted">
@@ -569,14 +1564,68 @@ export default function AdminAttendancePage() {
                           {selectedRecord.checkOut.location.address}
                         </span>
                       </div>
+                      {typeof selectedRecord.checkOut.location.accuracy === "number" && (
+                        <p className="text-xs text-muted-foreground mt-1 ml-6">
+                          Akurasi GPS ±{Math.round(selectedRecord.checkOut.location.accuracy)} m
+                        </p>
+                      )}
+                      {selectedRecord.checkOut.geofence && (
+                        <div className="mt-2">
+                          {renderGeofence(selectedRecord.checkOut.geofence)}
+                        </div>
+                      )}
+                      {selectedRecord.checkOut.photoDuplicate && (
+                        <div className="mt-2">
+                          {renderDuplicate(selectedRecord.checkOut.photoDuplicate)}
+                        </div>
+                      )}
+                      {selectedRecord.checkOut.faceMatch && (
+                        <div className="mt-2">
+                          {renderFaceMatch(selectedRecord.checkOut.faceMatch)}
+                        </div>
+                      )}
+                      {selectedRecord.checkOut.faceUnverified && (
+                        <div className="mt-2">
+                          <Badge variant="outline" className="gap-1">
+                            <UserRoundX className="h-3 w-3" />
+                            Wajah belum diverifikasi
+                          </Badge>
+                        </div>
+                      )}
+                      {!!selectedRecord.checkOut.locationFlags?.length && (
+                        <div className="mt-2">
+                          {renderLocationFlags(selectedRecord.checkOut.locationFlags)}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
               )}
 
+              {/* Breaks */}
+              {selectedRecord.breaks && selectedRecord.breaks.length > 0 && (
+                <div className="space-y-1 pt-2 border-t text-sm">
+                  <p className="font-medium">Istirahat</p>
+                  {selectedRecord.breaks.map((b) => (
+                    <div key={b.id} className="flex items-center justify-between">
+                      <span>
+                        {b.startTime} - {b.endTime ?? "belum selesai"}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {b.durationMinutes !== null ? `${b.durationMinutes} menit` : "-"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Summary */}
               <div className="pt-2 border-t">
                 <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Istirahat Dipotong</span>
+                  <span>{selectedRecord.breakMinutes ?? 0} menit</span>
+                </div>
+                <div className="flex items-center justify-between text-sm mt-1">
                   <span className="text-muted-foreground">Total Jam Kerja</span>
                   <span className="font-bold">
                     {selectedRecord.workHours.toFixed(1)} jam
@@ -591,6 +1640,59 @@ export default function AdminAttendancePage() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Backfill Absences Dialog */}
+      <Dialog open={showBackfillDialog} onOpenChange={setShowBackfillDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Tandai Absen</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {backfillError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{backfillError}</AlertDescription>
+              </Alert>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Karyawan tanpa check-in pada hari kerjanya akan dicatat tidak hadir.
+              Hari libur dan cuti yang disetujui dilewati.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="backfillStart">Dari Tanggal</Label>
+                <Input
+                  id="backfillStart"
+                  type="date"
+                  value={backfillRange.startDate}
+                  onChange={(e) =>
+                    setBackfillRange({ ...backfillRange, startDate: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backfillEnd">Sampai Tanggal</Label>
+                <Input
+                  id="backfillEnd"
+                  type="date"
+                  value={backfillRange.endDate}
+                  onChange={(e) =>
+                    setBackfillRange({ ...backfillRange, endDate: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowBackfillDialog(false)}>
+              Batal
+            </Button>
+            <Button onClick={handleBackfill} disabled={isBackfilling}>
+              {isBackfilling ? "Memproses..." : "Proses"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -5,13 +5,24 @@ import {
   getUsers,
   createUser,
   updateUser,
+  setKioskPin,
   deleteUser,
-} from "@/lib/data-store";
-import type { User, UserRole } from "@/lib/types";
+  getOfficeLocations,
+  getFaceReferences,
+  approveFaceReference,
+} from "@/lib/api-client";
+import type {
+  User,
+  UserRole,
+  OfficeLocation,
+  FaceReference,
+  WorkWeekDays,
+} from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -55,6 +66,10 @@ import {
   Search,
   AlertCircle,
   CheckCircle2,
+  ScanFace,
+  Check,
+  X,
+  KeyRound,
 } from "lucide-react";
 
 interface EmployeeForm {
@@ -66,6 +81,9 @@ interface EmployeeForm {
   position: string;
   email: string;
   phone: string;
+  siteIds: string[];
+  monthlySalary: string;
+  workWeekDays: WorkWeekDays;
 }
 
 const initialForm: EmployeeForm = {
@@ -77,6 +95,9 @@ const initialForm: EmployeeForm = {
   position: "",
   email: "",
   phone: "",
+  siteIds: [],
+  monthlySalary: "",
+  workWeekDays: 6,
 };
 
 export default function EmployeesPage() {
@@ -88,14 +109,60 @@ export default function EmployeesPage() {
   const [form, setForm] = useState<EmployeeForm>(initialForm);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [sites, setSites] = useState<OfficeLocation[]>([]);
+  const [pendingFaces, setPendingFaces] = useState<FaceReference[]>([]);
+  const [pinUser, setPinUser] = useState<User | null>(null);
+  const [pin, setPin] = useState("");
+  const [pinError, setPinError] = useState<string | null>(null);
 
   useEffect(() => {
     loadUsers();
+    loadPendingFaces();
+    getOfficeLocations()
+      .then(setSites)
+      .catch((err) => console.error("Error loading sites:", err));
   }, []);
 
-  const loadUsers = () => {
-    const allUsers = getUsers();
-    setUsers(allUsers);
+  const loadPendingFaces = async () => {
+    try {
+      const result = await getFaceReferences({ status: "pending" });
+      setPendingFaces(result.references);
+    } catch (err) {
+      console.error("Error loading face references:", err);
+    }
+  };
+
+  const handleApproveFace = async (referenceId: string, approved: boolean) => {
+    const result = await approveFaceReference(referenceId, approved);
+    if (!("error" in result)) {
+      setSuccess(approved ? "Foto referensi wajah disetujui" : "Foto referensi wajah ditolak");
+      loadPendingFaces();
+      setTimeout(() => setSuccess(null), 3000);
+    }
+  };
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await getUsers());
+    } catch (err) {
+      console.error("Error loading users:", err);
+    }
+  };
+
+  const toggleSite = (siteId: string, checked: boolean) => {
+    setForm({
+      ...form,
+      siteIds: checked
+        ? [...form.siteIds, siteId]
+        : form.siteIds.filter((id) => id !== siteId),
+    });
+  };
+
+  const getSiteNames = (siteIds: string[] = []) => {
+    return siteIds
+      .map((id) => sites.find((s) => s.id === id)?.name)
+      .filter(Boolean)
+      .join(", ");
   };
 
   const filteredUsers = users.filter(
@@ -123,17 +190,47 @@ export default function EmployeesPage() {
       position: user.position,
       email: user.email,
       phone: user.phone,
+      siteIds: user.siteIds || [],
+      monthlySalary: user.monthlySalary != null ? String(user.monthlySalary) : "",
+      workWeekDays: user.workWeekDays ?? 6,
     });
     setError(null);
     setShowDialog(true);
   };
 
+  const openPinDialog = (user: User) => {
+    setPinUser(user);
+    setPin("");
+    setPinError(null);
+  };
+
+  // pin null clears the PIN so the employee no longer appears on the kiosk tablet
+  const handleSavePin = async (value: string | null) => {
+    if (!pinUser) return;
+
+    if (value !== null && !/^\d{4,6}$/.test(value)) {
+      setPinError("PIN harus 4-6 digit angka");
+      return;
+    }
+
+    const result = await setKioskPin(pinUser.id, value);
+    if ("error" in result) {
+      setPinError(result.error);
+      return;
+    }
+
+    setPinUser(null);
+    loadUsers();
+    setSuccess(value === null ? "PIN kiosk dihapus" : `PIN kiosk ${result.name} berhasil disimpan`);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
   const openDeleteDialog = (user: User) => {
     setSelectedUser(user);
     setShowDeleteDialog(true);
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     setError(null);
 
     // Validation
@@ -147,6 +244,13 @@ export default function EmployeesPage() {
       return;
     }
 
+    // Empty salary clears it; overtime pay is then not calculated
+    const monthlySalary = form.monthlySalary.trim() ? Number(form.monthlySalary) : null;
+    if (monthlySalary !== null && (!Number.isFinite(monthlySalary) || monthlySalary < 0)) {
+      setError("Upah bulanan tidak valid");
+      return;
+    }
+
     if (selectedUser) {
       // Update
       const updates: Partial<User> = {
@@ -157,13 +261,16 @@ export default function EmployeesPage() {
         position: form.position,
         email: form.email,
         phone: form.phone,
+        siteIds: form.siteIds,
+        monthlySalary,
+        workWeekDays: form.workWeekDays,
       };
 
       if (form.password) {
         updates.password = form.password;
       }
 
-      const result = updateUser(selectedUser.id, updates);
+      const result = await updateUser(selectedUser.id, updates);
       if ("error" in result) {
         setError(result.error);
         return;
@@ -171,7 +278,7 @@ export default function EmployeesPage() {
       setSuccess("Data karyawan berhasil diperbarui");
     } else {
       // Create
-      const result = createUser(form);
+      const result = await createUser({ ...form, monthlySalary });
       if ("error" in result) {
         setError(result.error);
         return;
@@ -185,10 +292,10 @@ export default function EmployeesPage() {
     setTimeout(() => setSuccess(null), 3000);
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (!selectedUser) return;
 
-    deleteUser(selectedUser.id);
+    await deleteUser(selectedUser.id);
     setShowDeleteDialog(false);
     setSelectedUser(null);
     loadUsers();
@@ -233,6 +340,63 @@ export default function EmployeesPage() {
         </Alert>
       )}
 
+      {/* Pending Face References */}
+      {pendingFaces.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ScanFace className="h-5 w-5" />
+              Foto Referensi Wajah Menunggu Persetujuan
+              <Badge variant="destructive">{pendingFaces.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {pendingFaces.map((reference) => {
+                const employee = users.find((u) => u.id === reference.userId);
+
+                return (
+                  <div
+                    key={reference.id}
+                    className="flex items-center gap-4 p-4 rounded-lg border"
+                  >
+                    <a href={reference.photoUrl} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={reference.photoThumbnail}
+                        alt="Foto referensi"
+                        className="h-16 w-16 rounded-lg object-cover bg-muted"
+                      />
+                    </a>
+                    <div className="flex-1">
+                      <p className="font-medium">{employee?.name || reference.userId}</p>
+                      <p className="text-sm text-muted-foreground">
+                        Diajukan {new Date(reference.createdAt).toLocaleString("id-ID")}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-destructive hover:text-destructive bg-transparent"
+                        onClick={() => handleApproveFace(reference.id, false)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleApproveFace(reference.id, true)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Search */}
       <Card>
         <CardContent className="pt-6">
@@ -274,6 +438,7 @@ export default function EmployeesPage() {
                     <TableHead>Username</TableHead>
                     <TableHead>Departemen</TableHead>
                     <TableHead>Jabatan</TableHead>
+                    <TableHead>Site</TableHead>
                     <TableHead>Role</TableHead>
                     <TableHead className="text-right">Aksi</TableHead>
                   </TableRow>
@@ -301,6 +466,11 @@ export default function EmployeesPage() {
                       </TableCell>
                       <TableCell>{user.department}</TableCell>
                       <TableCell>{user.position}</TableCell>
+                      <TableCell className="text-sm">
+                        {getSiteNames(user.siteIds) || (
+                          <span className="text-muted-foreground">Semua lokasi</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge
                           variant={user.role === "admin" ? "default" : "secondary"}
@@ -310,6 +480,15 @@ export default function EmployeesPage() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={user.hasKioskPin ? "PIN kiosk sudah diatur" : "Atur PIN kiosk"}
+                            className={user.hasKioskPin ? "text-primary hover:text-primary" : undefined}
+                            onClick={() => openPinDialog(user)}
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -448,6 +627,66 @@ export default function EmployeesPage() {
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="monthlySalary">Upah Bulanan (Rp)</Label>
+                <Input
+                  id="monthlySalary"
+                  type="number"
+                  min={0}
+                  value={form.monthlySalary}
+                  onChange={(e) => setForm({ ...form, monthlySalary: e.target.value })}
+                  placeholder="Dasar upah lembur"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="workWeekDays">Pola Hari Kerja</Label>
+                <Select
+                  value={String(form.workWeekDays)}
+                  onValueChange={(value) =>
+                    setForm({ ...form, workWeekDays: value === "5" ? 5 : 6 })
+                  }
+                >
+                  <SelectTrigger id="workWeekDays">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="5">5 hari kerja</SelectItem>
+                    <SelectItem value="6">6 hari kerja</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {sites.length > 0 && (
+              <div className="space-y-2">
+                <Label>Site Kerja</Label>
+                <div className="grid gap-2 max-h-40 overflow-y-auto rounded-lg border p-3">
+                  {sites.map((site) => (
+                    <div key={site.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`site-${site.id}`}
+                        checked={form.siteIds.includes(site.id)}
+                        onCheckedChange={(checked) =>
+                          toggleSite(site.id, checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor={`site-${site.id}`}
+                        className="text-sm font-normal"
+                      >
+                        {site.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Kosongkan agar karyawan dapat presensi di semua lokasi kantor.
+                  Site pertama yang dipilih menjadi site utama.
+                </p>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowDialog(false)}>
@@ -460,6 +699,56 @@ export default function EmployeesPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Kiosk PIN Dialog */}
+      <Dialog open={!!pinUser} onOpenChange={(open) => !open && setPinUser(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>PIN Kiosk - {pinUser?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {pinError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{pinError}</AlertDescription>
+              </Alert>
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              PIN dipakai karyawan untuk presensi di tablet kiosk bersama tanpa login.
+              {pinUser?.hasKioskPin
+                ? " PIN sudah diatur; isi PIN baru untuk menggantinya."
+                : " Karyawan belum memiliki PIN."}
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-pin">PIN Baru (4-6 digit)</Label>
+              <Input
+                id="kiosk-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                placeholder="••••"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            {pinUser?.hasKioskPin && (
+              <Button
+                variant="outline"
+                className="text-destructive hover:text-destructive bg-transparent"
+                onClick={() => handleSavePin(null)}
+              >
+                Hapus PIN
+              </Button>
+            )}
+            <Button onClick={() => handleSavePin(pin)}>Simpan PIN</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -0,0 +1,516 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  getUsers,
+  getLeaveRequests,
+  approveLeaveRequest,
+  cancelLeaveRequest,
+  getLeaveBalances,
+  updateLeaveQuota,
+  getLeaveAttachmentUrl,
+} from "@/lib/api-client";
+import type { User, LeaveRequest, LeaveBalance } from "@/lib/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CalendarX,
+  Calendar,
+  Check,
+  X,
+  Save,
+  AlertCircle,
+  CheckCircle2,
+  Paperclip,
+} from "lucide-react";
+
+export default function AdminLeavePage() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [quotaUserId, setQuotaUserId] = useState("");
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [quotaInputs, setQuotaInputs] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [selectedYear]);
+
+  useEffect(() => {
+    if (quotaUserId) {
+      loadBalances();
+    }
+  }, [quotaUserId, selectedYear]);
+
+  const loadData = async () => {
+    try {
+      const [allUsers, yearRequests] = await Promise.all([
+        getUsers(),
+        getLeaveRequests({ year: selectedYear }),
+      ]);
+      const employees = allUsers.filter((u) => u.role === "employee");
+      setUsers(employees);
+      setRequests(yearRequests);
+      if (!quotaUserId && employees.length > 0) {
+        setQuotaUserId(employees[0].id);
+      }
+    } catch (err) {
+      console.error("Error loading leave data:", err);
+    }
+  };
+
+  const loadBalances = async () => {
+    try {
+      showBalances(await getLeaveBalances({ userId: quotaUserId, year: selectedYear }));
+    } catch (err) {
+      console.error("Error loading leave balances:", err);
+    }
+  };
+
+  const showBalances = (userBalances: LeaveBalance[]) => {
+    setBalances(userBalances);
+    setQuotaInputs(
+      Object.fromEntries(
+        userBalances.map((b) => [b.leaveType.id, b.quota !== null ? String(b.quota) : ""])
+      )
+    );
+  };
+
+  const pendingRequests = requests.filter((r) => r.status === "pending");
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleApprove = async (requestId: string, approved: boolean) => {
+    setError(null);
+
+    const result = await approveLeaveRequest(requestId, approved);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    showSuccess(approved ? "Pengajuan cuti disetujui" : "Pengajuan cuti ditolak");
+    loadData();
+    if (quotaUserId) loadBalances();
+  };
+
+  // Cuts an approved leave short when the employee returns early
+  const handleCancel = async (requestId: string) => {
+    setError(null);
+
+    const result = await cancelLeaveRequest(requestId);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    showSuccess(result.message);
+    loadData();
+    if (quotaUserId) loadBalances();
+  };
+
+  const today = new Date().toISOString().split("T")[0];
+
+  const handleSaveQuota = async (leaveTypeId: string) => {
+    setError(null);
+
+    const value = quotaInputs[leaveTypeId]?.trim();
+    const result = await updateLeaveQuota({
+      userId: quotaUserId,
+      leaveTypeId,
+      year: selectedYear,
+      quota: value ? parseInt(value, 10) : null,
+    });
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    showBalances(result);
+    showSuccess("Jatah cuti berhasil diperbarui");
+  };
+
+  const getUserById = (userId: string) => users.find((u) => u.id === userId);
+
+  const getInitials = (name: string) => {
+    return name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const formatRange = (request: LeaveRequest) =>
+    request.startDate === request.endDate
+      ? formatDate(request.startDate)
+      : `${formatDate(request.startDate)} - ${formatDate(request.endDate)}`;
+
+  const getStatusBadge = (status: LeaveRequest["status"]) => {
+    switch (status) {
+      case "approved":
+        return <Badge className="bg-success text-success-foreground">Disetujui</Badge>;
+      case "rejected":
+        return <Badge variant="destructive">Ditolak</Badge>;
+      default:
+        return <Badge variant="secondary">Pending</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <CalendarX className="h-6 w-6" />
+            Cuti & Izin
+          </h1>
+          <p className="text-muted-foreground">
+            Kelola pengajuan cuti, sakit, izin dan jatah cuti karyawan
+          </p>
+        </div>
+        <Select
+          value={selectedYear.toString()}
+          onValueChange={(v) => setSelectedYear(parseInt(v))}
+        >
+          <SelectTrigger className="w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[2024, 2025, 2026].map((year) => (
+              <SelectItem key={year} value={year.toString()}>
+                {year}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Success Alert */}
+      {success && (
+        <Alert className="border-success bg-success/10">
+          <CheckCircle2 className="h-4 w-4 text-success" />
+          <AlertDescription className="text-success">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Error Alert */}
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="requests">
+        <TabsList>
+          <TabsTrigger value="requests">
+            Pengajuan
+            {pendingRequests.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {pendingRequests.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="quotas">Jatah Cuti</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="requests" className="space-y-6">
+          {/* Pending Requests */}
+          {pendingRequests.length > 0 && (
+            <Card className="border-warning">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <CalendarX className="h-5 w-5 text-warning" />
+                  Pengajuan Pending
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {pendingRequests.map((request) => {
+                    const employee = getUserById(request.userId);
+                    if (!employee) return null;
+
+                    return (
+                      <div
+                        key={request.id}
+                        className="flex items-center gap-4 p-4 rounded-lg border"
+                      >
+                        <Avatar>
+                          <AvatarFallback className="bg-primary/10 text-primary">
+                            {getInitials(employee.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="font-medium">{employee.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {request.leaveTypeName} | {formatRange(request)} ({request.days} hari kerja)
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Alasan: {request.reason}
+                          </p>
+                          {request.attachmentMissing && (
+                            <Badge variant="destructive" className="mt-1">
+                              Dokumen pendukung belum dilampirkan
+                            </Badge>
+                          )}
+                          {request.attachment && (
+                            <a
+                              href={getLeaveAttachmentUrl(request.id)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="mt-2 inline-block"
+                            >
+                              {request.attachment.mimeType.startsWith("image/") ? (
+                                <img
+                                  src={getLeaveAttachmentUrl(request.id)}
+                                  alt={request.attachment.name}
+                                  className="h-24 rounded border object-cover"
+                                />
+                              ) : (
+                                <span className="flex items-center gap-1 text-sm text-primary hover:underline">
+                                  <Paperclip className="h-3 w-3" />
+                                  {request.attachment.name}
+                                </span>
+                              )}
+                            </a>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-destructive hover:text-destructive bg-transparent"
+                            onClick={() => handleApprove(request.id, false)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleApprove(request.id, true)}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* All Requests */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Riwayat Pengajuan {selectedYear}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {requests.length === 0 ? (
+                <div className="text-center py-12">
+                  <Calendar className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">Belum ada pengajuan cuti</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Karyawan</TableHead>
+                        <TableHead>Jenis</TableHead>
+                        <TableHead>Tanggal</TableHead>
+                        <TableHead>Hari Kerja</TableHead>
+                        <TableHead>Alasan</TableHead>
+                        <TableHead>Lampiran</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Aksi</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {requests.map((request) => {
+                        const employee = getUserById(request.userId);
+                        if (!employee) return null;
+
+                        return (
+                          <TableRow key={request.id}>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Avatar className="h-8 w-8">
+                                  <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                                    {getInitials(employee.name)}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span>{employee.name}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{request.leaveTypeName}</TableCell>
+                            <TableCell>{formatRange(request)}</TableCell>
+                            <TableCell>{request.days} hari</TableCell>
+                            <TableCell className="max-w-[200px] truncate">
+                              {request.reason}
+                            </TableCell>
+                            <TableCell>
+                              {request.attachment ? (
+                                <a
+                                  href={getLeaveAttachmentUrl(request.id)}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center gap-1 text-sm text-primary hover:underline"
+                                >
+                                  <Paperclip className="h-3 w-3" />
+                                  Lihat
+                                </a>
+                              ) : request.attachmentMissing ? (
+                                <Badge variant="destructive">Belum ada</Badge>
+                              ) : (
+                                <span className="text-muted-foreground">-</span>
+                              )}
+                            </TableCell>
+                            <TableCell>{getStatusBadge(request.status)}</TableCell>
+                            <TableCell className="text-right">
+                              {request.status === "approved" && request.endDate >= today && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Batalkan sisa cuti"
+                                  onClick={() => handleCancel(request.id)}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="quotas" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                <CardTitle className="text-lg">Jatah Cuti {selectedYear}</CardTitle>
+                <Select value={quotaUserId} onValueChange={setQuotaUserId}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Pilih karyawan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map((employee) => (
+                      <SelectItem key={employee.id} value={employee.id}>
+                        {employee.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Jenis</TableHead>
+                      <TableHead>Jatah Bawaan</TableHead>
+                      <TableHead>Jatah Karyawan</TableHead>
+                      <TableHead>Terpakai</TableHead>
+                      <TableHead>Pending</TableHead>
+                      <TableHead>Sisa</TableHead>
+                      <TableHead className="text-right">Aksi</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {balances.map((balance) => (
+                      <TableRow key={balance.leaveType.id}>
+                        <TableCell className="font-medium">
+                          {balance.leaveType.name}
+                        </TableCell>
+                        <TableCell>
+                          {balance.leaveType.annualQuota !== null
+                            ? `${balance.leaveType.annualQuota} hari`
+                            : "Tanpa batas"}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={366}
+                            className="w-24"
+                            placeholder="Bawaan"
+                            value={quotaInputs[balance.leaveType.id] ?? ""}
+                            onChange={(e) =>
+                              setQuotaInputs({
+                                ...quotaInputs,
+                                [balance.leaveType.id]: e.target.value,
+                              })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>{balance.used} hari</TableCell>
+                        <TableCell>{balance.pending} hari</TableCell>
+                        <TableCell>
+                          {balance.remaining !== null ? `${balance.remaining} hari` : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSaveQuota(balance.leaveType.id)}
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-4">
+                Kosongkan jatah karyawan untuk memakai jatah bawaan jenis cuti.
+              </p>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -104,8 +104,10 @@ export default function AdminDashboard() {
   // Get employee attendance status
   const getEmployeeStatus = (employeeId: string) => {
     const record = todayRecords.find((r) => r.userId === employeeId);
+    if (record?.status === "business_trip") return "business_trip";
     if (!record?.checkIn) return "absent";
     if (record.status === "late") return "late";
+    if (record.status === "early_leave" || record.status === "half_day") return "early_leave";
     if (!record.checkOut) return "working";
     return "completed";
   };
@@ -243,6 +245,16 @@ export default function AdminDashboard() {
                           Terlambat
                         </Badge>
                       )}
+                      {status === "early_leave" && (
+                        <Badge variant="outline" className="border-warning text-warning">
+                          Pulang Cepat
+                        </Badge>
+                      )}
+                      {status === "business_trip" && (
+                        <Badge variant="outline" className="border-primary text-primary">
+                          Perjalanan Dinas
+                        </Badge>
+                      )}
                       {status === "working" && (
                         <Badge className="bg-primary">Bekerja</Badge>
                       )}
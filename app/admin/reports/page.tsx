@@ -5,8 +5,9 @@ import {
   getUsers,
   getAttendanceRecords,
   getOvertimeRecords,
-} from "@/lib/data-store";
-import type { User, AttendanceRecord, OvertimeRecord } from "@/lib/types";
+} from "@/lib/api-client";
+import { ATTENDANCE_MODE_LABELS } from "@/lib/types";
+import type { User, AttendanceRecord, AttendanceMode, OvertimeRecord } from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -33,14 +34,27 @@ export default function ReportsPage() {
   const [overtimeRecords, setOvertimeRecords] = useState<OvertimeRecord[]>([]);
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [selectedMode, setSelectedMode] = useState<"all" | AttendanceMode>("all");
 
   useEffect(() => {
-    const allUsers = getUsers();
-    setUsers(allUsers.filter((u) => u.role === "employee"));
-    setRecords(getAttendanceRecords());
-    setOvertimeRecords(getOvertimeRecords());
+    getUsers()
+      .then((allUsers) => setUsers(allUsers.filter((u) => u.role === "employee")))
+      .catch((err) => console.error("Error loading users:", err));
+    getOvertimeRecords()
+      .then(setOvertimeRecords)
+      .catch((err) => console.error("Error loading overtime:", err));
   }, []);
 
+  useEffect(() => {
+    getAttendanceRecords({
+      month: selectedMonth,
+      year: selectedYear,
+      mode: selectedMode === "all" ? undefined : selectedMode,
+    })
+      .then(setRecords)
+      .catch((err) => console.error("Error loading attendance:", err));
+  }, [selectedMonth, selectedYear, selectedMode]);
+
   const monthNames = [
     "Januari",
     "Februari",
@@ -56,6 +70,10 @@ export default function ReportsPage() {
     "Desember",
   ];
 
+  const reportTitle = `Laporan Presensi - ${monthNames[selectedMonth]} ${selectedYear}${
+    selectedMode === "all" ? "" : ` (${ATTENDANCE_MODE_LABELS[selectedMode]})`
+  }`;
+
   // Filter records by selected month/year
   const filteredRecords = records.filter((r) => {
     const date = new Date(r.date);
@@ -64,12 +82,13 @@ export default function ReportsPage() {
     );
   });
 
+  // Only recognized hours count: the approved plan plus any approved excess
   const filteredOvertime = overtimeRecords.filter((o) => {
     const date = new Date(o.date);
     return (
       date.getMonth() === selectedMonth &&
       date.getFullYear() === selectedYear &&
-      o.status === "approved"
+      o.approvedHours > 0
     );
   });
 
@@ -77,13 +96,31 @@ export default function ReportsPage() {
   const getEmployeeStats = (userId: string) => {
     const userRecords = filteredRecords.filter((r) => r.userId === userId);
     const userOvertime = filteredOvertime.filter((o) => o.userId === userId);
+    const lateRecords = userRecords.filter((r) => r.status === "late");
+    const lateMinutes = lateRecords.reduce((sum, r) => sum + r.lateMinutes, 0);
 
     return {
       present: userRecords.filter((r) => r.status === "present").length,
-      late: userRecords.filter((r) => r.status === "late").length,
+      late: lateRecords.length,
+      lateMinutes,
+      averageLateMinutes:
+        lateRecords.length > 0 ? Math.round(lateMinutes / lateRecords.length) : 0,
+      absent: userRecords.filter((r) => r.status === "absent").length,
+      leave: userRecords.filter((r) => r.status === "leave").length,
+      sick: userRecords.filter((r) => r.status === "sick").length,
+      permit: userRecords.filter((r) => r.status === "permit").length,
+      earlyLeave: userRecords.filter((r) => r.status === "early_leave").length,
+      halfDay: userRecords.filter((r) => r.status === "half_day").length,
+      businessTrip: userRecords.filter((r) => r.status === "business_trip").length,
       totalDays: userRecords.filter((r) => r.checkIn).length,
+      wfhDays: userRecords.filter((r) => r.mode === "wfh").length,
+      fieldDays: userRecords.filter((r) => r.mode === "field").length,
+      totalBreakMinutes: userRecords.reduce((sum, r) => sum + (r.breakMinutes ?? 0), 0),
       totalHours: userRecords.reduce((sum, r) => sum + r.workHours, 0),
-      overtimeHours: userOvertime.reduce((sum, o) => sum + o.duration, 0),
+      overtimeHours: userOvertime.reduce((sum, o) => sum + o.approvedHours, 0),
+      overtimePay: userOvertime.reduce((sum, o) => sum + (o.payAmount ?? 0), 0),
+      // Pay cannot be computed until the employee's monthly salary is set
+      overtimePayMissing: userOvertime.some((o) => o.payAmount === null),
     };
   };
 
@@ -96,9 +133,22 @@ export default function ReportsPage() {
       "Jabatan",
       "Hadir Tepat Waktu",
       "Terlambat",
+      "Total Menit Terlambat",
+      "Rata-rata Menit Terlambat",
+      "Tidak Hadir",
+      "Cuti",
+      "Sakit",
+      "Izin",
+      "Pulang Cepat",
+      "Setengah Hari",
+      "Perjalanan Dinas",
       "Total Hari Kerja",
+      "WFH",
+      "Dinas Luar",
+      "Total Menit Istirahat",
       "Total Jam Kerja",
       "Jam Lembur",
+      "Upah Lembur (Rp)",
     ];
 
     const rows = users.map((user) => {
@@ -110,14 +160,27 @@ export default function ReportsPage() {
         user.position,
         stats.present,
         stats.late,
+        stats.lateMinutes,
+        stats.averageLateMinutes,
+        stats.absent,
+        stats.leave,
+        stats.sick,
+        stats.permit,
+        stats.earlyLeave,
+        stats.halfDay,
+        stats.businessTrip,
         stats.totalDays,
+        stats.wfhDays,
+        stats.fieldDays,
+        stats.totalBreakMinutes,
         stats.totalHours.toFixed(1),
         stats.overtimeHours.toFixed(1),
+        stats.overtimePayMissing ? "" : stats.overtimePay,
       ];
     });
 
     const csvContent = [
-      `Laporan Presensi - ${monthNames[selectedMonth]} ${selectedYear}`,
+      reportTitle,
       "",
       headers.join(","),
       ...rows.map((row) => row.join(",")),
@@ -139,9 +202,22 @@ export default function ReportsPage() {
       "Jabatan",
       "Hadir Tepat Waktu",
       "Terlambat",
+      "Total Menit Terlambat",
+      "Rata-rata Menit Terlambat",
+      "Tidak Hadir",
+      "Cuti",
+      "Sakit",
+      "Izin",
+      "Pulang Cepat",
+      "Setengah Hari",
+      "Perjalanan Dinas",
       "Total Hari Kerja",
+      "WFH",
+      "Dinas Luar",
+      "Total Menit Istirahat",
       "Total Jam Kerja",
       "Jam Lembur",
+      "Upah Lembur (Rp)",
     ];
 
     const rows = users.map((user) => {
@@ -153,9 +229,22 @@ export default function ReportsPage() {
         user.position,
         stats.present,
         stats.late,
+        stats.lateMinutes,
+        stats.averageLateMinutes,
+        stats.absent,
+        stats.leave,
+        stats.sick,
+        stats.permit,
+        stats.earlyLeave,
+        stats.halfDay,
+        stats.businessTrip,
         stats.totalDays,
+        stats.wfhDays,
+        stats.fieldDays,
+        stats.totalBreakMinutes,
         stats.totalHours.toFixed(1),
         stats.overtimeHours.toFixed(1),
+        stats.overtimePayMissing ? "" : stats.overtimePay,
       ];
     });
 
@@ -164,7 +253,7 @@ export default function ReportsPage() {
       <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel">
       <head><meta charset="UTF-8"></head>
       <body>
-        <h2>Laporan Presensi - ${monthNames[selectedMonth]} ${selectedYear}</h2>
+        <h2>${reportTitle}</h2>
         <table border="1">
           <tr>${headers.map((h) => `<th>${h}</th>`).join("")}</tr>
           ${rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join("")}</tr>`).join("")}
@@ -187,12 +276,30 @@ export default function ReportsPage() {
     (r) => r.status === "present"
   ).length;
   const totalLate = filteredRecords.filter((r) => r.status === "late").length;
+  const totalLateMinutes = filteredRecords.reduce(
+    (sum, r) => sum + r.lateMinutes,
+    0
+  );
+  const averageLateMinutes =
+    totalLate > 0 ? Math.round(totalLateMinutes / totalLate) : 0;
+  const totalAbsent = filteredRecords.filter((r) => r.status === "absent").length;
+  const totalLeave = filteredRecords.filter((r) =>
+    ["leave", "sick", "permit"].includes(r.status)
+  ).length;
+  const totalEarlyLeave = filteredRecords.filter((r) => r.status === "early_leave").length;
+  const totalHalfDay = filteredRecords.filter((r) => r.status === "half_day").length;
   const totalWorkHours = filteredRecords.reduce((sum, r) => sum + r.workHours, 0);
   const totalOvertimeHours = filteredOvertime.reduce(
-    (sum, o) => sum + o.duration,
+    (sum, o) => sum + o.approvedHours,
+    0
+  );
+  const totalOvertimePay = filteredOvertime.reduce(
+    (sum, o) => sum + (o.payAmount ?? 0),
     0
   );
 
+  const formatCurrency = (amount: number) => `Rp ${amount.toLocaleString("id-ID")}`;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -207,6 +314,22 @@ export default function ReportsPage() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Select
+            value={selectedMode}
+            onValueChange={(v) => setSelectedMode(v as typeof selectedMode)}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Mode</SelectItem>
+              {(Object.keys(ATTENDANCE_MODE_LABELS) as AttendanceMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {ATTENDANCE_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Select
             value={selectedMonth.toString()}
             onValueChange={(v) => setSelectedMonth(parseInt(v))}
@@ -253,7 +376,7 @@ export default function ReportsPage() {
       </div>
 
       {/* Summary Stats */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
         <Card>
           <CardContent className="pt-6">
             <div className="text-center">
@@ -267,6 +390,42 @@ export default function ReportsPage() {
             <div className="text-center">
               <p className="text-3xl font-bold text-warning">{totalLate}</p>
               <p className="text-sm text-muted-foreground">Terlambat</p>
+              {totalLate > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {totalLateMinutes} menit (rata-rata {averageLateMinutes} menit)
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center">
+              <p className="text-3xl font-bold text-destructive">{totalAbsent}</p>
+              <p className="text-sm text-muted-foreground">Tidak Hadir</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center">
+              <p className="text-3xl font-bold text-primary">{totalLeave}</p>
+              <p className="text-sm text-muted-foreground">Cuti / Sakit / Izin</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center">
+              <p className="text-3xl font-bold text-warning">
+                {totalEarlyLeave + totalHalfDay}
+              </p>
+              <p className="text-sm text-muted-foreground">Pulang Cepat</p>
+              {totalHalfDay > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {totalHalfDay} setengah hari
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -290,6 +449,16 @@ export default function ReportsPage() {
             </div>
           </CardContent>
         </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center">
+              <p className="text-xl font-bold text-accent py-1">
+                {formatCurrency(totalOvertimePay)}
+              </p>
+              <p className="text-sm text-muted-foreground">Upah Lembur</p>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Detailed Report */}
@@ -309,14 +478,22 @@ export default function ReportsPage() {
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
+                    <TableHead className="text-center">WFH / Dinas Luar</TableHead>
                   <TableRow>
                     <TableHead>Karyawan</TableHead>
                     <TableHead>Departemen</TableHead>
                     <TableHead className="text-center">Tepat Waktu</TableHead>
                     <TableHead className="text-center">Terlambat</TableHead>
+                    <TableHead className="text-center">Menit Terlambat</TableHead>
+                    <TableHead className="text-center">Tidak Hadir</TableHead>
+                    <TableHead className="text-center">Cuti / Sakit / Izin</TableHead>
+                    <TableHead className="text-center">Pulang Cepat / Setengah Hari</TableHead>
+                    <TableHead className="text-center">Perjalanan Dinas</TableHead>
                     <TableHead className="text-center">Total Hari</TableHead>
+                    <TableHead className="text-center">Istirahat</TableHead>
                     <TableHead className="text-center">Jam Kerja</TableHead>
                     <TableHead className="text-center">Lembur</TableHead>
+                    <TableHead className="text-right">Upah Lembur</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -344,9 +521,49 @@ export default function ReportsPage() {
                             {stats.late}
                           </Badge>
                         </TableCell>
+                        <TableCell className="text-center">
+                          {stats.lateMinutes > 0 ? (
+                            <div>
+                              <p className="font-medium">{stats.lateMinutes} menit</p>
+                              <p className="text-xs text-muted-foreground">
+                                rata-rata {stats.averageLateMinutes} menit
+                              </p>
+                            </div>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {stats.absent > 0 ? (
+                            <Badge variant="destructive">{stats.absent}</Badge>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {stats.leave + stats.sick + stats.permit > 0
+                            ? `${stats.leave} / ${stats.sick} / ${stats.permit}`
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {stats.earlyLeave + stats.halfDay > 0
+                            ? `${stats.earlyLeave} / ${stats.halfDay}`
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {stats.businessTrip > 0 ? `${stats.businessTrip} hari` : "-"}
+                        </TableCell>
                         <TableCell className="text-center font-medium">
                           {stats.totalDays}
                         </TableCell>
+                        <TableCell className="text-center">
+                          {stats.wfhDays + stats.fieldDays > 0
+                            ? `${stats.wfhDays} / ${stats.fieldDays}`
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {stats.totalBreakMinutes > 0 ? `${stats.totalBreakMinutes} menit` : "-"}
+                        </TableCell>
                         <TableCell className="text-center font-medium">
                           {stats.totalHours.toFixed(1)} jam
                         </TableCell>
@@ -359,6 +576,17 @@ export default function ReportsPage() {
                             "-"
                           )}
                         </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {stats.overtimePayMissing ? (
+                            <span className="text-xs text-muted-foreground">
+                              Upah belum diatur
+                            </span>
+                          ) : stats.overtimePay > 0 ? (
+                            formatCurrency(stats.overtimePay)
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
                       </TableRow>
                     );
                   })}
@@ -0,0 +1,609 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  getUsers,
+  getShifts,
+  addShift,
+  deleteShift,
+  getRoster,
+  assignRoster,
+  clearRoster,
+} from "@/lib/api-client";
+import { addDays, getDayOfWeek } from "@/lib/time";
+import type { User, Shift, RosterEntry } from "@/lib/types";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CalendarClock,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  RotateCcw,
+  AlertCircle,
+  CheckCircle2,
+  X,
+} from "lucide-react";
+
+// Nilai Select untuk langkah pola "libur"
+const DAY_OFF = "off";
+
+const initialShiftForm = {
+  name: "",
+  startTime: "07:00",
+  endTime: "15:00",
+  minWorkHours: "8",
+  lateToleranceMinutes: "0",
+  minBreakMinutes: "0",
+};
+
+// Senin pada minggu yang memuat tanggal tersebut
+const getWeekStart = (date: string) => {
+  return addDays(date, -((getDayOfWeek(date) + 6) % 7));
+};
+
+export default function RosterPage() {
+  const today = new Date().toISOString().split("T")[0];
+  const [users, setUsers] = useState<User[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [weekStart, setWeekStart] = useState(getWeekStart(today));
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [showShiftDialog, setShowShiftDialog] = useState(false);
+  const [shiftForm, setShiftForm] = useState(initialShiftForm);
+  const [shiftError, setShiftError] = useState<string | null>(null);
+
+  const [showAssignDialog, setShowAssignDialog] = useState(false);
+  const [assignUserIds, setAssignUserIds] = useState<string[]>([]);
+  const [assignStartDate, setAssignStartDate] = useState(today);
+  const [assignEndDate, setAssignEndDate] = useState(addDays(today, 27));
+  const [pattern, setPattern] = useState<string[]>([]);
+  const [assignError, setAssignError] = useState<string | null>(null);
+
+  const weekDates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const weekEnd = weekDates[6];
+
+  useEffect(() => {
+    getUsers()
+      .then((data) => setUsers(data.filter((u) => u.role === "employee")))
+      .catch((err) => console.error("Error loading users:", err));
+    getShifts()
+      .then(setShifts)
+      .catch((err) => console.error("Error loading shifts:", err));
+  }, []);
+
+  useEffect(() => {
+    loadRoster();
+  }, [weekStart]);
+
+  const loadRoster = async () => {
+    try {
+      setRoster(await getRoster({ startDate: weekStart, endDate: weekEnd }));
+    } catch (err) {
+      console.error("Error loading roster:", err);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const formatDay = (dateStr: string) => {
+    const dayNames = ["Min", "Sen", "Sel", "Rab", "Kam", "Jum", "Sab"];
+    const [, month, day] = dateStr.split("-");
+    return `${dayNames[getDayOfWeek(dateStr)]} ${Number(day)}/${Number(month)}`;
+  };
+
+  const getEntry = (userId: string, date: string) => {
+    return roster.find((r) => r.userId === userId && r.date === date);
+  };
+
+  const handleAddShift = async () => {
+    setShiftError(null);
+
+    if (!shiftForm.name || !shiftForm.startTime || !shiftForm.endTime) {
+      setShiftError("Nama dan jam shift wajib diisi");
+      return;
+    }
+
+    const result = await addShift({
+      name: shiftForm.name,
+      startTime: shiftForm.startTime,
+      endTime: shiftForm.endTime,
+      minWorkHours: Number(shiftForm.minWorkHours),
+      lateToleranceMinutes: Number(shiftForm.lateToleranceMinutes),
+      minBreakMinutes: Number(shiftForm.minBreakMinutes),
+    });
+
+    if ("error" in result) {
+      setShiftError(result.error);
+      return;
+    }
+
+    setShifts(result);
+    setShiftForm(initialShiftForm);
+    setShowShiftDialog(false);
+    showSuccess("Shift berhasil ditambahkan");
+  };
+
+  const handleDeleteShift = async (id: string) => {
+    try {
+      setShifts(await deleteShift(id));
+      showSuccess("Shift berhasil dihapus");
+    } catch (err) {
+      console.error("Error deleting shift:", err);
+    }
+  };
+
+  const openAssignDialog = () => {
+    setAssignUserIds([]);
+    setAssignStartDate(weekStart);
+    setAssignEndDate(addDays(weekStart, 27));
+    setPattern(shifts.length > 0 ? [shifts[0].id] : []);
+    setAssignError(null);
+    setShowAssignDialog(true);
+  };
+
+  const toggleAssignUser = (userId: string, checked: boolean) => {
+    setAssignUserIds(
+      checked
+        ? [...assignUserIds, userId]
+        : assignUserIds.filter((id) => id !== userId)
+    );
+  };
+
+  const updatePatternStep = (index: number, value: string) => {
+    setPattern(pattern.map((step, i) => (i === index ? value : step)));
+  };
+
+  const handleAssign = async () => {
+    setAssignError(null);
+
+    if (assignUserIds.length === 0) {
+      setAssignError("Pilih minimal satu karyawan");
+      return;
+    }
+
+    if (pattern.length === 0) {
+      setAssignError("Pola shift wajib diisi");
+      return;
+    }
+
+    const result = await assignRoster({
+      userIds: assignUserIds,
+      startDate: assignStartDate,
+      endDate: assignEndDate,
+      pattern: pattern.map((step) => (step === DAY_OFF ? null : step)),
+    });
+
+    if ("error" in result) {
+      setAssignError(result.error);
+      return;
+    }
+
+    setShowAssignDialog(false);
+    loadRoster();
+    showSuccess(`Jadwal shift berhasil disimpan untuk ${assignUserIds.length} karyawan`);
+  };
+
+  const handleClearWeek = async (employee: User) => {
+    if (await clearRoster(employee.id, weekStart, weekEnd)) {
+      loadRoster();
+      showSuccess(`Jadwal shift ${employee.name} minggu ini dikembalikan ke jadwal default`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <CalendarClock className="h-6 w-6" />
+            Jadwal Shift
+          </h1>
+          <p className="text-muted-foreground">
+            Atur shift kerja dan roster karyawan per tanggal
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setShiftForm(initialShiftForm);
+              setShiftError(null);
+              setShowShiftDialog(true);
+            }}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Tambah Shift
+          </Button>
+          <Button
+            onClick={openAssignDialog}
+            disabled={shifts.length === 0}
+            className="gap-2"
+          >
+            <CalendarClock className="h-4 w-4" />
+            Atur Jadwal
+          </Button>
+        </div>
+      </div>
+
+      {/* Alerts */}
+      {success && (
+        <Alert className="border-success bg-success/10">
+          <CheckCircle2 className="h-4 w-4 text-success" />
+          <AlertDescription className="text-success">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Shift List */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Daftar Shift</CardTitle>
+          <CardDescription>
+            Karyawan tanpa roster pada suatu tanggal mengikuti jadwal kerja harian
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shifts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Belum ada shift</p>
+          ) : (
+            <div className="flex flex-wrap gap-3">
+              {shifts.map((shift) => (
+                <div
+                  key={shift.id}
+                  className="flex items-center gap-3 rounded-lg border p-3"
+                >
+                  <div>
+                    <p className="font-medium">{shift.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {shift.startTime} - {shift.endTime}
+                      {shift.endTime < shift.startTime && " (lintas hari)"} | min.{" "}
+                      {shift.minWorkHours} jam | toleransi {shift.lateToleranceMinutes} menit | istirahat{" "}
+                      {shift.minBreakMinutes} menit
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleDeleteShift(shift.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Weekly Roster */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">
+              Roster {formatDay(weekStart)} - {formatDay(weekEnd)}
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setWeekStart(addDays(weekStart, -7))}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setWeekStart(addDays(weekStart, 7))}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Karyawan</TableHead>
+                  {weekDates.map((date) => (
+                    <TableHead key={date} className="text-center">
+                      {formatDay(date)}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((employee) => (
+                  <TableRow key={employee.id}>
+                    <TableCell>
+                      <p className="font-medium">{employee.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {employee.department}
+                      </p>
+                    </TableCell>
+                    {weekDates.map((date) => {
+                      const entry = getEntry(employee.id, date);
+                      return (
+                        <TableCell key={date} className="text-center">
+                          {!entry ? (
+                            <span className="text-muted-foreground">-</span>
+                          ) : entry.shiftId ? (
+                            <Badge variant="outline">{entry.shiftName}</Badge>
+                          ) : (
+                            <Badge variant="secondary">Libur</Badge>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Kembalikan ke jadwal default"
+                        onClick={() => handleClearWeek(employee)}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Add Shift Dialog */}
+      <Dialog open={showShiftDialog} onOpenChange={setShowShiftDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Tambah Shift</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {shiftError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{shiftError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="shiftName">Nama Shift *</Label>
+              <Input
+                id="shiftName"
+                value={shiftForm.name}
+                onChange={(e) => setShiftForm({ ...shiftForm, name: e.target.value })}
+                placeholder="Contoh: Pagi"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shiftStart">Jam Masuk</Label>
+                <Input
+                  id="shiftStart"
+                  type="time"
+                  value={shiftForm.startTime}
+                  onChange={(e) =>
+                    setShiftForm({ ...shiftForm, startTime: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shiftEnd">Jam Pulang</Label>
+                <Input
+                  id="shiftEnd"
+                  type="time"
+                  value={shiftForm.endTime}
+                  onChange={(e) =>
+                    setShiftForm({ ...shiftForm, endTime: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shiftMinHours">Min. Jam</Label>
+                <Input
+                  id="shiftMinHours"
+                  type="number"
+                  min="1"
+                  max="24"
+                  step="0.5"
+                  value={shiftForm.minWorkHours}
+                  onChange={(e) =>
+                    setShiftForm({ ...shiftForm, minWorkHours: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shiftTolerance">Toleransi Terlambat (menit)</Label>
+              <Input
+                id="shiftTolerance"
+                type="number"
+                min="0"
+                max="240"
+                value={shiftForm.lateToleranceMinutes}
+                onChange={(e) =>
+                  setShiftForm({ ...shiftForm, lateToleranceMinutes: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shiftMinBreak">Istirahat Wajib (menit)</Label>
+              <Input
+                id="shiftMinBreak"
+                type="number"
+                min="0"
+                max="240"
+                value={shiftForm.minBreakMinutes}
+                onChange={(e) =>
+                  setShiftForm({ ...shiftForm, minBreakMinutes: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowShiftDialog(false)}>
+              Batal
+            </Button>
+            <Button onClick={handleAddShift}>Simpan</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Assign Roster Dialog */}
+      <Dialog open={showAssignDialog} onOpenChange={setShowAssignDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Atur Jadwal Shift</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {assignError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{assignError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label>Karyawan</Label>
+              <div className="grid gap-2 max-h-40 overflow-y-auto rounded-lg border p-3">
+                {users.map((employee) => (
+                  <div key={employee.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`assign-${employee.id}`}
+                      checked={assignUserIds.includes(employee.id)}
+                      onCheckedChange={(checked) =>
+                        toggleAssignUser(employee.id, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`assign-${employee.id}`}
+                      className="text-sm font-normal"
+                    >
+                      {employee.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assignStart">Tanggal Mulai</Label>
+                <Input
+                  id="assignStart"
+                  type="date"
+                  value={assignStartDate}
+                  onChange={(e) => setAssignStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignEnd">Tanggal Akhir</Label>
+                <Input
+                  id="assignEnd"
+                  type="date"
+                  value={assignEndDate}
+                  onChange={(e) => setAssignEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Pola Rotasi</Label>
+              <div className="space-y-2">
+                {pattern.map((step, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-14 text-sm text-muted-foreground">
+                      Hari {index + 1}
+                    </span>
+                    <Select
+                      value={step}
+                      onValueChange={(value) => updatePatternStep(index, value)}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {shifts.map((shift) => (
+                          <SelectItem key={shift.id} value={shift.id}>
+                            {shift.name} ({shift.startTime} - {shift.endTime})
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={DAY_OFF}>Libur</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={pattern.length === 1}
+                      onClick={() =>
+                        setPattern(pattern.filter((_, i) => i !== index))
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setPattern([...pattern, DAY_OFF])}
+              >
+                <Plus className="h-4 w-4" />
+                Tambah Hari
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Pola diulang mulai tanggal mulai. Contoh 2 hari masuk 1 libur:
+                Pagi, Pagi, Libur.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAssignDialog(false)}>
+              Batal
+            </Button>
+            <Button onClick={handleAssign}>Simpan Jadwal</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
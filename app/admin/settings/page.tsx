@@ -1,17 +1,27 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { COMPANY_NAME } from "@/lib/types";
-import type { WorkSchedule, Holiday } from "@/lib/types";
+import { COMPANY_NAME, INDONESIAN_TIMEZONES } from "@/lib/types";
+import type { WorkSchedule, Holiday, OfficeLocation, KioskDevice } from "@/lib/types";
+import { useAuth } from "@/lib/auth-context";
 import {
-  getWorkSchedules,
-  updateWorkSchedule,
-  resetWorkSchedules,
   getHolidays,
   addHoliday,
   deleteHoliday,
   resetHolidays,
 } from "@/lib/data-store";
+import {
+  getWorkSchedules,
+  updateWorkSchedule,
+  resetWorkSchedules,
+  getOfficeLocations,
+  addOfficeLocation,
+  updateOfficeLocation,
+  deleteOfficeLocation,
+  getKioskDevices,
+  registerKioskDevice,
+  deleteKioskDevice,
+} from "@/lib/api-client";
 import {
   Card,
   CardContent,
@@ -23,6 +33,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -55,8 +73,25 @@ import {
   RotateCcw,
   Check,
   X,
+  MapPin,
+  QrCode,
+  Tablet,
 } from "lucide-react";
 
+const initialLocationForm = {
+  name: "",
+  latitude: "",
+  longitude: "",
+  radiusMeters: "100",
+  timezone: "Asia/Jakarta",
+  useScheduleOverride: false,
+  startTime: "08:00",
+  endTime: "16:00",
+  minWorkHours: "8",
+  lateToleranceMinutes: "0",
+  minBreakMinutes: "0",
+};
+
 export default function SettingsPage() {
   const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
   const [holidays, setHolidays] = useState<Holiday[]>([]);
@@ -65,10 +100,21 @@ export default function SettingsPage() {
     startTime: "",
     endTime: "",
     minWorkHours: 0,
+    lateToleranceMinutes: 0,
+    minBreakMinutes: 0,
   });
   const [newHoliday, setNewHoliday] = useState({ date: "", name: "" });
   const [holidayError, setHolidayError] = useState("");
   const [isAddHolidayOpen, setIsAddHolidayOpen] = useState(false);
+  const [officeLocations, setOfficeLocations] = useState<OfficeLocation[]>([]);
+  const [newLocation, setNewLocation] = useState(initialLocationForm);
+  const [locationError, setLocationError] = useState("");
+  const [isAddLocationOpen, setIsAddLocationOpen] = useState(false);
+  const [kioskDevices, setKioskDevices] = useState<KioskDevice[]>([]);
+  const [newDevice, setNewDevice] = useState({ locationId: "", name: "", screen: "tablet" });
+  const [deviceError, setDeviceError] = useState("");
+  const [isRegisterDeviceOpen, setIsRegisterDeviceOpen] = useState(false);
+  const { logout } = useAuth();
 
   const dayNames = [
     "Minggu",
@@ -81,8 +127,16 @@ export default function SettingsPage() {
   ];
 
   useEffect(() => {
-    setSchedules(getWorkSchedules());
+    getWorkSchedules()
+      .then(setSchedules)
+      .catch((err) => console.error("Error loading schedules:", err));
     setHolidays(getHolidays());
+    getOfficeLocations()
+      .then(setOfficeLocations)
+      .catch((err) => console.error("Error loading office locations:", err));
+    getKioskDevices()
+      .then(setKioskDevices)
+      .catch((err) => console.error("Error loading kiosk devices:", err));
   }, []);
 
   const handleEditSchedule = (dayOfWeek: number) => {
@@ -92,27 +146,31 @@ export default function SettingsPage() {
         startTime: schedule.startTime,
         endTime: schedule.endTime,
         minWorkHours: schedule.minWorkHours,
+        lateToleranceMinutes: schedule.lateToleranceMinutes,
+        minBreakMinutes: schedule.minBreakMinutes,
       });
       setEditingDay(dayOfWeek);
     }
   };
 
-  const handleSaveSchedule = () => {
+  const handleSaveSchedule = async () => {
     if (editingDay !== null) {
-      const updated = updateWorkSchedule(editingDay, editForm);
-      setSchedules(updated);
-      setEditingDay(null);
+      try {
+        setSchedules(await updateWorkSchedule(editingDay, editForm));
+        setEditingDay(null);
+      } catch (err) {
+        console.error("Error saving schedule:", err);
+      }
     }
   };
 
   const handleCancelEdit = () => {
     setEditingDay(null);
-    setEditForm({ startTime: "", endTime: "", minWorkHours: 0 });
+    setEditForm({ startTime: "", endTime: "", minWorkHours: 0, lateToleranceMinutes: 0, minBreakMinutes: 0 });
   };
 
-  const handleResetSchedules = () => {
-    const reset = resetWorkSchedules();
-    setSchedules(reset);
+  const handleResetSchedules = async () => {
+    setSchedules(await resetWorkSchedules());
   };
 
   const handleAddHoliday = () => {
@@ -141,6 +199,103 @@ export default function SettingsPage() {
     setHolidays(reset);
   };
 
+  const resetLocationForm = () => {
+    setNewLocation(initialLocationForm);
+    setLocationError("");
+  };
+
+  const handleAddLocation = async () => {
+    const latitude = Number.parseFloat(newLocation.latitude);
+    const longitude = Number.parseFloat(newLocation.longitude);
+    const radiusMeters = Number.parseInt(newLocation.radiusMeters, 10);
+
+    if (!newLocation.name || Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      setLocationError("Nama dan koordinat lokasi harus diisi");
+      return;
+    }
+    if (Number.isNaN(radiusMeters) || radiusMeters <= 0) {
+      setLocationError("Radius harus lebih dari 0 meter");
+      return;
+    }
+
+    const minWorkHours = Number.parseFloat(newLocation.minWorkHours);
+    if (
+      newLocation.useScheduleOverride &&
+      (!newLocation.startTime || !newLocation.endTime || Number.isNaN(minWorkHours) || minWorkHours <= 0)
+    ) {
+      setLocationError("Jadwal khusus site harus diisi lengkap");
+      return;
+    }
+
+    const result = await addOfficeLocation({
+      name: newLocation.name,
+      latitude,
+      longitude,
+      radiusMeters,
+      timezone: newLocation.timezone,
+      scheduleOverride: newLocation.useScheduleOverride
+        ? {
+            startTime: newLocation.startTime,
+            endTime: newLocation.endTime,
+            minWorkHours,
+            lateToleranceMinutes: Number.parseInt(newLocation.lateToleranceMinutes, 10) || 0,
+            minBreakMinutes: Number.parseInt(newLocation.minBreakMinutes, 10) || 0,
+          }
+        : null,
+    });
+    if ("error" in result) {
+      setLocationError(result.error);
+    } else {
+      setOfficeLocations(result);
+      resetLocationForm();
+      setIsAddLocationOpen(false);
+    }
+  };
+
+  const handleDeleteLocation = async (id: string) => {
+    try {
+      setOfficeLocations(await deleteOfficeLocation(id));
+    } catch (err) {
+      console.error("Error deleting office location:", err);
+    }
+  };
+
+  // Enabling again issues a new kiosk secret, so codes from an old screen stop working
+  const handleToggleKiosk = async (id: string, enabled: boolean) => {
+    const result = await updateOfficeLocation(id, { kioskEnabled: enabled });
+    if ("error" in result) {
+      console.error("Error updating kiosk:", result.error);
+    } else {
+      setOfficeLocations(result);
+    }
+  };
+
+  // Registration happens on the device itself; the admin session is ended so the
+  // shared device is left logged in only as a kiosk (PIN tablet or QR screen)
+  const handleRegisterDevice = async () => {
+    setDeviceError("");
+
+    if (!newDevice.locationId || !newDevice.name.trim()) {
+      setDeviceError("Pilih lokasi dan isi nama perangkat");
+      return;
+    }
+
+    const result = await registerKioskDevice(newDevice.locationId, newDevice.name.trim());
+    if ("error" in result) {
+      setDeviceError(result.error);
+      return;
+    }
+
+    await logout();
+    window.location.href = newDevice.screen === "qr" ? "/kiosk" : "/tablet";
+  };
+
+  const handleDeleteDevice = async (id: string) => {
+    if (await deleteKioskDevice(id)) {
+      setKioskDevices(kioskDevices.filter((device) => device.id !== id));
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
     return date.toLocaleDateString("id-ID", {
@@ -283,6 +438,38 @@ export default function SettingsPage() {
                           className="w-16 h-8"
                         />
                       </div>
+                      <div className="flex items-center gap-2">
+                        <Label className="text-xs">Toleransi</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={240}
+                          value={editForm.lateToleranceMinutes}
+                          onChange={(e) =>
+                            setEditForm({
+                              ...editForm,
+                              lateToleranceMinutes: Number(e.target.value),
+                            })
+                          }
+                          className="w-16 h-8"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Label className="text-xs">Istirahat</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={240}
+                          value={editForm.minBreakMinutes}
+                          onChange={(e) =>
+                            setEditForm({
+                              ...editForm,
+                              minBreakMinutes: Number(e.target.value),
+                            })
+                          }
+                          className="w-16 h-8"
+                        />
+                      </div>
                       <Button
                         size="sm"
                         variant="ghost"
@@ -321,6 +508,14 @@ export default function SettingsPage() {
                         <span className="text-muted-foreground">Min:</span>{" "}
                         <strong>{schedule.minWorkHours} jam</strong>
                       </span>
+                      <span className="text-sm">
+                        <span className="text-muted-foreground">Toleransi:</span>{" "}
+                        <strong>{schedule.lateToleranceMinutes} menit</strong>
+                      </span>
+                      <span className="text-sm">
+                        <span className="text-muted-foreground">Istirahat:</span>{" "}
+                        <strong>{schedule.minBreakMinutes} menit</strong>
+                      </span>
                       <Button
                         size="sm"
                         variant="ghost"
@@ -482,6 +677,430 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Office Locations */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Lokasi Kantor & Site
+              </CardTitle>
+              <CardDescription>
+                Presensi hanya diterima dalam radius lokasi berikut. Karyawan
+                yang ditugaskan ke site tertentu hanya dapat presensi di site tersebut.
+              </CardDescription>
+            </div>
+            <Dialog
+              open={isAddLocationOpen}
+              onOpenChange={(open) => {
+                setIsAddLocationOpen(open);
+                if (!open) resetLocationForm();
+              }}
+            >
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Tambah Lokasi
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Tambah Lokasi Kantor</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="location-name">Nama Lokasi</Label>
+                    <Input
+                      id="location-name"
+                      placeholder="Contoh: Kantor Pusat"
+                      value={newLocation.name}
+                      onChange={(e) =>
+                        setNewLocation({ ...newLocation, name: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="location-latitude">Latitude</Label>
+                      <Input
+                        id="location-latitude"
+                        type="number"
+                        step="any"
+                        placeholder="-6.200000"
+                        value={newLocation.latitude}
+                        onChange={(e) =>
+                          setNewLocation({ ...newLocation, latitude: e.target.value })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="location-longitude">Longitude</Label>
+                      <Input
+                        id="location-longitude"
+                        type="number"
+                        step="any"
+                        placeholder="106.816666"
+                        value={newLocation.longitude}
+                        onChange={(e) =>
+                          setNewLocation({ ...newLocation, longitude: e.target.value })
+                        }
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="location-radius">Radius (meter)</Label>
+                    <Input
+                      id="location-radius"
+                      type="number"
+                      min={1}
+                      value={newLocation.radiusMeters}
+                      onChange={(e) =>
+                        setNewLocation({ ...newLocation, radiusMeters: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Zona Waktu</Label>
+                    <Select
+                      value={newLocation.timezone}
+                      onValueChange={(value) =>
+                        setNewLocation({ ...newLocation, timezone: value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INDONESIAN_TIMEZONES.map((tz) => (
+                          <SelectItem key={tz.value} value={tz.value}>
+                            {tz.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="location-override">Jadwal khusus site</Label>
+                    <Switch
+                      id="location-override"
+                      checked={newLocation.useScheduleOverride}
+                      onCheckedChange={(checked) =>
+                        setNewLocation({ ...newLocation, useScheduleOverride: checked })
+                      }
+                    />
+                  </div>
+                  {newLocation.useScheduleOverride && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="location-start">Masuk</Label>
+                        <Input
+                          id="location-start"
+                          type="time"
+                          value={newLocation.startTime}
+                          onChange={(e) =>
+                            setNewLocation({ ...newLocation, startTime: e.target.value })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="location-end">Keluar</Label>
+                        <Input
+                          id="location-end"
+                          type="time"
+                          value={newLocation.endTime}
+                          onChange={(e) =>
+                            setNewLocation({ ...newLocation, endTime: e.target.value })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="location-min-hours">Min Jam</Label>
+                        <Input
+                          id="location-min-hours"
+                          type="number"
+                          min={1}
+                          max={24}
+                          value={newLocation.minWorkHours}
+                          onChange={(e) =>
+                            setNewLocation({ ...newLocation, minWorkHours: e.target.value })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="location-tolerance">Toleransi (menit)</Label>
+                        <Input
+                          id="location-tolerance"
+                          type="number"
+                          min={0}
+                          max={240}
+                          value={newLocation.lateToleranceMinutes}
+                          onChange={(e) =>
+                            setNewLocation({ ...newLocation, lateToleranceMinutes: e.target.value })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="location-min-break">Istirahat wajib (menit)</Label>
+                        <Input
+                          id="location-min-break"
+                          type="number"
+                          min={0}
+                          max={240}
+                          value={newLocation.minBreakMinutes}
+                          onChange={(e) =>
+                            setNewLocation({ ...newLocation, minBreakMinutes: e.target.value })
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {locationError && (
+                    <p className="text-sm text-destructive">{locationError}</p>
+                  )}
+                </div>
+                <DialogFooter>
+                  <DialogClose asChild>
+                    <Button variant="outline">Batal</Button>
+                  </DialogClose>
+                  <Button onClick={handleAddLocation}>Simpan</Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {officeLocations.length === 0 ? (
+            <div className="text-center py-8">
+              <MapPin className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                Belum ada lokasi kantor. Presensi diterima dari lokasi mana pun.
+              </p>
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              {officeLocations.map((location) => (
+                <div
+                  key={location.id}
+                  className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+                >
+                  <div className="flex-1">
+                    <p className="font-medium">{location.name}</p>
+                    <p className="text-sm text-muted-foreground font-mono">
+                      {location.latitude.toFixed(6)}, {location.longitude.toFixed(6)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {INDONESIAN_TIMEZONES.find((tz) => tz.value === location.timezone)?.label ||
+                        location.timezone}
+                      {location.scheduleOverride &&
+                        ` | Jadwal khusus: ${location.scheduleOverride.startTime} - ${location.scheduleOverride.endTime} (min. ${location.scheduleOverride.minWorkHours} jam, toleransi ${location.scheduleOverride.lateToleranceMinutes} menit, istirahat ${location.scheduleOverride.minBreakMinutes} menit)`}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="mr-2">
+                    Radius {location.radiusMeters} m
+                  </Badge>
+                  {location.kioskEnabled ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="mr-2"
+                      onClick={() => handleToggleKiosk(location.id, false)}
+                    >
+                      Nonaktifkan Kiosk
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="mr-2 gap-1"
+                      onClick={() => handleToggleKiosk(location.id, true)}
+                    >
+                      <QrCode className="h-4 w-4" />
+                      Aktifkan Kiosk QR
+                    </Button>
+                  )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Hapus Lokasi Kantor?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Anda akan menghapus {location.name}. Presensi di lokasi
+                          ini tidak akan diterima lagi.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Batal</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDeleteLocation(location.id)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Hapus
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Kiosk Tablets */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Tablet className="h-5 w-5" />
+                Perangkat Kiosk
+              </CardTitle>
+              <CardDescription>
+                Tablet PIN di gerbang site: karyawan memilih nama, memasukkan PIN dan berfoto
+                tanpa login (PIN diatur di menu Kelola Karyawan). Layar QR: menampilkan kode
+                QR site yang dipindai karyawan dengan ponsel (aktifkan Kiosk QR di lokasinya).
+              </CardDescription>
+            </div>
+            <Dialog
+              open={isRegisterDeviceOpen}
+              onOpenChange={(open) => {
+                setIsRegisterDeviceOpen(open);
+                if (!open) {
+                  setNewDevice({ locationId: "", name: "", screen: "tablet" });
+                  setDeviceError("");
+                }
+              }}
+            >
+              <DialogTrigger asChild>
+                <Button size="sm" disabled={officeLocations.length === 0}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Daftarkan Perangkat Ini
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Daftarkan Perangkat Kiosk</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <p className="text-sm text-muted-foreground">
+                    Lakukan dari perangkat yang akan dipasang di site. Setelah terdaftar,
+                    sesi admin diakhiri dan perangkat langsung membuka halaman kiosk.
+                  </p>
+                  <div className="space-y-2">
+                    <Label>Lokasi</Label>
+                    <Select
+                      value={newDevice.locationId}
+                      onValueChange={(value) => setNewDevice({ ...newDevice, locationId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Pilih lokasi" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {officeLocations.map((location) => (
+                          <SelectItem key={location.id} value={location.id}>
+                            {location.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Tampilan</Label>
+                    <Select
+                      value={newDevice.screen}
+                      onValueChange={(value) => setNewDevice({ ...newDevice, screen: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="tablet">Tablet PIN</SelectItem>
+                        <SelectItem value="qr">Layar QR</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="device-name">Nama Perangkat</Label>
+                    <Input
+                      id="device-name"
+                      placeholder="Contoh: Tablet Gerbang Utama"
+                      value={newDevice.name}
+                      onChange={(e) => setNewDevice({ ...newDevice, name: e.target.value })}
+                    />
+                  </div>
+                  {deviceError && (
+                    <p className="text-sm text-destructive">{deviceError}</p>
+                  )}
+                </div>
+                <DialogFooter>
+                  <DialogClose asChild>
+                    <Button variant="outline">Batal</Button>
+                  </DialogClose>
+                  <Button onClick={handleRegisterDevice}>Daftarkan</Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {kioskDevices.length === 0 ? (
+            <div className="text-center py-8">
+              <Tablet className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">Belum ada perangkat kiosk terdaftar.</p>
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              {kioskDevices.map((device) => (
+                <div
+                  key={device.id}
+                  className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+                >
+                  <div className="flex-1">
+                    <p className="font-medium">{device.name}</p>
+                    <p className="text-sm text-muted-foreground">{device.locationName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {device.lastSeenAt
+                        ? `Terakhir aktif ${new Date(device.lastSeenAt).toLocaleString("id-ID")}`
+                        : "Belum pernah dipakai"}
+                    </p>
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Cabut Perangkat Kiosk?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {device.name} tidak dapat dipakai untuk presensi lagi sampai
+                          didaftarkan ulang oleh admin.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Batal</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDeleteDevice(device.id)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Cabut
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Rules */}
       <Card>
         <CardHeader>
@@ -495,9 +1114,10 @@ export default function SettingsPage() {
             <div className="p-3 rounded-lg border">
               <p className="font-medium mb-1">Keterlambatan</p>
               <p className="text-muted-foreground">
-                Karyawan yang check-in setelah jam masuk akan dicatat sebagai
-                terlambat. Waktu check-out minimal akan dihitung berdasarkan jam
-                check-in + minimal jam kerja hari tersebut.
+                Karyawan yang check-in setelah jam masuk ditambah toleransi akan
+                dicatat sebagai terlambat, beserta jumlah menit keterlambatan
+                sejak jam masuk. Waktu check-out minimal akan dihitung berdasarkan
+                jam check-in + minimal jam kerja hari tersebut.
               </p>
             </div>
             <div className="p-3 rounded-lg border">
@@ -512,7 +1132,8 @@ export default function SettingsPage() {
               <p className="font-medium mb-1">Foto & Lokasi</p>
               <p className="text-muted-foreground">
                 Setiap check-in dan check-out wajib menyertakan foto selfie dan
-                informasi lokasi GPS untuk validasi kehadiran.
+                informasi lokasi GPS untuk validasi kehadiran. Lokasi harus
+                berada dalam radius salah satu lokasi kantor yang terdaftar.
               </p>
             </div>
             <div className="p-3 rounded-lg border">
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { markAbsences, MAX_BACKFILL_DAYS } from '@/lib/absence';
+import { addDays, getZonedDateTime } from '@/lib/time';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// POST: Backfill absences for a date range (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { startDate, endDate } = body;
+
+    if (
+      typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) ||
+      typeof endDate !== 'string' || !DATE_PATTERN.test(endDate) ||
+      endDate < startDate
+    ) {
+      return NextResponse.json(
+        { error: 'Rentang tanggal tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    // Hari ini belum selesai, jadi hanya tanggal sampai kemarin yang diproses
+    const today = getZonedDateTime().date;
+    if (endDate >= today) {
+      return NextResponse.json(
+        { error: 'Tanggal akhir harus sebelum hari ini' },
+        { status: 400 }
+      );
+    }
+
+    if (addDays(startDate, MAX_BACKFILL_DAYS - 1) < endDate) {
+      return NextResponse.json(
+        { error: `Rentang tanggal maksimal ${MAX_BACKFILL_DAYS} hari` },
+        { status: 400 }
+      );
+    }
+
+    const results = await markAbsences(startDate, endDate);
+    const marked = results.reduce((sum, result) => sum + result.marked, 0);
+
+    return NextResponse.json({
+      success: true,
+      results,
+      marked,
+      message: `${marked} data absen berhasil dibuat`,
+    });
+  } catch (error) {
+    console.error('[API] Backfill absences error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import { addDays, minutesBetween } from '@/lib/time';
+import { getSiteDateTime, getUserDateTime } from '@/lib/business-time';
+import { mapRowToOfficeLocation, type OfficeLocationRow } from '@/lib/geofence';
+import { ATTENDANCE_SELECT, mapRowToAttendanceRecord, type AttendanceRow } from '@/lib/attendance';
+import { attachBreaks, type BreakRow } from '@/lib/breaks';
+
+// POST: Start or end a break within the employee's current workday
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { action } = body;
+
+    if (action !== 'start' && action !== 'end') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    // Today's record, or last night's while its overnight shift is still open
+    const userNow = await getUserDateTime(currentUser.id);
+    const record = await queryOne<AttendanceRow>(
+      `${ATTENDANCE_SELECT} WHERE ar.user_id = ? AND ar.date IN (?, ?) AND ar.check_in_time IS NOT NULL
+       ORDER BY ar.date DESC LIMIT 1`,
+      [currentUser.id, userNow.date, addDays(userNow.date, -1)]
+    );
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Anda belum melakukan check-in hari ini' },
+        { status: 400 }
+      );
+    }
+
+    if (record.check_out_time) {
+      return NextResponse.json(
+        { error: 'Anda sudah melakukan check-out hari ini' },
+        { status: 400 }
+      );
+    }
+
+    // Break times follow the timezone of the site the employee checked in at
+    const siteRow = record.check_in_location_id
+      ? await queryOne<OfficeLocationRow>(
+          'SELECT * FROM office_locations WHERE id = ?',
+          [record.check_in_location_id]
+        )
+      : null;
+    const local = siteRow ? getSiteDateTime(mapRowToOfficeLocation(siteRow)) : userNow;
+
+    const openBreak = await queryOne<BreakRow>(
+      `SELECT id, DATE_FORMAT(start_date, '%Y-%m-%d') AS start_date, start_time
+       FROM attendance_breaks WHERE attendance_id = ? AND end_time IS NULL`,
+      [record.id]
+    );
+
+    let message: string;
+
+    if (action === 'start') {
+      if (openBreak) {
+        return NextResponse.json(
+          { error: 'Anda sedang istirahat' },
+          { status: 400 }
+        );
+      }
+
+      await query(
+        'INSERT INTO attendance_breaks (id, attendance_id, start_date, start_time) VALUES (?, ?, ?, ?)',
+        [`brk-${Date.now()}`, record.id, local.date, local.time]
+      );
+      message = `Istirahat dimulai pukul ${local.time}`;
+    } else {
+      if (!openBreak) {
+        return NextResponse.json(
+          { error: 'Anda belum memulai istirahat' },
+          { status: 400 }
+        );
+      }
+
+      await query(
+        'UPDATE attendance_breaks SET end_date = ?, end_time = ? WHERE id = ?',
+        [local.date, local.time, openBreak.id]
+      );
+      const duration = Math.max(
+        0,
+        minutesBetween(openBreak.start_date, openBreak.start_time.slice(0, 5), local.date, local.time)
+      );
+      message = `Istirahat selesai (${duration} menit)`;
+    }
+
+    const updatedRecord = await queryOne<AttendanceRow>(
+      `${ATTENDANCE_SELECT} WHERE ar.id = ?`,
+      [record.id]
+    );
+    const [result] = await attachBreaks([mapRowToAttendanceRecord(updatedRecord!)]);
+
+    return NextResponse.json({
+      success: true,
+      record: result,
+      message,
+    });
+  } catch (error) {
+    console.error('[API] Attendance break error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
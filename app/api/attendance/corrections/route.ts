@@ -0,0 +1,269 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import {
+  applyCorrection,
+  mapRowToCorrection,
+  snapshotParams,
+  ATTENDANCE_SNAPSHOT_SELECT,
+  CORRECTION_SELECT,
+  type AttendanceSnapshotRow,
+  type CorrectionRow,
+} from '@/lib/corrections';
+import { isLeaveStatus } from '@/lib/leave';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// GET: Fetch correction requests
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const status = searchParams.get('status');
+
+    let sql = `${CORRECTION_SELECT} WHERE 1=1`;
+    const params: unknown[] = [];
+
+    // Non-admin can only see their own requests
+    if (!(await isAdmin())) {
+      sql += ' AND ac.user_id = ?';
+      params.push(currentUser.id);
+    } else if (userId) {
+      sql += ' AND ac.user_id = ?';
+      params.push(userId);
+    }
+
+    if (status) {
+      sql += ' AND ac.status = ?';
+      params.push(status);
+    }
+
+    sql += ' ORDER BY ac.created_at DESC';
+
+    const rows = await query<CorrectionRow[]>(sql, params);
+
+    return NextResponse.json({
+      success: true,
+      corrections: rows.map(mapRowToCorrection),
+    });
+  } catch (error) {
+    console.error('[API] Get corrections error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Submit a correction request for the employee's own attendance
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { attendanceId, checkInTime, checkOutTime, reason } = body;
+
+    if (!attendanceId || typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json(
+        { error: 'Data presensi dan alasan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    if (!checkInTime && !checkOutTime) {
+      return NextResponse.json(
+        { error: 'Isi jam check-in atau check-out yang benar' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (checkInTime && !TIME_PATTERN.test(checkInTime)) ||
+      (checkOutTime && !TIME_PATTERN.test(checkOutTime))
+    ) {
+      return NextResponse.json(
+        { error: 'Format jam tidak valid (HH:mm)' },
+        { status: 400 }
+      );
+    }
+
+    const record = await queryOne<AttendanceSnapshotRow>(
+      `${ATTENDANCE_SNAPSHOT_SELECT} WHERE id = ? AND user_id = ?`,
+      [attendanceId, currentUser.id]
+    );
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Data presensi tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    if (isLeaveStatus(record.status)) {
+      return NextResponse.json(
+        { error: 'Presensi pada hari cuti/izin tidak dapat dikoreksi' },
+        { status: 400 }
+      );
+    }
+
+    if (!checkInTime && !record.check_in_time) {
+      return NextResponse.json(
+        { error: 'Jam check-in wajib diisi karena belum ada check-in' },
+        { status: 400 }
+      );
+    }
+
+    const pending = await queryOne<CorrectionRow>(
+      `SELECT id FROM attendance_corrections WHERE attendance_id = ? AND status = 'pending'`,
+      [attendanceId]
+    );
+
+    if (pending) {
+      return NextResponse.json(
+        { error: 'Masih ada pengajuan koreksi yang menunggu persetujuan' },
+        { status: 400 }
+      );
+    }
+
+    const correctionId = `corr-${Date.now()}`;
+
+    await query(
+      `INSERT INTO attendance_corrections
+       (id, attendance_id, user_id, check_in_time, check_out_time, reason,
+        original_check_in_time, original_check_out_date, original_check_out_time,
+        original_status, original_work_hours, original_late_minutes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        correctionId,
+        attendanceId,
+        currentUser.id,
+        checkInTime || null,
+        checkOutTime || null,
+        reason.trim(),
+        ...snapshotParams(record),
+      ]
+    );
+
+    const created = await queryOne<CorrectionRow>(
+      `${CORRECTION_SELECT} WHERE ac.id = ?`,
+      [correctionId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      correction: mapRowToCorrection(created!),
+      message: 'Pengajuan koreksi berhasil dikirim',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Create correction error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Approve or reject a correction request (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, correctionId } = body;
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!correctionId) {
+      return NextResponse.json(
+        { error: 'ID koreksi wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const correction = await queryOne<CorrectionRow>(
+      `${CORRECTION_SELECT} WHERE ac.id = ?`,
+      [correctionId]
+    );
+
+    if (!correction) {
+      return NextResponse.json(
+        { error: 'Data koreksi tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    if (correction.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Koreksi sudah diproses' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'approve') {
+      const applyError = await applyCorrection(correction, currentUser.id);
+      if (applyError) {
+        return NextResponse.json(
+          { error: applyError },
+          { status: 400 }
+        );
+      }
+    } else {
+      await query(
+        `UPDATE attendance_corrections SET status = 'rejected', approved_by = ?, approved_at = NOW() WHERE id = ?`,
+        [currentUser.id, correctionId]
+      );
+    }
+
+    const updated = await queryOne<CorrectionRow>(
+      `${CORRECTION_SELECT} WHERE ac.id = ?`,
+      [correctionId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      correction: mapRowToCorrection(updated!),
+      message: `Koreksi ${action === 'approve' ? 'disetujui' : 'ditolak'}`,
+    });
+  } catch (error) {
+    console.error('[API] Correction action error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { getUserDateTime } from '@/lib/business-time';
+import { addDays } from '@/lib/time';
+import { EARLY_LEAVE_SELECT, mapRowToEarlyLeave, type EarlyLeaveRow } from '@/lib/early-leave';
+import { ATTENDANCE_SNAPSHOT_SELECT, type AttendanceSnapshotRow } from '@/lib/corrections';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// GET: Fetch early leave requests
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const status = searchParams.get('status');
+    const date = searchParams.get('date');
+
+    let sql = `${EARLY_LEAVE_SELECT} WHERE 1=1`;
+    const params: unknown[] = [];
+
+    // Non-admin can only see their own requests
+    if (!(await isAdmin())) {
+      sql += ' AND el.user_id = ?';
+      params.push(currentUser.id);
+    } else if (userId) {
+      sql += ' AND el.user_id = ?';
+      params.push(userId);
+    }
+
+    if (status) {
+      sql += ' AND el.status = ?';
+      params.push(status);
+    }
+
+    if (date) {
+      sql += ' AND el.date = ?';
+      params.push(date);
+    }
+
+    sql += ' ORDER BY el.created_at DESC';
+
+    const rows = await query<EarlyLeaveRow[]>(sql, params);
+
+    return NextResponse.json({
+      success: true,
+      requests: rows.map(mapRowToEarlyLeave),
+    });
+  } catch (error) {
+    console.error('[API] Get early leave requests error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Request permission to check out before the minimum work hours
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { date, leaveTime, reason } = body;
+
+    if (!date || !leaveTime || !reason?.trim()) {
+      return NextResponse.json(
+        { error: 'Tanggal, jam pulang dan alasan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    if (!DATE_PATTERN.test(date) || !TIME_PATTERN.test(leaveTime)) {
+      return NextResponse.json(
+        { error: 'Format tanggal atau jam tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    // Yesterday stays open for a night shift that has not ended yet
+    const today = (await getUserDateTime(currentUser.id)).date;
+    if (date < addDays(today, -1)) {
+      return NextResponse.json(
+        { error: 'Izin pulang cepat tidak bisa diajukan untuk tanggal yang sudah lewat' },
+        { status: 400 }
+      );
+    }
+
+    const record = await queryOne<AttendanceSnapshotRow>(
+      `${ATTENDANCE_SNAPSHOT_SELECT} WHERE user_id = ? AND date = ?`,
+      [currentUser.id, date]
+    );
+
+    if (record?.check_out_time) {
+      return NextResponse.json(
+        { error: 'Anda sudah melakukan check-out pada tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await queryOne<EarlyLeaveRow>(
+      `SELECT id FROM early_leave_requests
+       WHERE user_id = ? AND date = ? AND status IN ('pending', 'approved')`,
+      [currentUser.id, date]
+    );
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'Sudah ada izin pulang cepat untuk tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    const requestId = `early-${Date.now()}`;
+
+    await query(
+      `INSERT INTO early_leave_requests (id, user_id, date, leave_time, reason)
+       VALUES (?, ?, ?, ?, ?)`,
+      [requestId, currentUser.id, date, leaveTime, reason.trim()]
+    );
+
+    const created = await queryOne<EarlyLeaveRow>(
+      `${EARLY_LEAVE_SELECT} WHERE el.id = ?`,
+      [requestId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      request: mapRowToEarlyLeave(created!),
+      message: 'Izin pulang cepat berhasil diajukan',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Create early leave request error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Approve or reject an early leave request (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, requestId } = body;
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!requestId) {
+      return NextResponse.json(
+        { error: 'ID pengajuan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const earlyLeave = await queryOne<EarlyLeaveRow>(
+      `${EARLY_LEAVE_SELECT} WHERE el.id = ?`,
+      [requestId]
+    );
+
+    if (!earlyLeave) {
+      return NextResponse.json(
+        { error: 'Data pengajuan tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    if (earlyLeave.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Pengajuan sudah diproses' },
+        { status: 400 }
+      );
+    }
+
+    await query(
+      `UPDATE early_leave_requests SET status = ?, approved_by = ?, approved_at = NOW() WHERE id = ?`,
+      [action === 'approve' ? 'approved' : 'rejected', currentUser.id, requestId]
+    );
+
+    const updated = await queryOne<EarlyLeaveRow>(
+      `${EARLY_LEAVE_SELECT} WHERE el.id = ?`,
+      [requestId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      request: mapRowToEarlyLeave(updated!),
+      message: `Izin pulang cepat ${action === 'approve' ? 'disetujui' : 'ditolak'}`,
+    });
+  } catch (error) {
+    console.error('[API] Early leave action error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,61 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { query, queryOne } from '@/lib/db';
+import { query } from '@/lib/db';
 import { getCurrentUser, isAdmin } from '@/lib/auth';
-import type { AttendanceRecord } from '@/lib/types';
-import type { RowDataPacket } from 'mysql2';
-
-interface AttendanceRow extends RowDataPacket {
-  id: string;
-  user_id: string;
-  date: string;
-  check_in_time: string | null;
-  check_in_photo: string | null;
-  check_in_latitude: number | null;
-  check_in_longitude: number | null;
-  check_in_address: string | null;
-  check_out_time: string | null;
-  check_out_photo: string | null;
-  check_out_latitude: number | null;
-  check_out_longitude: number | null;
-  check_out_address: string | null;
-  status: 'present' | 'late' | 'absent' | 'holiday';
-  work_hours: number;
-}
-
-interface WorkScheduleRow extends RowDataPacket {
-  day_of_week: number;
-  start_time: string;
-  end_time: string;
-  min_work_hours: number;
-}
-
-function mapRowToAttendanceRecord(row: AttendanceRow): AttendanceRecord {
-  return {
-    id: row.id,
-    userId: row.user_id,
-    date: row.date,
-    checkIn: row.check_in_time ? {
-      time: row.check_in_time,
-      photo: row.check_in_photo || '',
-      location: {
-        latitude: row.check_in_latitude || 0,
-        longitude: row.check_in_longitude || 0,
-        address: row.check_in_address || '',
-      },
-    } : null,
-    checkOut: row.check_out_time ? {
-      time: row.check_out_time,
-      photo: row.check_out_photo || '',
-      location: {
-        latitude: row.check_out_latitude || 0,
-        longitude: row.check_out_longitude || 0,
-        address: row.check_out_address || '',
-      },
-    } : null,
-    status: row.status,
-    workHours: row.work_hours,
-    overtime: null,
-  };
+import { addDays } from '@/lib/time';
+import { getUserDateTime } from '@/lib/business-time';
+import { decodePhotoDataUrl } from '@/lib/photos';
+import { parsePositionInput } from '@/lib/location-checks';
+import { resolvePunchTime } from '@/lib/offline-punch';
+import { resolveKioskPunch, verifyKioskToken } from '@/lib/kiosk';
+import { ATTENDANCE_SELECT, mapRowToAttendanceRecord, recordPunch, type AttendanceRow } from '@/lib/attendance';
+import { attachBreaks } from '@/lib/breaks';
+import { resolvePunchMode } from '@/lib/work-assignments';
+import type { AttendanceMethod } from '@/lib/types';
+
+// 'today'/'yesterday' resolve to the business date in the employee's timezone,
+// so clients never derive dates from their own clock
+async function resolveDateParam(date: string, userId: string): Promise<string> {
+  if (date !== 'today' && date !== 'yesterday') return date;
+  const today = (await getUserDateTime(userId)).date;
+  return date === 'today' ? today : addDays(today, -1);
 }
 
 // GET: Fetch attendance records
@@ -75,33 +37,45 @@ export async function GET(request: NextRequest) {
     const date = searchParams.get('date');
     const month = searchParams.get('month');
     const year = searchParams.get('year');
+    const siteId = searchParams.get('siteId');
+    const mode = searchParams.get('mode');
 
-    let sql = 'SELECT * FROM attendance_records WHERE 1=1';
+    let sql = `${ATTENDANCE_SELECT} WHERE 1=1`;
     const params: unknown[] = [];
 
     // Non-admin can only see their own records
     if (!(await isAdmin())) {
-      sql += ' AND user_id = ?';
+      sql += ' AND ar.user_id = ?';
       params.push(currentUser.id);
     } else if (userId) {
-      sql += ' AND user_id = ?';
+      sql += ' AND ar.user_id = ?';
       params.push(userId);
     }
 
     if (date) {
-      sql += ' AND date = ?';
-      params.push(date);
+      sql += ' AND ar.date = ?';
+      params.push(await resolveDateParam(date, userId || currentUser.id));
     }
 
     if (month && year) {
-      sql += ' AND MONTH(date) = ? AND YEAR(date) = ?';
+      sql += ' AND MONTH(ar.date) = ? AND YEAR(ar.date) = ?';
       params.push(parseInt(month, 10), parseInt(year, 10));
     }
 
-    sql += ' ORDER BY date DESC, check_in_time DESC';
+    if (siteId) {
+      sql += ' AND ar.check_in_location_id = ?';
+      params.push(siteId);
+    }
+
+    if (mode) {
+      sql += ' AND ar.attendance_mode = ?';
+      params.push(mode);
+    }
+
+    sql += ' ORDER BY ar.date DESC, ar.check_in_time DESC';
 
     const rows = await query<AttendanceRow[]>(sql, params);
-    const records = rows.map(mapRowToAttendanceRecord);
+    const records = await attachBreaks(rows.map(mapRowToAttendanceRecord));
 
     return NextResponse.json({
       success: true,
@@ -129,147 +103,94 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { action, photo, location } = body;
-
-    const now = new Date();
-    const today = now.toISOString().split('T')[0];
-    const timeString = now.toTimeString().slice(0, 5);
-    const dayOfWeek = now.getDay();
-
-    // Get work schedule for today
-    const schedule = await queryOne<WorkScheduleRow>(
-      'SELECT * FROM work_schedules WHERE day_of_week = ?',
-      [dayOfWeek]
-    );
+    const { action, photo } = body;
 
-    if (!schedule) {
+    if (action !== 'check-in' && action !== 'check-out') {
       return NextResponse.json(
-        { error: 'Jadwal kerja tidak ditemukan' },
+        { error: 'Action tidak valid' },
         { status: 400 }
       );
     }
 
-    if (action === 'check-in') {
-      // Check if already checked in
-      const existing = await queryOne<AttendanceRow>(
-        'SELECT * FROM attendance_records WHERE user_id = ? AND date = ?',
-        [currentUser.id, today]
+    // A kiosk QR scanned on site replaces the selfie + GPS verification
+    const kioskSite = body.qr ? await verifyKioskToken(body.qr) : null;
+    if (body.qr && !kioskSite) {
+      return NextResponse.json(
+        { error: 'Kode QR tidak valid atau sudah kedaluwarsa, pindai ulang QR di layar kiosk' },
+        { status: 400 }
       );
-
-      if (existing?.check_in_time) {
-        return NextResponse.json(
-          { error: 'Anda sudah melakukan check-in hari ini' },
-          { status: 400 }
-        );
-      }
-
-      // Determine if late
-      const isLate = timeString > schedule.start_time;
-      const status = isLate ? 'late' : 'present';
-
-      const recordId = `att-${Date.now()}`;
-
-      if (existing) {
-        // Update existing record
-        await query(
-          `UPDATE attendance_records SET 
-           check_in_time = ?, check_in_photo = ?, check_in_latitude = ?, 
-           check_in_longitude = ?, check_in_address = ?, status = ?
-           WHERE id = ?`,
-          [timeString, photo, location.latitude, location.longitude, location.address, status, existing.id]
-        );
-      } else {
-        // Create new record
-        await query(
-          `INSERT INTO attendance_records 
-           (id, user_id, date, check_in_time, check_in_photo, check_in_latitude, check_in_longitude, check_in_address, status)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [recordId, currentUser.id, today, timeString, photo, location.latitude, location.longitude, location.address, status]
-        );
-      }
-
-      // Fetch the updated/created record
-      const updatedRecord = await queryOne<AttendanceRow>(
-        'SELECT * FROM attendance_records WHERE user_id = ? AND date = ?',
-        [currentUser.id, today]
+    }
+    const kioskPunch = kioskSite ? await resolveKioskPunch(currentUser.id, kioskSite) : null;
+    if (kioskSite && !kioskPunch) {
+      return NextResponse.json(
+        { error: `Anda tidak ditugaskan di ${kioskSite.name}` },
+        { status: 400 }
       );
-
-      return NextResponse.json({
-        success: true,
-        record: mapRowToAttendanceRecord(updatedRecord!),
-        message: isLate ? 'Check-in berhasil (Terlambat)' : 'Check-in berhasil',
-      });
     }
+    const method: AttendanceMethod = kioskPunch ? 'qr' : 'selfie';
 
-    if (action === 'check-out') {
-      // Check if checked in
-      const existing = await queryOne<AttendanceRow>(
-        'SELECT * FROM attendance_records WHERE user_id = ? AND date = ?',
-        [currentUser.id, today]
+    const location = kioskPunch ? kioskPunch.position : parsePositionInput(body.location);
+    if (!location) {
+      return NextResponse.json(
+        { error: 'Lokasi tidak valid' },
+        { status: 400 }
       );
+    }
 
-      if (!existing?.check_in_time) {
-        return NextResponse.json(
-          { error: 'Anda belum melakukan check-in hari ini' },
-          { status: 400 }
-        );
-      }
-
-      if (existing.check_out_time) {
-        return NextResponse.json(
-          { error: 'Anda sudah melakukan check-out hari ini' },
-          { status: 400 }
-        );
-      }
-
-      // Calculate work hours
-      const checkInTime = existing.check_in_time.split(':').map(Number);
-      const checkOutTime = timeString.split(':').map(Number);
-      const checkInMinutes = checkInTime[0] * 60 + checkInTime[1];
-      const checkOutMinutes = checkOutTime[0] * 60 + checkOutTime[1];
-      const workHours = (checkOutMinutes - checkInMinutes) / 60;
+    // Queued offline punches carry the device time they were taken at
+    const punchTime = resolvePunchTime(body.capturedAt, body.sentAt);
+    if ('error' in punchTime) {
+      return NextResponse.json(
+        { error: punchTime.error },
+        { status: 400 }
+      );
+    }
 
-      // Validate minimum work hours
-      if (workHours < schedule.min_work_hours) {
-        const remainingHours = schedule.min_work_hours - workHours;
-        const remainingMinutes = Math.ceil(remainingHours * 60);
-        const hours = Math.floor(remainingMinutes / 60);
-        const minutes = remainingMinutes % 60;
-        const timeRemaining = hours > 0 
-          ? `${hours} jam ${minutes} menit` 
-          : `${minutes} menit`;
-        return NextResponse.json(
-          { error: `Anda belum memenuhi jam kerja minimal (${schedule.min_work_hours} jam). Sisa waktu: ${timeRemaining}` },
-          { status: 400 }
-        );
-      }
+    // Office, WFH or dinas luar decides how the location is validated; kiosk punches are on site
+    const punchMode = kioskPunch
+      ? { mode: 'office' as const, assignment: null, resolution: kioskPunch.resolution }
+      : await resolvePunchMode(currentUser.id, action, body.mode, body.assignmentId, location, punchTime.at);
+    if ('error' in punchMode) {
+      return NextResponse.json(
+        { error: punchMode.error },
+        { status: 400 }
+      );
+    }
 
-      // Update record
-      await query(
-        `UPDATE attendance_records SET 
-         check_out_time = ?, check_out_photo = ?, check_out_latitude = ?, 
-         check_out_longitude = ?, check_out_address = ?, work_hours = ?
-         WHERE id = ?`,
-        [timeString, photo, location.latitude, location.longitude, location.address, Math.max(0, workHours), existing.id]
+    // A selfie punch is only checked for duplicates and face match through its photo
+    if (method === 'selfie' && !photo) {
+      return NextResponse.json(
+        { error: 'Foto wajib diambil' },
+        { status: 400 }
       );
+    }
 
-      // Fetch the updated record
-      const updatedRecord = await queryOne<AttendanceRow>(
-        'SELECT * FROM attendance_records WHERE id = ?',
-        [existing.id]
+    const decodedPhoto = method === 'selfie' ? decodePhotoDataUrl(photo) : null;
+    if (decodedPhoto && 'error' in decodedPhoto) {
+      return NextResponse.json(
+        { error: decodedPhoto.error },
+        { status: 400 }
       );
+    }
 
-      return NextResponse.json({
-        success: true,
-        record: mapRowToAttendanceRecord(updatedRecord!),
-        message: 'Check-out berhasil',
-      });
+    const result = await recordPunch(currentUser.id, {
+      action,
+      location,
+      photo: decodedPhoto,
+      punchTime,
+      method,
+      resolution: punchMode.resolution,
+      mode: punchMode.mode,
+      assignmentId: punchMode.assignment?.id ?? null,
+    });
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 400 });
     }
 
-    return NextResponse.json(
-      { error: 'Action tidak valid' },
-      { status: 400 }
-    );
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
   } catch (error) {
     console.error('[API] Attendance action error:', error);
     return NextResponse.json(
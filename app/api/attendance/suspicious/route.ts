@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { getSuspiciousPunches } from '@/lib/photo-duplicates';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET: Attendance punches whose photo matches another photo (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    if (
+      !startDate || !DATE_PATTERN.test(startDate) ||
+      !endDate || !DATE_PATTERN.test(endDate) ||
+      endDate < startDate
+    ) {
+      return NextResponse.json(
+        { error: 'Rentang tanggal tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const punches = await getSuspiciousPunches(startDate, endDate);
+
+    return NextResponse.json({
+      success: true,
+      punches,
+    });
+  } catch (error) {
+    console.error('[API] Get suspicious punches error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
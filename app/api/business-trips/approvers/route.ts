@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { getCurrentUser } from '@/lib/auth';
+import type { RowDataPacket } from 'mysql2';
+
+interface ApproverRow extends RowDataPacket {
+  id: string;
+  name: string;
+  position: string;
+}
+
+// GET: Admins an employee can choose to approve their business trip
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const rows = await query<ApproverRow[]>(
+      `SELECT id, name, position FROM users
+       WHERE role = 'admin' AND is_active = TRUE ORDER BY name`
+    );
+
+    return NextResponse.json({
+      success: true,
+      approvers: rows.map((row) => ({ id: row.id, name: row.name, position: row.position })),
+    });
+  } catch (error) {
+    console.error('[API] Get trip approvers error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
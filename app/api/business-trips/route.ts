@@ -0,0 +1,293 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { getLeaveDates } from '@/lib/leave';
+import { addDays } from '@/lib/time';
+import {
+  approveBusinessTrip,
+  mapRowToBusinessTrip,
+  BUSINESS_TRIP_SELECT,
+  MAX_TRIP_RANGE_DAYS,
+  type BusinessTripRow,
+} from '@/lib/business-trips';
+import type { RowDataPacket } from 'mysql2';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET: Fetch business trips
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const status = searchParams.get('status');
+    const month = searchParams.get('month');
+    const year = searchParams.get('year');
+
+    let sql = `${BUSINESS_TRIP_SELECT} WHERE 1=1`;
+    const params: unknown[] = [];
+
+    // Non-admin can only see their own trips
+    if (!(await isAdmin())) {
+      sql += ' AND bt.user_id = ?';
+      params.push(currentUser.id);
+    } else if (userId) {
+      sql += ' AND bt.user_id = ?';
+      params.push(userId);
+    }
+
+    if (status) {
+      sql += ' AND bt.status = ?';
+      params.push(status);
+    }
+
+    // Trips overlapping the month, so ones crossing the month boundary are included
+    if (month && year) {
+      const monthStart = `${year}-${month.padStart(2, '0')}-01`;
+      sql += ' AND bt.start_date <= LAST_DAY(?) AND bt.end_date >= ?';
+      params.push(monthStart, monthStart);
+    }
+
+    sql += ' ORDER BY bt.start_date DESC, bt.created_at DESC';
+
+    const rows = await query<BusinessTripRow[]>(sql, params);
+
+    return NextResponse.json({
+      success: true,
+      trips: rows.map(mapRowToBusinessTrip),
+    });
+  } catch (error) {
+    console.error('[API] Get business trips error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Submit a business trip request
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { destination, startDate, endDate, purpose, approverId } = body;
+
+    if (!destination?.trim() || !purpose?.trim() || !approverId) {
+      return NextResponse.json(
+        { error: 'Tujuan, keperluan dan atasan penyetuju wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) ||
+      typeof endDate !== 'string' || !DATE_PATTERN.test(endDate) ||
+      endDate < startDate
+    ) {
+      return NextResponse.json(
+        { error: 'Rentang tanggal tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (addDays(startDate, MAX_TRIP_RANGE_DAYS - 1) < endDate) {
+      return NextResponse.json(
+        { error: `Rentang tanggal maksimal ${MAX_TRIP_RANGE_DAYS} hari` },
+        { status: 400 }
+      );
+    }
+
+    const approver = await queryOne<RowDataPacket>(
+      `SELECT id FROM users WHERE id = ? AND role = 'admin' AND is_active = TRUE`,
+      [approverId]
+    );
+
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Atasan penyetuju tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const overlapping = await queryOne<BusinessTripRow>(
+      `SELECT id FROM business_trips
+       WHERE user_id = ? AND status IN ('pending', 'approved')
+       AND start_date <= ? AND end_date >= ?`,
+      [currentUser.id, endDate, startDate]
+    );
+
+    if (overlapping) {
+      return NextResponse.json(
+        { error: 'Sudah ada perjalanan dinas pada tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    // A trip day can't also be a leave day, both set the day's attendance status
+    const overlappingLeave = await queryOne<RowDataPacket>(
+      `SELECT id FROM leave_requests
+       WHERE user_id = ? AND status IN ('pending', 'approved')
+       AND start_date <= ? AND end_date >= ?`,
+      [currentUser.id, endDate, startDate]
+    );
+
+    if (overlappingLeave) {
+      return NextResponse.json(
+        { error: 'Sudah ada pengajuan cuti pada tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    const tripId = `trip-${Date.now()}`;
+
+    await query(
+      `INSERT INTO business_trips (id, user_id, destination, start_date, end_date, purpose, approver_id, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'pending')`,
+      [tripId, currentUser.id, destination.trim(), startDate, endDate, purpose.trim(), approverId]
+    );
+
+    const created = await queryOne<BusinessTripRow>(
+      `${BUSINESS_TRIP_SELECT} WHERE bt.id = ?`,
+      [tripId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      trip: mapRowToBusinessTrip(created!),
+      message: 'Pengajuan perjalanan dinas berhasil dikirim',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Create business trip error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Approve/reject (chosen approver) or cancel (owner) a pending business trip
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, tripId } = body;
+
+    if (action !== 'approve' && action !== 'reject' && action !== 'cancel') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!tripId) {
+      return NextResponse.json(
+        { error: 'ID perjalanan dinas wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const row = await queryOne<BusinessTripRow>(
+      `${BUSINESS_TRIP_SELECT} WHERE bt.id = ?`,
+      [tripId]
+    );
+
+    if (!row) {
+      return NextResponse.json(
+        { error: 'Perjalanan dinas tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const trip = mapRowToBusinessTrip(row);
+
+    if (trip.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Pengajuan perjalanan dinas sudah diproses' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'cancel') {
+      if (trip.userId !== currentUser.id) {
+        return NextResponse.json(
+          { error: 'Akses ditolak' },
+          { status: 403 }
+        );
+      }
+
+      await query('DELETE FROM business_trips WHERE id = ?', [tripId]);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Pengajuan perjalanan dinas dibatalkan',
+      });
+    }
+
+    // Approve/reject is admin only, and only the approver the employee chose
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    if (trip.approverId && trip.approverId !== currentUser.id) {
+      return NextResponse.json(
+        { error: `Pengajuan ini hanya dapat diproses oleh ${trip.approverName || 'atasan yang dipilih'}` },
+        { status: 403 }
+      );
+    }
+
+    if (action === 'approve') {
+      // Hari kerja dihitung saat disetujui karena roster/hari libur bisa berubah sejak pengajuan
+      const dates = await getLeaveDates(trip.userId, trip.startDate, trip.endDate);
+      await approveBusinessTrip(trip, dates, currentUser.id);
+    } else {
+      await query(
+        `UPDATE business_trips SET status = 'rejected', approved_by = ?, approved_at = NOW() WHERE id = ?`,
+        [currentUser.id, tripId]
+      );
+    }
+
+    const updated = await queryOne<BusinessTripRow>(
+      `${BUSINESS_TRIP_SELECT} WHERE bt.id = ?`,
+      [tripId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      trip: mapRowToBusinessTrip(updated!),
+      message: `Perjalanan dinas ${action === 'approve' ? 'disetujui' : 'ditolak'}`,
+    });
+  } catch (error) {
+    console.error('[API] Business trip action error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { decodePhotoDataUrl, savePhoto } from '@/lib/photos';
+import {
+  computeFaceEmbedding,
+  isFaceMatchEnabled,
+  mapRowToFaceReference,
+  FACE_REFERENCE_SELECT,
+  type FaceReferenceRow,
+} from '@/lib/face-match';
+
+// GET: Fetch face references (own, or all for admin)
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const status = searchParams.get('status');
+
+    let sql = `${FACE_REFERENCE_SELECT} WHERE 1=1`;
+    const params: unknown[] = [];
+
+    // Non-admin can only see their own references
+    if (!(await isAdmin())) {
+      sql += ' AND user_id = ?';
+      params.push(currentUser.id);
+    } else if (userId) {
+      sql += ' AND user_id = ?';
+      params.push(userId);
+    }
+
+    if (status) {
+      sql += ' AND status = ?';
+      params.push(status);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    const rows = await query<FaceReferenceRow[]>(sql, params);
+
+    return NextResponse.json({
+      success: true,
+      enabled: isFaceMatchEnabled(),
+      references: rows.map(mapRowToFaceReference),
+    });
+  } catch (error) {
+    console.error('[API] Get face references error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Enroll a reference face photo for the current user (waits for admin approval)
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!isFaceMatchEnabled()) {
+      return NextResponse.json(
+        { error: 'Pencocokan wajah belum diaktifkan' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const decodedPhoto = decodePhotoDataUrl(body.photo);
+
+    if ('error' in decodedPhoto) {
+      return NextResponse.json(
+        { error: decodedPhoto.error },
+        { status: 400 }
+      );
+    }
+
+    const embedding = await computeFaceEmbedding(decodedPhoto.data);
+    const photoId = await savePhoto(currentUser.id, decodedPhoto);
+    const referenceId = `face-${Date.now()}`;
+
+    // Pengajuan baru menggantikan pengajuan yang belum diproses
+    await query(
+      `DELETE FROM face_references WHERE user_id = ? AND status = 'pending'`,
+      [currentUser.id]
+    );
+    await query(
+      `INSERT INTO face_references (id, user_id, photo_id, embedding, status)
+       VALUES (?, ?, ?, ?, 'pending')`,
+      [referenceId, currentUser.id, photoId, JSON.stringify(embedding)]
+    );
+
+    const created = await queryOne<FaceReferenceRow>(
+      `${FACE_REFERENCE_SELECT} WHERE id = ?`,
+      [referenceId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      reference: mapRowToFaceReference(created!),
+      message: 'Foto referensi wajah berhasil dikirim, menunggu persetujuan admin',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Enroll face reference error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Approve or reject a pending face reference (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, referenceId } = body;
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const row = await queryOne<FaceReferenceRow>(
+      `${FACE_REFERENCE_SELECT} WHERE id = ?`,
+      [referenceId]
+    );
+
+    if (!row) {
+      return NextResponse.json(
+        { error: 'Foto referensi tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    if (row.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Foto referensi sudah diproses' },
+        { status: 400 }
+      );
+    }
+
+    await query(
+      `UPDATE face_references SET status = ?, approved_by = ?, approved_at = NOW() WHERE id = ?`,
+      [action === 'approve' ? 'approved' : 'rejected', currentUser.id, referenceId]
+    );
+
+    const updated = await queryOne<FaceReferenceRow>(
+      `${FACE_REFERENCE_SELECT} WHERE id = ?`,
+      [referenceId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      reference: mapRowToFaceReference(updated!),
+      message: `Foto referensi wajah ${action === 'approve' ? 'disetujui' : 'ditolak'}`,
+    });
+  } catch (error) {
+    console.error('[API] Face reference action error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronSecret } from '@/lib/auth';
+import { autoCloseOpenRecords } from '@/lib/auto-close';
+
+// POST: Scheduled job - close attendance left open past the schedule's end time (called by cron with CRON_SECRET)
+export async function POST(request: NextRequest) {
+  try {
+    if (!verifyCronSecret(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const results = await autoCloseOpenRecords();
+
+    return NextResponse.json({
+      success: true,
+      results,
+      message: `${results.length} presensi ditutup otomatis`,
+    });
+  } catch (error) {
+    console.error('[API] Auto checkout job error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
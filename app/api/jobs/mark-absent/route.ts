@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronSecret } from '@/lib/auth';
+import { markAbsences } from '@/lib/absence';
+import { addDays, getZonedDateTime } from '@/lib/time';
+
+// POST: Daily job - mark yesterday's absences (called by cron with CRON_SECRET)
+export async function POST(request: NextRequest) {
+  try {
+    if (!verifyCronSecret(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    // Yesterday is complete, including night shifts that ended this morning
+    const yesterday = addDays(getZonedDateTime().date, -1);
+    const results = await markAbsences(yesterday, yesterday);
+
+    return NextResponse.json({
+      success: true,
+      results,
+      message: `${results[0].marked} karyawan ditandai absen pada ${yesterday}`,
+    });
+  } catch (error) {
+    console.error('[API] Mark absent job error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCronSecret } from '@/lib/auth';
+import { migrateLegacyPhotos } from '@/lib/photos';
+
+// POST: One-off job - move legacy base64 attendance photos to the blob store, one batch per call (CRON_SECRET)
+export async function POST(request: NextRequest) {
+  try {
+    if (!verifyCronSecret(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    // Failed photos stay in place, so batches resume after the last processed record
+    const { searchParams } = new URL(request.url);
+    const result = await migrateLegacyPhotos(searchParams.get('after'));
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `${result.migrated} foto dipindahkan, ${result.failed} gagal, ${result.remaining} presensi tersisa`,
+    });
+  } catch (error) {
+    console.error('[API] Migrate photos job error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import {
+  KIOSK_DEVICE_SELECT,
+  mapRowToKioskDevice,
+  registerKioskDevice,
+  type KioskDeviceRow,
+} from '@/lib/kiosk-devices';
+import type { OfficeLocationRow } from '@/lib/geofence';
+import type { ResultSetHeader } from 'mysql2';
+
+// GET: Registered kiosk tablets (admin only)
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const rows = await query<KioskDeviceRow[]>(
+      `${KIOSK_DEVICE_SELECT} ORDER BY ol.name, kd.name`
+    );
+
+    return NextResponse.json({
+      success: true,
+      devices: rows.map(mapRowToKioskDevice),
+    });
+  } catch (error) {
+    console.error('[API] Get kiosk devices error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Register the calling browser as a site's kiosk tablet (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { locationId, name } = body;
+
+    if (!locationId || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'Lokasi dan nama tablet wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const location = await queryOne<OfficeLocationRow>(
+      'SELECT * FROM office_locations WHERE id = ? AND is_active = TRUE',
+      [locationId]
+    );
+
+    if (!location) {
+      return NextResponse.json(
+        { error: 'Lokasi kantor tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const device = await registerKioskDevice(location.id, name.trim(), currentUser.id);
+
+    return NextResponse.json({
+      success: true,
+      device,
+      message: `Tablet ${device.name} terdaftar untuk ${location.name}`,
+    });
+  } catch (error) {
+    console.error('[API] Register kiosk device error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Revoke a kiosk tablet (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID tablet wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const result = await query<ResultSetHeader>(
+      'DELETE FROM kiosk_devices WHERE id = ?',
+      [id]
+    );
+
+    if (result.affectedRows === 0) {
+      return NextResponse.json(
+        { error: 'Tablet tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Tablet kiosk berhasil dicabut',
+    });
+  } catch (error) {
+    console.error('[API] Delete kiosk device error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
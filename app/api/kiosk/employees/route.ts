@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getCurrentKioskDevice, getKioskEmployees } from '@/lib/kiosk-devices';
+
+// GET: Employees selectable on this kiosk tablet (registered device only, no login)
+export async function GET() {
+  try {
+    const kiosk = await getCurrentKioskDevice();
+
+    if (!kiosk) {
+      return NextResponse.json(
+        { error: 'Tablet ini belum terdaftar sebagai kiosk presensi' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        deviceName: kiosk.device.name,
+        locationName: kiosk.site.name,
+        employees: await getKioskEmployees(kiosk.site.id),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[API] Get kiosk employees error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodePhotoDataUrl } from '@/lib/photos';
+import { resolveKioskPunch } from '@/lib/kiosk';
+import { getCurrentKioskDevice, verifyKioskPin } from '@/lib/kiosk-devices';
+import { recordPunch } from '@/lib/attendance';
+
+// POST: Check in/out an employee on a shared kiosk tablet with their PIN and a kiosk selfie
+export async function POST(request: NextRequest) {
+  try {
+    const kiosk = await getCurrentKioskDevice();
+
+    if (!kiosk) {
+      return NextResponse.json(
+        { error: 'Tablet ini belum terdaftar sebagai kiosk presensi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { userId, pin, action, photo } = body;
+
+    if (action !== 'check-in' && action !== 'check-out') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof userId !== 'string' || !userId) {
+      return NextResponse.json(
+        { error: 'Pilih nama karyawan terlebih dahulu' },
+        { status: 400 }
+      );
+    }
+
+    // The kiosk selfie is what ties the PIN to the person standing at the tablet
+    if (!photo) {
+      return NextResponse.json(
+        { error: 'Foto wajib diambil' },
+        { status: 400 }
+      );
+    }
+
+    const decodedPhoto = decodePhotoDataUrl(photo);
+    if ('error' in decodedPhoto) {
+      return NextResponse.json(
+        { error: decodedPhoto.error },
+        { status: 400 }
+      );
+    }
+
+    const employee = await verifyKioskPin(userId, pin);
+    if ('error' in employee) {
+      return NextResponse.json(
+        { error: employee.error },
+        { status: 401 }
+      );
+    }
+
+    const kioskPunch = await resolveKioskPunch(employee.id, kiosk.site, 'Kiosk PIN');
+    if (!kioskPunch) {
+      return NextResponse.json(
+        { error: `${employee.name} tidak ditugaskan di ${kiosk.site.name}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordPunch(employee.id, {
+      action,
+      location: kioskPunch.position,
+      photo: decodedPhoto,
+      punchTime: { at: new Date(), offline: false },
+      method: 'pin',
+      resolution: kioskPunch.resolution,
+    });
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `${employee.name}: ${result.message}`,
+    });
+  } catch (error) {
+    console.error('[API] Kiosk punch error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { queryOne } from '@/lib/db';
+import { getKioskToken } from '@/lib/kiosk';
+import { getCurrentKioskDevice } from '@/lib/kiosk-devices';
+import type { OfficeLocationRow } from '@/lib/geofence';
+
+// GET: Current rotating QR code for the kiosk screen's site (registered kiosk device only, no login)
+export async function GET(request: NextRequest) {
+  try {
+    const kiosk = await getCurrentKioskDevice();
+
+    if (!kiosk) {
+      return NextResponse.json(
+        { error: 'Perangkat ini belum terdaftar sebagai kiosk presensi' },
+        { status: 401 }
+      );
+    }
+
+    const location = await queryOne<OfficeLocationRow>(
+      'SELECT * FROM office_locations WHERE id = ? AND is_active = TRUE',
+      [kiosk.site.id]
+    );
+
+    if (!location) {
+      return NextResponse.json(
+        { error: 'Lokasi kantor tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    if (!location.kiosk_secret) {
+      return NextResponse.json(
+        { error: 'Kiosk QR belum diaktifkan untuk lokasi ini' },
+        { status: 400 }
+      );
+    }
+
+    // The QR opens the attendance page on the employee's phone with the token attached
+    const { token, expiresAt } = getKioskToken(location.id, location.kiosk_secret);
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+    const qrImage = await QRCode.toDataURL(
+      `${baseUrl}/dashboard/attendance?qr=${encodeURIComponent(token)}`,
+      { width: 480, margin: 2 }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        locationName: location.name,
+        qrImage,
+        expiresAt,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[API] Get kiosk QR error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import {
+  deleteAttachment,
+  readAttachment,
+  saveAttachment,
+  validateAttachment,
+} from '@/lib/attachments';
+import {
+  mapRowToLeaveRequest,
+  LEAVE_REQUEST_SELECT,
+  type LeaveRequestRow,
+} from '@/lib/leave';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET: Download the attachment of a leave request (owner or admin)
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const row = await queryOne<LeaveRequestRow>(
+      `${LEAVE_REQUEST_SELECT} WHERE lr.id = ?`,
+      [id]
+    );
+
+    if (!row || (row.user_id !== currentUser.id && !(await isAdmin()))) {
+      return NextResponse.json(
+        { error: 'Lampiran tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    if (!row.attachment_path) {
+      return NextResponse.json(
+        { error: 'Lampiran tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const data = await readAttachment(row.attachment_path);
+    const fileName = (row.attachment_name || 'lampiran').replace(/[^\w.\- ]/g, '_');
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': row.attachment_mime_type || 'application/octet-stream',
+        'Content-Disposition': `inline; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Get leave attachment error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Upload or replace the attachment of the employee's own pending leave request
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const row = await queryOne<LeaveRequestRow>(
+      `${LEAVE_REQUEST_SELECT} WHERE lr.id = ? AND lr.user_id = ?`,
+      [id, currentUser.id]
+    );
+
+    if (!row) {
+      return NextResponse.json(
+        { error: 'Pengajuan cuti tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    // The document is part of what was approved or rejected, so it is fixed once processed
+    if (row.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Pengajuan cuti sudah diproses, lampiran tidak dapat diubah' },
+        { status: 400 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'File lampiran wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const validationError = validateAttachment(data, file.type);
+
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const attachmentPath = await saveAttachment('leave', id, data, file.type);
+
+    await query(
+      `UPDATE leave_requests SET attachment_path = ?, attachment_name = ?, attachment_mime_type = ?
+       WHERE id = ?`,
+      [attachmentPath, file.name.slice(0, 255), file.type, id]
+    );
+
+    if (row.attachment_path) {
+      await deleteAttachment(row.attachment_path);
+    }
+
+    const updated = await queryOne<LeaveRequestRow>(
+      `${LEAVE_REQUEST_SELECT} WHERE lr.id = ?`,
+      [id]
+    );
+
+    return NextResponse.json({
+      success: true,
+      request: mapRowToLeaveRequest(updated!),
+      message: 'Lampiran berhasil diunggah',
+    });
+  } catch (error) {
+    console.error('[API] Upload leave attachment error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { getLeaveBalances, type LeaveTypeRow } from '@/lib/leave';
+import { getUserDateTime } from '@/lib/business-time';
+
+// GET: Leave balances per leave type for one employee and year
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const year = searchParams.get('year');
+
+    // Non-admin can only see their own balance
+    const targetUserId = (await isAdmin()) && userId ? userId : currentUser.id;
+    const targetYear = year
+      ? parseInt(year, 10)
+      : parseInt((await getUserDateTime(targetUserId)).date.slice(0, 4), 10);
+
+    const balances = await getLeaveBalances(targetUserId, targetYear);
+
+    return NextResponse.json({
+      success: true,
+      balances,
+    });
+  } catch (error) {
+    console.error('[API] Get leave balances error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Set an employee's yearly quota for a leave type (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { userId, leaveTypeId, year, quota } = body;
+
+    if (!userId || !leaveTypeId || !Number.isInteger(year)) {
+      return NextResponse.json(
+        { error: 'Karyawan, jenis cuti dan tahun wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    if (quota !== null && (!Number.isInteger(quota) || quota < 0 || quota > 366)) {
+      return NextResponse.json(
+        { error: 'Jatah cuti harus antara 0 dan 366 hari' },
+        { status: 400 }
+      );
+    }
+
+    const leaveType = await queryOne<LeaveTypeRow>(
+      'SELECT * FROM leave_types WHERE id = ?',
+      [leaveTypeId]
+    );
+
+    if (!leaveType) {
+      return NextResponse.json(
+        { error: 'Jenis cuti tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    // null kembali ke jatah bawaan jenis cuti
+    if (quota === null) {
+      await query(
+        'DELETE FROM leave_quotas WHERE user_id = ? AND leave_type_id = ? AND year = ?',
+        [userId, leaveTypeId, year]
+      );
+    } else {
+      await query(
+        `INSERT INTO leave_quotas (user_id, leave_type_id, year, quota)
+         VALUES (?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE quota = VALUES(quota)`,
+        [userId, leaveTypeId, year, quota]
+      );
+    }
+
+    const balances = await getLeaveBalances(userId, year);
+
+    return NextResponse.json({
+      success: true,
+      balances,
+      message: `Jatah ${leaveType.name} berhasil diperbarui`,
+    });
+  } catch (error) {
+    console.error('[API] Update leave quota error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,366 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { deleteAttachment } from '@/lib/attachments';
+import {
+  approveLeaveRequest,
+  cancelApprovedLeave,
+  getLeaveBalances,
+  getLeaveDates,
+  isAttachmentRequired,
+  mapRowToLeaveRequest,
+  LEAVE_REQUEST_SELECT,
+  MAX_LEAVE_RANGE_DAYS,
+  type LeaveRequestRow,
+  type LeaveTypeRow,
+} from '@/lib/leave';
+import { addDays } from '@/lib/time';
+import { getUserDateTime } from '@/lib/business-time';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET: Fetch leave requests
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const status = searchParams.get('status');
+    const year = searchParams.get('year');
+
+    let sql = `${LEAVE_REQUEST_SELECT} WHERE 1=1`;
+    const params: unknown[] = [];
+
+    // Non-admin can only see their own requests
+    if (!(await isAdmin())) {
+      sql += ' AND lr.user_id = ?';
+      params.push(currentUser.id);
+    } else if (userId) {
+      sql += ' AND lr.user_id = ?';
+      params.push(userId);
+    }
+
+    if (status) {
+      sql += ' AND lr.status = ?';
+      params.push(status);
+    }
+
+    if (year) {
+      sql += ' AND YEAR(lr.start_date) = ?';
+      params.push(parseInt(year, 10));
+    }
+
+    sql += ' ORDER BY lr.start_date DESC, lr.created_at DESC';
+
+    const rows = await query<LeaveRequestRow[]>(sql, params);
+
+    return NextResponse.json({
+      success: true,
+      requests: rows.map(mapRowToLeaveRequest),
+    });
+  } catch (error) {
+    console.error('[API] Get leave requests error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Submit a leave request
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { leaveTypeId, startDate, endDate, reason } = body;
+
+    if (!leaveTypeId || !reason?.trim()) {
+      return NextResponse.json(
+        { error: 'Jenis cuti dan alasan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) ||
+      typeof endDate !== 'string' || !DATE_PATTERN.test(endDate) ||
+      endDate < startDate
+    ) {
+      return NextResponse.json(
+        { error: 'Rentang tanggal tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (addDays(startDate, MAX_LEAVE_RANGE_DAYS - 1) < endDate) {
+      return NextResponse.json(
+        { error: `Rentang tanggal maksimal ${MAX_LEAVE_RANGE_DAYS} hari` },
+        { status: 400 }
+      );
+    }
+
+    // Jatah cuti dihitung per tahun, jadi satu pengajuan tidak boleh lintas tahun
+    if (startDate.slice(0, 4) !== endDate.slice(0, 4)) {
+      return NextResponse.json(
+        { error: 'Pengajuan tidak boleh melewati pergantian tahun' },
+        { status: 400 }
+      );
+    }
+
+    const leaveType = await queryOne<LeaveTypeRow>(
+      'SELECT * FROM leave_types WHERE id = ? AND is_active = TRUE',
+      [leaveTypeId]
+    );
+
+    if (!leaveType) {
+      return NextResponse.json(
+        { error: 'Jenis cuti tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const overlapping = await queryOne<LeaveRequestRow>(
+      `SELECT id FROM leave_requests
+       WHERE user_id = ? AND status IN ('pending', 'approved')
+       AND start_date <= ? AND end_date >= ?`,
+      [currentUser.id, endDate, startDate]
+    );
+
+    if (overlapping) {
+      return NextResponse.json(
+        { error: 'Sudah ada pengajuan cuti pada tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    const overlappingTrip = await queryOne<LeaveRequestRow>(
+      `SELECT id FROM business_trips
+       WHERE user_id = ? AND status IN ('pending', 'approved')
+       AND start_date <= ? AND end_date >= ?`,
+      [currentUser.id, endDate, startDate]
+    );
+
+    if (overlappingTrip) {
+      return NextResponse.json(
+        { error: 'Sudah ada perjalanan dinas pada tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    const dates = await getLeaveDates(currentUser.id, startDate, endDate);
+
+    if (dates.length === 0) {
+      return NextResponse.json(
+        { error: 'Tidak ada hari kerja pada rentang tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    // Pengajuan yang masih pending ikut dihitung agar jatah tidak terpakai dua kali
+    const balances = await getLeaveBalances(currentUser.id, parseInt(startDate.slice(0, 4), 10));
+    const balance = balances.find((b) => b.leaveType.id === leaveTypeId);
+    if (balance?.remaining != null && dates.length > balance.remaining - balance.pending) {
+      return NextResponse.json(
+        { error: `Sisa jatah ${leaveType.name} tidak mencukupi (sisa ${balance.remaining - balance.pending} hari)` },
+        { status: 400 }
+      );
+    }
+
+    const requestId = `leave-${Date.now()}`;
+
+    await query(
+      `INSERT INTO leave_requests (id, user_id, leave_type_id, start_date, end_date, days, reason, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'pending')`,
+      [requestId, currentUser.id, leaveTypeId, startDate, endDate, dates.length, reason.trim()]
+    );
+
+    const created = await queryOne<LeaveRequestRow>(
+      `${LEAVE_REQUEST_SELECT} WHERE lr.id = ?`,
+      [requestId]
+    );
+
+    let message = `Pengajuan ${leaveType.name} ${dates.length} hari berhasil dikirim`;
+    if (isAttachmentRequired(leaveType.attachment_required_after_days, dates.length)) {
+      message += ' - wajib melampirkan dokumen pendukung';
+    }
+
+    return NextResponse.json({
+      success: true,
+      request: mapRowToLeaveRequest(created!),
+      message,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Create leave request error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Approve/reject (admin) or cancel (owner) a pending leave request,
+// or cancel the remaining days of an approved leave (owner or admin)
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, requestId } = body;
+
+    if (action !== 'approve' && action !== 'reject' && action !== 'cancel') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!requestId) {
+      return NextResponse.json(
+        { error: 'ID pengajuan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const row = await queryOne<LeaveRequestRow>(
+      `${LEAVE_REQUEST_SELECT} WHERE lr.id = ?`,
+      [requestId]
+    );
+
+    if (!row) {
+      return NextResponse.json(
+        { error: 'Pengajuan cuti tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const leaveRequest = mapRowToLeaveRequest(row);
+
+    if (action === 'cancel' && leaveRequest.status === 'approved') {
+      if (leaveRequest.userId !== currentUser.id && !(await isAdmin())) {
+        return NextResponse.json(
+          { error: 'Akses ditolak' },
+          { status: 403 }
+        );
+      }
+
+      const { date: today } = await getUserDateTime(leaveRequest.userId);
+      const cancelled = await cancelApprovedLeave(leaveRequest, today);
+      if (!cancelled) {
+        return NextResponse.json(
+          { error: 'Cuti sudah selesai dan tidak dapat dibatalkan' },
+          { status: 400 }
+        );
+      }
+
+      const remaining = await queryOne<LeaveRequestRow>(
+        `${LEAVE_REQUEST_SELECT} WHERE lr.id = ?`,
+        [requestId]
+      );
+      if (!remaining && row.attachment_path) {
+        await deleteAttachment(row.attachment_path);
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: remaining
+          ? `Sisa cuti mulai hari ini dibatalkan, ${remaining.days} hari tetap tercatat`
+          : 'Cuti dibatalkan',
+      });
+    }
+
+    if (leaveRequest.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Pengajuan cuti sudah diproses' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'cancel') {
+      if (leaveRequest.userId !== currentUser.id) {
+        return NextResponse.json(
+          { error: 'Akses ditolak' },
+          { status: 403 }
+        );
+      }
+
+      await query('DELETE FROM leave_requests WHERE id = ?', [requestId]);
+      if (row.attachment_path) {
+        await deleteAttachment(row.attachment_path);
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Pengajuan cuti dibatalkan',
+      });
+    }
+
+    // Approve/reject is admin only
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    if (action === 'approve') {
+      // Hari kerja dihitung ulang karena roster/hari libur bisa berubah sejak pengajuan
+      const dates = await getLeaveDates(leaveRequest.userId, leaveRequest.startDate, leaveRequest.endDate);
+      const balances = await getLeaveBalances(leaveRequest.userId, parseInt(leaveRequest.startDate.slice(0, 4), 10));
+      const balance = balances.find((b) => b.leaveType.id === leaveRequest.leaveTypeId);
+
+      if (balance?.remaining != null && dates.length > balance.remaining) {
+        return NextResponse.json(
+          { error: `Sisa jatah ${leaveRequest.leaveTypeName} tidak mencukupi (sisa ${balance.remaining} hari)` },
+          { status: 400 }
+        );
+      }
+
+      await approveLeaveRequest(leaveRequest, dates, currentUser.id);
+    } else {
+      await query(
+        `UPDATE leave_requests SET status = 'rejected', approved_by = ?, approved_at = NOW() WHERE id = ?`,
+        [currentUser.id, requestId]
+      );
+    }
+
+    const updated = await queryOne<LeaveRequestRow>(
+      `${LEAVE_REQUEST_SELECT} WHERE lr.id = ?`,
+      [requestId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      request: mapRowToLeaveRequest(updated!),
+      message: `Pengajuan cuti ${action === 'approve' ? 'disetujui' : 'ditolak'}`,
+    });
+  } catch (error) {
+    console.error('[API] Leave request action error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,366 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import {
+  getActiveOfficeLocations,
+  type OfficeLocationRow,
+} from '@/lib/geofence';
+import { isValidLateTolerance, isValidMinBreak } from '@/lib/shifts';
+import { generateKioskSecret } from '@/lib/kiosk';
+import { INDONESIAN_TIMEZONES } from '@/lib/types';
+import type { ResultSetHeader } from 'mysql2';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function validateCoordinates(latitude: unknown, longitude: unknown): boolean {
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    latitude >= -90 && latitude <= 90 &&
+    longitude >= -180 && longitude <= 180
+  );
+}
+
+function validateTimezone(timezone: unknown): boolean {
+  return INDONESIAN_TIMEZONES.some((tz) => tz.value === timezone);
+}
+
+/**
+ * Validasi jadwal khusus site. null berarti mengikuti jadwal harian.
+ */
+function validateScheduleOverride(override: unknown): string | null {
+  if (override === null) return null;
+  const { startTime, endTime, minWorkHours, lateToleranceMinutes = 0, minBreakMinutes = 0 } = override as Record<string, unknown>;
+  if (
+    typeof startTime !== 'string' || !TIME_PATTERN.test(startTime) ||
+    typeof endTime !== 'string' || !TIME_PATTERN.test(endTime)
+  ) {
+    return 'Format jam jadwal khusus tidak valid';
+  }
+  if (typeof minWorkHours !== 'number' || minWorkHours <= 0 || minWorkHours > 24) {
+    return 'Minimal jam kerja jadwal khusus tidak valid';
+  }
+  if (!isValidLateTolerance(lateToleranceMinutes)) {
+    return 'Toleransi keterlambatan jadwal khusus tidak valid';
+  }
+  if (!isValidMinBreak(minBreakMinutes)) {
+    return 'Istirahat wajib jadwal khusus tidak valid';
+  }
+  return null;
+}
+
+// GET: Fetch office locations
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const locations = await getActiveOfficeLocations();
+
+    return NextResponse.json({
+      success: true,
+      locations,
+    });
+  } catch (error) {
+    console.error('[API] Get office locations error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Add office location (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, latitude, longitude, radiusMeters, timezone, scheduleOverride } = body;
+
+    if (!name || !validateCoordinates(latitude, longitude)) {
+      return NextResponse.json(
+        { error: 'Nama dan koordinat lokasi wajib diisi dengan benar' },
+        { status: 400 }
+      );
+    }
+
+    if (!radiusMeters || radiusMeters <= 0) {
+      return NextResponse.json(
+        { error: 'Radius harus lebih dari 0 meter' },
+        { status: 400 }
+      );
+    }
+
+    if (timezone !== undefined && !validateTimezone(timezone)) {
+      return NextResponse.json(
+        { error: 'Zona waktu tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (scheduleOverride !== undefined) {
+      const overrideError = validateScheduleOverride(scheduleOverride);
+      if (overrideError) {
+        return NextResponse.json(
+          { error: overrideError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const locationId = `loc-${Date.now()}`;
+
+    await query(
+      `INSERT INTO office_locations
+       (id, name, latitude, longitude, radius_meters, timezone, start_time, end_time, min_work_hours, late_tolerance_minutes,
+        min_break_minutes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        locationId,
+        name,
+        latitude,
+        longitude,
+        Math.round(radiusMeters),
+        timezone || 'Asia/Jakarta',
+        scheduleOverride?.startTime ?? null,
+        scheduleOverride?.endTime ?? null,
+        scheduleOverride?.minWorkHours ?? null,
+        scheduleOverride ? scheduleOverride.lateToleranceMinutes ?? 0 : null,
+        scheduleOverride ? scheduleOverride.minBreakMinutes ?? 0 : null,
+      ]
+    );
+
+    const locations = await getActiveOfficeLocations();
+
+    return NextResponse.json({
+      success: true,
+      locations,
+      message: 'Lokasi kantor berhasil ditambahkan',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Add office location error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Update office location (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name, latitude, longitude, radiusMeters, timezone, scheduleOverride, kioskEnabled } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID lokasi wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await queryOne<OfficeLocationRow>(
+      'SELECT * FROM office_locations WHERE id = ? AND is_active = TRUE',
+      [id]
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Lokasi kantor tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const updates: string[] = [];
+    const values: unknown[] = [];
+
+    if (name) {
+      updates.push('name = ?');
+      values.push(name);
+    }
+
+    if (latitude !== undefined || longitude !== undefined) {
+      const newLatitude = latitude ?? Number(existing.latitude);
+      const newLongitude = longitude ?? Number(existing.longitude);
+      if (!validateCoordinates(newLatitude, newLongitude)) {
+        return NextResponse.json(
+          { error: 'Koordinat tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('latitude = ?', 'longitude = ?');
+      values.push(newLatitude, newLongitude);
+    }
+
+    if (radiusMeters !== undefined) {
+      if (radiusMeters <= 0) {
+        return NextResponse.json(
+          { error: 'Radius harus lebih dari 0 meter' },
+          { status: 400 }
+        );
+      }
+      updates.push('radius_meters = ?');
+      values.push(Math.round(radiusMeters));
+    }
+
+    if (timezone !== undefined) {
+      if (!validateTimezone(timezone)) {
+        return NextResponse.json(
+          { error: 'Zona waktu tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('timezone = ?');
+      values.push(timezone);
+    }
+
+    if (scheduleOverride !== undefined) {
+      const overrideError = validateScheduleOverride(scheduleOverride);
+      if (overrideError) {
+        return NextResponse.json(
+          { error: overrideError },
+          { status: 400 }
+        );
+      }
+      updates.push(
+        'start_time = ?', 'end_time = ?', 'min_work_hours = ?', 'late_tolerance_minutes = ?', 'min_break_minutes = ?'
+      );
+      values.push(
+        scheduleOverride?.startTime ?? null,
+        scheduleOverride?.endTime ?? null,
+        scheduleOverride?.minWorkHours ?? null,
+        scheduleOverride ? scheduleOverride.lateToleranceMinutes ?? 0 : null,
+        scheduleOverride ? scheduleOverride.minBreakMinutes ?? 0 : null
+      );
+    }
+
+    // Enabling the kiosk always issues a new secret, which also invalidates codes shown before
+    if (kioskEnabled !== undefined) {
+      updates.push('kiosk_secret = ?');
+      values.push(kioskEnabled ? generateKioskSecret() : null);
+    }
+
+    if (updates.length === 0) {
+      return NextResponse.json(
+        { error: 'Tidak ada data yang diupdate' },
+        { status: 400 }
+      );
+    }
+
+    values.push(id);
+
+    await query(
+      `UPDATE office_locations SET ${updates.join(', ')} WHERE id = ?`,
+      values
+    );
+
+    const locations = await getActiveOfficeLocations();
+
+    return NextResponse.json({
+      success: true,
+      locations,
+      message: 'Lokasi kantor berhasil diupdate',
+    });
+  } catch (error) {
+    console.error('[API] Update office location error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Soft delete office location (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID lokasi wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    // Soft delete agar riwayat presensi tetap menunjuk ke lokasi yang benar
+    const result = await query<ResultSetHeader>(
+      'UPDATE office_locations SET is_active = FALSE WHERE id = ? AND is_active = TRUE',
+      [id]
+    );
+
+    if (result.affectedRows === 0) {
+      return NextResponse.json(
+        { error: 'Lokasi kantor tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const locations = await getActiveOfficeLocations();
+
+    return NextResponse.json({
+      success: true,
+      locations,
+      message: 'Lokasi kantor berhasil dihapus',
+    });
+  } catch (error) {
+    console.error('[API] Delete office location error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
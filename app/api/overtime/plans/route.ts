@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { getUserDateTime } from '@/lib/business-time';
+import {
+  OVERTIME_PLAN_SELECT,
+  getMaxOvertimeHours,
+  getOvertimeDayType,
+  mapRowToOvertimePlan,
+  toWorkWeekDays,
+  type OvertimePlanRow,
+} from '@/lib/overtime';
+import type { RowDataPacket } from 'mysql2';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET: Fetch overtime plans
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const status = searchParams.get('status');
+    const date = searchParams.get('date');
+
+    let sql = `${OVERTIME_PLAN_SELECT} WHERE 1=1`;
+    const params: unknown[] = [];
+
+    // Non-admin can only see their own plans
+    if (!(await isAdmin())) {
+      sql += ' AND op.user_id = ?';
+      params.push(currentUser.id);
+    } else if (userId) {
+      sql += ' AND op.user_id = ?';
+      params.push(userId);
+    }
+
+    if (status) {
+      sql += ' AND op.status = ?';
+      params.push(status);
+    }
+
+    if (date) {
+      sql += ' AND op.date = ?';
+      params.push(date);
+    }
+
+    sql += ' ORDER BY op.date DESC, op.created_at DESC';
+
+    const rows = await query<OvertimePlanRow[]>(sql, params);
+
+    return NextResponse.json({
+      success: true,
+      plans: rows.map(mapRowToOvertimePlan),
+    });
+  } catch (error) {
+    console.error('[API] Get overtime plans error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Submit an overtime plan (surat perintah lembur) before the overtime starts
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { date, expectedHours, reason } = body;
+
+    if (!date || expectedHours === undefined || !reason?.trim()) {
+      return NextResponse.json(
+        { error: 'Tanggal, rencana jam lembur dan alasan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    if (!DATE_PATTERN.test(date)) {
+      return NextResponse.json(
+        { error: 'Format tanggal tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const { date: today } = await getUserDateTime(currentUser.id);
+    if (date < today) {
+      return NextResponse.json(
+        { error: 'Rencana lembur harus diajukan sebelum lembur dimulai' },
+        { status: 400 }
+      );
+    }
+
+    // The 4-hour daily limit only applies to workdays
+    const employee = await queryOne<RowDataPacket>(
+      'SELECT work_week_days FROM users WHERE id = ?',
+      [currentUser.id]
+    );
+    const dayType = await getOvertimeDayType(currentUser.id, date);
+    const maxHours = getMaxOvertimeHours(dayType, toWorkWeekDays(employee?.work_week_days));
+
+    const hours = Number(expectedHours);
+    if (!Number.isFinite(hours) || hours <= 0 || hours > maxHours) {
+      return NextResponse.json(
+        { error: `Rencana lembur harus lebih dari 0 dan paling lama ${maxHours} jam pada tanggal tersebut` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await queryOne<OvertimePlanRow>(
+      `SELECT id FROM overtime_plans
+       WHERE user_id = ? AND date = ? AND status IN ('pending', 'approved')`,
+      [currentUser.id, date]
+    );
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'Sudah ada rencana lembur untuk tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    const planId = `otp-${Date.now()}`;
+
+    await query(
+      `INSERT INTO overtime_plans (id, user_id, date, expected_hours, reason)
+       VALUES (?, ?, ?, ?, ?)`,
+      [planId, currentUser.id, date, hours, reason.trim()]
+    );
+
+    const created = await queryOne<OvertimePlanRow>(
+      `${OVERTIME_PLAN_SELECT} WHERE op.id = ?`,
+      [planId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      plan: mapRowToOvertimePlan(created!),
+      message: 'Rencana lembur berhasil diajukan',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Create overtime plan error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Approve/reject (admin) or cancel (owner) a pending overtime plan
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, planId } = body;
+
+    if (action !== 'approve' && action !== 'reject' && action !== 'cancel') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!planId) {
+      return NextResponse.json(
+        { error: 'ID rencana lembur wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await queryOne<OvertimePlanRow>(
+      `${OVERTIME_PLAN_SELECT} WHERE op.id = ?`,
+      [planId]
+    );
+
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Rencana lembur tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    if (plan.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Rencana lembur sudah diproses' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'cancel') {
+      if (plan.user_id !== currentUser.id) {
+        return NextResponse.json(
+          { error: 'Akses ditolak' },
+          { status: 403 }
+        );
+      }
+
+      await query('DELETE FROM overtime_plans WHERE id = ?', [planId]);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Rencana lembur dibatalkan',
+      });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    await query(
+      `UPDATE overtime_plans SET status = ?, approved_by = ?, approved_at = NOW() WHERE id = ?`,
+      [action === 'approve' ? 'approved' : 'rejected', currentUser.id, planId]
+    );
+
+    const updated = await queryOne<OvertimePlanRow>(
+      `${OVERTIME_PLAN_SELECT} WHERE op.id = ?`,
+      [planId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      plan: mapRowToOvertimePlan(updated!),
+      message: `Rencana lembur ${action === 'approve' ? 'disetujui' : 'ditolak'}`,
+    });
+  } catch (error) {
+    console.error('[API] Overtime plan action error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
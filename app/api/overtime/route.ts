@@ -1,45 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query, queryOne } from '@/lib/db';
 import { getCurrentUser, isAdmin } from '@/lib/auth';
-import type { OvertimeRecord } from '@/lib/types';
+import { getEffectiveSchedule } from '@/lib/shifts';
+import { getDayOfWeek, minutesBetween } from '@/lib/time';
+import { getUserDateTime } from '@/lib/business-time';
+import {
+  OVERTIME_SELECT,
+  getMaxOvertimeHours,
+  getOvertimeDayType,
+  getOvertimePayForRow,
+  getPlannedPortion,
+  getUnusedApprovedPlan,
+  mapRowToOvertimeRecord,
+  reconcileOvertime,
+  toWorkWeekDays,
+  type OvertimeRow,
+} from '@/lib/overtime';
 import type { RowDataPacket } from 'mysql2';
 
-interface OvertimeRow extends RowDataPacket {
-  id: string;
-  user_id: string;
-  date: string;
-  start_time: string;
-  end_time: string | null;
-  duration: number;
-  reason: string;
-  status: 'pending' | 'approved' | 'rejected';
-  approved_by: string | null;
-}
-
 interface AttendanceRow extends RowDataPacket {
+  date: string;
   check_in_time: string | null;
   check_out_time: string | null;
   work_hours: number;
 }
 
-interface WorkScheduleRow extends RowDataPacket {
-  min_work_hours: number;
-}
-
-function mapRowToOvertimeRecord(row: OvertimeRow): OvertimeRecord {
-  return {
-    id: row.id,
-    userId: row.user_id,
-    date: row.date,
-    startTime: row.start_time,
-    endTime: row.end_time,
-    duration: row.duration,
-    reason: row.reason,
-    status: row.status,
-    approvedBy: row.approved_by,
-  };
-}
-
 // GET: Fetch overtime records
 export async function GET(request: NextRequest) {
   try {
@@ -56,24 +41,24 @@ export async function GET(request: NextRequest) {
     const userId = searchParams.get('userId');
     const status = searchParams.get('status');
 
-    let sql = 'SELECT * FROM overtime_records WHERE 1=1';
+    let sql = `${OVERTIME_SELECT} WHERE 1=1`;
     const params: unknown[] = [];
 
     // Non-admin can only see their own records
     if (!(await isAdmin())) {
-      sql += ' AND user_id = ?';
+      sql += ' AND ot.user_id = ?';
       params.push(currentUser.id);
     } else if (userId) {
-      sql += ' AND user_id = ?';
+      sql += ' AND ot.user_id = ?';
       params.push(userId);
     }
 
     if (status) {
-      sql += ' AND status = ?';
+      sql += ' AND ot.status = ?';
       params.push(status);
     }
 
-    sql += ' ORDER BY date DESC, start_time DESC';
+    sql += ' ORDER BY ot.date DESC, ot.start_time DESC';
 
     const rows = await query<OvertimeRow[]>(sql, params);
     const records = rows.map(mapRowToOvertimeRecord);
@@ -91,7 +76,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST: Start overtime
+// POST: Start overtime under an approved overtime plan
 export async function POST(request: NextRequest) {
   try {
     const currentUser = await getCurrentUser();
@@ -104,57 +89,62 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { reason } = body;
 
-    if (!reason) {
-      return NextResponse.json(
-        { error: 'Alasan lembur wajib diisi' },
-        { status: 400 }
-      );
-    }
-
-    const now = new Date();
-    const today = now.toISOString().split('T')[0];
-    const timeString = now.toTimeString().slice(0, 5);
-    const dayOfWeek = now.getDay();
+    // Local date/time follows the employee's site timezone
+    const { date: today, time: timeString } = await getUserDateTime(currentUser.id);
 
-    // Check if user has checked in and out today
-    const attendance = await queryOne<AttendanceRow>(
-      'SELECT * FROM attendance_records WHERE user_id = ? AND date = ?',
-      [currentUser.id, today]
-    );
+    // Overtime must be authorized in advance (surat perintah lembur)
+    const plan = await getUnusedApprovedPlan(currentUser.id, today);
 
-    if (!attendance?.check_in_time) {
+    if (!plan) {
       return NextResponse.json(
-        { error: 'Anda harus check-in terlebih dahulu' },
+        { error: 'Belum ada rencana lembur yang disetujui untuk hari ini' },
         { status: 400 }
       );
     }
 
-    if (!attendance.check_out_time) {
-      return NextResponse.json(
-        { error: 'Anda harus check-out terlebih dahulu' },
-        { status: 400 }
+    // On rest days and holidays every hour is overtime, so only workdays need a completed shift
+    const dayType = await getOvertimeDayType(currentUser.id, today);
+
+    if (dayType === 'workday') {
+      // Check if user has checked in and out today (a night shift checks out the day after its date)
+      const attendance = await queryOne<AttendanceRow>(
+        `SELECT *, DATE_FORMAT(date, '%Y-%m-%d') AS date FROM attendance_records
+         WHERE user_id = ? AND (date = ? OR check_out_date = ?)
+         ORDER BY date DESC LIMIT 1`,
+        [currentUser.id, today, today]
       );
-    }
 
-    // Check if minimum work hours met
-    const schedule = await queryOne<WorkScheduleRow>(
-      'SELECT min_work_hours FROM work_schedules WHERE day_of_week = ?',
-      [dayOfWeek]
-    );
+      if (!attendance?.check_in_time) {
+        return NextResponse.json(
+          { error: 'Anda harus check-in terlebih dahulu' },
+          { status: 400 }
+        );
+      }
 
-    if (attendance.work_hours < (schedule?.min_work_hours || 8)) {
-      return NextResponse.json(
-        { error: `Anda harus memenuhi minimal ${schedule?.min_work_hours || 8} jam kerja sebelum lembur` },
-        { status: 400 }
-      );
+      if (!attendance.check_out_time) {
+        return NextResponse.json(
+          { error: 'Anda harus check-out terlebih dahulu' },
+          { status: 400 }
+        );
+      }
+
+      // Check if minimum work hours of the shift's schedule met
+      const schedule = await getEffectiveSchedule(currentUser.id, attendance.date, getDayOfWeek(attendance.date));
+      const minWorkHours = schedule?.minWorkHours || 8;
+
+      if (attendance.work_hours < minWorkHours) {
+        return NextResponse.json(
+          { error: `Anda harus memenuhi minimal ${minWorkHours} jam kerja sebelum lembur` },
+          { status: 400 }
+        );
+      }
     }
 
-    // Check if overtime already exists today
+    // Check if an overtime is still running
     const existingOvertime = await queryOne<OvertimeRow>(
-      'SELECT * FROM overtime_records WHERE user_id = ? AND date = ? AND end_time IS NULL',
-      [currentUser.id, today]
+      `${OVERTIME_SELECT} WHERE ot.user_id = ? AND ot.end_time IS NULL`,
+      [currentUser.id]
     );
 
     if (existingOvertime) {
@@ -165,22 +155,23 @@ export async function POST(request: NextRequest) {
     }
 
     const overtimeId = `ot-${Date.now()}`;
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : plan.reason;
 
     await query(
-      `INSERT INTO overtime_records (id, user_id, date, start_time, reason, status)
-       VALUES (?, ?, ?, ?, ?, 'pending')`,
-      [overtimeId, currentUser.id, today, timeString, reason]
+      `INSERT INTO overtime_records (id, user_id, plan_id, date, day_type, start_time, reason, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'pending')`,
+      [overtimeId, currentUser.id, plan.id, today, dayType, timeString, reason]
     );
 
     const newRecord = await queryOne<OvertimeRow>(
-      'SELECT * FROM overtime_records WHERE id = ?',
+      `${OVERTIME_SELECT} WHERE ot.id = ?`,
       [overtimeId]
     );
 
     return NextResponse.json({
       success: true,
       record: mapRowToOvertimeRecord(newRecord!),
-      message: 'Lembur dimulai',
+      message: `Lembur dimulai (rencana ${plan.expectedHours} jam)`,
     }, { status: 201 });
   } catch (error) {
     console.error('[API] Start overtime error:', error);
@@ -204,17 +195,17 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { action, overtimeId, approved } = body;
+    const { action, overtimeId } = body;
 
     if (action === 'end') {
       // End user's current overtime
-      const now = new Date();
-      const today = now.toISOString().split('T')[0];
-      const timeString = now.toTimeString().slice(0, 5);
+      const { date: today, time: timeString } = await getUserDateTime(currentUser.id);
 
+      // Overtime may run past midnight, so look up the open record regardless of date
       const overtime = await queryOne<OvertimeRow>(
-        'SELECT * FROM overtime_records WHERE user_id = ? AND date = ? AND end_time IS NULL',
-        [currentUser.id, today]
+        `${OVERTIME_SELECT} WHERE ot.user_id = ? AND ot.end_time IS NULL
+         ORDER BY ot.date DESC LIMIT 1`,
+        [currentUser.id]
       );
 
       if (!overtime) {
@@ -224,25 +215,31 @@ export async function PUT(request: NextRequest) {
         );
       }
 
-      // Calculate duration
-      const startMinutes = parseInt(overtime.start_time.split(':')[0]) * 60 + parseInt(overtime.start_time.split(':')[1]);
-      const endMinutes = parseInt(timeString.split(':')[0]) * 60 + parseInt(timeString.split(':')[1]);
-      const duration = Math.max(0, (endMinutes - startMinutes) / 60);
+      // Calculate duration from full timestamps
+      const duration = Math.max(0, minutesBetween(overtime.date, overtime.start_time, today, timeString) / 60);
+
+      // Reconcile against the plan: hours beyond it wait for admin approval
+      const plannedHours = overtime.planned_hours !== null ? Number(overtime.planned_hours) : null;
+      const maxHours = getMaxOvertimeHours(overtime.day_type, toWorkWeekDays(overtime.work_week_days));
+      const { status, approvedHours } = reconcileOvertime(duration, plannedHours, maxHours);
 
       await query(
-        'UPDATE overtime_records SET end_time = ?, duration = ? WHERE id = ?',
-        [timeString, duration, overtime.id]
+        `UPDATE overtime_records SET end_date = ?, end_time = ?, duration = ?, approved_hours = ?, pay_amount = ?, status = ?
+         WHERE id = ?`,
+        [today, timeString, duration, approvedHours, getOvertimePayForRow(overtime, approvedHours), status, overtime.id]
       );
 
       const updatedRecord = await queryOne<OvertimeRow>(
-        'SELECT * FROM overtime_records WHERE id = ?',
+        `${OVERTIME_SELECT} WHERE ot.id = ?`,
         [overtime.id]
       );
 
       return NextResponse.json({
         success: true,
         record: mapRowToOvertimeRecord(updatedRecord!),
-        message: 'Lembur selesai',
+        message: status === 'approved'
+          ? 'Lembur selesai'
+          : `Lembur selesai. Kelebihan ${(duration - approvedHours).toFixed(1)} jam dari rencana menunggu persetujuan admin`,
       });
     }
 
@@ -262,29 +259,61 @@ export async function PUT(request: NextRequest) {
         );
       }
 
-      const status = action === 'approve' ? 'approved' : 'rejected';
-
-      await query(
-        'UPDATE overtime_records SET status = ?, approved_by = ?, approved_at = NOW() WHERE id = ?',
-        [status, currentUser.id, overtimeId]
-      );
-
-      const updatedRecord = await queryOne<OvertimeRow>(
-        'SELECT * FROM overtime_records WHERE id = ?',
+      const overtime = await queryOne<OvertimeRow>(
+        `${OVERTIME_SELECT} WHERE ot.id = ?`,
         [overtimeId]
       );
 
-      if (!updatedRecord) {
+      if (!overtime) {
         return NextResponse.json(
           { error: 'Data lembur tidak ditemukan' },
           { status: 404 }
         );
       }
 
+      if (!overtime.end_time) {
+        return NextResponse.json(
+          { error: 'Lembur masih berjalan' },
+          { status: 400 }
+        );
+      }
+
+      if (overtime.status !== 'pending') {
+        return NextResponse.json(
+          { error: 'Lembur sudah diproses' },
+          { status: 400 }
+        );
+      }
+
+      // Rejecting only drops the hours beyond the plan; the planned hours stay recognized.
+      // Approval never recognizes more than the daily overtime limit.
+      const status = action === 'approve' ? 'approved' : 'rejected';
+      const duration = Number(overtime.duration);
+      const plannedHours = overtime.planned_hours !== null ? Number(overtime.planned_hours) : null;
+      const maxHours = getMaxOvertimeHours(overtime.day_type, toWorkWeekDays(overtime.work_week_days));
+      const approvedHours = status === 'approved'
+        ? Math.min(duration, maxHours)
+        : Math.min(getPlannedPortion(duration, plannedHours), maxHours);
+
+      await query(
+        `UPDATE overtime_records SET status = ?, approved_hours = ?, pay_amount = ?, approved_by = ?, approved_at = NOW()
+         WHERE id = ?`,
+        [status, approvedHours, getOvertimePayForRow(overtime, approvedHours), currentUser.id, overtimeId]
+      );
+
+      const updatedRecord = await queryOne<OvertimeRow>(
+        `${OVERTIME_SELECT} WHERE ot.id = ?`,
+        [overtimeId]
+      );
+
       return NextResponse.json({
         success: true,
-        record: mapRowToOvertimeRecord(updatedRecord),
-        message: `Lembur ${status === 'approved' ? 'disetujui' : 'ditolak'}`,
+        record: mapRowToOvertimeRecord(updatedRecord!),
+        message: status === 'approved'
+          ? 'Lembur disetujui'
+          : approvedHours > 0
+          ? `Kelebihan lembur ditolak, ${approvedHours.toFixed(1)} jam sesuai rencana tetap diakui`
+          : 'Lembur ditolak',
       });
     }
 
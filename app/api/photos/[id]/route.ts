@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { getPhoto, readPhoto, readThumbnail } from '@/lib/photos';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET: Serve an attendance photo or its thumbnail (?size=thumbnail) to the owner or an admin
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const photo = await getPhoto(id);
+
+    if (!photo || (photo.user_id !== currentUser.id && !(await isAdmin()))) {
+      return NextResponse.json(
+        { error: 'Foto tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    // Foto lama tanpa thumbnail dilayani dalam ukuran asli
+    const wantsThumbnail = new URL(request.url).searchParams.get('size') === 'thumbnail';
+    const thumbnail = wantsThumbnail ? await readThumbnail(photo) : null;
+    const data = thumbnail ?? await readPhoto(photo);
+
+    // Isi foto tidak pernah berubah untuk ID yang sama, aman di-cache browser
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': thumbnail ? 'image/jpeg' : photo.mime_type,
+        'Content-Length': String(data.length),
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        ETag: `"${photo.checksum}${thumbnail ? '-thumbnail' : ''}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[API] Get photo error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
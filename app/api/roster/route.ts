@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import {
+  getActiveShifts,
+  getRoster,
+  expandRotation,
+  saveRoster,
+  MAX_ROSTER_DAYS,
+} from '@/lib/shifts';
+import { addDays } from '@/lib/time';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateDateRange(startDate: unknown, endDate: unknown): string | null {
+  if (
+    typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) ||
+    typeof endDate !== 'string' || !DATE_PATTERN.test(endDate)
+  ) {
+    return 'Rentang tanggal tidak valid';
+  }
+  if (endDate < startDate) {
+    return 'Tanggal akhir harus setelah tanggal mulai';
+  }
+  if (addDays(startDate, MAX_ROSTER_DAYS - 1) < endDate) {
+    return `Rentang tanggal maksimal ${MAX_ROSTER_DAYS} hari`;
+  }
+  return null;
+}
+
+// GET: Fetch shift roster
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate') || startDate;
+    const userId = searchParams.get('userId');
+
+    const rangeError = validateDateRange(startDate, endDate);
+    if (rangeError) {
+      return NextResponse.json(
+        { error: rangeError },
+        { status: 400 }
+      );
+    }
+
+    // Non-admin can only see their own roster
+    const rosterUserId = (await isAdmin()) ? userId || undefined : currentUser.id;
+    const roster = await getRoster(startDate!, endDate!, rosterUserId);
+
+    return NextResponse.json({
+      success: true,
+      roster,
+    });
+  } catch (error) {
+    console.error('[API] Get roster error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Assign shifts using a rotation pattern (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { userIds, startDate, endDate, pattern } = body;
+
+    if (!Array.isArray(userIds) || userIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Pilih minimal satu karyawan' },
+        { status: 400 }
+      );
+    }
+
+    const rangeError = validateDateRange(startDate, endDate);
+    if (rangeError) {
+      return NextResponse.json(
+        { error: rangeError },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(pattern) || pattern.length === 0) {
+      return NextResponse.json(
+        { error: 'Pola shift wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    // Setiap langkah pola berisi ID shift aktif atau null (libur)
+    const shiftIds = new Set((await getActiveShifts()).map((shift) => shift.id));
+    if (pattern.some((step: unknown) => step !== null && !shiftIds.has(step as string))) {
+      return NextResponse.json(
+        { error: 'Pola shift berisi shift yang tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const entries = expandRotation(startDate, endDate, pattern);
+    await saveRoster(userIds, entries, currentUser.id);
+
+    const roster = await getRoster(startDate, endDate);
+
+    return NextResponse.json({
+      success: true,
+      roster,
+      message: `Jadwal shift berhasil disimpan untuk ${userIds.length} karyawan`,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Assign roster error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Clear roster entries so the weekday schedule applies again (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate') || startDate;
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'ID karyawan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const rangeError = validateDateRange(startDate, endDate);
+    if (rangeError) {
+      return NextResponse.json(
+        { error: rangeError },
+        { status: 400 }
+      );
+    }
+
+    await query(
+      'DELETE FROM shift_roster WHERE user_id = ? AND date BETWEEN ? AND ?',
+      [userId, startDate, endDate]
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Jadwal shift berhasil dihapus',
+    });
+  } catch (error) {
+    console.error('[API] Clear roster error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
 import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { isValidLateTolerance, isValidMinBreak } from '@/lib/shifts';
 import type { WorkSchedule } from '@/lib/types';
 import type { RowDataPacket } from 'mysql2';
 
@@ -10,15 +11,19 @@ interface WorkScheduleRow extends RowDataPacket {
   start_time: string;
   end_time: string;
   min_work_hours: number;
+  late_tolerance_minutes: number;
+  min_break_minutes: number;
   is_active: boolean;
 }
 
 function mapRowToSchedule(row: WorkScheduleRow): WorkSchedule {
   return {
     dayOfWeek: row.day_of_week,
-    startTime: row.start_time,
-    endTime: row.end_time,
-    minWorkHours: row.min_work_hours,
+    startTime: row.start_time.slice(0, 5),
+    endTime: row.end_time.slice(0, 5),
+    minWorkHours: Number(row.min_work_hours),
+    lateToleranceMinutes: Number(row.late_tolerance_minutes),
+    minBreakMinutes: Number(row.min_break_minutes),
   };
 }
 
@@ -73,7 +78,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { dayOfWeek, startTime, endTime, minWorkHours } = body;
+    const { dayOfWeek, startTime, endTime, minWorkHours, lateToleranceMinutes, minBreakMinutes } = body;
 
     if (dayOfWeek === undefined || dayOfWeek < 0 || dayOfWeek > 6) {
       return NextResponse.json(
@@ -100,6 +105,28 @@ export async function PUT(request: NextRequest) {
       values.push(minWorkHours);
     }
 
+    if (lateToleranceMinutes !== undefined) {
+      if (!isValidLateTolerance(lateToleranceMinutes)) {
+        return NextResponse.json(
+          { error: 'Toleransi keterlambatan tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('late_tolerance_minutes = ?');
+      values.push(lateToleranceMinutes);
+    }
+
+    if (minBreakMinutes !== undefined) {
+      if (!isValidMinBreak(minBreakMinutes)) {
+        return NextResponse.json(
+          { error: 'Istirahat wajib tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('min_break_minutes = ?');
+      values.push(minBreakMinutes);
+    }
+
     if (updates.length === 0) {
       return NextResponse.json(
         { error: 'Tidak ada data yang diupdate' },
@@ -0,0 +1,302 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { getActiveShifts, isValidLateTolerance, isValidMinBreak, type ShiftRow } from '@/lib/shifts';
+import type { ResultSetHeader } from 'mysql2';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function validateShiftTimes(startTime: unknown, endTime: unknown): boolean {
+  return (
+    typeof startTime === 'string' && TIME_PATTERN.test(startTime) &&
+    typeof endTime === 'string' && TIME_PATTERN.test(endTime)
+  );
+}
+
+function validateMinWorkHours(minWorkHours: unknown): boolean {
+  return typeof minWorkHours === 'number' && minWorkHours > 0 && minWorkHours <= 24;
+}
+
+// GET: Fetch shifts
+export async function GET() {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const shifts = await getActiveShifts();
+
+    return NextResponse.json({
+      success: true,
+      shifts,
+    });
+  } catch (error) {
+    console.error('[API] Get shifts error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Add shift (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, startTime, endTime, minWorkHours, lateToleranceMinutes = 0, minBreakMinutes = 0 } = body;
+
+    if (!name || !validateShiftTimes(startTime, endTime)) {
+      return NextResponse.json(
+        { error: 'Nama dan jam shift wajib diisi dengan benar' },
+        { status: 400 }
+      );
+    }
+
+    if (!validateMinWorkHours(minWorkHours)) {
+      return NextResponse.json(
+        { error: 'Minimal jam kerja tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidLateTolerance(lateToleranceMinutes)) {
+      return NextResponse.json(
+        { error: 'Toleransi keterlambatan tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidMinBreak(minBreakMinutes)) {
+      return NextResponse.json(
+        { error: 'Istirahat wajib tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    const shiftId = `shift-${Date.now()}`;
+
+    await query(
+      `INSERT INTO shifts (id, name, start_time, end_time, min_work_hours, late_tolerance_minutes, min_break_minutes)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [shiftId, name, startTime, endTime, minWorkHours, lateToleranceMinutes, minBreakMinutes]
+    );
+
+    const shifts = await getActiveShifts();
+
+    return NextResponse.json({
+      success: true,
+      shifts,
+      message: 'Shift berhasil ditambahkan',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Add shift error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Update shift (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { id, name, startTime, endTime, minWorkHours, lateToleranceMinutes, minBreakMinutes } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID shift wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await queryOne<ShiftRow>(
+      'SELECT * FROM shifts WHERE id = ? AND is_active = TRUE',
+      [id]
+    );
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Shift tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const updates: string[] = [];
+    const values: unknown[] = [];
+
+    if (name) {
+      updates.push('name = ?');
+      values.push(name);
+    }
+
+    if (startTime !== undefined || endTime !== undefined) {
+      const newStartTime = startTime ?? existing.start_time.slice(0, 5);
+      const newEndTime = endTime ?? existing.end_time.slice(0, 5);
+      if (!validateShiftTimes(newStartTime, newEndTime)) {
+        return NextResponse.json(
+          { error: 'Format jam shift tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('start_time = ?', 'end_time = ?');
+      values.push(newStartTime, newEndTime);
+    }
+
+    if (minWorkHours !== undefined) {
+      if (!validateMinWorkHours(minWorkHours)) {
+        return NextResponse.json(
+          { error: 'Minimal jam kerja tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('min_work_hours = ?');
+      values.push(minWorkHours);
+    }
+
+    if (lateToleranceMinutes !== undefined) {
+      if (!isValidLateTolerance(lateToleranceMinutes)) {
+        return NextResponse.json(
+          { error: 'Toleransi keterlambatan tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('late_tolerance_minutes = ?');
+      values.push(lateToleranceMinutes);
+    }
+
+    if (minBreakMinutes !== undefined) {
+      if (!isValidMinBreak(minBreakMinutes)) {
+        return NextResponse.json(
+          { error: 'Istirahat wajib tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('min_break_minutes = ?');
+      values.push(minBreakMinutes);
+    }
+
+    if (updates.length === 0) {
+      return NextResponse.json(
+        { error: 'Tidak ada data yang diupdate' },
+        { status: 400 }
+      );
+    }
+
+    values.push(id);
+
+    await query(
+      `UPDATE shifts SET ${updates.join(', ')} WHERE id = ?`,
+      values
+    );
+
+    const shifts = await getActiveShifts();
+
+    return NextResponse.json({
+      success: true,
+      shifts,
+      message: 'Shift berhasil diupdate',
+    });
+  } catch (error) {
+    console.error('[API] Update shift error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Soft delete shift (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID shift wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    // Soft delete agar roster dan riwayat presensi tetap utuh
+    const result = await query<ResultSetHeader>(
+      'UPDATE shifts SET is_active = FALSE WHERE id = ? AND is_active = TRUE',
+      [id]
+    );
+
+    if (result.affectedRows === 0) {
+      return NextResponse.json(
+        { error: 'Shift tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    const shifts = await getActiveShifts();
+
+    return NextResponse.json({
+      success: true,
+      shifts,
+      message: 'Shift berhasil dihapus',
+    });
+  } catch (error) {
+    console.error('[API] Delete shift error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
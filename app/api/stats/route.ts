@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
 import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { getUserDateTime } from '@/lib/business-time';
 import type { RowDataPacket } from 'mysql2';
 
 interface StatsRow extends RowDataPacket {
   present: number;
   late: number;
   absent: number;
+  on_leave: number;
+  sick: number;
+  permit: number;
+  early_leave: number;
+  half_day: number;
+  business_trip: number;
   total_work_hours: number;
+  total_late_minutes: number;
   total: number;
 }
 
@@ -28,10 +36,6 @@ export async function GET(request: NextRequest) {
     const month = searchParams.get('month');
     const year = searchParams.get('year');
 
-    const now = new Date();
-    const targetMonth = month ? parseInt(month, 10) : now.getMonth() + 1; // SQL months are 1-indexed
-    const targetYear = year ? parseInt(year, 10) : now.getFullYear();
-
     // Determine which user's stats to fetch
     let targetUserId: string;
     if (await isAdmin() && userId) {
@@ -40,12 +44,24 @@ export async function GET(request: NextRequest) {
       targetUserId = currentUser.id;
     }
 
+    // Default to the current month in the employee's timezone
+    const [currentYear, currentMonth] = (await getUserDateTime(targetUserId)).date.split('-').map(Number);
+    const targetMonth = month ? parseInt(month, 10) : currentMonth; // SQL months are 1-indexed
+    const targetYear = year ? parseInt(year, 10) : currentYear;
+
     const stats = await query<StatsRow[]>(
       `SELECT 
         COUNT(CASE WHEN status = 'present' THEN 1 END) AS present,
         COUNT(CASE WHEN status = 'late' THEN 1 END) AS late,
         COUNT(CASE WHEN status = 'absent' THEN 1 END) AS absent,
+        COUNT(CASE WHEN status = 'leave' THEN 1 END) AS on_leave,
+        COUNT(CASE WHEN status = 'sick' THEN 1 END) AS sick,
+        COUNT(CASE WHEN status = 'permit' THEN 1 END) AS permit,
+        COUNT(CASE WHEN status = 'early_leave' THEN 1 END) AS early_leave,
+        COUNT(CASE WHEN status = 'half_day' THEN 1 END) AS half_day,
+        COUNT(CASE WHEN status = 'business_trip' THEN 1 END) AS business_trip,
         COALESCE(SUM(work_hours), 0) AS total_work_hours,
+        COALESCE(SUM(late_minutes), 0) AS total_late_minutes,
         COUNT(*) AS total
       FROM attendance_records
       WHERE user_id = ?
@@ -58,17 +74,38 @@ export async function GET(request: NextRequest) {
       present: 0,
       late: 0,
       absent: 0,
+      on_leave: 0,
+      sick: 0,
+      permit: 0,
+      early_leave: 0,
+      half_day: 0,
+      business_trip: 0,
       total_work_hours: 0,
+      total_late_minutes: 0,
       total: 0,
     };
 
+    const late = Number(result.late) || 0;
+    const totalLateMinutes = Number(result.total_late_minutes) || 0;
+
     return NextResponse.json({
       success: true,
       stats: {
         present: Number(result.present) || 0,
-        late: Number(result.late) || 0,
+        late,
         absent: Number(result.absent) || 0,
+        // Cuti, sakit dan izin yang disetujui tidak dihitung sebagai absen
+        leave: Number(result.on_leave) || 0,
+        sick: Number(result.sick) || 0,
+        permit: Number(result.permit) || 0,
+        // Pulang sebelum jam kerja minimal dengan izin yang disetujui
+        earlyLeave: Number(result.early_leave) || 0,
+        halfDay: Number(result.half_day) || 0,
+        businessTrip: Number(result.business_trip) || 0,
         totalWorkHours: Number(result.total_work_hours) || 0,
+        totalLateMinutes,
+        // Rata-rata per kedatangan terlambat
+        averageLateMinutes: late > 0 ? Math.round(totalLateMinutes / late) : 0,
         total: Number(result.total) || 0,
       },
     });
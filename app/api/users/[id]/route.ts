@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query, queryOne } from '@/lib/db';
 import { getCurrentUser, hashPassword, isAdmin } from '@/lib/auth';
+import { getUserSiteIds, setUserSites } from '@/lib/sites';
+import { isValidKioskPin } from '@/lib/kiosk-devices';
+import { isValidMonthlySalary, isValidWorkWeekDays, toWorkWeekDays } from '@/lib/overtime';
 import type { User } from '@/lib/types';
 import type { RowDataPacket, ResultSetHeader } from 'mysql2';
 
@@ -14,6 +17,9 @@ interface UserRow extends RowDataPacket {
   email: string;
   phone: string;
   is_active: boolean;
+  has_kiosk_pin: number;
+  monthly_salary: number | null;
+  work_week_days: number;
   created_at: string;
 }
 
@@ -45,7 +51,9 @@ export async function GET(
     }
 
     const userRow = await queryOne<UserRow>(
-      'SELECT id, username, name, role, department, position, email, phone, is_active, created_at FROM users WHERE id = ? AND is_active = TRUE',
+      `SELECT id, username, name, role, department, position, email, phone, is_active,
+       kiosk_pin_hash IS NOT NULL AS has_kiosk_pin, monthly_salary, work_week_days, created_at
+       FROM users WHERE id = ? AND is_active = TRUE`,
       [id]
     );
 
@@ -67,6 +75,10 @@ export async function GET(
       email: userRow.email,
       phone: userRow.phone || '',
       createdAt: userRow.created_at,
+      siteIds: await getUserSiteIds(userRow.id),
+      hasKioskPin: !!userRow.has_kiosk_pin,
+      monthlySalary: userRow.monthly_salary !== null ? Number(userRow.monthly_salary) : null,
+      workWeekDays: toWorkWeekDays(userRow.work_week_days),
     };
 
     return NextResponse.json({
@@ -162,23 +174,69 @@ export async function PUT(
       values.push(hashedPassword);
     }
 
-    if (updates.length === 0) {
+    // Only admin can set or clear the kiosk tablet PIN (null clears it)
+    if (isAdminUser && body.kioskPin !== undefined) {
+      if (body.kioskPin !== null && !isValidKioskPin(body.kioskPin)) {
+        return NextResponse.json(
+          { error: 'PIN kiosk harus 4-6 digit angka' },
+          { status: 400 }
+        );
+      }
+      updates.push('kiosk_pin_hash = ?', 'kiosk_pin_failed_attempts = 0', 'kiosk_pin_locked_until = NULL');
+      values.push(body.kioskPin === null ? null : await hashPassword(body.kioskPin));
+    }
+
+    // Only admin can set the overtime wage basis (null clears the salary)
+    if (isAdminUser && body.monthlySalary !== undefined) {
+      if (!isValidMonthlySalary(body.monthlySalary)) {
+        return NextResponse.json(
+          { error: 'Upah bulanan tidak valid' },
+          { status: 400 }
+        );
+      }
+      updates.push('monthly_salary = ?');
+      values.push(body.monthlySalary);
+    }
+
+    if (isAdminUser && body.workWeekDays !== undefined) {
+      if (!isValidWorkWeekDays(body.workWeekDays)) {
+        return NextResponse.json(
+          { error: 'Pola hari kerja harus 5 atau 6 hari' },
+          { status: 400 }
+        );
+      }
+      updates.push('work_week_days = ?');
+      values.push(body.workWeekDays);
+    }
+
+    // Only admin can assign work sites
+    const updateSites = isAdminUser && Array.isArray(body.siteIds);
+
+    if (updates.length === 0 && !updateSites) {
       return NextResponse.json(
         { error: 'Tidak ada data yang diupdate' },
         { status: 400 }
       );
     }
 
-    values.push(id);
+    if (updates.length > 0) {
+      values.push(id);
 
-    await query(
-      `UPDATE users SET ${updates.join(', ')} WHERE id = ?`,
-      values
-    );
+      await query(
+        `UPDATE users SET ${updates.join(', ')} WHERE id = ?`,
+        values
+      );
+    }
+
+    if (updateSites) {
+      await setUserSites(id, body.siteIds);
+    }
 
     // Fetch updated user
     const updatedUser = await queryOne<UserRow>(
-      'SELECT id, username, name, role, department, position, email, phone, is_active, created_at FROM users WHERE id = ?',
+      `SELECT id, username, name, role, department, position, email, phone, is_active,
+       kiosk_pin_hash IS NOT NULL AS has_kiosk_pin, monthly_salary, work_week_days, created_at
+       FROM users WHERE id = ?`,
       [id]
     );
 
@@ -193,6 +251,10 @@ export async function PUT(
       email: updatedUser!.email,
       phone: updatedUser!.phone || '',
       createdAt: updatedUser!.created_at,
+      siteIds: await getUserSiteIds(id),
+      hasKioskPin: !!updatedUser!.has_kiosk_pin,
+      monthlySalary: updatedUser!.monthly_salary !== null ? Number(updatedUser!.monthly_salary) : null,
+      workWeekDays: toWorkWeekDays(updatedUser!.work_week_days),
     };
 
     return NextResponse.json({
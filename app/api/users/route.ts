@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
 import { getCurrentUser, createUser, isAdmin } from '@/lib/auth';
+import { getAllUserSiteIds, setUserSites } from '@/lib/sites';
+import { isValidMonthlySalary, isValidWorkWeekDays, toWorkWeekDays } from '@/lib/overtime';
 import type { User } from '@/lib/types';
 import type { RowDataPacket } from 'mysql2';
 
@@ -14,6 +16,9 @@ interface UserRow extends RowDataPacket {
   email: string;
   phone: string;
   is_active: boolean;
+  has_kiosk_pin: number;
+  monthly_salary: number | null;
+  work_week_days: number;
   created_at: string;
 }
 
@@ -37,9 +42,13 @@ export async function GET() {
     }
 
     const userRows = await query<UserRow[]>(
-      'SELECT id, username, name, role, department, position, email, phone, is_active, created_at FROM users WHERE is_active = TRUE ORDER BY name'
+      `SELECT id, username, name, role, department, position, email, phone, is_active,
+       kiosk_pin_hash IS NOT NULL AS has_kiosk_pin, monthly_salary, work_week_days, created_at
+       FROM users WHERE is_active = TRUE ORDER BY name`
     );
 
+    const siteIdsByUser = await getAllUserSiteIds();
+
     const users: User[] = userRows.map((row) => ({
       id: row.id,
       username: row.username,
@@ -51,6 +60,10 @@ export async function GET() {
       email: row.email,
       phone: row.phone || '',
       createdAt: row.created_at,
+      siteIds: siteIdsByUser.get(row.id) || [],
+      hasKioskPin: !!row.has_kiosk_pin,
+      monthlySalary: row.monthly_salary !== null ? Number(row.monthly_salary) : null,
+      workWeekDays: toWorkWeekDays(row.work_week_days),
     }));
 
     return NextResponse.json({
@@ -86,7 +99,9 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { username, password, name, role, department, position, email, phone } = body;
+    const { username, password, name, role, department, position, email, phone, siteIds } = body;
+    const monthlySalary = body.monthlySalary ?? null;
+    const workWeekDays = body.workWeekDays ?? 6;
 
     // Validation
     if (!username || !password || !name || !role || !department || !position || !email) {
@@ -96,6 +111,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isValidMonthlySalary(monthlySalary)) {
+      return NextResponse.json(
+        { error: 'Upah bulanan tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidWorkWeekDays(workWeekDays)) {
+      return NextResponse.json(
+        { error: 'Pola hari kerja harus 5 atau 6 hari' },
+        { status: 400 }
+      );
+    }
+
     const result = await createUser({
       username,
       password,
@@ -114,9 +143,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (Array.isArray(siteIds) && siteIds.length > 0) {
+      await setUserSites(result.id, siteIds);
+    }
+
+    await query(
+      'UPDATE users SET monthly_salary = ?, work_week_days = ? WHERE id = ?',
+      [monthlySalary, workWeekDays, result.id]
+    );
+
     return NextResponse.json({
       success: true,
-      user: result,
+      user: {
+        ...result,
+        siteIds: Array.isArray(siteIds) ? siteIds : [],
+        monthlySalary,
+        workWeekDays,
+      },
     }, { status: 201 });
   } catch (error) {
     console.error('[API] Create user error:', error);
@@ -0,0 +1,345 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query, queryOne } from '@/lib/db';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { addDays } from '@/lib/time';
+import {
+  DEFAULT_FIELD_RADIUS_METERS,
+  MAX_ASSIGNMENT_RANGE_DAYS,
+  WORK_ASSIGNMENT_SELECT,
+  mapRowToWorkAssignment,
+  type WorkAssignmentRow,
+} from '@/lib/work-assignments';
+import type { ResultSetHeader } from 'mysql2';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateCoordinates(latitude: unknown, longitude: unknown): boolean {
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    latitude >= -90 && latitude <= 90 &&
+    longitude >= -180 && longitude <= 180
+  );
+}
+
+// GET: Fetch WFH days and dinas luar assignments
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const status = searchParams.get('status');
+    const mode = searchParams.get('mode');
+    const date = searchParams.get('date');
+
+    let sql = `${WORK_ASSIGNMENT_SELECT} WHERE 1=1`;
+    const params: unknown[] = [];
+
+    // Non-admin can only see their own assignments
+    if (!(await isAdmin())) {
+      sql += ' AND wa.user_id = ?';
+      params.push(currentUser.id);
+    } else if (userId) {
+      sql += ' AND wa.user_id = ?';
+      params.push(userId);
+    }
+
+    if (status) {
+      sql += ' AND wa.status = ?';
+      params.push(status);
+    }
+
+    if (mode) {
+      sql += ' AND wa.mode = ?';
+      params.push(mode);
+    }
+
+    if (date) {
+      sql += ' AND wa.start_date <= ? AND wa.end_date >= ?';
+      params.push(date, date);
+    }
+
+    sql += ' ORDER BY wa.start_date DESC, wa.created_at DESC';
+
+    const rows = await query<WorkAssignmentRow[]>(sql, params);
+
+    return NextResponse.json({
+      success: true,
+      assignments: rows.map(mapRowToWorkAssignment),
+    });
+  } catch (error) {
+    console.error('[API] Get work assignments error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Employees request WFH days; admins assign WFH or dinas luar directly (approved)
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    const admin = await isAdmin();
+    const body = await request.json();
+    const { mode, startDate, endDate, destinationName, latitude, longitude, radiusMeters, purpose } = body;
+    const userId = admin && body.userId ? body.userId : currentUser.id;
+
+    if (mode !== 'wfh' && mode !== 'field') {
+      return NextResponse.json(
+        { error: 'Mode penugasan tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    // A dinas luar needs a destination geofence, which the admin sets
+    if (mode === 'field' && !admin) {
+      return NextResponse.json(
+        { error: 'Penugasan dinas luar dibuat oleh admin' },
+        { status: 403 }
+      );
+    }
+
+    if (!startDate || !endDate || !purpose?.trim()) {
+      return NextResponse.json(
+        { error: 'Tanggal dan keperluan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || startDate > endDate) {
+      return NextResponse.json(
+        { error: 'Rentang tanggal tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (addDays(startDate, MAX_ASSIGNMENT_RANGE_DAYS - 1) < endDate) {
+      return NextResponse.json(
+        { error: `Rentang tanggal maksimal ${MAX_ASSIGNMENT_RANGE_DAYS} hari` },
+        { status: 400 }
+      );
+    }
+
+    if (mode === 'field') {
+      if (!destinationName?.trim() || !validateCoordinates(latitude, longitude)) {
+        return NextResponse.json(
+          { error: 'Nama dan koordinat tujuan dinas luar wajib diisi dengan benar' },
+          { status: 400 }
+        );
+      }
+
+      if (radiusMeters !== undefined && radiusMeters !== null && !(radiusMeters > 0)) {
+        return NextResponse.json(
+          { error: 'Radius harus lebih dari 0 meter' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const overlapping = await queryOne<WorkAssignmentRow>(
+      `SELECT id FROM work_assignments
+       WHERE user_id = ? AND status IN ('pending', 'approved')
+       AND start_date <= ? AND end_date >= ?`,
+      [userId, endDate, startDate]
+    );
+
+    if (overlapping) {
+      return NextResponse.json(
+        { error: 'Sudah ada WFH atau dinas luar pada rentang tanggal tersebut' },
+        { status: 400 }
+      );
+    }
+
+    const assignmentId = `asg-${Date.now()}`;
+
+    await query(
+      `INSERT INTO work_assignments
+       (id, user_id, mode, start_date, end_date, destination_name, latitude, longitude, radius_meters,
+        purpose, status, approved_by, approved_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${admin ? 'NOW()' : 'NULL'})`,
+      [
+        assignmentId,
+        userId,
+        mode,
+        startDate,
+        endDate,
+        mode === 'field' ? destinationName.trim() : null,
+        mode === 'field' ? latitude : null,
+        mode === 'field' ? longitude : null,
+        mode === 'field' ? Math.round(radiusMeters || DEFAULT_FIELD_RADIUS_METERS) : null,
+        purpose.trim(),
+        admin ? 'approved' : 'pending',
+        admin ? currentUser.id : null,
+      ]
+    );
+
+    const created = await queryOne<WorkAssignmentRow>(
+      `${WORK_ASSIGNMENT_SELECT} WHERE wa.id = ?`,
+      [assignmentId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      assignment: mapRowToWorkAssignment(created!),
+      message: admin
+        ? (mode === 'wfh' ? 'Hari WFH berhasil ditetapkan' : 'Penugasan dinas luar berhasil dibuat')
+        : 'Pengajuan WFH berhasil dikirim',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Create work assignment error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Approve or reject a WFH request (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, assignmentId } = body;
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        { error: 'Action tidak valid' },
+        { status: 400 }
+      );
+    }
+
+    if (!assignmentId) {
+      return NextResponse.json(
+        { error: 'ID penugasan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const assignment = await queryOne<WorkAssignmentRow>(
+      `${WORK_ASSIGNMENT_SELECT} WHERE wa.id = ?`,
+      [assignmentId]
+    );
+
+    if (!assignment) {
+      return NextResponse.json(
+        { error: 'Data penugasan tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    if (assignment.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Pengajuan sudah diproses' },
+        { status: 400 }
+      );
+    }
+
+    await query(
+      `UPDATE work_assignments SET status = ?, approved_by = ?, approved_at = NOW() WHERE id = ?`,
+      [action === 'approve' ? 'approved' : 'rejected', currentUser.id, assignmentId]
+    );
+
+    const updated = await queryOne<WorkAssignmentRow>(
+      `${WORK_ASSIGNMENT_SELECT} WHERE wa.id = ?`,
+      [assignmentId]
+    );
+
+    return NextResponse.json({
+      success: true,
+      assignment: mapRowToWorkAssignment(updated!),
+      message: `Pengajuan WFH ${action === 'approve' ? 'disetujui' : 'ditolak'}`,
+    });
+  } catch (error) {
+    console.error('[API] Work assignment action error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Cancel a WFH day or dinas luar assignment (admin only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'Tidak terautentikasi' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: 'Akses ditolak' },
+        { status: 403 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID penugasan wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    // Attendance already recorded keeps its mode; only the link is cleared
+    const result = await query<ResultSetHeader>(
+      'DELETE FROM work_assignments WHERE id = ?',
+      [id]
+    );
+
+    if (result.affectedRows === 0) {
+      return NextResponse.json(
+        { error: 'Penugasan tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Penugasan berhasil dibatalkan',
+    });
+  } catch (error) {
+    console.error('[API] Delete work assignment error:', error);
+    return NextResponse.json(
+      { error: 'Terjadi kesalahan server' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,53 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/lib/auth-context";
-import { getTodayAttendance, checkIn, checkOut, getWorkSchedules, getHolidays } from "@/lib/data-store";
+import {
+  getTodayAttendance,
+  checkIn,
+  checkOut,
+  submitQrPunch,
+  recordBreak,
+  getEarlyLeaveRequests,
+  requestEarlyLeave,
+  getWorkAssignments,
+  createWorkAssignment,
+  getWorkSchedules,
+  getHolidays,
+} from "@/lib/api-client";
+import { ATTENDANCE_MODE_LABELS } from "@/lib/types";
+import { getMandatoryBreakOverlap } from "@/lib/time";
 import type { WorkSchedule } from "@/lib/types";
-import type { AttendanceRecord } from "@/lib/types";
+import type {
+  AttendanceLocation,
+  AttendanceMode,
+  AttendanceRecord,
+  EarlyLeaveRequest,
+  GeofenceMatch,
+  QueuedPunch,
+  WorkAssignment,
+} from "@/lib/types";
+import {
+  enqueuePunch,
+  getQueuedPunches,
+  isOfflineQueueSupported,
+  syncQueuedPunches,
+} from "@/lib/offline-queue";
 import { CameraCapture } from "@/components/camera-capture";
 import { LocationPicker } from "@/components/location-picker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Clock,
@@ -20,10 +58,59 @@ import {
   LogIn,
   LogOut,
   Calendar,
+  Building2,
+  CloudUpload,
+  WifiOff,
+  QrCode,
+  Coffee,
+  DoorOpen,
+  Home,
+  Briefcase,
 } from "lucide-react";
 
 type Step = "idle" | "camera" | "location" | "processing";
 
+function GeofenceInfo({ geofence }: { geofence: GeofenceMatch }) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+      <span className="text-muted-foreground">
+        {geofence.officeLocationName}
+        {geofence.distance !== null && ` (${geofence.distance} m)`}
+      </span>
+      {!geofence.withinRadius && (
+        <Badge variant="destructive">Di luar area</Badge>
+      )}
+    </div>
+  );
+}
+
+function QueuedPunchInfo({ punch }: { punch: QueuedPunch }) {
+  return (
+    <div className="flex items-center gap-3">
+      <div className="w-16 h-16 rounded-lg overflow-hidden bg-muted">
+        <img
+          src={punch.photo || "/placeholder.svg"}
+          alt="Presensi offline"
+          className="w-full h-full object-cover"
+        />
+      </div>
+      <div>
+        <p className="text-2xl font-bold text-foreground">
+          {new Date(punch.capturedAt).toLocaleTimeString("id-ID", {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </p>
+        <Badge variant="outline" className="gap-1 border-warning text-warning">
+          <CloudUpload className="h-3 w-3" />
+          Menunggu sinkronisasi
+        </Badge>
+      </div>
+    </div>
+  );
+}
+
 export default function AttendancePage() {
   const { user } = useAuth();
   const [todayAttendance, setTodayAttendance] =
@@ -38,26 +125,138 @@ export default function AttendancePage() {
   const [holidays, setHolidays] = useState<string[]>([]);
   const [currentWorkedHours, setCurrentWorkedHours] = useState<number>(0);
   const [canCheckoutByTime, setCanCheckoutByTime] = useState<boolean>(false);
+  const [queuedPunches, setQueuedPunches] = useState<QueuedPunch[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const isSyncing = useRef(false);
+  const [kioskQr, setKioskQr] = useState<string | null>(null);
+  const [isBreakProcessing, setIsBreakProcessing] = useState(false);
+  const [earlyLeave, setEarlyLeave] = useState<EarlyLeaveRequest | null>(null);
+  const [showEarlyLeaveDialog, setShowEarlyLeaveDialog] = useState(false);
+  const [earlyLeaveForm, setEarlyLeaveForm] = useState({ leaveTime: "", reason: "" });
+  const [earlyLeaveError, setEarlyLeaveError] = useState<string | null>(null);
+  const [isSubmittingEarlyLeave, setIsSubmittingEarlyLeave] = useState(false);
+  const [assignments, setAssignments] = useState<WorkAssignment[]>([]);
+  const [punchMode, setPunchMode] = useState<{ mode: AttendanceMode; assignmentId?: string }>({
+    mode: "office",
+  });
+  const [showWfhDialog, setShowWfhDialog] = useState(false);
+  const [wfhForm, setWfhForm] = useState({ startDate: "", endDate: "", purpose: "" });
+  const [wfhError, setWfhError] = useState<string | null>(null);
+  const [isSubmittingWfh, setIsSubmittingWfh] = useState(false);
+
+  // QR scanned at a kiosk opens this page with ?qr=<token>
+  useEffect(() => {
+    setKioskQr(new URLSearchParams(window.location.search).get("qr"));
+  }, []);
 
   // Load schedule and holidays
   useEffect(() => {
     const dayOfWeek = new Date().getDay();
-    const schedules = getWorkSchedules();
-    setSchedule(schedules[dayOfWeek]);
-    
-    const holidayList = getHolidays();
-    setHolidays(holidayList.map(h => h.date));
+    getWorkSchedules()
+      .then((schedules) => {
+        setSchedule(schedules.find((s) => s.dayOfWeek === dayOfWeek) || null);
+      })
+      .catch((err) => console.error("Error loading schedules:", err));
+
+    getHolidays()
+      .then((holidayList) => setHolidays(holidayList.map((h) => h.date)))
+      .catch((err) => console.error("Error loading holidays:", err));
   }, []);
 
+  const loadTodayAttendance = (userId: string) => {
+    getTodayAttendance(userId)
+      .then(setTodayAttendance)
+      .catch((err) => console.error("Error loading attendance:", err));
+  };
+
+  // Early leave for the record's shift date; a rejected request may be resubmitted
   useEffect(() => {
-    if (user) {
-      setTodayAttendance(getTodayAttendance(user.id));
+    if (!todayAttendance?.checkIn) {
+      setEarlyLeave(null);
+      return;
     }
+    getEarlyLeaveRequests({ date: todayAttendance.date })
+      .then((requests) => setEarlyLeave(requests.find((r) => r.status !== "rejected") || null))
+      .catch((err) => console.error("Error loading early leave:", err));
+  }, [todayAttendance?.date, todayAttendance?.checkIn]);
+
+  // WFH days and dinas luar covering today; pending WFH requests are shown as waiting
+  const loadAssignments = () => {
+    getWorkAssignments({ date: new Date().toISOString().split("T")[0] })
+      .then((list) => setAssignments(list.filter((a) => a.status !== "rejected")))
+      .catch((err) => console.error("Error loading work assignments:", err));
+  };
+
+  useEffect(() => {
+    loadAssignments();
+  }, []);
+
+  const refreshQueue = async (userId: string) => {
+    if (!isOfflineQueueSupported()) return;
+    setQueuedPunches(await getQueuedPunches(userId));
+  };
+
+  // Send punches taken without signal, oldest first
+  const syncQueue = async () => {
+    if (!user || !isOfflineQueueSupported() || isSyncing.current) return;
+
+    isSyncing.current = true;
+    try {
+      const { synced, rejected } = await syncQueuedPunches(user.id);
+      if (synced.length > 0) {
+        setSuccess(`${synced.length} presensi offline berhasil dikirim`);
+        loadTodayAttendance(user.id);
+      }
+      if (rejected.length > 0) {
+        setError(
+          rejected
+            .map(({ punch, error }) => `${punch.action === "check-in" ? "Check-in" : "Check-out"} offline ditolak: ${error}`)
+            .join(". ")
+        );
+      }
+      await refreshQueue(user.id);
+    } catch (err) {
+      console.error("Error syncing offline punches:", err);
+    } finally {
+      isSyncing.current = false;
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadTodayAttendance(user.id);
+    setIsOnline(navigator.onLine);
+    syncQueue();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
   }, [user]);
 
+  const queuedCheckIn = queuedPunches.find((p) => p.action === "check-in");
+  const queuedCheckOut = queuedPunches.find((p) => p.action === "check-out");
+
   // Calculate current worked hours in real-time
   useEffect(() => {
-    if (!todayAttendance?.checkIn || todayAttendance?.checkOut) {
+    // Check-in timestamp on the shift date, so night shifts keep counting past midnight.
+    // A check-in still in the offline queue counts from the device time it was taken.
+    const checkInAt = todayAttendance?.checkIn
+      ? new Date(`${todayAttendance.date}T${todayAttendance.checkIn.time.slice(0, 5)}:00`)
+      : queuedCheckIn
+        ? new Date(queuedCheckIn.capturedAt)
+        : null;
+
+    if (!checkInAt || todayAttendance?.checkOut || queuedCheckOut) {
       setCurrentWorkedHours(0);
       setCanCheckoutByTime(false);
       return;
@@ -65,10 +264,34 @@ export default function AttendancePage() {
 
     const calculateWorkedHours = () => {
       const now = new Date();
-      const checkInParts = todayAttendance.checkIn!.time.split(":").map(Number);
-      const checkInMinutes = checkInParts[0] * 60 + checkInParts[1];
-      const currentMinutes = now.getHours() * 60 + now.getMinutes();
-      const workedHours = Math.max(0, (currentMinutes - checkInMinutes) / 60);
+      const grossMinutes = Math.max(0, (now.getTime() - checkInAt.getTime()) / 60000);
+
+      // Net of breaks, with the schedule's mandatory break deducted like the server does
+      const breakMinutes = (todayAttendance?.breaks || []).reduce((total, b) => {
+        if (b.durationMinutes !== null) return total + b.durationMinutes;
+        const startedAt = new Date(`${b.startDate}T${b.startTime}:00`);
+        return total + Math.max(0, (now.getTime() - startedAt.getTime()) / 60000);
+      }, 0);
+      // Only the part of the mandatory break window (middle of the shift) already worked through
+      let mandatoryMinutes = 0;
+      if (schedule && schedule.minBreakMinutes > 0) {
+        const atScheduleTime = (time: string) => {
+          const date = new Date(checkInAt);
+          const [hours, minutes] = time.split(":").map(Number);
+          date.setHours(hours, minutes, 0, 0);
+          return date.getTime() / 60000;
+        };
+        const shiftStart = atScheduleTime(schedule.startTime);
+        let shiftEnd = atScheduleTime(schedule.endTime);
+        if (shiftEnd < shiftStart) shiftEnd += 24 * 60;
+        mandatoryMinutes = getMandatoryBreakOverlap(
+          { start: shiftStart, end: shiftEnd },
+          schedule.minBreakMinutes,
+          { start: checkInAt.getTime() / 60000, end: now.getTime() / 60000 }
+        );
+      }
+      const deducted = Math.min(grossMinutes, Math.max(breakMinutes, mandatoryMinutes));
+      const workedHours = (grossMinutes - deducted) / 60;
       
       setCurrentWorkedHours(workedHours);
       setCanCheckoutByTime(schedule ? workedHours >= schedule.minWorkHours : false);
@@ -78,7 +301,7 @@ export default function AttendancePage() {
     const interval = setInterval(calculateWorkedHours, 1000);
     
     return () => clearInterval(interval);
-  }, [todayAttendance, schedule]);
+  }, [todayAttendance, schedule, queuedCheckIn, queuedCheckOut]);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -111,11 +334,14 @@ export default function AttendancePage() {
   };
 
   const calculateMinCheckoutTime = () => {
-    if (!todayAttendance?.checkIn || !schedule) return null;
+    const checkInTime = todayAttendance?.checkIn?.time ??
+      (queuedCheckIn ? new Date(queuedCheckIn.capturedAt).toTimeString().slice(0, 5) : null);
+    if (!checkInTime || !schedule) return null;
 
-    const checkInParts = todayAttendance.checkIn.time.split(":").map(Number);
+    const checkInParts = checkInTime.split(":").map(Number);
     const checkInMinutes = checkInParts[0] * 60 + checkInParts[1];
-    const minCheckoutMinutes = checkInMinutes + schedule.minWorkHours * 60;
+    const minCheckoutMinutes =
+      (checkInMinutes + schedule.minWorkHours * 60) % (24 * 60);
 
     const hours = Math.floor(minCheckoutMinutes / 60);
     const minutes = minCheckoutMinutes % 60;
@@ -152,37 +378,133 @@ export default function AttendancePage() {
     setStep("location");
   };
 
-  const handleLocationConfirm = (location: {
-    latitude: number;
-    longitude: number;
-    address: string;
-  }) => {
+  const handleLocationConfirm = async (location: AttendanceLocation) => {
     if (!user || !capturedPhoto) return;
 
     setStep("processing");
 
-    setTimeout(() => {
-      let result;
-      if (actionType === "checkin") {
-        result = checkIn(user.id, capturedPhoto, location);
-      } else {
-        result = checkOut(user.id, capturedPhoto, location);
-      }
+    const capturedAt = new Date().toISOString();
+    const result = !navigator.onLine
+      ? { error: "Tidak ada koneksi", offline: true }
+      : actionType === "checkin"
+        ? await checkIn(user.id, capturedPhoto, location, punchMode)
+        : await checkOut(user.id, capturedPhoto, location);
 
-      if ("error" in result) {
-        setError(result.error);
-      } else {
-        setTodayAttendance(result);
-        setSuccess(
-          actionType === "checkin"
-            ? "Check-in berhasil!"
-            : "Check-out berhasil!"
-        );
-      }
+    if ("error" in result && result.offline && isOfflineQueueSupported()) {
+      // No signal: keep the punch on the device and send it once back online
+      await enqueuePunch({
+        userId: user.id,
+        action: actionType === "checkin" ? "check-in" : "check-out",
+        photo: capturedPhoto,
+        location,
+        capturedAt,
+        ...(actionType === "checkin" ? punchMode : {}),
+      });
+      await refreshQueue(user.id);
+      setSuccess("Tidak ada sinyal. Presensi disimpan di perangkat dan dikirim otomatis saat online.");
+    } else if ("error" in result) {
+      setError(result.error);
+    } else {
+      setTodayAttendance(result);
+      const punch = actionType === "checkin" ? result.checkIn : result.checkOut;
+      const outsideGeofence = punch?.geofence && !punch.geofence.withinRadius;
+      setSuccess(
+        (actionType === "checkin" ? "Check-in berhasil!" : "Check-out berhasil!") +
+          (outsideGeofence ? " Lokasi Anda di luar area presensi dan akan ditinjau admin." : "")
+      );
+    }
 
-      setStep("idle");
-      setCapturedPhoto(null);
-    }, 1000);
+    setStep("idle");
+    setCapturedPhoto(null);
+  };
+
+  const handleQrPunch = async (action: "check-in" | "check-out") => {
+    if (!kioskQr) return;
+
+    setStep("processing");
+    const result = await submitQrPunch(action, kioskQr);
+    if ("error" in result) {
+      setError(result.error);
+    } else {
+      setTodayAttendance(result);
+      setSuccess(action === "check-in" ? "Check-in dengan QR berhasil!" : "Check-out dengan QR berhasil!");
+    }
+
+    // A kiosk code is only valid briefly, never reuse it
+    setKioskQr(null);
+    window.history.replaceState(null, "", window.location.pathname);
+    setStep("idle");
+  };
+
+  const handleBreak = async (action: "start" | "end") => {
+    setError(null);
+    setSuccess(null);
+    setIsBreakProcessing(true);
+
+    const result = await recordBreak(action);
+    if ("error" in result) {
+      setError(result.error);
+    } else {
+      setTodayAttendance(result.record);
+      setSuccess(result.message);
+    }
+
+    setIsBreakProcessing(false);
+  };
+
+  const openEarlyLeaveDialog = () => {
+    setEarlyLeaveForm({
+      leaveTime: currentTime.toTimeString().slice(0, 5),
+      reason: "",
+    });
+    setEarlyLeaveError(null);
+    setShowEarlyLeaveDialog(true);
+  };
+
+  const handleSubmitEarlyLeave = async () => {
+    if (!todayAttendance) return;
+
+    setEarlyLeaveError(null);
+    setIsSubmittingEarlyLeave(true);
+
+    const result = await requestEarlyLeave({
+      date: todayAttendance.date,
+      leaveTime: earlyLeaveForm.leaveTime,
+      reason: earlyLeaveForm.reason,
+    });
+    setIsSubmittingEarlyLeave(false);
+
+    if ("error" in result) {
+      setEarlyLeaveError(result.error);
+      return;
+    }
+
+    setEarlyLeave(result);
+    setShowEarlyLeaveDialog(false);
+    setSuccess("Izin pulang cepat berhasil diajukan, menunggu persetujuan admin");
+  };
+
+  const openWfhDialog = () => {
+    setWfhForm({ startDate: todayDate, endDate: todayDate, purpose: "" });
+    setWfhError(null);
+    setShowWfhDialog(true);
+  };
+
+  const handleSubmitWfh = async () => {
+    setWfhError(null);
+    setIsSubmittingWfh(true);
+
+    const result = await createWorkAssignment({ mode: "wfh", ...wfhForm });
+    setIsSubmittingWfh(false);
+
+    if ("error" in result) {
+      setWfhError(result.error);
+      return;
+    }
+
+    loadAssignments();
+    setShowWfhDialog(false);
+    setSuccess("Pengajuan WFH berhasil dikirim, menunggu persetujuan admin");
   };
 
   const handleCancel = () => {
@@ -191,9 +513,15 @@ export default function AttendancePage() {
     setError(null);
   };
 
-  const canCheckIn = !todayAttendance?.checkIn && !isHoliday;
-  const hasCheckedIn = todayAttendance?.checkIn && !todayAttendance?.checkOut && !isHoliday;
-  const canCheckOut = hasCheckedIn && canCheckoutByTime;
+  const canCheckIn = !todayAttendance?.checkIn && !queuedCheckIn && !isHoliday;
+  const hasCheckedIn =
+    (todayAttendance?.checkIn || queuedCheckIn) && !todayAttendance?.checkOut && !queuedCheckOut && !isHoliday;
+  const earlyLeaveApproved = earlyLeave?.status === "approved";
+  const canCheckOut = hasCheckedIn && (canCheckoutByTime || earlyLeaveApproved);
+  const openBreak = todayAttendance?.breaks?.find((b) => b.endTime === null);
+  const approvedWfh = assignments.find((a) => a.mode === "wfh" && a.status === "approved");
+  const pendingWfh = assignments.find((a) => a.mode === "wfh" && a.status === "pending");
+  const fieldAssignments = assignments.filter((a) => a.mode === "field" && a.status === "approved");
 
   // Render camera step
   if (step === "camera") {
@@ -272,6 +600,60 @@ export default function AttendancePage() {
         </Alert>
       )}
 
+      {/* Kiosk QR */}
+      {kioskQr && (canCheckIn || hasCheckedIn) && (
+        <Card className="border-primary">
+          <CardContent className="py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <QrCode className="h-8 w-8 text-primary shrink-0" />
+              <div>
+                <p className="font-medium">Kode QR kiosk terdeteksi</p>
+                <p className="text-sm text-muted-foreground">
+                  Presensi tanpa foto dan GPS, berlaku beberapa detik setelah dipindai
+                </p>
+              </div>
+            </div>
+            {canCheckIn ? (
+              <Button onClick={() => handleQrPunch("check-in")} className="gap-2">
+                <LogIn className="h-4 w-4" />
+                Check-in dengan QR
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleQrPunch("check-out")}
+                disabled={!canCheckOut}
+                className="gap-2"
+              >
+                <LogOut className="h-4 w-4" />
+                Check-out dengan QR
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Offline Notice */}
+      {!isOnline && (
+        <Alert>
+          <WifiOff className="h-4 w-4" />
+          <AlertDescription>
+            Anda sedang offline. Presensi tetap bisa dilakukan dan akan dikirim otomatis saat
+            perangkat kembali online.
+          </AlertDescription>
+        </Alert>
+      )}
+      {isOnline && queuedPunches.length > 0 && (
+        <Alert className="border-warning bg-warning/10">
+          <CloudUpload className="h-4 w-4 text-warning" />
+          <AlertDescription className="flex items-center justify-between gap-2">
+            <span>{queuedPunches.length} presensi offline belum terkirim.</span>
+            <Button size="sm" variant="outline" onClick={syncQueue}>
+              Kirim Sekarang
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Holiday Notice */}
       {isHoliday && (
         <Alert>
@@ -328,7 +710,7 @@ export default function AttendancePage() {
                 <div className="flex items-center gap-3">
                   <div className="w-16 h-16 rounded-lg overflow-hidden bg-muted">
                     <img
-                      src={todayAttendance.checkIn.photo || "/placeholder.svg"}
+                      src={todayAttendance.checkIn.photoThumbnail || todayAttendance.checkIn.photo || "/placeholder.svg"}
                       alt="Check-in"
                       className="w-full h-full object-cover"
                     />
@@ -353,6 +735,11 @@ export default function AttendancePage() {
                         ? "Terlambat"
                         : "Tepat Waktu"}
                     </Badge>
+                    {todayAttendance.mode && todayAttendance.mode !== "office" && (
+                      <Badge variant="outline" className="ml-1">
+                        {ATTENDANCE_MODE_LABELS[todayAttendance.mode]}
+                      </Badge>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-start gap-2 text-sm text-muted-foreground">
@@ -361,12 +748,53 @@ export default function AttendancePage() {
                     {todayAttendance.checkIn.location.address}
                   </span>
                 </div>
+                {todayAttendance.checkIn.geofence?.officeLocationName && (
+                  <GeofenceInfo geofence={todayAttendance.checkIn.geofence} />
+                )}
               </div>
+            ) : queuedCheckIn ? (
+              <QueuedPunchInfo punch={queuedCheckIn} />
             ) : (
               <div className="text-center py-4">
                 <p className="text-muted-foreground mb-4">
                   Anda belum check-in hari ini
                 </p>
+                {(approvedWfh || fieldAssignments.length > 0) && (
+                  <div className="flex flex-wrap justify-center gap-2 mb-4">
+                    <Button
+                      size="sm"
+                      variant={punchMode.mode === "office" ? "default" : "outline"}
+                      onClick={() => setPunchMode({ mode: "office" })}
+                      className="gap-1"
+                    >
+                      <Building2 className="h-4 w-4" />
+                      {ATTENDANCE_MODE_LABELS.office}
+                    </Button>
+                    {approvedWfh && (
+                      <Button
+                        size="sm"
+                        variant={punchMode.mode === "wfh" ? "default" : "outline"}
+                        onClick={() => setPunchMode({ mode: "wfh", assignmentId: approvedWfh.id })}
+                        className="gap-1"
+                      >
+                        <Home className="h-4 w-4" />
+                        {ATTENDANCE_MODE_LABELS.wfh}
+                      </Button>
+                    )}
+                    {fieldAssignments.map((assignment) => (
+                      <Button
+                        key={assignment.id}
+                        size="sm"
+                        variant={punchMode.assignmentId === assignment.id ? "default" : "outline"}
+                        onClick={() => setPunchMode({ mode: "field", assignmentId: assignment.id })}
+                        className="gap-1"
+                      >
+                        <Briefcase className="h-4 w-4" />
+                        {ATTENDANCE_MODE_LABELS.field}: {assignment.destinationName}
+                      </Button>
+                    ))}
+                  </div>
+                )}
                 <Button
                   onClick={() => startAction("checkin")}
                   disabled={!canCheckIn}
@@ -375,6 +803,21 @@ export default function AttendancePage() {
                   <Camera className="h-4 w-4" />
                   Check-in Sekarang
                 </Button>
+                {pendingWfh ? (
+                  <p className="text-sm text-muted-foreground mt-3">
+                    Pengajuan WFH menunggu persetujuan admin
+                  </p>
+                ) : !approvedWfh && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={openWfhDialog}
+                    className="w-full gap-2 mt-2"
+                  >
+                    <Home className="h-4 w-4" />
+                    Ajukan WFH
+                  </Button>
+                )}
               </div>
             )}
           </CardContent>
@@ -405,7 +848,7 @@ export default function AttendancePage() {
                 <div className="flex items-center gap-3">
                   <div className="w-16 h-16 rounded-lg overflow-hidden bg-muted">
                     <img
-                      src={todayAttendance.checkOut.photo || "/placeholder.svg"}
+                      src={todayAttendance.checkOut.photoThumbnail || todayAttendance.checkOut.photo || "/placeholder.svg"}
                       alt="Check-out"
                       className="w-full h-full object-cover"
                     />
@@ -425,10 +868,15 @@ export default function AttendancePage() {
                     {todayAttendance.checkOut.location.address}
                   </span>
                 </div>
+                {todayAttendance.checkOut.geofence?.officeLocationName && (
+                  <GeofenceInfo geofence={todayAttendance.checkOut.geofence} />
+                )}
               </div>
+            ) : queuedCheckOut ? (
+              <QueuedPunchInfo punch={queuedCheckOut} />
             ) : (
               <div className="py-4 space-y-4">
-                {todayAttendance?.checkIn ? (
+                {todayAttendance?.checkIn || queuedCheckIn ? (
                   <>
                     {/* Real-time worked hours display */}
                     <div className="text-center">
@@ -454,7 +902,16 @@ export default function AttendancePage() {
                     </div>
 
                     {/* Warning or success message */}
-                    {!canCheckoutByTime ? (
+                    {!canCheckoutByTime && earlyLeaveApproved ? (
+                      <Alert className="border-success bg-success/10 text-left">
+                        <CheckCircle2 className="h-4 w-4 text-success" />
+                        <AlertDescription className="text-success">
+                          <strong>Izin pulang cepat disetujui.</strong>
+                          <br />
+                          Anda dapat check-out sebelum jam kerja minimal (rencana pulang {earlyLeave?.leaveTime}).
+                        </AlertDescription>
+                      </Alert>
+                    ) : !canCheckoutByTime ? (
                       <Alert variant="destructive" className="text-left">
                         <AlertCircle className="h-4 w-4" />
                         <AlertDescription>
@@ -486,6 +943,24 @@ export default function AttendancePage() {
                       <Camera className="h-4 w-4" />
                       {canCheckOut ? "Check-out Sekarang" : "Check-out Tidak Tersedia"}
                     </Button>
+
+                    {/* Early leave request */}
+                    {!canCheckoutByTime && todayAttendance?.checkIn && (
+                      earlyLeave?.status === "pending" ? (
+                        <p className="text-sm text-center text-muted-foreground">
+                          Izin pulang cepat pukul {earlyLeave.leaveTime} menunggu persetujuan admin
+                        </p>
+                      ) : !earlyLeaveApproved && (
+                        <Button
+                          variant="outline"
+                          onClick={openEarlyLeaveDialog}
+                          className="w-full gap-2 bg-transparent"
+                        >
+                          <DoorOpen className="h-4 w-4" />
+                          Ajukan Izin Pulang Cepat
+                        </Button>
+                      )
+                    )}
                   </>
                 ) : (
                   <p className="text-muted-foreground text-center">
@@ -498,6 +973,59 @@ export default function AttendancePage() {
         </Card>
       </div>
 
+      {/* Breaks */}
+      {todayAttendance?.checkIn && (!todayAttendance.checkOut || (todayAttendance.breaks?.length ?? 0) > 0) && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Coffee className="h-5 w-5" />
+                Istirahat
+              </span>
+              {openBreak && (
+                <Badge className="bg-warning text-warning-foreground">
+                  Sejak {openBreak.startTime}
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {todayAttendance.breaks && todayAttendance.breaks.length > 0 ? (
+              <div className="space-y-1 text-sm">
+                {todayAttendance.breaks.map((b) => (
+                  <div key={b.id} className="flex items-center justify-between">
+                    <span>
+                      {b.startTime} - {b.endTime ?? "sekarang"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {b.durationMinutes !== null ? `${b.durationMinutes} menit` : "Berlangsung"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Belum ada istirahat hari ini</p>
+            )}
+            {(schedule?.minBreakMinutes ?? 0) > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Istirahat wajib minimal {schedule?.minBreakMinutes} menit di tengah jam kerja tetap dipotong dari jam kerja
+              </p>
+            )}
+            {!todayAttendance.checkOut && (
+              <Button
+                variant={openBreak ? "default" : "outline"}
+                onClick={() => handleBreak(openBreak ? "end" : "start")}
+                disabled={isBreakProcessing}
+                className="w-full gap-2"
+              >
+                <Coffee className="h-4 w-4" />
+                {openBreak ? "Selesai Istirahat" : "Mulai Istirahat"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Work Summary */}
       {todayAttendance?.checkIn && todayAttendance?.checkOut && (
         <Card>
@@ -505,7 +1033,7 @@ export default function AttendancePage() {
             <CardTitle className="text-lg">Ringkasan Hari Ini</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
               <div className="p-3 rounded-lg bg-muted">
                 <p className="text-2xl font-bold text-foreground">
                   {todayAttendance.checkIn.time}
@@ -518,6 +1046,12 @@ export default function AttendancePage() {
                 </p>
                 <p className="text-xs text-muted-foreground">Pulang</p>
               </div>
+              <div className="p-3 rounded-lg bg-muted">
+                <p className="text-2xl font-bold text-foreground">
+                  {todayAttendance.breakMinutes ?? 0}
+                </p>
+                <p className="text-xs text-muted-foreground">Menit Istirahat</p>
+              </div>
               <div className="p-3 rounded-lg bg-primary/10">
                 <p className="text-2xl font-bold text-primary">
                   {todayAttendance.workHours.toFixed(1)}
@@ -528,6 +1062,120 @@ export default function AttendancePage() {
           </CardContent>
         </Card>
       )}
+
+      {/* WFH Request Dialog */}
+      <Dialog open={showWfhDialog} onOpenChange={setShowWfhDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Ajukan WFH</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {wfhError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{wfhError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="wfhStartDate">Dari Tanggal</Label>
+                <Input
+                  id="wfhStartDate"
+                  type="date"
+                  value={wfhForm.startDate}
+                  onChange={(e) => setWfhForm({ ...wfhForm, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="wfhEndDate">Sampai Tanggal</Label>
+                <Input
+                  id="wfhEndDate"
+                  type="date"
+                  value={wfhForm.endDate}
+                  onChange={(e) => setWfhForm({ ...wfhForm, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wfhPurpose">Keperluan</Label>
+              <Textarea
+                id="wfhPurpose"
+                placeholder="Contoh: menyusun laporan bulanan..."
+                value={wfhForm.purpose}
+                onChange={(e) => setWfhForm({ ...wfhForm, purpose: e.target.value })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Setelah disetujui, pilih mode WFH saat check-in. Presensi WFH tidak memakai geofence kantor.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowWfhDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmitWfh}
+              disabled={isSubmittingWfh || !wfhForm.startDate || !wfhForm.endDate || !wfhForm.purpose.trim()}
+            >
+              {isSubmittingWfh ? "Mengirim..." : "Kirim"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Early Leave Dialog */}
+      <Dialog open={showEarlyLeaveDialog} onOpenChange={setShowEarlyLeaveDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Ajukan Izin Pulang Cepat</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {earlyLeaveError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{earlyLeaveError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="earlyLeaveTime">Rencana Jam Pulang</Label>
+              <Input
+                id="earlyLeaveTime"
+                type="time"
+                value={earlyLeaveForm.leaveTime}
+                onChange={(e) =>
+                  setEarlyLeaveForm({ ...earlyLeaveForm, leaveTime: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="earlyLeaveReason">Alasan</Label>
+              <Textarea
+                id="earlyLeaveReason"
+                placeholder="Contoh: kontrol ke dokter..."
+                value={earlyLeaveForm.reason}
+                onChange={(e) =>
+                  setEarlyLeaveForm({ ...earlyLeaveForm, reason: e.target.value })
+                }
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Setelah disetujui, presensi dicatat sebagai pulang cepat, atau setengah hari bila
+              jam kerja tidak lebih dari separuh jam kerja minimal.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEarlyLeaveDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmitEarlyLeave}
+              disabled={isSubmittingEarlyLeave || !earlyLeaveForm.leaveTime || !earlyLeaveForm.reason.trim()}
+            >
+              {isSubmittingEarlyLeave ? "Mengirim..." : "Kirim"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
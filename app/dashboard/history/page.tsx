@@ -2,11 +2,20 @@
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/lib/auth-context";
-import { getAttendanceByUserId } from "@/lib/data-store";
-import type { AttendanceRecord } from "@/lib/types";
+import {
+  getAttendanceRecords,
+  getBusinessTrips,
+  getCorrections,
+  requestCorrection,
+} from "@/lib/api-client";
+import type { AttendanceRecord, AttendanceCorrection, BusinessTrip } from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Select,
   SelectContent,
@@ -22,11 +31,13 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { PhotoThumbnail } from "@/components/photo-thumbnail";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
+  DialogFooter,
 } from "@/components/ui/dialog";
 import {
   History,
@@ -36,6 +47,10 @@ import {
   Eye,
   ChevronLeft,
   ChevronRight,
+  FilePen,
+  AlertCircle,
+  CheckCircle2,
+  Plane,
 } from "lucide-react";
 
 export default function HistoryPage() {
@@ -47,24 +62,93 @@ export default function HistoryPage() {
     null
   );
 
+  const [trips, setTrips] = useState<BusinessTrip[]>([]);
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [correctionRecord, setCorrectionRecord] = useState<AttendanceRecord | null>(
+    null
+  );
+  const [correctionForm, setCorrectionForm] = useState({
+    checkInTime: "",
+    checkOutTime: "",
+    reason: "",
+  });
+  const [correctionError, setCorrectionError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
   useEffect(() => {
-    if (user) {
-      const allRecords = getAttendanceByUserId(user.id);
-      const filtered = allRecords.filter((r) => {
-        const date = new Date(r.date);
-        return (
-          date.getMonth() === selectedMonth &&
-          date.getFullYear() === selectedYear
-        );
-      });
-      // Sort by date descending
-      filtered.sort(
-        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-      );
-      setRecords(filtered);
-    }
+    loadData();
   }, [user, selectedMonth, selectedYear]);
 
+  const loadData = async () => {
+    if (!user) return;
+    try {
+      const [monthRecords, monthTrips, allCorrections] = await Promise.all([
+        getAttendanceRecords({ userId: user.id, month: selectedMonth, year: selectedYear }),
+        getBusinessTrips({
+          userId: user.id,
+          status: "approved",
+          month: selectedMonth,
+          year: selectedYear,
+        }),
+        getCorrections(),
+      ]);
+      setRecords(monthRecords);
+      setTrips(monthTrips);
+      setCorrections(allCorrections);
+    } catch (error) {
+      console.error("Error loading attendance history:", error);
+    }
+  };
+
+  const getPendingCorrection = (attendanceId: string) =>
+    corrections.find((c) => c.attendanceId === attendanceId && c.status === "pending");
+
+  const openCorrectionDialog = (record: AttendanceRecord) => {
+    setCorrectionRecord(record);
+    setCorrectionForm({
+      checkInTime: record.checkIn?.time.slice(0, 5) || "",
+      checkOutTime: record.checkOut?.time.slice(0, 5) || "",
+      reason: "",
+    });
+    setCorrectionError(null);
+  };
+
+  const handleSubmitCorrection = async () => {
+    if (!correctionRecord) return;
+
+    // Hanya jam yang berubah yang diajukan
+    const checkInTime =
+      correctionForm.checkInTime !== (correctionRecord.checkIn?.time.slice(0, 5) || "")
+        ? correctionForm.checkInTime || null
+        : null;
+    const checkOutTime =
+      correctionForm.checkOutTime !== (correctionRecord.checkOut?.time.slice(0, 5) || "")
+        ? correctionForm.checkOutTime || null
+        : null;
+
+    setCorrectionError(null);
+    setIsSubmitting(true);
+
+    const result = await requestCorrection({
+      attendanceId: correctionRecord.id,
+      checkInTime,
+      checkOutTime,
+      reason: correctionForm.reason,
+    });
+    setIsSubmitting(false);
+
+    if ("error" in result) {
+      setCorrectionError(result.error);
+      return;
+    }
+
+    setCorrectionRecord(null);
+    setSuccess("Pengajuan koreksi berhasil dikirim");
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
   const monthNames = [
     "Januari",
     "Februari",
@@ -97,11 +181,34 @@ export default function HistoryPage() {
         return <Badge className="bg-warning text-warning-foreground">Terlambat</Badge>;
       case "absent":
         return <Badge variant="destructive">Tidak Hadir</Badge>;
+      case "leave":
+        return <Badge variant="outline" className="border-primary text-primary">Cuti</Badge>;
+      case "sick":
+        return <Badge variant="outline" className="border-primary text-primary">Sakit</Badge>;
+      case "permit":
+        return <Badge variant="outline" className="border-primary text-primary">Izin</Badge>;
+      case "early_leave":
+        return <Badge variant="outline" className="border-warning text-warning">Pulang Cepat</Badge>;
+      case "half_day":
+        return <Badge variant="outline" className="border-warning text-warning">Setengah Hari</Badge>;
+      case "business_trip":
+        return <Badge variant="outline" className="border-primary text-primary">Perjalanan Dinas</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
   };
 
+  const getCorrectionBadge = (status: AttendanceCorrection["status"]) => {
+    switch (status) {
+      case "approved":
+        return <Badge className="bg-success text-success-foreground">Disetujui</Badge>;
+      case "rejected":
+        return <Badge variant="destructive">Ditolak</Badge>;
+      default:
+        return <Badge variant="secondary">Pending</Badge>;
+    }
+  };
+
   const prevMonth = () => {
     if (selectedMonth === 0) {
       setSelectedMonth(11);
@@ -120,6 +227,41 @@ export default function HistoryPage() {
     }
   };
 
+  // Calendar cells for the selected month, padded to start on Sunday
+  const calendarDays = (() => {
+    const firstDay = new Date(selectedYear, selectedMonth, 1).getDay();
+    const daysInMonth = new Date(selectedYear, selectedMonth + 1, 0).getDate();
+    const month = String(selectedMonth + 1).padStart(2, "0");
+    const days: (string | null)[] = Array(firstDay).fill(null);
+    for (let day = 1; day <= daysInMonth; day++) {
+      days.push(`${selectedYear}-${month}-${String(day).padStart(2, "0")}`);
+    }
+    return days;
+  })();
+
+  const getTripForDate = (date: string) =>
+    trips.find((trip) => trip.startDate <= date && trip.endDate >= date);
+
+  const getCalendarDayClass = (date: string) => {
+    if (getTripForDate(date)) return "border-primary bg-primary/10 text-primary";
+    switch (records.find((r) => r.date === date)?.status) {
+      case "present":
+        return "border-success/50 bg-success/10";
+      case "late":
+      case "early_leave":
+      case "half_day":
+        return "border-warning/50 bg-warning/10";
+      case "absent":
+        return "border-destructive/50 bg-destructive/10";
+      case "leave":
+      case "sick":
+      case "permit":
+        return "bg-muted";
+      default:
+        return "";
+    }
+  };
+
   const stats = {
     present: records.filter((r) => r.status === "present").length,
     late: records.filter((r) => r.status === "late").length,
@@ -183,6 +325,14 @@ export default function HistoryPage() {
         </div>
       </div>
 
+      {/* Success Alert */}
+      {success && (
+        <Alert className="border-success bg-success/10">
+          <CheckCircle2 className="h-4 w-4 text-success" />
+          <AlertDescription className="text-success">{success}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-3 gap-4">
         <Card>
@@ -213,6 +363,51 @@ export default function HistoryPage() {
         </Card>
       </div>
 
+      {/* Calendar */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            Kalender {monthNames[selectedMonth]} {selectedYear}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-7 gap-1 text-center text-sm">
+            {dayNames.map((name) => (
+              <div key={name} className="py-1 font-medium text-muted-foreground">
+                {name}
+              </div>
+            ))}
+            {calendarDays.map((date, index) => {
+              if (!date) return <div key={`empty-${index}`} />;
+              const trip = getTripForDate(date);
+              return (
+                <div
+                  key={date}
+                  title={trip ? `Perjalanan dinas ke ${trip.destination}` : undefined}
+                  className={`flex h-12 flex-col items-center justify-center rounded-md border ${getCalendarDayClass(date)}`}
+                >
+                  <span>{parseInt(date.slice(8))}</span>
+                  {trip && <Plane className="h-3 w-3" />}
+                </div>
+              );
+            })}
+          </div>
+          {trips.length > 0 && (
+            <div className="space-y-1 text-sm">
+              {trips.map((trip) => (
+                <div key={trip.id} className="flex items-center gap-2 text-muted-foreground">
+                  <Plane className="h-4 w-4 text-primary" />
+                  <span>
+                    {formatDate(trip.startDate)} - {formatDate(trip.endDate)}: {trip.destination}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Records Table */}
       <Card>
         <CardHeader>
@@ -236,6 +431,7 @@ export default function HistoryPage() {
                     <TableHead>Tanggal</TableHead>
                     <TableHead>Check-in</TableHead>
                     <TableHead>Check-out</TableHead>
+                    <TableHead>Istirahat</TableHead>
                     <TableHead>Jam Kerja</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Aksi</TableHead>
@@ -247,8 +443,21 @@ export default function HistoryPage() {
                       <TableCell className="font-medium">
                         {formatDate(record.date)}
                       </TableCell>
-                      <TableCell>{record.checkIn?.time || "-"}</TableCell>
-                      <TableCell>{record.checkOut?.time || "-"}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <PhotoThumbnail entry={record.checkIn} alt="Check-in" />
+                          {record.checkIn?.time || "-"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <PhotoThumbnail entry={record.checkOut} alt="Check-out" />
+                          {record.checkOut?.time || "-"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {record.breakMinutes ? `${record.breakMinutes} menit` : "-"}
+                      </TableCell>
                       <TableCell>
                         {record.workHours > 0
                           ? `${record.workHours.toFixed(1)} jam`
@@ -263,6 +472,20 @@ export default function HistoryPage() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
+                        {getPendingCorrection(record.id) ? (
+                          <Badge variant="secondary" className="ml-1">
+                            Koreksi Pending
+                          </Badge>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Ajukan Koreksi"
+                            onClick={() => openCorrectionDialog(record)}
+                          >
+                            <FilePen className="h-4 w-4" />
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -273,6 +496,124 @@ export default function HistoryPage() {
         </CardContent>
       </Card>
 
+      {/* Correction Requests */}
+      {corrections.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FilePen className="h-5 w-5" />
+              Pengajuan Koreksi
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Check-in</TableHead>
+                    <TableHead>Check-out</TableHead>
+                    <TableHead>Alasan</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {corrections.map((correction) => (
+                    <TableRow key={correction.id}>
+                      <TableCell className="font-medium">
+                        {formatDate(correction.date)}
+                      </TableCell>
+                      <TableCell>
+                        {correction.checkInTime
+                          ? `${correction.original.checkInTime || "-"} → ${correction.checkInTime}`
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {correction.checkOutTime
+                          ? `${correction.original.checkOutTime || "-"} → ${correction.checkOutTime}`
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">
+                        {correction.reason}
+                      </TableCell>
+                      <TableCell>{getCorrectionBadge(correction.status)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Correction Dialog */}
+      <Dialog
+        open={!!correctionRecord}
+        onOpenChange={() => setCorrectionRecord(null)}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Ajukan Koreksi - {correctionRecord && formatDate(correctionRecord.date)}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {correctionError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{correctionError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="correctionCheckIn">Jam Check-in</Label>
+                <Input
+                  id="correctionCheckIn"
+                  type="time"
+                  value={correctionForm.checkInTime}
+                  onChange={(e) =>
+                    setCorrectionForm({ ...correctionForm, checkInTime: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="correctionCheckOut">Jam Check-out</Label>
+                <Input
+                  id="correctionCheckOut"
+                  type="time"
+                  value={correctionForm.checkOutTime}
+                  onChange={(e) =>
+                    setCorrectionForm({ ...correctionForm, checkOutTime: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correctionReason">Alasan</Label>
+              <Textarea
+                id="correctionReason"
+                placeholder="Jelaskan alasan koreksi..."
+                value={correctionForm.reason}
+                onChange={(e) =>
+                  setCorrectionForm({ ...correctionForm, reason: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCorrectionRecord(null)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmitCorrection}
+              disabled={isSubmitting || !correctionForm.reason.trim()}
+            >
+              {isSubmitting ? "Mengirim..." : "Kirim"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Detail Dialog */}
       <Dialog
         open={!!selectedRecord}
@@ -340,9 +681,30 @@ export default function HistoryPage() {
                 </div>
               )}
 
+              {/* Breaks */}
+              {selectedRecord.breaks && selectedRecord.breaks.length > 0 && (
+                <div className="space-y-1 pt-2 border-t text-sm">
+                  <p className="font-medium">Istirahat</p>
+                  {selectedRecord.breaks.map((b) => (
+                    <div key={b.id} className="flex items-center justify-between">
+                      <span>
+                        {b.startTime} - {b.endTime ?? "belum selesai"}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {b.durationMinutes !== null ? `${b.durationMinutes} menit` : "-"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Summary */}
               <div className="pt-2 border-t">
                 <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Istirahat Dipotong</span>
+                  <span>{selectedRecord.breakMinutes ?? 0} menit</span>
+                </div>
+                <div className="flex items-center justify-between text-sm mt-1">
                   <span className="text-muted-foreground">Total Jam Kerja</span>
                   <span className="font-bold">
                     {selectedRecord.workHours.toFixed(1)} jam
@@ -0,0 +1,452 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useAuth } from "@/lib/auth-context";
+import {
+  getLeaveRequests,
+  getLeaveBalances,
+  submitLeaveRequest,
+  cancelLeaveRequest,
+  uploadLeaveAttachment,
+  getLeaveAttachmentUrl,
+} from "@/lib/api-client";
+import type { LeaveBalance, LeaveRequest } from "@/lib/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CalendarX,
+  Calendar,
+  Plus,
+  X,
+  AlertCircle,
+  CheckCircle2,
+  Paperclip,
+  Upload,
+} from "lucide-react";
+
+export default function LeavePage() {
+  const { user } = useAuth();
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [showRequestDialog, setShowRequestDialog] = useState(false);
+  const [form, setForm] = useState({
+    leaveTypeId: "",
+    startDate: "",
+    endDate: "",
+    reason: "",
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [attachmentFile, setAttachmentFile] = useState<File | null>(null);
+  const [uploadTargetId, setUploadTargetId] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  const year = new Date().getFullYear();
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user]);
+
+  const loadData = async () => {
+    try {
+      const [yearBalances, allRequests] = await Promise.all([
+        getLeaveBalances({ year }),
+        getLeaveRequests(),
+      ]);
+      setBalances(yearBalances);
+      setRequests(allRequests);
+    } catch (err) {
+      console.error("Error loading leave data:", err);
+    }
+  };
+
+  const openRequestDialog = () => {
+    const today = new Date().toISOString().split("T")[0];
+    setForm({
+      leaveTypeId: balances[0]?.leaveType.id || "",
+      startDate: today,
+      endDate: today,
+      reason: "",
+    });
+    setAttachmentFile(null);
+    setError(null);
+    setShowRequestDialog(true);
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+    setIsSubmitting(true);
+
+    const result = await submitLeaveRequest(form);
+
+    if ("error" in result) {
+      setIsSubmitting(false);
+      setError(result.error);
+      return;
+    }
+
+    const uploaded = attachmentFile
+      ? await uploadLeaveAttachment(result.id, attachmentFile)
+      : result;
+    setIsSubmitting(false);
+    setShowRequestDialog(false);
+    loadData();
+
+    if ("error" in uploaded) {
+      setError(`Pengajuan terkirim, tetapi lampiran gagal diunggah: ${uploaded.error}`);
+      return;
+    }
+
+    setSuccess(
+      uploaded.attachmentMissing
+        ? "Pengajuan cuti berhasil dikirim. Jangan lupa unggah dokumen pendukung."
+        : "Pengajuan cuti berhasil dikirim"
+    );
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const startUpload = (requestId: string) => {
+    setUploadTargetId(requestId);
+    uploadInputRef.current?.click();
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file || !uploadTargetId) return;
+
+    setError(null);
+    const result = await uploadLeaveAttachment(uploadTargetId, file);
+    setUploadTargetId(null);
+    if (uploadInputRef.current) uploadInputRef.current.value = "";
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setSuccess("Lampiran berhasil diunggah");
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const selectedType = balances.find((b) => b.leaveType.id === form.leaveTypeId)?.leaveType;
+
+  const handleCancel = async (requestId: string) => {
+    setError(null);
+
+    const result = await cancelLeaveRequest(requestId);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setSuccess(result.message);
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  // Approved leave can still be cut short until its last day
+  const today = new Date().toISOString().split("T")[0];
+  const canCancel = (request: LeaveRequest) =>
+    request.status === "pending" || (request.status === "approved" && request.endDate >= today);
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const getStatusBadge = (status: LeaveRequest["status"]) => {
+    switch (status) {
+      case "approved":
+        return <Badge className="bg-success text-success-foreground">Disetujui</Badge>;
+      case "rejected":
+        return <Badge variant="destructive">Ditolak</Badge>;
+      default:
+        return <Badge variant="secondary">Pending</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <CalendarX className="h-6 w-6" />
+            Cuti & Izin
+          </h1>
+          <p className="text-muted-foreground">
+            Ajukan cuti, sakit atau izin dan pantau sisa jatah Anda
+          </p>
+        </div>
+        <Button onClick={openRequestDialog} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Ajukan Cuti
+        </Button>
+      </div>
+
+      {/* Success Alert */}
+      {success && (
+        <Alert className="border-success bg-success/10">
+          <CheckCircle2 className="h-4 w-4 text-success" />
+          <AlertDescription className="text-success">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Error Alert */}
+      {error && !showRequestDialog && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <input
+        ref={uploadInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp,application/pdf"
+        className="hidden"
+        onChange={(e) => handleUpload(e.target.files?.[0])}
+      />
+
+      {/* Balances */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {balances.map((balance) => (
+          <Card key={balance.leaveType.id}>
+            <CardContent className="pt-6">
+              <div className="text-center">
+                <p className="text-3xl font-bold text-primary">
+                  {balance.remaining !== null ? balance.remaining : "-"}
+                </p>
+                <p className="text-sm font-medium">{balance.leaveType.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {balance.quota !== null
+                    ? `Terpakai ${balance.used} dari ${balance.quota} hari ${year}`
+                    : `Terpakai ${balance.used} hari ${year} (tanpa batas)`}
+                  {balance.pending > 0 && ` · ${balance.pending} hari pending`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Requests */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Riwayat Pengajuan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {requests.length === 0 ? (
+            <div className="text-center py-12">
+              <Calendar className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">Belum ada pengajuan cuti</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Jenis</TableHead>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Hari Kerja</TableHead>
+                    <TableHead>Alasan</TableHead>
+                    <TableHead>Lampiran</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell className="font-medium">
+                        {request.leaveTypeName}
+                      </TableCell>
+                      <TableCell>
+                        {request.startDate === request.endDate
+                          ? formatDate(request.startDate)
+                          : `${formatDate(request.startDate)} - ${formatDate(request.endDate)}`}
+                      </TableCell>
+                      <TableCell>{request.days} hari</TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {request.reason}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          {request.attachment ? (
+                            <a
+                              href={getLeaveAttachmentUrl(request.id)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-center gap-1 text-sm text-primary hover:underline"
+                            >
+                              <Paperclip className="h-3 w-3" />
+                              Lihat
+                            </a>
+                          ) : request.attachmentMissing ? (
+                            <Badge variant="destructive">Belum ada</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                          {request.status === "pending" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Unggah Lampiran"
+                              onClick={() => startUpload(request.id)}
+                            >
+                              <Upload className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{getStatusBadge(request.status)}</TableCell>
+                      <TableCell className="text-right">
+                        {canCancel(request) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={request.status === "approved" ? "Batalkan sisa cuti" : "Batalkan"}
+                            onClick={() => handleCancel(request.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Request Dialog */}
+      <Dialog open={showRequestDialog} onOpenChange={setShowRequestDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Ajukan Cuti</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label>Jenis Cuti</Label>
+              <Select
+                value={form.leaveTypeId}
+                onValueChange={(v) => setForm({ ...form, leaveTypeId: v })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih jenis cuti" />
+                </SelectTrigger>
+                <SelectContent>
+                  {balances.map((balance) => (
+                    <SelectItem key={balance.leaveType.id} value={balance.leaveType.id}>
+                      {balance.leaveType.name}
+                      {balance.remaining !== null && ` (sisa ${balance.remaining} hari)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="leaveStart">Dari Tanggal</Label>
+                <Input
+                  id="leaveStart"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leaveEnd">Sampai Tanggal</Label>
+                <Input
+                  id="leaveEnd"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leaveReason">Alasan</Label>
+              <Textarea
+                id="leaveReason"
+                placeholder="Jelaskan alasan cuti..."
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leaveAttachment">Lampiran (gambar atau PDF, maks. 5 MB)</Label>
+              <Input
+                id="leaveAttachment"
+                type="file"
+                accept="image/jpeg,image/png,image/webp,application/pdf"
+                onChange={(e) => setAttachmentFile(e.target.files?.[0] || null)}
+              />
+              {selectedType?.attachmentRequiredAfterDays != null && (
+                <p className="text-xs text-warning">
+                  {selectedType.name} lebih dari {selectedType.attachmentRequiredAfterDays} hari
+                  wajib melampirkan dokumen pendukung (contoh surat dokter).
+                </p>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Hari libur dan hari tidak terjadwal tidak memotong jatah cuti.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRequestDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting || !form.leaveTypeId || !form.reason.trim()}
+            >
+              {isSubmitting ? "Mengirim..." : "Kirim"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -8,8 +8,16 @@ import {
   startOvertime,
   endOvertime,
   getWorkSchedules,
-} from "@/lib/data-store";
-import type { AttendanceRecord, OvertimeRecord, WorkSchedule } from "@/lib/types";
+  getOvertimePlans,
+  submitOvertimePlan,
+  cancelOvertimePlan,
+} from "@/lib/api-client";
+import type {
+  AttendanceRecord,
+  OvertimePlan,
+  OvertimeRecord,
+  WorkSchedule,
+} from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -41,19 +49,30 @@ import {
   AlertCircle,
   CheckCircle2,
   Info,
+  Plus,
+  X,
+  FileText,
 } from "lucide-react";
 
+// Batas lembur per hari kerja (PP 35/2021); di hari istirahat/libur hingga 12 jam
+const MAX_OVERTIME_HOURS_PER_DAY = 4;
+const MAX_REST_DAY_OVERTIME_HOURS = 12;
+
 export default function OvertimePage() {
   const { user } = useAuth();
   const [todayAttendance, setTodayAttendance] =
     useState<AttendanceRecord | null>(null);
   const [overtimeRecords, setOvertimeRecords] = useState<OvertimeRecord[]>([]);
+  const [plans, setPlans] = useState<OvertimePlan[]>([]);
   const [activeOvertime, setActiveOvertime] = useState<OvertimeRecord | null>(
     null
   );
   const [currentTime, setCurrentTime] = useState(new Date());
   const [showStartDialog, setShowStartDialog] = useState(false);
   const [reason, setReason] = useState("");
+  const [showPlanDialog, setShowPlanDialog] = useState(false);
+  const [planForm, setPlanForm] = useState({ date: "", expectedHours: "", reason: "" });
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
@@ -70,47 +89,66 @@ export default function OvertimePage() {
     return () => clearInterval(timer);
   }, []);
 
-  const loadData = () => {
+  const loadData = async () => {
     if (!user) return;
 
-    setTodayAttendance(getTodayAttendance(user.id));
-
-    const records = getOvertimeByUserId(user.id);
-    // Sort by date descending
-    records.sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-    setOvertimeRecords(records);
-
-    // Check for active overtime
-    const today = new Date().toISOString().split("T")[0];
-    const active = records.find((o) => o.date === today && !o.endTime);
-    setActiveOvertime(active || null);
+    try {
+      const [attendance, records, allPlans] = await Promise.all([
+        getTodayAttendance(user.id),
+        getOvertimeByUserId(user.id),
+        getOvertimePlans(),
+      ]);
+      setTodayAttendance(attendance);
+      setOvertimeRecords(records);
+      setPlans(allPlans);
+
+      // Overtime may run past midnight, so any open record is the active one
+      setActiveOvertime(records.find((o) => !o.endTime) || null);
+    } catch (err) {
+      console.error("Error loading overtime:", err);
+    }
   };
 
   const [schedule, setSchedule] = useState<WorkSchedule | null>(null);
 
   useEffect(() => {
     const dayOfWeek = new Date().getDay();
-    const schedules = getWorkSchedules();
-    setSchedule(schedules[dayOfWeek]);
+    getWorkSchedules()
+      .then((schedules) => {
+        setSchedule(schedules.find((s) => s.dayOfWeek === dayOfWeek) || null);
+      })
+      .catch((err) => console.error("Error loading schedules:", err));
   }, []);
 
+  // Approved plan for today that has not been used to start an overtime yet
+  const today = new Date().toISOString().split("T")[0];
+  const todayPlan = plans.find(
+    (p) =>
+      p.date === today &&
+      p.status === "approved" &&
+      !overtimeRecords.some((o) => o.planId === p.id)
+  );
+
+  // Without a check-in today (rest day or holiday) the server decides whether a shift is required
   const canStartOvertime = () => {
-    if (!schedule) return false;
-    if (!todayAttendance?.checkIn || !todayAttendance?.checkOut) return false;
-    if (todayAttendance.workHours < schedule.minWorkHours) return false;
-    if (activeOvertime) return false;
-    return true;
+    if (!todayPlan || activeOvertime) return false;
+    if (!todayAttendance?.checkIn) return true;
+    if (!todayAttendance.checkOut) return false;
+    return todayAttendance.workHours >= (schedule?.minWorkHours || 8);
+  };
+
+  const openStartDialog = () => {
+    setReason(todayPlan?.reason || "");
+    setShowStartDialog(true);
   };
 
-  const handleStartOvertime = () => {
+  const handleStartOvertime = async () => {
     if (!user || !reason.trim()) return;
 
     setError(null);
     setSuccess(null);
 
-    const result = startOvertime(user.id, reason.trim());
+    const result = await startOvertime(user.id, reason.trim());
 
     if ("error" in result) {
       setError(result.error);
@@ -122,22 +160,62 @@ export default function OvertimePage() {
     }
   };
 
-  const handleEndOvertime = () => {
+  const handleEndOvertime = async () => {
     if (!user) return;
 
     setError(null);
     setSuccess(null);
 
-    const result = endOvertime(user.id);
+    const result = await endOvertime(user.id);
 
     if ("error" in result) {
       setError(result.error);
     } else {
-      setSuccess("Lembur selesai!");
+      setSuccess(
+        result.status === "approved"
+          ? "Lembur selesai!"
+          : "Lembur selesai! Kelebihan jam dari rencana menunggu persetujuan admin"
+      );
       loadData();
     }
   };
 
+  const openPlanDialog = () => {
+    setPlanForm({ date: today, expectedHours: "", reason: "" });
+    setError(null);
+    setShowPlanDialog(true);
+  };
+
+  const handleSubmitPlan = async () => {
+    setError(null);
+    setIsSubmitting(true);
+
+    const result = await submitOvertimePlan({
+      date: planForm.date,
+      expectedHours: Number(planForm.expectedHours),
+      reason: planForm.reason.trim(),
+    });
+    setIsSubmitting(false);
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setShowPlanDialog(false);
+    setSuccess("Rencana lembur berhasil diajukan");
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleCancelPlan = async (planId: string) => {
+    if (await cancelOvertimePlan(planId)) {
+      setSuccess("Rencana lembur dibatalkan");
+      loadData();
+      setTimeout(() => setSuccess(null), 3000);
+    }
+  };
+
   const calculateElapsedTime = () => {
     if (!activeOvertime) return "00:00:00";
 
@@ -187,9 +265,10 @@ export default function OvertimePage() {
     }
   };
 
-  const totalOvertimeHours = overtimeRecords
-    .filter((o) => o.status === "approved")
-    .reduce((sum, o) => sum + o.duration, 0);
+  const totalOvertimeHours = overtimeRecords.reduce(
+    (sum, o) => sum + o.approvedHours,
+    0
+  );
 
   return (
     <div className="space-y-6">
@@ -222,9 +301,10 @@ export default function OvertimePage() {
       <Alert>
         <Info className="h-4 w-4" />
         <AlertDescription>
-          Anda dapat mengajukan lembur setelah memenuhi minimal{" "}
+          Lembur harus didasari <strong>rencana lembur yang disetujui</strong> sebelum
+          dimulai. Di hari kerja, lembur dapat dimulai setelah check-out dan memenuhi minimal{" "}
           <strong>{schedule?.minWorkHours || 8} jam kerja</strong> pada hari tersebut.
-          Pastikan Anda sudah check-out terlebih dahulu.
+          Jam di luar rencana perlu persetujuan admin.
         </AlertDescription>
       </Alert>
 
@@ -245,6 +325,11 @@ export default function OvertimePage() {
               <p className="text-sm text-muted-foreground mt-2">
                 Dimulai pukul {activeOvertime.startTime}
               </p>
+              {activeOvertime.plannedHours !== null && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Rencana: {activeOvertime.plannedHours} jam
+                </p>
+              )}
               <p className="text-sm text-muted-foreground mt-1">
                 Alasan: {activeOvertime.reason}
               </p>
@@ -269,10 +354,11 @@ export default function OvertimePage() {
               {canStartOvertime() ? (
                 <>
                   <p className="text-muted-foreground mb-4">
-                    Anda memenuhi syarat untuk lembur hari ini
+                    Anda memenuhi syarat untuk lembur hari ini (rencana{" "}
+                    {todayPlan?.expectedHours} jam)
                   </p>
                   <Button
-                    onClick={() => setShowStartDialog(true)}
+                    onClick={openStartDialog}
                     className="gap-2"
                   >
                     <Play className="h-4 w-4" />
@@ -285,8 +371,8 @@ export default function OvertimePage() {
                     Tidak Dapat Lembur
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    {!todayAttendance?.checkIn
-                      ? "Anda belum check-in hari ini"
+                    {!todayPlan
+                      ? "Belum ada rencana lembur yang disetujui untuk hari ini"
                       : !todayAttendance?.checkOut
                       ? "Anda belum check-out hari ini"
                       : `Jam kerja Anda (${todayAttendance.workHours.toFixed(
@@ -302,6 +388,67 @@ export default function OvertimePage() {
         </Card>
       )}
 
+      {/* Overtime Plans */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Rencana Lembur
+          </CardTitle>
+          <Button size="sm" className="gap-2" onClick={openPlanDialog}>
+            <Plus className="h-4 w-4" />
+            Ajukan Rencana
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-6">
+              Belum ada rencana lembur
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Rencana</TableHead>
+                    <TableHead>Alasan</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.id}>
+                      <TableCell className="font-medium">
+                        {formatDate(plan.date)}
+                      </TableCell>
+                      <TableCell>{plan.expectedHours} jam</TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {plan.reason}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(plan.status)}</TableCell>
+                      <TableCell className="text-right">
+                        {plan.status === "pending" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Batalkan"
+                            onClick={() => handleCancelPlan(plan.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Stats */}
       <div className="grid grid-cols-2 gap-4">
         <Card>
@@ -348,6 +495,7 @@ export default function OvertimePage() {
                   <TableRow>
                     <TableHead>Tanggal</TableHead>
                     <TableHead>Waktu</TableHead>
+                    <TableHead>Rencana</TableHead>
                     <TableHead>Durasi</TableHead>
                     <TableHead>Alasan</TableHead>
                     <TableHead>Status</TableHead>
@@ -362,10 +510,18 @@ export default function OvertimePage() {
                       <TableCell>
                         {record.startTime} - {record.endTime || "..."}
                       </TableCell>
+                      <TableCell>
+                        {record.plannedHours !== null ? `${record.plannedHours} jam` : "-"}
+                      </TableCell>
                       <TableCell>
                         {record.duration > 0
                           ? `${record.duration.toFixed(1)} jam`
                           : "-"}
+                        {record.endTime && record.approvedHours !== record.duration && (
+                          <p className="text-xs text-muted-foreground">
+                            Diakui {record.approvedHours.toFixed(1)} jam
+                          </p>
+                        )}
                       </TableCell>
                       <TableCell className="max-w-[200px] truncate">
                         {record.reason}
@@ -387,6 +543,11 @@ export default function OvertimePage() {
             <DialogTitle>Mulai Lembur</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {todayPlan && (
+              <div className="p-3 rounded-lg bg-muted text-sm">
+                Rencana lembur disetujui: <strong>{todayPlan.expectedHours} jam</strong>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="reason">Alasan Lembur</Label>
               <Textarea
@@ -417,6 +578,79 @@ export default function OvertimePage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Overtime Plan Dialog */}
+      <Dialog open={showPlanDialog} onOpenChange={setShowPlanDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ajukan Rencana Lembur</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="planDate">Tanggal</Label>
+                <Input
+                  id="planDate"
+                  type="date"
+                  min={today}
+                  value={planForm.date}
+                  onChange={(e) => setPlanForm({ ...planForm, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="planHours">Rencana Jam</Label>
+                <Input
+                  id="planHours"
+                  type="number"
+                  min={0.5}
+                  max={MAX_REST_DAY_OVERTIME_HOURS}
+                  step={0.5}
+                  value={planForm.expectedHours}
+                  onChange={(e) =>
+                    setPlanForm({ ...planForm, expectedHours: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planReason">Alasan / Pekerjaan</Label>
+              <Textarea
+                id="planReason"
+                placeholder="Jelaskan pekerjaan yang akan dilakukan saat lembur..."
+                value={planForm.reason}
+                onChange={(e) => setPlanForm({ ...planForm, reason: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Maksimal {MAX_OVERTIME_HOURS_PER_DAY} jam lembur per hari kerja. Di hari
+              istirahat dan hari libur batasnya mengikuti pola hari kerja Anda.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPlanDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmitPlan}
+              disabled={
+                isSubmitting ||
+                !planForm.date ||
+                !planForm.expectedHours ||
+                !planForm.reason.trim()
+              }
+            >
+              Ajukan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
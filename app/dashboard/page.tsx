@@ -9,10 +9,12 @@ import {
   getWorkSchedules,
   getHolidays,
 } from "@/lib/data-store";
-import type { AttendanceRecord, OvertimeRecord, WorkSchedule } from "@/lib/types";
+import { getAttendanceRecords, getLeaveBalances } from "@/lib/api-client";
+import type { AttendanceRecord, OvertimeRecord, WorkSchedule, LeaveBalance } from "@/lib/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useRouter } from "next/navigation";
 import {
   Clock,
@@ -22,6 +24,7 @@ import {
   AlertCircle,
   Timer,
   MapPin,
+  CalendarX,
 } from "lucide-react";
 
 export default function EmployeeDashboard() {
@@ -42,6 +45,8 @@ export default function EmployeeDashboard() {
   );
   const [schedule, setSchedule] = useState<WorkSchedule | null>(null);
   const [holidays, setHolidays] = useState<string[]>([]);
+  const [autoClosedRecords, setAutoClosedRecords] = useState<AttendanceRecord[]>([]);
+  const [leaveBalances, setLeaveBalances] = useState<LeaveBalance[]>([]);
 
   useEffect(() => {
     const dayOfWeek = new Date().getDay();
@@ -63,6 +68,16 @@ export default function EmployeeDashboard() {
         (o) => o.date === today && !o.endTime
       );
       setPendingOvertime(pending || null);
+
+      // Presensi bulan ini yang ditutup otomatis karena lupa check-out
+      const now = new Date();
+      getAttendanceRecords({ userId: user.id, month: now.getMonth(), year: now.getFullYear() })
+        .then((records) => setAutoClosedRecords(records.filter((r) => r.autoClosed)))
+        .catch((err) => console.error("Error loading attendance:", err));
+
+      getLeaveBalances({ year: now.getFullYear() })
+        .then(setLeaveBalances)
+        .catch((err) => console.error("Error loading leave balances:", err));
     }
   }, [user]);
 
@@ -150,6 +165,25 @@ export default function EmployeeDashboard() {
         </div>
       </div>
 
+      {/* Auto-closed Notice */}
+      {autoClosedRecords.length > 0 && (
+        <Alert className="border-warning bg-warning/10">
+          <AlertCircle className="h-4 w-4 text-warning" />
+          <AlertDescription>
+            <p className="font-medium">Anda lupa check-out</p>
+            <ul className="mt-1 list-disc pl-4">
+              {autoClosedRecords.map((record) => (
+                <li key={record.id}>
+                  {formatDate(new Date(record.date))}: ditutup otomatis pukul{" "}
+                  {record.checkOut?.time.slice(0, 5)}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-1">Ajukan koreksi di Riwayat Presensi bila jam pulang Anda berbeda.</p>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Current Time Card */}
       <Card className="bg-primary text-primary-foreground">
         <CardContent className="py-8">
@@ -327,6 +361,43 @@ export default function EmployeeDashboard() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Leave Balance */}
+      {leaveBalances.length > 0 && (
+        <Card
+          className="cursor-pointer hover:border-primary/50 transition-colors"
+          onClick={() => router.push("/dashboard/leave")}
+        >
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CalendarX className="h-5 w-5" />
+              Sisa Cuti {today.getFullYear()}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {leaveBalances.map((balance) => (
+                <div
+                  key={balance.leaveType.id}
+                  className="flex items-center justify-between p-3 rounded-lg bg-muted"
+                >
+                  <div>
+                    <p className="text-xs text-muted-foreground">{balance.leaveType.name}</p>
+                    <p className="font-semibold">
+                      {balance.remaining !== null
+                        ? `${balance.remaining} / ${balance.quota} hari`
+                        : `${balance.used} hari terpakai`}
+                    </p>
+                  </div>
+                  {balance.pending > 0 && (
+                    <Badge variant="secondary">{balance.pending} pending</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
+import { FaceReferenceCard } from "@/components/face-reference-card"
 import { User, Mail, Phone, Building2, Briefcase, Calendar, Lock, Save, Eye, EyeOff } from "lucide-react"
 
 export default function ProfilePage() {
@@ -275,6 +276,8 @@ export default function ProfilePage() {
           </CardContent>
         </Card>
       </div>
+
+      <FaceReferenceCard />
     </div>
   )
 }
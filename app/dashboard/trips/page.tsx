@@ -0,0 +1,324 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/lib/auth-context";
+import {
+  getBusinessTrips,
+  getTripApprovers,
+  submitBusinessTrip,
+  cancelBusinessTrip,
+} from "@/lib/api-client";
+import type { BusinessTrip } from "@/lib/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Plane,
+  Calendar,
+  Plus,
+  X,
+  AlertCircle,
+  CheckCircle2,
+} from "lucide-react";
+
+export default function BusinessTripsPage() {
+  const { user } = useAuth();
+  const [trips, setTrips] = useState<BusinessTrip[]>([]);
+  const [approvers, setApprovers] = useState<{ id: string; name: string; position: string }[]>([]);
+  const [showRequestDialog, setShowRequestDialog] = useState(false);
+  const [form, setForm] = useState({
+    destination: "",
+    startDate: "",
+    endDate: "",
+    purpose: "",
+    approverId: "",
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user]);
+
+  const loadData = async () => {
+    try {
+      const [allTrips, allApprovers] = await Promise.all([
+        getBusinessTrips(),
+        getTripApprovers(),
+      ]);
+      setTrips(allTrips);
+      setApprovers(allApprovers);
+    } catch (err) {
+      console.error("Error loading business trips:", err);
+    }
+  };
+
+  const openRequestDialog = () => {
+    const today = new Date().toISOString().split("T")[0];
+    setForm({
+      destination: "",
+      startDate: today,
+      endDate: today,
+      purpose: "",
+      approverId: approvers[0]?.id || "",
+    });
+    setError(null);
+    setShowRequestDialog(true);
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+    setIsSubmitting(true);
+
+    const result = await submitBusinessTrip(form);
+    setIsSubmitting(false);
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setShowRequestDialog(false);
+    setSuccess("Pengajuan perjalanan dinas berhasil dikirim");
+    loadData();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleCancel = async (tripId: string) => {
+    if (await cancelBusinessTrip(tripId)) {
+      setSuccess("Pengajuan perjalanan dinas dibatalkan");
+      loadData();
+      setTimeout(() => setSuccess(null), 3000);
+    }
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const getStatusBadge = (status: BusinessTrip["status"]) => {
+    switch (status) {
+      case "approved":
+        return <Badge className="bg-success text-success-foreground">Disetujui</Badge>;
+      case "rejected":
+        return <Badge variant="destructive">Ditolak</Badge>;
+      default:
+        return <Badge variant="secondary">Pending</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Plane className="h-6 w-6" />
+            Perjalanan Dinas
+          </h1>
+          <p className="text-muted-foreground">
+            Ajukan perjalanan dinas beberapa hari agar tidak tercatat tidak hadir
+          </p>
+        </div>
+        <Button onClick={openRequestDialog} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Ajukan Perjalanan
+        </Button>
+      </div>
+
+      {/* Success Alert */}
+      {success && (
+        <Alert className="border-success bg-success/10">
+          <CheckCircle2 className="h-4 w-4 text-success" />
+          <AlertDescription className="text-success">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Trips */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Riwayat Perjalanan Dinas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {trips.length === 0 ? (
+            <div className="text-center py-12">
+              <Calendar className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">Belum ada perjalanan dinas</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tujuan</TableHead>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Keperluan</TableHead>
+                    <TableHead>Penyetuju</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trips.map((trip) => (
+                    <TableRow key={trip.id}>
+                      <TableCell className="font-medium">{trip.destination}</TableCell>
+                      <TableCell>
+                        {trip.startDate === trip.endDate
+                          ? formatDate(trip.startDate)
+                          : `${formatDate(trip.startDate)} - ${formatDate(trip.endDate)}`}
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {trip.purpose}
+                      </TableCell>
+                      <TableCell>{trip.approverName || "-"}</TableCell>
+                      <TableCell>{getStatusBadge(trip.status)}</TableCell>
+                      <TableCell className="text-right">
+                        {trip.status === "pending" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Batalkan"
+                            onClick={() => handleCancel(trip.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Request Dialog */}
+      <Dialog open={showRequestDialog} onOpenChange={setShowRequestDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Ajukan Perjalanan Dinas</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="tripDestination">Tujuan</Label>
+              <Input
+                id="tripDestination"
+                placeholder="Contoh: Kebun Pelalawan, Riau"
+                value={form.destination}
+                onChange={(e) => setForm({ ...form, destination: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tripStart">Dari Tanggal</Label>
+                <Input
+                  id="tripStart"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tripEnd">Sampai Tanggal</Label>
+                <Input
+                  id="tripEnd"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tripPurpose">Keperluan</Label>
+              <Textarea
+                id="tripPurpose"
+                placeholder="Contoh: inspeksi blok tanam..."
+                value={form.purpose}
+                onChange={(e) => setForm({ ...form, purpose: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Atasan Penyetuju</Label>
+              <Select
+                value={form.approverId}
+                onValueChange={(v) => setForm({ ...form, approverId: v })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih atasan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {approvers.map((approver) => (
+                    <SelectItem key={approver.id} value={approver.id}>
+                      {approver.name}
+                      {approver.position && ` - ${approver.position}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Setelah disetujui, hari kerja selama perjalanan tercatat sebagai perjalanan dinas.
+              Check-in di lokasi tujuan tetap bisa dilakukan namun tidak wajib.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRequestDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={
+                isSubmitting ||
+                !form.destination.trim() ||
+                !form.purpose.trim() ||
+                !form.approverId
+              }
+            >
+              {isSubmitting ? "Mengirim..." : "Kirim"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getKioskQr } from "@/lib/api-client";
+import { COMPANY_NAME } from "@/lib/types";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Leaf, QrCode } from "lucide-react";
+
+interface KioskQr {
+  locationName: string;
+  qrImage: string;
+  expiresAt: string;
+}
+
+// Layar kiosk QR untuk site perangkat kiosk terdaftar. Tanpa login; hanya berfungsi
+// di perangkat yang didaftarkan admin (cookie perangkat).
+export default function KioskPage() {
+  const [qr, setQr] = useState<KioskQr | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [now, setNow] = useState(new Date());
+  const isFetching = useRef(false);
+
+  const loadQr = async () => {
+    if (isFetching.current) return;
+    isFetching.current = true;
+
+    const result = await getKioskQr();
+    if ("error" in result) {
+      setError(result.error);
+    } else {
+      setQr(result);
+      setError(null);
+    }
+    isFetching.current = false;
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadQr();
+  }, []);
+
+  // Clock tick; fetch the next code as soon as the current one expires
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (qr && now >= new Date(qr.expiresAt)) {
+      loadQr();
+    }
+  }, [now, qr]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Memuat...</div>
+      </div>
+    );
+  }
+
+  if (error && !qr) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background p-6">
+        <QrCode className="h-12 w-12 text-muted-foreground" />
+        <Alert variant="destructive" className="max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {error}. Minta admin login di perangkat ini lalu daftarkan lewat menu
+            Pengaturan &gt; Perangkat Kiosk dengan tampilan Layar QR.
+          </AlertDescription>
+        </Alert>
+        <Button variant="outline" asChild>
+          <a href="/login">Login Admin</a>
+        </Button>
+      </div>
+    );
+  }
+
+  const secondsLeft = qr
+    ? Math.max(0, Math.ceil((new Date(qr.expiresAt).getTime() - now.getTime()) / 1000))
+    : 0;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-6 bg-background p-6">
+      <div className="text-center">
+        <div className="inline-flex items-center justify-center w-14 h-14 rounded-full bg-primary/10 mb-3">
+          <Leaf className="w-7 h-7 text-primary" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground">{COMPANY_NAME}</h1>
+        {qr && <p className="text-lg text-muted-foreground">{qr.locationName}</p>}
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {qr && (
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 flex flex-col items-center gap-4">
+            <img src={qr.qrImage} alt="QR presensi" className="w-full aspect-square" />
+            <p className="text-sm text-muted-foreground">
+              Kode berganti dalam {secondsLeft} detik
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="text-center">
+        <p className="text-5xl font-bold tracking-tight text-foreground">
+          {now.toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+        </p>
+        <p className="mt-2 flex items-center justify-center gap-2 text-muted-foreground">
+          <QrCode className="h-4 w-4" />
+          Pindai kode QR dengan kamera ponsel untuk check-in atau check-out
+        </p>
+      </div>
+    </div>
+  );
+}
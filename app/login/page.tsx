@@ -40,6 +40,14 @@ export default function LoginPage() {
       return;
     }
 
+    // Return to the page that required login (e.g. a scanned kiosk QR link);
+    // only same-site paths, so the login page cannot be used as an open redirect
+    const redirect = new URLSearchParams(window.location.search).get("redirect");
+    if (redirect && /^\/(?![/\\])/.test(redirect)) {
+      router.push(redirect);
+      return;
+    }
+
     // Redirect based on role
     if (result.role === "admin") {
       router.push("/admin");
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from 'next'
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Presensi Karyawan - PT Lestari Bumi Persada',
+    short_name: 'Presensi LBP',
+    description: 'Sistem Presensi Karyawan PT Lestari Bumi Persada',
+    start_url: '/dashboard/attendance',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#006b48',
+    icons: [
+      {
+        src: '/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+      },
+    ],
+  }
+}
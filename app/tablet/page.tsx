@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getKioskEmployees, submitKioskPunch } from "@/lib/api-client";
+import { COMPANY_NAME } from "@/lib/types";
+import type { KioskEmployee } from "@/lib/types";
+import { CameraCapture } from "@/components/camera-capture";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  Leaf,
+  LogIn,
+  LogOut,
+  Search,
+  Tablet,
+} from "lucide-react";
+
+type Step = "select" | "pin" | "camera";
+
+// Kembali ke daftar nama bila tablet ditinggal di tengah presensi (detik)
+const IDLE_RESET_SECONDS = 60;
+
+// Lama pesan hasil presensi ditampilkan (detik)
+const RESULT_SECONDS = 5;
+
+// Halaman tablet presensi bersama: pilih nama, masukkan PIN, lalu berfoto. Tanpa login;
+// hanya berfungsi di tablet yang didaftarkan admin (cookie perangkat).
+export default function TabletKioskPage() {
+  const [deviceName, setDeviceName] = useState("");
+  const [locationName, setLocationName] = useState("");
+  const [employees, setEmployees] = useState<KioskEmployee[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [step, setStep] = useState<Step>("select");
+  const [selected, setSelected] = useState<KioskEmployee | null>(null);
+  const [pin, setPin] = useState("");
+  const [action, setAction] = useState<"check-in" | "check-out">("check-in");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [now, setNow] = useState(new Date());
+
+  const loadEmployees = async () => {
+    const data = await getKioskEmployees();
+    if ("error" in data) {
+      setLoadError(data.error);
+    } else {
+      setDeviceName(data.deviceName);
+      setLocationName(data.locationName);
+      setEmployees(data.employees);
+      setLoadError(null);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadEmployees();
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const reset = () => {
+    setStep("select");
+    setSelected(null);
+    setPin("");
+    setSearchQuery("");
+  };
+
+  // Never leave a half-entered PIN on a shared screen
+  useEffect(() => {
+    if (step === "select" || isSubmitting) return;
+    const timer = setTimeout(reset, IDLE_RESET_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [step, pin, isSubmitting]);
+
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(() => setResult(null), RESULT_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [result]);
+
+  const selectEmployee = (employee: KioskEmployee) => {
+    setSelected(employee);
+    setPin("");
+    setResult(null);
+    setStep("pin");
+  };
+
+  const startCapture = (punchAction: "check-in" | "check-out") => {
+    setAction(punchAction);
+    setStep("camera");
+  };
+
+  const handleCapture = async (photo: string) => {
+    if (!selected) return;
+
+    setIsSubmitting(true);
+    const response = await submitKioskPunch({ userId: selected.id, pin, action, photo });
+    setIsSubmitting(false);
+
+    setResult(
+      "error" in response
+        ? { success: false, message: response.error }
+        : { success: true, message: response.message }
+    );
+    reset();
+  };
+
+  const filteredEmployees = employees.filter((employee) =>
+    employee.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Memuat...</div>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background p-6">
+        <Tablet className="h-12 w-12 text-muted-foreground" />
+        <Alert variant="destructive" className="max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {loadError}. Minta admin login di tablet ini lalu daftarkan lewat menu
+            Pengaturan &gt; Perangkat Kiosk.
+          </AlertDescription>
+        </Alert>
+        <Button variant="outline" asChild>
+          <a href="/login">Login Admin</a>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center gap-6 bg-background p-6">
+      <div className="text-center">
+        <div className="inline-flex items-center justify-center w-14 h-14 rounded-full bg-primary/10 mb-3">
+          <Leaf className="w-7 h-7 text-primary" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground">{COMPANY_NAME}</h1>
+        <p className="text-lg text-muted-foreground">{locationName}</p>
+        <p className="text-4xl font-bold tracking-tight text-foreground mt-2">
+          {now.toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+        </p>
+      </div>
+
+      {result && (
+        <Alert
+          variant={result.success ? "default" : "destructive"}
+          className={`max-w-xl ${result.success ? "border-success bg-success/10" : ""}`}
+        >
+          {result.success ? (
+            <CheckCircle2 className="h-4 w-4 text-success" />
+          ) : (
+            <AlertCircle className="h-4 w-4" />
+          )}
+          <AlertDescription className={result.success ? "text-success" : undefined}>
+            {result.message}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {step === "select" && (
+        <Card className="w-full max-w-3xl">
+          <CardContent className="p-6 space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Cari nama Anda..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10 h-12 text-lg"
+              />
+            </div>
+            {filteredEmployees.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {employees.length === 0
+                  ? "Belum ada karyawan dengan PIN kiosk di lokasi ini"
+                  : "Nama tidak ditemukan"}
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-[50vh] overflow-y-auto">
+                {filteredEmployees.map((employee) => (
+                  <Button
+                    key={employee.id}
+                    variant="outline"
+                    className="h-auto py-4 flex flex-col items-start text-left"
+                    onClick={() => selectEmployee(employee)}
+                  >
+                    <span className="font-medium">{employee.name}</span>
+                    <span className="text-xs text-muted-foreground">{employee.position}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "pin" && selected && (
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <p className="text-lg font-medium">{selected.name}</p>
+              <p className="text-sm text-muted-foreground">
+                {selected.position} - {selected.department}
+              </p>
+            </div>
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              placeholder="Masukkan PIN"
+              className="h-14 text-center text-2xl tracking-widest"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                className="h-14 gap-2"
+                disabled={pin.length < 4}
+                onClick={() => startCapture("check-in")}
+              >
+                <LogIn className="h-5 w-5" />
+                Check-in
+              </Button>
+              <Button
+                variant="secondary"
+                className="h-14 gap-2"
+                disabled={pin.length < 4}
+                onClick={() => startCapture("check-out")}
+              >
+                <LogOut className="h-5 w-5" />
+                Check-out
+              </Button>
+            </div>
+            <Button variant="ghost" className="w-full gap-2" onClick={reset}>
+              <ArrowLeft className="h-4 w-4" />
+              Bukan saya
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "camera" && (
+        <div className="w-full max-w-md">
+          {isSubmitting ? (
+            <div className="text-center py-12 animate-pulse text-muted-foreground">
+              Mengirim presensi...
+            </div>
+          ) : (
+            <CameraCapture onCapture={handleCapture} onCancel={reset} />
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-auto">{deviceName}</p>
+    </div>
+  );
+}
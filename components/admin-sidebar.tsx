@@ -7,11 +7,14 @@ import {
   LayoutDashboard,
   Users,
   CalendarCheck,
+  CalendarClock,
+  CalendarX,
   FileBarChart,
   Settings,
   LogOut,
   Building2,
   FileSpreadsheet,
+  Briefcase,
 } from "lucide-react"
 import {
   Sidebar,
@@ -44,6 +47,21 @@ const adminMenuItems = [
     url: "/admin/attendance",
     icon: CalendarCheck,
   },
+  {
+    title: "Jadwal Shift",
+    url: "/admin/roster",
+    icon: CalendarClock,
+  },
+  {
+    title: "Cuti & Izin",
+    url: "/admin/leave",
+    icon: CalendarX,
+  },
+  {
+    title: "WFH & Dinas Luar",
+    url: "/admin/assignments",
+    icon: Briefcase,
+  },
   {
     title: "Laporan",
     url: "/admin/reports",
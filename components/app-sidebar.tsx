@@ -11,6 +11,8 @@ import {
   History,
   LogOut,
   Timer,
+  CalendarX,
+  Plane,
 } from "lucide-react";
 import {
   Sidebar,
@@ -48,6 +50,16 @@ const employeeMenuItems = [
     url: "/dashboard/overtime",
     icon: Timer,
   },
+  {
+    title: "Cuti",
+    url: "/dashboard/leave",
+    icon: CalendarX,
+  },
+  {
+    title: "Perjalanan Dinas",
+    url: "/dashboard/trips",
+    icon: Plane,
+  },
 ];
 
 export function AppSidebar() {
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getFaceReferences, enrollFaceReference } from "@/lib/api-client";
+import type { FaceReference } from "@/lib/types";
+import { CameraCapture } from "@/components/camera-capture";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScanFace, Camera, AlertCircle, CheckCircle2 } from "lucide-react";
+
+// Pendaftaran foto referensi wajah karyawan untuk pencocokan selfie presensi
+export function FaceReferenceCard() {
+  const [enabled, setEnabled] = useState(false);
+  const [references, setReferences] = useState<FaceReference[]>([]);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReferences();
+  }, []);
+
+  const loadReferences = async () => {
+    try {
+      const result = await getFaceReferences();
+      setEnabled(result.enabled);
+      setReferences(result.references);
+    } catch (err) {
+      console.error("Error loading face references:", err);
+    }
+  };
+
+  const handleCapture = async (photoData: string) => {
+    setShowCamera(false);
+    setError(null);
+    setIsSubmitting(true);
+
+    const result = await enrollFaceReference(photoData);
+    setIsSubmitting(false);
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+
+    setSuccess("Foto referensi dikirim, menunggu persetujuan admin");
+    loadReferences();
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  if (!enabled) return null;
+
+  const active = references.find((r) => r.status === "approved");
+  const pending = references.find((r) => r.status === "pending");
+  const latestRejected = references[0]?.status === "rejected" ? references[0] : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanFace className="h-5 w-5" />
+          Foto Referensi Wajah
+        </CardTitle>
+        <CardDescription>
+          Selfie presensi dicocokkan dengan foto ini. Gunakan pencahayaan cukup dan wajah menghadap kamera.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {success && (
+          <Alert className="border-success bg-success/10">
+            <CheckCircle2 className="h-4 w-4 text-success" />
+            <AlertDescription className="text-success">{success}</AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {showCamera ? (
+          <CameraCapture onCapture={handleCapture} onCancel={() => setShowCamera(false)} />
+        ) : (
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+            <div className="flex gap-3">
+              {active && (
+                <div className="space-y-1 text-center">
+                  <img
+                    src={active.photoThumbnail}
+                    alt="Referensi aktif"
+                    className="h-24 w-24 rounded-lg object-cover bg-muted"
+                  />
+                  <Badge className="bg-success text-success-foreground">Aktif</Badge>
+                </div>
+              )}
+              {pending && (
+                <div className="space-y-1 text-center">
+                  <img
+                    src={pending.photoThumbnail}
+                    alt="Menunggu persetujuan"
+                    className="h-24 w-24 rounded-lg object-cover bg-muted"
+                  />
+                  <Badge variant="secondary">Pending</Badge>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              {!active && !pending && (
+                <p className="text-sm text-muted-foreground">
+                  Anda belum memiliki foto referensi wajah.
+                </p>
+              )}
+              {latestRejected && (
+                <p className="text-sm text-destructive">
+                  Foto referensi terakhir ditolak admin, silakan ambil ulang.
+                </p>
+              )}
+              <Button
+                variant="outline"
+                className="gap-2 bg-transparent"
+                disabled={isSubmitting}
+                onClick={() => setShowCamera(true)}
+              >
+                <Camera className="h-4 w-4" />
+                {active || pending ? "Ganti Foto Referensi" : "Ambil Foto Referensi"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
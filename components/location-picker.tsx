@@ -15,23 +15,15 @@ import {
   Check,
   RefreshCw,
 } from "lucide-react";
-
-interface Location {
-  latitude: number;
-  longitude: number;
-  address: string;
-}
+import type { AttendanceLocation } from "@/lib/types";
 
 interface LocationPickerProps {
-  onConfirm: (location: Location) => void;
+  onConfirm: (location: AttendanceLocation) => void;
   onCancel: () => void;
 }
 
 export function LocationPicker({ onConfirm, onCancel }: LocationPickerProps) {
-  const [location, setLocation] = useState<{
-    latitude: number;
-    longitude: number;
-  } | null>(null);
+  const [location, setLocation] = useState<Omit<AttendanceLocation, "address"> | null>(null);
   const [detectedAddress, setDetectedAddress] = useState("");
   const [locationDetail, setLocationDetail] = useState("");
   const [isLoading, setIsLoading] = useState(true);
@@ -49,8 +41,15 @@ export function LocationPicker({ onConfirm, onCancel }: LocationPickerProps) {
 
     navigator.geolocation.getCurrentPosition(
       async (position) => {
-        const { latitude, longitude } = position.coords;
-        setLocation({ latitude, longitude });
+        const { latitude, longitude, accuracy, altitude } = position.coords;
+        // Akurasi, ketinggian dan waktu posisi ikut dikirim untuk deteksi GPS palsu di server
+        setLocation({
+          latitude,
+          longitude,
+          accuracy,
+          altitude,
+          capturedAt: new Date(position.timestamp).toISOString(),
+        });
 
         // Try to get address from coordinates using reverse geocoding
         try {
@@ -115,11 +114,7 @@ export function LocationPicker({ onConfirm, onCancel }: LocationPickerProps) {
         ? `${detectedAddress} | Detail: ${locationDetail.trim()}`
         : detectedAddress;
       
-      onConfirm({
-        latitude: location.latitude,
-        longitude: location.longitude,
-        address: fullAddress,
-      });
+      onConfirm({ ...location, address: fullAddress });
     }
   };
 
@@ -193,6 +188,12 @@ export function LocationPicker({ onConfirm, onCancel }: LocationPickerProps) {
                 {location?.longitude.toFixed(6)}
               </span>
             </div>
+            {typeof location?.accuracy === "number" && (
+              <div className="col-span-2">
+                <span className="text-muted-foreground">Akurasi:</span>
+                <span className="ml-2 font-mono">±{Math.round(location.accuracy)} m</span>
+              </div>
+            )}
           </div>
         </div>
 
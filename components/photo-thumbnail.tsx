@@ -0,0 +1,24 @@
+"use client";
+
+import type { AttendanceRecord } from "@/lib/types";
+
+interface PhotoThumbnailProps {
+  entry: NonNullable<AttendanceRecord["checkIn"]> | null;
+  alt: string;
+}
+
+// Preview kecil foto presensi untuk baris tabel, dimuat saat terlihat di layar
+export function PhotoThumbnail({ entry, alt }: PhotoThumbnailProps) {
+  const src = entry?.photoThumbnail || entry?.photo;
+  if (!src) return null;
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      loading="lazy"
+      decoding="async"
+      className="h-8 w-8 rounded object-cover bg-muted"
+    />
+  );
+}
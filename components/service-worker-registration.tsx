@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Daftarkan service worker agar aplikasi bisa diinstal (PWA) dan dibuka tanpa sinyal.
+// Hanya di production, supaya cache tidak mengganggu hot reload saat development.
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  }, []);
+
+  return null;
+}
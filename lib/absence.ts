@@ -0,0 +1,126 @@
+import { query, transaction } from './db';
+import { addDays, getDayOfWeek } from './time';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Absent Marking
+ * Catat status 'absent' untuk karyawan yang tidak check-in pada hari kerjanya
+ */
+
+// Batas rentang tanggal sekali backfill
+export const MAX_BACKFILL_DAYS = 366;
+
+interface EmployeeRow extends RowDataPacket {
+  id: string;
+  created_date: string;
+}
+
+interface DateRow extends RowDataPacket {
+  date: string;
+}
+
+interface UserIdRow extends RowDataPacket {
+  user_id: string;
+}
+
+interface RosterRow extends RowDataPacket {
+  user_id: string;
+  shift_id: string | null;
+}
+
+interface WorkScheduleRow extends RowDataPacket {
+  day_of_week: number;
+  is_active: boolean;
+}
+
+export interface AbsenceResult {
+  date: string;
+  marked: number;
+  skipped?: 'holiday';
+}
+
+/**
+ * Tandai absen untuk setiap tanggal dalam rentang (inklusif).
+ * Tanggal libur dilewati; karyawan yang sudah punya data presensi, cuti atau
+ * perjalanan dinas yang disetujui, atau tidak dijadwalkan bekerja tidak ditandai.
+ * Aman dijalankan berulang kali untuk rentang yang sama.
+ */
+export async function markAbsences(
+  startDate: string,
+  endDate: string
+): Promise<AbsenceResult[]> {
+  const [employees, holidayRows, weekdayRows] = await Promise.all([
+    query<EmployeeRow[]>(
+      `SELECT id, DATE_FORMAT(created_at, '%Y-%m-%d') AS created_date
+       FROM users WHERE role = 'employee' AND is_active = TRUE`
+    ),
+    query<DateRow[]>(
+      `SELECT DATE_FORMAT(date, '%Y-%m-%d') AS date FROM holidays
+       WHERE is_active = TRUE AND date BETWEEN ? AND ?`,
+      [startDate, endDate]
+    ),
+    query<WorkScheduleRow[]>('SELECT day_of_week, is_active FROM work_schedules'),
+  ]);
+
+  const holidays = new Set(holidayRows.map((row) => row.date));
+  const activeWeekdays = new Set(
+    weekdayRows.filter((row) => row.is_active).map((row) => row.day_of_week)
+  );
+
+  const results: AbsenceResult[] = [];
+
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (holidays.has(date)) {
+      results.push({ date, marked: 0, skipped: 'holiday' });
+      continue;
+    }
+
+    const [attendedRows, leaveRows, tripRows, rosterRows] = await Promise.all([
+      query<UserIdRow[]>(
+        'SELECT user_id FROM attendance_records WHERE date = ?',
+        [date]
+      ),
+      query<UserIdRow[]>(
+        `SELECT user_id FROM leave_requests
+         WHERE status = 'approved' AND ? BETWEEN start_date AND end_date`,
+        [date]
+      ),
+      query<UserIdRow[]>(
+        `SELECT user_id FROM business_trips
+         WHERE status = 'approved' AND ? BETWEEN start_date AND end_date`,
+        [date]
+      ),
+      query<RosterRow[]>(
+        'SELECT user_id, shift_id FROM shift_roster WHERE date = ?',
+        [date]
+      ),
+    ]);
+
+    const attended = new Set(attendedRows.map((row) => row.user_id));
+    const onLeave = new Set([...leaveRows, ...tripRows].map((row) => row.user_id));
+    const roster = new Map(rosterRows.map((row) => [row.user_id, row.shift_id]));
+    const weekdayIsWorkday = activeWeekdays.has(getDayOfWeek(date));
+
+    // Roster shift takes precedence over the weekday schedule, as in getEffectiveSchedule
+    const absentees = employees.filter((employee) => {
+      if (employee.created_date > date) return false;
+      if (attended.has(employee.id) || onLeave.has(employee.id)) return false;
+      return roster.has(employee.id) ? roster.get(employee.id) !== null : weekdayIsWorkday;
+    });
+
+    if (absentees.length > 0) {
+      await transaction(
+        absentees.map((employee) => ({
+          sql: `INSERT INTO attendance_records (id, user_id, date, status)
+                VALUES (?, ?, ?, 'absent')
+                ON DUPLICATE KEY UPDATE id = id`,
+          params: [`absent-${employee.id}-${date}`, employee.id, date],
+        }))
+      );
+    }
+
+    results.push({ date, marked: absentees.length });
+  }
+
+  return results;
+}
@@ -6,9 +6,26 @@
 import type {
   User,
   AttendanceRecord,
+  AttendanceCorrection,
+  EarlyLeaveRequest,
+  WorkAssignment,
+  AttendanceMode,
+  BusinessTrip,
+  OvertimePlan,
   OvertimeRecord,
   WorkSchedule,
   Holiday,
+  OfficeLocation,
+  Shift,
+  RosterEntry,
+  LeaveRequest,
+  LeaveBalance,
+  SuspiciousPunch,
+  FaceReference,
+  AttendanceLocation,
+  QueuedPunch,
+  KioskDevice,
+  KioskEmployee,
 } from "./types";
 
 // Base API URL
@@ -36,6 +53,11 @@ async function fetchAPI<T>(
   return data;
 }
 
+// fetch() rejects with a TypeError when the request never reaches the server (no signal)
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
 // ==========================================
 // User API Functions
 // ==========================================
@@ -83,6 +105,22 @@ export async function updateUser(
   }
 }
 
+// Set (4-6 digits) or clear (null) an employee's kiosk tablet PIN
+export async function setKioskPin(
+  id: string,
+  pin: string | null
+): Promise<User | { error: string }> {
+  try {
+    const data = await fetchAPI<{ user: User }>(`/users/${id}`, {
+      method: "PUT",
+      body: JSON.stringify({ kioskPin: pin }),
+    });
+    return data.user;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Set kiosk PIN failed" };
+  }
+}
+
 export async function deleteUser(id: string): Promise<boolean> {
   try {
     await fetchAPI(`/users/${id}`, { method: "DELETE" });
@@ -101,9 +139,13 @@ export async function getAttendanceRecords(filters?: {
   date?: string;
   month?: number;
   year?: number;
+  siteId?: string;
+  mode?: AttendanceMode;
 }): Promise<AttendanceRecord[]> {
   const params = new URLSearchParams();
   if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.siteId) params.append("siteId", filters.siteId);
+  if (filters?.mode) params.append("mode", filters.mode);
   if (filters?.date) params.append("date", filters.date);
   if (filters?.month !== undefined) params.append("month", String(filters.month + 1)); // Convert to 1-indexed
   if (filters?.year !== undefined) params.append("year", String(filters.year));
@@ -124,32 +166,44 @@ export async function getAttendanceByDate(date: string): Promise<AttendanceRecor
 }
 
 export async function getTodayAttendance(userId: string): Promise<AttendanceRecord | null> {
-  const today = new Date().toISOString().split("T")[0];
-  const records = await getAttendanceRecords({ userId, date: today });
+  // The server resolves today/yesterday in the employee's site timezone
+  const records = await getAttendanceRecords({ userId, date: "today" });
+  if (records.length > 0 && records[0].checkIn) return records[0];
+
+  // A night shift started yesterday stays active until it is checked out
+  const previous = await getAttendanceRecords({ userId, date: "yesterday" });
+  if (previous.length > 0 && previous[0].checkIn && !previous[0].checkOut) {
+    return previous[0];
+  }
+
   return records.length > 0 ? records[0] : null;
 }
 
 export async function checkIn(
   userId: string,
   photo: string,
-  location: { latitude: number; longitude: number; address: string }
-): Promise<AttendanceRecord | { error: string }> {
+  location: AttendanceLocation,
+  mode?: { mode: AttendanceMode; assignmentId?: string }
+): Promise<AttendanceRecord | { error: string; offline?: boolean }> {
   try {
     const data = await fetchAPI<{ record: AttendanceRecord; message: string }>("/attendance", {
       method: "POST",
-      body: JSON.stringify({ action: "check-in", photo, location }),
+      body: JSON.stringify({ action: "check-in", photo, location, ...mode }),
     });
     return data.record;
   } catch (error) {
-    return { error: error instanceof Error ? error.message : "Check-in failed" };
+    return {
+      error: error instanceof Error ? error.message : "Check-in failed",
+      offline: isNetworkError(error),
+    };
   }
 }
 
 export async function checkOut(
   userId: string,
   photo: string,
-  location: { latitude: number; longitude: number; address: string }
-): Promise<AttendanceRecord | { error: string }> {
+  location: AttendanceLocation
+): Promise<AttendanceRecord | { error: string; offline?: boolean }> {
   try {
     const data = await fetchAPI<{ record: AttendanceRecord; message: string }>("/attendance", {
       method: "POST",
@@ -157,7 +211,546 @@ export async function checkOut(
     });
     return data.record;
   } catch (error) {
-    return { error: error instanceof Error ? error.message : "Check-out failed" };
+    return {
+      error: error instanceof Error ? error.message : "Check-out failed",
+      offline: isNetworkError(error),
+    };
+  }
+}
+
+// Send a punch taken offline; capturedAt/sentAt let the server check the device clock.
+// Returns the HTTP status on failure (null when the request never reached the server)
+// so the queue can tell a rejected punch from one that should be retried.
+export async function submitQueuedPunch(
+  punch: QueuedPunch
+): Promise<AttendanceRecord | { error: string; status: number | null }> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/attendance`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        action: punch.action,
+        photo: punch.photo,
+        location: punch.location,
+        mode: punch.mode,
+        assignmentId: punch.assignmentId,
+        capturedAt: punch.capturedAt,
+        sentAt: new Date().toISOString(),
+      }),
+    });
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : "Queued punch failed",
+      status: null,
+    };
+  }
+
+  // Proxies and captive portals may answer with a non-JSON body
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.record) {
+    return { error: data?.error || "Queued punch failed", status: response.status };
+  }
+  return data.record as AttendanceRecord;
+}
+
+// Check in/out by scanning a location's kiosk QR instead of selfie + GPS
+export async function submitQrPunch(
+  action: "check-in" | "check-out",
+  qr: string
+): Promise<AttendanceRecord | { error: string }> {
+  try {
+    const data = await fetchAPI<{ record: AttendanceRecord; message: string }>("/attendance", {
+      method: "POST",
+      body: JSON.stringify({ action, qr }),
+    });
+    return data.record;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "QR punch failed" };
+  }
+}
+
+// Start or end a break (istirahat) in the current workday; returns the record with its breaks
+export async function recordBreak(
+  action: "start" | "end"
+): Promise<{ record: AttendanceRecord; message: string } | { error: string }> {
+  try {
+    const data = await fetchAPI<{ record: AttendanceRecord; message: string }>("/attendance/breaks", {
+      method: "POST",
+      body: JSON.stringify({ action }),
+    });
+    return { record: data.record, message: data.message };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Record break failed" };
+  }
+}
+
+export async function backfillAbsences(
+  startDate: string,
+  endDate: string
+): Promise<{ marked: number; message: string } | { error: string }> {
+  try {
+    const data = await fetchAPI<{ marked: number; message: string }>("/attendance/absences", {
+      method: "POST",
+      body: JSON.stringify({ startDate, endDate }),
+    });
+    return { marked: data.marked, message: data.message };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Backfill absences failed" };
+  }
+}
+
+export async function getSuspiciousPunches(
+  startDate: string,
+  endDate: string
+): Promise<SuspiciousPunch[]> {
+  const params = new URLSearchParams({ startDate, endDate });
+  const data = await fetchAPI<{ punches: SuspiciousPunch[] }>(
+    `/attendance/suspicious?${params.toString()}`
+  );
+  return data.punches;
+}
+
+// ==========================================
+// Attendance Correction API Functions
+// ==========================================
+
+export async function getCorrections(filters?: {
+  userId?: string;
+  status?: "pending" | "approved" | "rejected";
+}): Promise<AttendanceCorrection[]> {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.status) params.append("status", filters.status);
+
+  const queryString = params.toString();
+  const endpoint = `/attendance/corrections${queryString ? `?${queryString}` : ""}`;
+
+  const data = await fetchAPI<{ corrections: AttendanceCorrection[] }>(endpoint);
+  return data.corrections;
+}
+
+export async function requestCorrection(request: {
+  attendanceId: string;
+  checkInTime: string | null;
+  checkOutTime: string | null;
+  reason: string;
+}): Promise<AttendanceCorrection | { error: string }> {
+  try {
+    const data = await fetchAPI<{ correction: AttendanceCorrection }>("/attendance/corrections", {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+    return data.correction;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Request correction failed" };
+  }
+}
+
+export async function approveCorrection(
+  correctionId: string,
+  approved: boolean
+): Promise<AttendanceCorrection | { error: string }> {
+  try {
+    const data = await fetchAPI<{ correction: AttendanceCorrection }>("/attendance/corrections", {
+      method: "PUT",
+      body: JSON.stringify({
+        action: approved ? "approve" : "reject",
+        correctionId,
+      }),
+    });
+    return data.correction;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Approve correction failed" };
+  }
+}
+
+// ==========================================
+// Early Leave API Functions
+// ==========================================
+
+export async function getEarlyLeaveRequests(filters?: {
+  userId?: string;
+  status?: "pending" | "approved" | "rejected";
+  date?: string;
+}): Promise<EarlyLeaveRequest[]> {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.date) params.append("date", filters.date);
+
+  const queryString = params.toString();
+  const endpoint = `/attendance/early-leave${queryString ? `?${queryString}` : ""}`;
+
+  const data = await fetchAPI<{ requests: EarlyLeaveRequest[] }>(endpoint);
+  return data.requests;
+}
+
+export async function requestEarlyLeave(request: {
+  date: string;
+  leaveTime: string;
+  reason: string;
+}): Promise<EarlyLeaveRequest | { error: string }> {
+  try {
+    const data = await fetchAPI<{ request: EarlyLeaveRequest }>("/attendance/early-leave", {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+    return data.request;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Request early leave failed" };
+  }
+}
+
+export async function approveEarlyLeave(
+  requestId: string,
+  approved: boolean
+): Promise<EarlyLeaveRequest | { error: string }> {
+  try {
+    const data = await fetchAPI<{ request: EarlyLeaveRequest }>("/attendance/early-leave", {
+      method: "PUT",
+      body: JSON.stringify({
+        action: approved ? "approve" : "reject",
+        requestId,
+      }),
+    });
+    return data.request;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Approve early leave failed" };
+  }
+}
+
+// ==========================================
+// Work Assignment (WFH & Dinas Luar) API Functions
+// ==========================================
+
+export async function getWorkAssignments(filters?: {
+  userId?: string;
+  status?: WorkAssignment["status"];
+  mode?: WorkAssignment["mode"];
+  date?: string;
+}): Promise<WorkAssignment[]> {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.mode) params.append("mode", filters.mode);
+  if (filters?.date) params.append("date", filters.date);
+
+  const queryString = params.toString();
+  const endpoint = `/work-assignments${queryString ? `?${queryString}` : ""}`;
+
+  const data = await fetchAPI<{ assignments: WorkAssignment[] }>(endpoint);
+  return data.assignments;
+}
+
+// Employees may only request WFH; admins pass userId and may assign dinas luar (approved directly)
+export async function createWorkAssignment(assignment: {
+  userId?: string;
+  mode: WorkAssignment["mode"];
+  startDate: string;
+  endDate: string;
+  purpose: string;
+  destinationName?: string;
+  latitude?: number;
+  longitude?: number;
+  radiusMeters?: number;
+}): Promise<WorkAssignment | { error: string }> {
+  try {
+    const data = await fetchAPI<{ assignment: WorkAssignment }>("/work-assignments", {
+      method: "POST",
+      body: JSON.stringify(assignment),
+    });
+    return data.assignment;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Create work assignment failed" };
+  }
+}
+
+export async function approveWorkAssignment(
+  assignmentId: string,
+  approved: boolean
+): Promise<WorkAssignment | { error: string }> {
+  try {
+    const data = await fetchAPI<{ assignment: WorkAssignment }>("/work-assignments", {
+      method: "PUT",
+      body: JSON.stringify({
+        action: approved ? "approve" : "reject",
+        assignmentId,
+      }),
+    });
+    return data.assignment;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Approve work assignment failed" };
+  }
+}
+
+export async function deleteWorkAssignment(id: string): Promise<boolean> {
+  try {
+    await fetchAPI(`/work-assignments?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ==========================================
+// Face Reference API Functions
+// ==========================================
+
+export async function getFaceReferences(filters?: {
+  userId?: string;
+  status?: FaceReference["status"];
+}): Promise<{ enabled: boolean; references: FaceReference[] }> {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.status) params.append("status", filters.status);
+
+  const queryString = params.toString();
+  const endpoint = `/face-references${queryString ? `?${queryString}` : ""}`;
+
+  const data = await fetchAPI<{ enabled: boolean; references: FaceReference[] }>(endpoint);
+  return { enabled: data.enabled, references: data.references };
+}
+
+export async function enrollFaceReference(
+  photo: string
+): Promise<FaceReference | { error: string }> {
+  try {
+    const data = await fetchAPI<{ reference: FaceReference }>("/face-references", {
+      method: "POST",
+      body: JSON.stringify({ photo }),
+    });
+    return data.reference;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Enroll face reference failed" };
+  }
+}
+
+export async function approveFaceReference(
+  referenceId: string,
+  approved: boolean
+): Promise<FaceReference | { error: string }> {
+  try {
+    const data = await fetchAPI<{ reference: FaceReference }>("/face-references", {
+      method: "PUT",
+      body: JSON.stringify({
+        action: approved ? "approve" : "reject",
+        referenceId,
+      }),
+    });
+    return data.reference;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Approve face reference failed" };
+  }
+}
+
+// ==========================================
+// Leave API Functions
+// ==========================================
+
+export async function getLeaveRequests(filters?: {
+  userId?: string;
+  status?: "pending" | "approved" | "rejected";
+  year?: number;
+}): Promise<LeaveRequest[]> {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.year !== undefined) params.append("year", String(filters.year));
+
+  const queryString = params.toString();
+  const endpoint = `/leave${queryString ? `?${queryString}` : ""}`;
+
+  const data = await fetchAPI<{ requests: LeaveRequest[] }>(endpoint);
+  return data.requests;
+}
+
+export async function submitLeaveRequest(request: {
+  leaveTypeId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}): Promise<LeaveRequest | { error: string }> {
+  try {
+    const data = await fetchAPI<{ request: LeaveRequest }>("/leave", {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+    return data.request;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Submit leave request failed" };
+  }
+}
+
+export async function approveLeaveRequest(
+  requestId: string,
+  approved: boolean
+): Promise<LeaveRequest | { error: string }> {
+  try {
+    const data = await fetchAPI<{ request: LeaveRequest }>("/leave", {
+      method: "PUT",
+      body: JSON.stringify({
+        action: approved ? "approve" : "reject",
+        requestId,
+      }),
+    });
+    return data.request;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Approve leave request failed" };
+  }
+}
+
+// Cancels a pending request, or the remaining days of an approved leave
+export async function cancelLeaveRequest(
+  requestId: string
+): Promise<{ message: string } | { error: string }> {
+  try {
+    const data = await fetchAPI<{ message: string }>("/leave", {
+      method: "PUT",
+      body: JSON.stringify({ action: "cancel", requestId }),
+    });
+    return { message: data.message };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Cancel leave request failed" };
+  }
+}
+
+// Upload uses multipart form data, so it bypasses the JSON fetch wrapper
+export async function uploadLeaveAttachment(
+  requestId: string,
+  file: File
+): Promise<LeaveRequest | { error: string }> {
+  try {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const response = await fetch(`${API_BASE}/leave/${requestId}/attachment`, {
+      method: "POST",
+      body: formData,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "API request failed");
+    }
+
+    return data.request;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Upload attachment failed" };
+  }
+}
+
+export function getLeaveAttachmentUrl(requestId: string): string {
+  return `${API_BASE}/leave/${requestId}/attachment`;
+}
+
+export async function getLeaveBalances(filters?: {
+  userId?: string;
+  year?: number;
+}): Promise<LeaveBalance[]> {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.year !== undefined) params.append("year", String(filters.year));
+
+  const queryString = params.toString();
+  const endpoint = `/leave/balances${queryString ? `?${queryString}` : ""}`;
+
+  const data = await fetchAPI<{ balances: LeaveBalance[] }>(endpoint);
+  return data.balances;
+}
+
+export async function updateLeaveQuota(quota: {
+  userId: string;
+  leaveTypeId: string;
+  year: number;
+  quota: number | null;
+}): Promise<LeaveBalance[] | { error: string }> {
+  try {
+    const data = await fetchAPI<{ balances: LeaveBalance[] }>("/leave/balances", {
+      method: "PUT",
+      body: JSON.stringify(quota),
+    });
+    return data.balances;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Update leave quota failed" };
+  }
+}
+
+// ==========================================
+// Business Trip (Perjalanan Dinas) API Functions
+// ==========================================
+
+export async function getBusinessTrips(filters?: {
+  userId?: string;
+  status?: BusinessTrip["status"];
+  month?: number;
+  year?: number;
+}): Promise<BusinessTrip[]> {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.month !== undefined) params.append("month", String(filters.month + 1)); // Convert to 1-indexed
+  if (filters?.year !== undefined) params.append("year", String(filters.year));
+
+  const queryString = params.toString();
+  const endpoint = `/business-trips${queryString ? `?${queryString}` : ""}`;
+
+  const data = await fetchAPI<{ trips: BusinessTrip[] }>(endpoint);
+  return data.trips;
+}
+
+export async function getTripApprovers(): Promise<{ id: string; name: string; position: string }[]> {
+  const data = await fetchAPI<{ approvers: { id: string; name: string; position: string }[] }>(
+    "/business-trips/approvers"
+  );
+  return data.approvers;
+}
+
+export async function submitBusinessTrip(trip: {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  purpose: string;
+  approverId: string;
+}): Promise<BusinessTrip | { error: string }> {
+  try {
+    const data = await fetchAPI<{ trip: BusinessTrip }>("/business-trips", {
+      method: "POST",
+      body: JSON.stringify(trip),
+    });
+    return data.trip;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Submit business trip failed" };
+  }
+}
+
+export async function approveBusinessTrip(
+  tripId: string,
+  approved: boolean
+): Promise<BusinessTrip | { error: string }> {
+  try {
+    const data = await fetchAPI<{ trip: BusinessTrip }>("/business-trips", {
+      method: "PUT",
+      body: JSON.stringify({
+        action: approved ? "approve" : "reject",
+        tripId,
+      }),
+    });
+    return data.trip;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Approve business trip failed" };
+  }
+}
+
+export async function cancelBusinessTrip(tripId: string): Promise<boolean> {
+  try {
+    await fetchAPI("/business-trips", {
+      method: "PUT",
+      body: JSON.stringify({ action: "cancel", tripId }),
+    });
+    return true;
+  } catch {
+    return false;
   }
 }
 
@@ -186,7 +779,7 @@ export async function getOvertimeByUserId(userId: string): Promise<OvertimeRecor
 
 export async function startOvertime(
   userId: string,
-  reason: string
+  reason?: string
 ): Promise<OvertimeRecord | { error: string }> {
   try {
     const data = await fetchAPI<{ record: OvertimeRecord }>("/overtime", {
@@ -230,6 +823,69 @@ export async function approveOvertime(
   }
 }
 
+export async function getOvertimePlans(filters?: {
+  userId?: string;
+  status?: OvertimePlan["status"];
+  date?: string;
+}): Promise<OvertimePlan[]> {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append("userId", filters.userId);
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.date) params.append("date", filters.date);
+
+  const queryString = params.toString();
+  const endpoint = `/overtime/plans${queryString ? `?${queryString}` : ""}`;
+
+  const data = await fetchAPI<{ plans: OvertimePlan[] }>(endpoint);
+  return data.plans;
+}
+
+export async function submitOvertimePlan(plan: {
+  date: string;
+  expectedHours: number;
+  reason: string;
+}): Promise<OvertimePlan | { error: string }> {
+  try {
+    const data = await fetchAPI<{ plan: OvertimePlan }>("/overtime/plans", {
+      method: "POST",
+      body: JSON.stringify(plan),
+    });
+    return data.plan;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Submit overtime plan failed" };
+  }
+}
+
+export async function approveOvertimePlan(
+  planId: string,
+  approved: boolean
+): Promise<OvertimePlan | { error: string }> {
+  try {
+    const data = await fetchAPI<{ plan: OvertimePlan }>("/overtime/plans", {
+      method: "PUT",
+      body: JSON.stringify({
+        action: approved ? "approve" : "reject",
+        planId,
+      }),
+    });
+    return data.plan;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Approve overtime plan failed" };
+  }
+}
+
+export async function cancelOvertimePlan(planId: string): Promise<boolean> {
+  try {
+    await fetchAPI("/overtime/plans", {
+      method: "PUT",
+      body: JSON.stringify({ action: "cancel", planId }),
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // ==========================================
 // Work Schedule API Functions
 // ==========================================
@@ -255,6 +911,97 @@ export async function resetWorkSchedules(): Promise<WorkSchedule[]> {
   return getWorkSchedules();
 }
 
+// ==========================================
+// Shift & Roster API Functions
+// ==========================================
+
+export async function getShifts(): Promise<Shift[]> {
+  const data = await fetchAPI<{ shifts: Shift[] }>("/shifts");
+  return data.shifts;
+}
+
+export async function addShift(
+  shift: Omit<Shift, "id">
+): Promise<Shift[] | { error: string }> {
+  try {
+    const data = await fetchAPI<{ shifts: Shift[] }>("/shifts", {
+      method: "POST",
+      body: JSON.stringify(shift),
+    });
+    return data.shifts;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Add shift failed" };
+  }
+}
+
+export async function updateShift(
+  id: string,
+  updates: Partial<Omit<Shift, "id">>
+): Promise<Shift[] | { error: string }> {
+  try {
+    const data = await fetchAPI<{ shifts: Shift[] }>("/shifts", {
+      method: "PUT",
+      body: JSON.stringify({ id, ...updates }),
+    });
+    return data.shifts;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Update shift failed" };
+  }
+}
+
+export async function deleteShift(id: string): Promise<Shift[]> {
+  const data = await fetchAPI<{ shifts: Shift[] }>(
+    `/shifts?id=${encodeURIComponent(id)}`,
+    { method: "DELETE" }
+  );
+  return data.shifts;
+}
+
+export async function getRoster(filters: {
+  startDate: string;
+  endDate?: string;
+  userId?: string;
+}): Promise<RosterEntry[]> {
+  const params = new URLSearchParams({ startDate: filters.startDate });
+  if (filters.endDate) params.append("endDate", filters.endDate);
+  if (filters.userId) params.append("userId", filters.userId);
+
+  const data = await fetchAPI<{ roster: RosterEntry[] }>(`/roster?${params.toString()}`);
+  return data.roster;
+}
+
+export async function assignRoster(assignment: {
+  userIds: string[];
+  startDate: string;
+  endDate: string;
+  pattern: (string | null)[];
+}): Promise<RosterEntry[] | { error: string }> {
+  try {
+    const data = await fetchAPI<{ roster: RosterEntry[] }>("/roster", {
+      method: "POST",
+      body: JSON.stringify(assignment),
+    });
+    return data.roster;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Assign roster failed" };
+  }
+}
+
+export async function clearRoster(
+  userId: string,
+  startDate: string,
+  endDate?: string
+): Promise<boolean> {
+  try {
+    const params = new URLSearchParams({ userId, startDate });
+    if (endDate) params.append("endDate", endDate);
+    await fetchAPI(`/roster?${params.toString()}`, { method: "DELETE" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // ==========================================
 // Holiday API Functions
 // ==========================================
@@ -304,6 +1051,123 @@ export async function resetHolidays(): Promise<Holiday[]> {
   return getHolidays();
 }
 
+// ==========================================
+// Office Location API Functions
+// ==========================================
+
+export async function getOfficeLocations(): Promise<OfficeLocation[]> {
+  const data = await fetchAPI<{ locations: OfficeLocation[] }>("/office-locations");
+  return data.locations;
+}
+
+export async function addOfficeLocation(
+  location: Omit<OfficeLocation, "id" | "kioskEnabled">
+): Promise<OfficeLocation[] | { error: string }> {
+  try {
+    const data = await fetchAPI<{ locations: OfficeLocation[] }>("/office-locations", {
+      method: "POST",
+      body: JSON.stringify(location),
+    });
+    return data.locations;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Add office location failed" };
+  }
+}
+
+export async function updateOfficeLocation(
+  id: string,
+  updates: Partial<Omit<OfficeLocation, "id">>
+): Promise<OfficeLocation[] | { error: string }> {
+  try {
+    const data = await fetchAPI<{ locations: OfficeLocation[] }>("/office-locations", {
+      method: "PUT",
+      body: JSON.stringify({ id, ...updates }),
+    });
+    return data.locations;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Update office location failed" };
+  }
+}
+
+export async function deleteOfficeLocation(id: string): Promise<OfficeLocation[]> {
+  const data = await fetchAPI<{ locations: OfficeLocation[] }>(
+    `/office-locations?id=${encodeURIComponent(id)}`,
+    { method: "DELETE" }
+  );
+  return data.locations;
+}
+
+// QR code for the site of the registered kiosk device this browser belongs to
+export async function getKioskQr(): Promise<
+  { locationName: string; qrImage: string; expiresAt: string } | { error: string }
+> {
+  try {
+    return await fetchAPI<{ locationName: string; qrImage: string; expiresAt: string }>("/kiosk/qr");
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Get kiosk QR failed" };
+  }
+}
+
+export async function getKioskDevices(): Promise<KioskDevice[]> {
+  const data = await fetchAPI<{ devices: KioskDevice[] }>("/kiosk/devices");
+  return data.devices;
+}
+
+// Registers the browser making the call; the device token is kept in its cookie
+export async function registerKioskDevice(
+  locationId: string,
+  name: string
+): Promise<KioskDevice | { error: string }> {
+  try {
+    const data = await fetchAPI<{ device: KioskDevice }>("/kiosk/devices", {
+      method: "POST",
+      body: JSON.stringify({ locationId, name }),
+    });
+    return data.device;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Register kiosk device failed" };
+  }
+}
+
+export async function deleteKioskDevice(id: string): Promise<boolean> {
+  try {
+    await fetchAPI(`/kiosk/devices?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getKioskEmployees(): Promise<
+  { deviceName: string; locationName: string; employees: KioskEmployee[] } | { error: string }
+> {
+  try {
+    return await fetchAPI<{ deviceName: string; locationName: string; employees: KioskEmployee[] }>(
+      "/kiosk/employees"
+    );
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Get kiosk employees failed" };
+  }
+}
+
+// Check in/out on a shared kiosk tablet with the employee's PIN and a kiosk selfie
+export async function submitKioskPunch(punch: {
+  userId: string;
+  pin: string;
+  action: "check-in" | "check-out";
+  photo: string;
+}): Promise<{ record: AttendanceRecord; message: string } | { error: string }> {
+  try {
+    const data = await fetchAPI<{ record: AttendanceRecord; message: string }>("/kiosk/punch", {
+      method: "POST",
+      body: JSON.stringify(punch),
+    });
+    return { record: data.record, message: data.message };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Kiosk punch failed" };
+  }
+}
+
 // ==========================================
 // Statistics API Functions
 // ==========================================
@@ -316,7 +1180,15 @@ export async function getAttendanceStats(
   present: number;
   late: number;
   absent: number;
+  leave: number;
+  sick: number;
+  permit: number;
+  earlyLeave: number;
+  halfDay: number;
+  businessTrip: number;
   totalWorkHours: number;
+  totalLateMinutes: number;
+  averageLateMinutes: number;
   total: number;
 }> {
   const params = new URLSearchParams();
@@ -358,6 +1230,7 @@ export const ApiClient = {
   getUserById,
   createUser,
   updateUser,
+  setKioskPin,
   deleteUser,
 
   // Attendance
@@ -367,6 +1240,49 @@ export const ApiClient = {
   getTodayAttendance,
   checkIn,
   checkOut,
+  submitQueuedPunch,
+  submitQrPunch,
+  recordBreak,
+  backfillAbsences,
+  getSuspiciousPunches,
+
+  // Corrections
+  getCorrections,
+  requestCorrection,
+  approveCorrection,
+
+  // Early leave
+  getEarlyLeaveRequests,
+  requestEarlyLeave,
+  approveEarlyLeave,
+
+  // WFH & Dinas Luar
+  getWorkAssignments,
+  createWorkAssignment,
+  approveWorkAssignment,
+  deleteWorkAssignment,
+
+  // Face References
+  getFaceReferences,
+  enrollFaceReference,
+  approveFaceReference,
+
+  // Leave
+  getLeaveRequests,
+  submitLeaveRequest,
+  approveLeaveRequest,
+  cancelLeaveRequest,
+  uploadLeaveAttachment,
+  getLeaveAttachmentUrl,
+  getLeaveBalances,
+  updateLeaveQuota,
+
+  // Business Trips
+  getBusinessTrips,
+  getTripApprovers,
+  submitBusinessTrip,
+  approveBusinessTrip,
+  cancelBusinessTrip,
 
   // Overtime
   getOvertimeRecords,
@@ -374,12 +1290,25 @@ export const ApiClient = {
   startOvertime,
   endOvertime,
   approveOvertime,
+  getOvertimePlans,
+  submitOvertimePlan,
+  approveOvertimePlan,
+  cancelOvertimePlan,
 
   // Schedules
   getWorkSchedules,
   updateWorkSchedule,
   resetWorkSchedules,
 
+  // Shifts & Roster
+  getShifts,
+  addShift,
+  updateShift,
+  deleteShift,
+  getRoster,
+  assignRoster,
+  clearRoster,
+
   // Holidays
   getHolidays,
   addHoliday,
@@ -387,6 +1316,18 @@ export const ApiClient = {
   deleteHoliday,
   resetHolidays,
 
+  // Office Locations
+  getOfficeLocations,
+  addOfficeLocation,
+  updateOfficeLocation,
+  deleteOfficeLocation,
+  getKioskQr,
+  getKioskDevices,
+  registerKioskDevice,
+  deleteKioskDevice,
+  getKioskEmployees,
+  submitKioskPunch,
+
   // Stats
   getAttendanceStats,
 
@@ -0,0 +1,68 @@
+import path from 'path';
+import { getBlobStore } from './blob-store';
+
+/**
+ * File Attachments
+ * Penyimpanan lampiran (contoh surat dokter) di blob store,
+ * di luar folder public agar hanya bisa diakses lewat API
+ */
+
+// Ukuran maksimal lampiran (5 MB)
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Tipe file yang diizinkan beserta ekstensi dan signature (magic bytes)
+const ALLOWED_TYPES: Record<string, { extension: string; signature: number[] }> = {
+  'image/jpeg': { extension: 'jpg', signature: [0xff, 0xd8, 0xff] },
+  'image/png': { extension: 'png', signature: [0x89, 0x50, 0x4e, 0x47] },
+  'image/webp': { extension: 'webp', signature: [0x52, 0x49, 0x46, 0x46] },
+  'application/pdf': { extension: 'pdf', signature: [0x25, 0x50, 0x44, 0x46] },
+};
+
+export const ALLOWED_ATTACHMENT_TYPES = Object.keys(ALLOWED_TYPES);
+
+/**
+ * Validasi lampiran, mengembalikan pesan error atau null bila valid.
+ * Isi file dicocokkan dengan tipenya agar file lain tidak bisa menyamar.
+ */
+export function validateAttachment(data: Buffer, mimeType: string): string | null {
+  const type = ALLOWED_TYPES[mimeType];
+  if (!type) {
+    return 'Lampiran harus berupa gambar (JPG, PNG, WEBP) atau PDF';
+  }
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    return `Ukuran lampiran maksimal ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+  }
+  if (!type.signature.every((byte, index) => data[index] === byte)) {
+    return 'Isi file tidak sesuai dengan tipenya';
+  }
+  return null;
+}
+
+/**
+ * Simpan lampiran dan kembalikan key-nya di blob store
+ */
+export async function saveAttachment(
+  folder: string,
+  ownerId: string,
+  data: Buffer,
+  mimeType: string
+): Promise<string> {
+  const relativePath = path.posix.join(
+    folder,
+    `${ownerId}-${Date.now()}.${ALLOWED_TYPES[mimeType].extension}`
+  );
+  await getBlobStore().put(relativePath, data, mimeType);
+
+  return relativePath;
+}
+
+export async function readAttachment(relativePath: string): Promise<Buffer> {
+  return getBlobStore().get(relativePath);
+}
+
+/**
+ * Hapus lampiran lama, abaikan bila file sudah tidak ada
+ */
+export async function deleteAttachment(relativePath: string): Promise<void> {
+  await getBlobStore().delete(relativePath);
+}
@@ -0,0 +1,527 @@
+import { query, queryOne } from './db';
+import { checkGeofence, GEOFENCE_MODE, type SiteResolution } from './geofence';
+import { addDays, getDayOfWeek, minutesBetween } from './time';
+import { getSiteDateTime } from './business-time';
+import { getEffectiveSchedule, isOvernight } from './shifts';
+import { getPhotoUrl, getThumbnailUrl, savePhoto, type DecodedPhoto } from './photos';
+import { flagDuplicatePhoto, mapDuplicate } from './photo-duplicates';
+import { FACE_MATCH_MODE, isFaceMatchEnabled, mapFaceMatch, matchFace } from './face-match';
+import { checkLocation, mapLocationFlags, type PositionInput } from './location-checks';
+import { attachBreaks, closeOpenBreak, computeNetWork, getBreakMinutes } from './breaks';
+import { getApprovedEarlyLeave, getPartialStatus, isEarlyLeaveTimeReached } from './early-leave';
+import { isLeaveStatus } from './leave';
+import type { PunchTime } from './offline-punch';
+import type {
+  AttendanceMethod,
+  AttendanceMode,
+  AttendanceRecord,
+  AttendanceStatus,
+  FaceMatch,
+  GeofenceMatch,
+} from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Attendance
+ * Pencatatan check-in/check-out beserta aturannya (geofence, pencocokan wajah, jadwal
+ * shift, keterlambatan dan jam kerja minimal). Dipakai presensi karyawan dari ponsel
+ * maupun presensi di tablet kiosk bersama.
+ */
+
+export interface AttendanceRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  date: string;
+  check_in_time: string | null;
+  check_in_photo_id: string | null;
+  check_in_duplicate_of: string | null;
+  check_in_duplicate_distance: number | null;
+  check_in_duplicate_user_id: string | null;
+  check_in_duplicate_created_at: string | null;
+  check_in_latitude: number | null;
+  check_in_longitude: number | null;
+  check_in_address: string | null;
+  check_in_accuracy: number | null;
+  check_in_altitude: number | null;
+  check_in_position_at: string | null;
+  check_in_location_flags: string | null;
+  check_in_location_id: string | null;
+  check_in_location_name: string | null;
+  check_in_distance: number | null;
+  check_in_outside_geofence: boolean;
+  check_in_face_score: number | null;
+  check_in_face_mismatch: boolean;
+  check_in_face_unverified: boolean;
+  check_in_offline: boolean;
+  check_in_method: AttendanceMethod;
+  check_out_date: string | null;
+  check_out_time: string | null;
+  check_out_photo_id: string | null;
+  check_out_duplicate_of: string | null;
+  check_out_duplicate_distance: number | null;
+  check_out_duplicate_user_id: string | null;
+  check_out_duplicate_created_at: string | null;
+  check_out_latitude: number | null;
+  check_out_longitude: number | null;
+  check_out_address: string | null;
+  check_out_accuracy: number | null;
+  check_out_altitude: number | null;
+  check_out_position_at: string | null;
+  check_out_location_flags: string | null;
+  check_out_location_id: string | null;
+  check_out_location_name: string | null;
+  check_out_distance: number | null;
+  check_out_outside_geofence: boolean;
+  check_out_face_score: number | null;
+  check_out_face_mismatch: boolean;
+  check_out_face_unverified: boolean;
+  check_out_offline: boolean;
+  check_out_method: AttendanceMethod;
+  auto_closed: boolean;
+  attendance_mode: AttendanceMode;
+  assignment_id: string | null;
+  assignment_destination: string | null;
+  status: AttendanceStatus;
+  work_hours: number;
+  break_minutes: number;
+  late_minutes: number;
+  shift_id: string | null;
+}
+
+// Select attendance beserta nama lokasi kantor hasil geofence dan foto mirip yang terdeteksi.
+// Tanggal diformat sebagai string agar bisa dihitung sebagai tanggal shift.
+export const ATTENDANCE_SELECT = `SELECT ar.*,
+  DATE_FORMAT(ar.date, '%Y-%m-%d') AS date,
+  DATE_FORMAT(ar.check_out_date, '%Y-%m-%d') AS check_out_date,
+  cil.name AS check_in_location_name,
+  col.name AS check_out_location_name,
+  cip.duplicate_of AS check_in_duplicate_of,
+  cip.duplicate_distance AS check_in_duplicate_distance,
+  cid.user_id AS check_in_duplicate_user_id,
+  cid.created_at AS check_in_duplicate_created_at,
+  cop.duplicate_of AS check_out_duplicate_of,
+  cop.duplicate_distance AS check_out_duplicate_distance,
+  cod.user_id AS check_out_duplicate_user_id,
+  cod.created_at AS check_out_duplicate_created_at,
+  wa.destination_name AS assignment_destination
+FROM attendance_records ar
+LEFT JOIN office_locations cil ON ar.check_in_location_id = cil.id
+LEFT JOIN office_locations col ON ar.check_out_location_id = col.id
+LEFT JOIN photos cip ON ar.check_in_photo_id = cip.id
+LEFT JOIN photos cid ON cip.duplicate_of = cid.id
+LEFT JOIN photos cop ON ar.check_out_photo_id = cop.id
+LEFT JOIN photos cod ON cop.duplicate_of = cod.id
+LEFT JOIN work_assignments wa ON ar.assignment_id = wa.id`;
+
+function mapGeofence(
+  locationId: string | null,
+  locationName: string | null,
+  distance: number | null,
+  outsideGeofence: boolean
+): GeofenceMatch | null {
+  if (!locationId && distance === null) return null;
+  return {
+    officeLocationId: locationId,
+    officeLocationName: locationName,
+    distance: distance !== null ? Number(distance) : null,
+    withinRadius: !outsideGeofence,
+  };
+}
+
+export function mapRowToAttendanceRecord(row: AttendanceRow): AttendanceRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    date: row.date,
+    checkIn: row.check_in_time ? {
+      time: row.check_in_time,
+      photo: getPhotoUrl(row.check_in_photo_id),
+      photoThumbnail: getThumbnailUrl(row.check_in_photo_id),
+      photoDuplicate: mapDuplicate(
+        row.check_in_duplicate_of,
+        row.check_in_duplicate_user_id,
+        row.check_in_duplicate_distance,
+        row.check_in_duplicate_created_at
+      ),
+      faceMatch: mapFaceMatch(row.check_in_face_score, !!row.check_in_face_mismatch),
+      faceUnverified: !!row.check_in_face_unverified,
+      location: {
+        latitude: row.check_in_latitude || 0,
+        longitude: row.check_in_longitude || 0,
+        address: row.check_in_address || '',
+        accuracy: row.check_in_accuracy !== null ? Number(row.check_in_accuracy) : null,
+        altitude: row.check_in_altitude !== null ? Number(row.check_in_altitude) : null,
+        capturedAt: row.check_in_position_at,
+      },
+      locationFlags: mapLocationFlags(row.check_in_location_flags),
+      submittedOffline: !!row.check_in_offline,
+      method: row.check_in_method,
+      geofence: mapGeofence(
+        row.check_in_location_id,
+        row.check_in_location_name ?? row.assignment_destination,
+        row.check_in_distance,
+        !!row.check_in_outside_geofence
+      ),
+    } : null,
+    checkOut: row.check_out_time ? {
+      time: row.check_out_time,
+      date: row.check_out_date || row.date,
+      photo: getPhotoUrl(row.check_out_photo_id),
+      photoThumbnail: getThumbnailUrl(row.check_out_photo_id),
+      photoDuplicate: mapDuplicate(
+        row.check_out_duplicate_of,
+        row.check_out_duplicate_user_id,
+        row.check_out_duplicate_distance,
+        row.check_out_duplicate_created_at
+      ),
+      faceMatch: mapFaceMatch(row.check_out_face_score, !!row.check_out_face_mismatch),
+      faceUnverified: !!row.check_out_face_unverified,
+      location: {
+        latitude: row.check_out_latitude || 0,
+        longitude: row.check_out_longitude || 0,
+        address: row.check_out_address || '',
+        accuracy: row.check_out_accuracy !== null ? Number(row.check_out_accuracy) : null,
+        altitude: row.check_out_altitude !== null ? Number(row.check_out_altitude) : null,
+        capturedAt: row.check_out_position_at,
+      },
+      locationFlags: mapLocationFlags(row.check_out_location_flags),
+      submittedOffline: !!row.check_out_offline,
+      method: row.check_out_method,
+      geofence: mapGeofence(
+        row.check_out_location_id,
+        row.check_out_location_name ?? row.assignment_destination,
+        row.check_out_distance,
+        !!row.check_out_outside_geofence
+      ),
+    } : null,
+    status: row.status,
+    mode: row.attendance_mode,
+    assignment: row.assignment_id
+      ? { id: row.assignment_id, destinationName: row.assignment_destination }
+      : null,
+    workHours: Number(row.work_hours),
+    breakMinutes: Number(row.break_minutes) || 0,
+    lateMinutes: Number(row.late_minutes) || 0,
+    overtime: null,
+    shiftId: row.shift_id,
+    autoClosed: !!row.auto_closed,
+  };
+}
+
+export interface PunchInput {
+  action: 'check-in' | 'check-out';
+  location: PositionInput;
+  photo: DecodedPhoto | null;
+  punchTime: PunchTime;
+  method: AttendanceMethod;
+  // Site yang sudah pasti (presensi kiosk, WFH, dinas luar); tanpa ini posisi dicocokkan dengan geofence
+  resolution?: SiteResolution;
+  // Mode dan penugasan dicatat saat check-in; bawaan kantor
+  mode?: AttendanceMode;
+  assignmentId?: string | null;
+}
+
+export type PunchResult =
+  | { record: AttendanceRecord; geofence: GeofenceMatch; message: string }
+  | { error: string; geofence?: GeofenceMatch; faceMatch?: FaceMatch };
+
+/**
+ * Catat check-in/check-out seorang karyawan.
+ * Pemeriksaan GPS palsu hanya untuk presensi selfie; presensi kiosk memakai titik lokasi kiosk.
+ */
+export async function recordPunch(userId: string, input: PunchInput): Promise<PunchResult> {
+  const { action, location, photo, punchTime, method, resolution, mode = 'office', assignmentId = null } = input;
+
+  // Validate geofence against the employee's assigned sites
+  const { geofence, site } = resolution
+    ?? await checkGeofence(userId, location.latitude, location.longitude);
+  if (!geofence.withinRadius && GEOFENCE_MODE === 'reject') {
+    return { error: `Anda berada di luar area presensi (${geofence.distance} m dari ${geofence.officeLocationName})`, geofence };
+  }
+
+  if (method === 'selfie' && !photo) {
+    return { error: 'Foto wajib diambil' };
+  }
+
+  // Compare the selfie with the employee's approved reference face.
+  // A photo that could not be compared (no reference yet, model failure) is flagged, never passed.
+  const faceMatch = photo ? await matchFace(userId, photo.data) : null;
+  if (faceMatch && !faceMatch.matched && FACE_MATCH_MODE === 'reject') {
+    return { error: `Wajah tidak cocok dengan foto referensi (kemiripan ${Math.round(faceMatch.score * 100)}%)`, faceMatch };
+  }
+  const faceUnverified = isFaceMatchEnabled() && method !== 'qr' && !faceMatch;
+
+  // Local date/time follows the site's timezone
+  const local = getSiteDateTime(site, punchTime.at);
+  const today = local.date;
+  const timeString = local.time;
+  const yesterday = addDays(today, -1);
+
+  if (action === 'check-in') {
+    // Check-in after midnight still belongs to last night's shift while it is running
+    let shiftDate = today;
+    const previousSchedule = await getEffectiveSchedule(userId, yesterday, getDayOfWeek(yesterday), site);
+    if (
+      previousSchedule &&
+      !previousSchedule.isDayOff &&
+      isOvernight(previousSchedule) &&
+      timeString < previousSchedule.endTime
+    ) {
+      const previous = await queryOne<AttendanceRow>(
+        `${ATTENDANCE_SELECT} WHERE ar.user_id = ? AND ar.date = ?`,
+        [userId, yesterday]
+      );
+      if (!previous?.check_in_time) {
+        shiftDate = yesterday;
+      }
+    }
+
+    // Get the employee's schedule for the shift date (rostered shift, site override or weekday default)
+    const schedule = shiftDate === yesterday
+      ? previousSchedule
+      : await getEffectiveSchedule(userId, shiftDate, local.dayOfWeek, site);
+
+    if (!schedule) {
+      return { error: 'Jadwal kerja tidak ditemukan' };
+    }
+
+    // Check if already checked in
+    const existing = await queryOne<AttendanceRow>(
+      `${ATTENDANCE_SELECT} WHERE ar.user_id = ? AND ar.date = ?`,
+      [userId, shiftDate]
+    );
+
+    if (existing?.check_in_time) {
+      return { error: 'Anda sudah melakukan check-in hari ini' };
+    }
+
+    // An approved leave day stays on leave; the remaining leave has to be cancelled first
+    if (existing && isLeaveStatus(existing.status)) {
+      return { error: 'Anda sedang cuti/izin yang disetujui pada tanggal ini. Batalkan sisa cuti di halaman Cuti bila sudah masuk kembali' };
+    }
+
+    if (schedule.isDayOff) {
+      return { error: 'Hari ini bukan jadwal kerja Anda' };
+    }
+
+    // Determine if late, measured from the shift start timestamp.
+    // Within the grace period the check-in counts as on time.
+    // A business trip day keeps its status; checking in there is optional and never late.
+    // An offline punch is measured from its device time and flagged for admin review.
+    const onTrip = existing?.status === 'business_trip';
+    const minutesAfterStart = Math.max(0, minutesBetween(shiftDate, schedule.startTime, today, timeString));
+    const isLate = !onTrip && minutesAfterStart > schedule.lateToleranceMinutes;
+    const lateMinutes = isLate ? minutesAfterStart : 0;
+    const status: AttendanceStatus = onTrip ? 'business_trip' : isLate ? 'late' : 'present';
+
+    const recordId = `att-${Date.now()}`;
+    const photoId = photo ? await savePhoto(userId, photo) : null;
+    const duplicate = photoId ? await flagDuplicatePhoto(photoId) : null;
+    const locationFlags = method === 'selfie' ? await checkLocation(userId, shiftDate, location) : [];
+
+    if (existing) {
+      // Update existing record
+      await query(
+        `UPDATE attendance_records SET 
+         check_in_time = ?, check_in_photo_id = ?, check_in_latitude = ?, 
+         check_in_longitude = ?, check_in_address = ?,
+         check_in_accuracy = ?, check_in_altitude = ?, check_in_position_at = ?, check_in_location_flags = ?,
+         check_in_location_id = ?,
+         check_in_distance = ?, check_in_outside_geofence = ?, check_in_face_score = ?, check_in_face_mismatch = ?,
+         check_in_face_unverified = ?, check_in_offline = ?, check_in_method = ?, attendance_mode = ?, assignment_id = ?,
+         status = ?, late_minutes = ?, shift_id = ?
+         WHERE id = ?`,
+        [timeString, photoId, location.latitude, location.longitude, location.address, location.accuracy, location.altitude, location.capturedAt, locationFlags.join(',') || null, geofence.officeLocationId, geofence.distance, !geofence.withinRadius, faceMatch?.score ?? null, faceMatch ? !faceMatch.matched : false, faceUnverified, punchTime.offline, method, mode, assignmentId, status, lateMinutes, schedule.shiftId, existing.id]
+      );
+    } else {
+      // Create new record
+      await query(
+        `INSERT INTO attendance_records 
+         (id, user_id, date, check_in_time, check_in_photo_id, check_in_latitude, check_in_longitude, check_in_address,
+          check_in_accuracy, check_in_altitude, check_in_position_at, check_in_location_flags,
+          check_in_location_id, check_in_distance, check_in_outside_geofence, check_in_face_score, check_in_face_mismatch,
+          check_in_face_unverified, check_in_offline, check_in_method, attendance_mode, assignment_id, status, late_minutes, shift_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [recordId, userId, shiftDate, timeString, photoId, location.latitude, location.longitude, location.address, location.accuracy, location.altitude, location.capturedAt, locationFlags.join(',') || null, geofence.officeLocationId, geofence.distance, !geofence.withinRadius, faceMatch?.score ?? null, faceMatch ? !faceMatch.matched : false, faceUnverified, punchTime.offline, method, mode, assignmentId, status, lateMinutes, schedule.shiftId]
+      );
+    }
+
+    // Fetch the updated/created record
+    const updatedRecord = await queryOne<AttendanceRow>(
+      `${ATTENDANCE_SELECT} WHERE ar.user_id = ? AND ar.date = ?`,
+      [userId, shiftDate]
+    );
+
+    let message = isLate ? `Check-in berhasil (Terlambat ${lateMinutes} menit)` : 'Check-in berhasil';
+    if (schedule.shiftName) {
+      message += ` - Shift ${schedule.shiftName}`;
+    }
+    if (onTrip) {
+      message += ` - Perjalanan dinas${geofence.officeLocationName ? ` ke ${geofence.officeLocationName}` : ''}`;
+    } else if (mode === 'wfh') {
+      message += ' - WFH';
+    } else if (mode === 'field') {
+      message += ` - Dinas luar${geofence.officeLocationName ? ` ke ${geofence.officeLocationName}` : ''}`;
+    }
+    if (!geofence.withinRadius) {
+      message += ' - di luar area presensi, ditandai untuk ditinjau';
+    }
+    if (duplicate) {
+      message += ' - foto mirip foto sebelumnya, ditandai untuk ditinjau';
+    }
+    if (faceMatch && !faceMatch.matched) {
+      message += ' - wajah kurang cocok dengan foto referensi, ditandai untuk ditinjau';
+    }
+    if (faceUnverified) {
+      message += ' - wajah belum dapat diverifikasi, ditandai untuk ditinjau';
+    }
+    if (locationFlags.length > 0) {
+      message += ' - lokasi GPS mencurigakan, ditandai untuk ditinjau';
+    }
+
+    return {
+      record: mapRowToAttendanceRecord(updatedRecord!),
+      geofence,
+      message,
+    };
+  }
+
+  if (action === 'check-out') {
+    // Today's record, or last night's record if its overnight shift is still open
+    const recentRecords = await query<AttendanceRow[]>(
+      `${ATTENDANCE_SELECT} WHERE ar.user_id = ? AND ar.date IN (?, ?)`,
+      [userId, today, yesterday]
+    );
+
+    let existing = recentRecords.find((r) => r.date === today);
+    if (!existing?.check_in_time) {
+      const previous = recentRecords.find(
+        (r) => r.date === yesterday && r.check_in_time && !r.check_out_time
+      );
+      if (previous) {
+        const previousSchedule = await getEffectiveSchedule(userId, yesterday, getDayOfWeek(yesterday), site);
+        if (previousSchedule && isOvernight(previousSchedule)) {
+          existing = previous;
+        }
+      }
+    }
+
+    if (!existing?.check_in_time) {
+      return { error: 'Anda belum melakukan check-in hari ini' };
+    }
+
+    if (existing.check_out_time) {
+      return { error: 'Anda sudah melakukan check-out hari ini' };
+    }
+
+    const schedule = await getEffectiveSchedule(userId, existing.date, getDayOfWeek(existing.date), site);
+
+    if (!schedule) {
+      return { error: 'Jadwal kerja tidak ditemukan' };
+    }
+
+    // Calculate work hours from full timestamps (check-out may fall on the next day),
+    // net of breaks; a break still running ends at check-out
+    const grossMinutes = minutesBetween(existing.date, existing.check_in_time, today, timeString);
+    const breakMinutes = await getBreakMinutes(existing.id, { date: today, time: timeString });
+    const net = computeNetWork(
+      existing.date,
+      { date: existing.date, time: existing.check_in_time },
+      { date: today, time: timeString },
+      breakMinutes,
+      schedule
+    );
+    const workHours = net.workHours;
+    const { minWorkHours } = schedule;
+
+    // Validate minimum work hours, unless an approved early leave allows leaving before it
+    // from its approved leave time on.
+    // Business trip days have no minimum, the trip itself covers the day.
+    let status: AttendanceStatus = existing.status;
+    const onTrip = existing.status === 'business_trip';
+    const earlyLeave = !onTrip && workHours < minWorkHours
+      ? await getApprovedEarlyLeave(userId, existing.date)
+      : null;
+
+    if (earlyLeave && !isEarlyLeaveTimeReached(earlyLeave, schedule, today, timeString)) {
+      return { error: `Izin pulang cepat Anda berlaku mulai pukul ${earlyLeave.leaveTime}` };
+    }
+
+    if (earlyLeave) {
+      status = getPartialStatus(workHours, minWorkHours);
+    } else if (!onTrip && workHours < minWorkHours) {
+      const remainingHours = minWorkHours - workHours;
+      const remainingMinutes = Math.ceil(remainingHours * 60);
+      const hours = Math.floor(remainingMinutes / 60);
+      const minutes = remainingMinutes % 60;
+      const timeRemaining = hours > 0 
+        ? `${hours} jam ${minutes} menit` 
+        : `${minutes} menit`;
+      return { error: `Anda belum memenuhi jam kerja minimal (${minWorkHours} jam). Sisa waktu: ${timeRemaining}. Ajukan izin pulang cepat bila perlu pulang lebih awal` };
+    }
+
+    const photoId = photo ? await savePhoto(userId, photo) : null;
+    const duplicate = photoId ? await flagDuplicatePhoto(photoId) : null;
+    const checkInPoint = existing.check_in_latitude !== null && existing.check_in_longitude !== null
+      ? {
+          latitude: Number(existing.check_in_latitude),
+          longitude: Number(existing.check_in_longitude),
+          elapsedMinutes: grossMinutes,
+        }
+      : null;
+    const locationFlags = method === 'selfie'
+      ? await checkLocation(userId, existing.date, location, checkInPoint)
+      : [];
+
+    await closeOpenBreak(existing.id, today, timeString);
+
+    // Update record
+    await query(
+      `UPDATE attendance_records SET 
+       check_out_date = ?, check_out_time = ?, check_out_photo_id = ?, check_out_latitude = ?, 
+       check_out_longitude = ?, check_out_address = ?,
+       check_out_accuracy = ?, check_out_altitude = ?, check_out_position_at = ?, check_out_location_flags = ?,
+       check_out_location_id = ?,
+       check_out_distance = ?, check_out_outside_geofence = ?, check_out_face_score = ?, check_out_face_mismatch = ?,
+       check_out_face_unverified = ?, check_out_offline = ?, check_out_method = ?, work_hours = ?, break_minutes = ?, status = ?
+       WHERE id = ?`,
+      [today, timeString, photoId, location.latitude, location.longitude, location.address, location.accuracy, location.altitude, location.capturedAt, locationFlags.join(',') || null, geofence.officeLocationId, geofence.distance, !geofence.withinRadius, faceMatch?.score ?? null, faceMatch ? !faceMatch.matched : false, faceUnverified, punchTime.offline, method, workHours, net.breakMinutes, status, existing.id]
+    );
+
+    // Fetch the updated record
+    const updatedRecord = await queryOne<AttendanceRow>(
+      `${ATTENDANCE_SELECT} WHERE ar.id = ?`,
+      [existing.id]
+    );
+
+    let message = 'Check-out berhasil';
+    if (earlyLeave) {
+      message += status === 'half_day' ? ' - setengah hari' : ' - pulang cepat';
+    }
+    if (!geofence.withinRadius) {
+      message += ' - di luar area presensi, ditandai untuk ditinjau';
+    }
+    if (duplicate) {
+      message += ' - foto mirip foto sebelumnya, ditandai untuk ditinjau';
+    }
+    if (faceMatch && !faceMatch.matched) {
+      message += ' - wajah kurang cocok dengan foto referensi, ditandai untuk ditinjau';
+    }
+    if (faceUnverified) {
+      message += ' - wajah belum dapat diverifikasi, ditandai untuk ditinjau';
+    }
+    if (locationFlags.length > 0) {
+      message += ' - lokasi GPS mencurigakan, ditandai untuk ditinjau';
+    }
+
+    const [record] = await attachBreaks([mapRowToAttendanceRecord(updatedRecord!)]);
+
+    return {
+      record,
+      geofence,
+      message,
+    };
+  }
+
+  return { error: 'Action tidak valid' };
+}
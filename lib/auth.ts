@@ -1,4 +1,5 @@
 import bcrypt from 'bcryptjs';
+import { timingSafeEqual } from 'crypto';
 import { SignJWT, jwtVerify } from 'jose';
 import { cookies } from 'next/headers';
 import { query, queryOne } from './db';
@@ -17,6 +18,9 @@ const SALT_ROUNDS = parseInt(process.env.BCRYPT_SALT_ROUNDS || '12', 10);
 // Session cookie name
 const SESSION_COOKIE_NAME = 'presensi_session';
 
+// Secret untuk job terjadwal (cron) yang memanggil API tanpa sesi login
+const CRON_SECRET = process.env.CRON_SECRET || '';
+
 interface UserRow extends RowDataPacket {
   id: string;
   username: string;
@@ -304,6 +308,16 @@ export async function createUser(userData: Omit<User, 'id' | 'createdAt'>): Prom
   }
 }
 
+/**
+ * Verify the bearer token sent by scheduled jobs (cron)
+ */
+export function verifyCronSecret(authorization: string | null): boolean {
+  if (!CRON_SECRET || !authorization?.startsWith('Bearer ')) return false;
+  const provided = Buffer.from(authorization.slice('Bearer '.length));
+  const expected = Buffer.from(CRON_SECRET);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
 export default {
   hashPassword,
   verifyPassword,
@@ -315,4 +329,5 @@ export default {
   isAuthenticated,
   isAdmin,
   createUser,
+  verifyCronSecret,
 };
@@ -0,0 +1,119 @@
+import { query } from './db';
+import { mapRowToOfficeLocation, type OfficeLocationRow } from './geofence';
+import { getEffectiveSchedule, isOvernight } from './shifts';
+import { addDays, getDayOfWeek, minutesBetween } from './time';
+import { getSiteDateTime } from './business-time';
+import { closeOpenBreak, computeNetWork, getBreakMinutes } from './breaks';
+import type { OfficeLocation } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Auto Close
+ * Tutup presensi yang lupa check-out pada jam pulang jadwalnya
+ */
+
+// Jeda setelah jam pulang sebelum presensi yang masih terbuka ditutup otomatis (jam)
+export const AUTO_CLOSE_AFTER_HOURS = Math.max(
+  0,
+  parseFloat(process.env.AUTO_CLOSE_AFTER_HOURS || '4') || 0
+);
+
+interface OpenRecordRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  date: string;
+  check_in_time: string;
+  check_in_location_id: string | null;
+}
+
+export interface AutoCloseResult {
+  id: string;
+  userId: string;
+  date: string;
+  checkOutDate: string;
+  checkOutTime: string;
+  workHours: number;
+}
+
+/**
+ * Tutup semua presensi terbuka yang jam pulangnya sudah lewat
+ * lebih dari AUTO_CLOSE_AFTER_HOURS. Check-out dicatat pada jam pulang
+ * jadwal dan ditandai auto_closed agar bisa dikoreksi.
+ */
+export async function autoCloseOpenRecords(at: Date = new Date()): Promise<AutoCloseResult[]> {
+  const [openRows, locationRows] = await Promise.all([
+    query<OpenRecordRow[]>(
+      `SELECT id, user_id, DATE_FORMAT(date, '%Y-%m-%d') AS date, check_in_time, check_in_location_id
+       FROM attendance_records
+       WHERE check_in_time IS NOT NULL AND check_out_time IS NULL
+       ORDER BY date`
+    ),
+    query<OfficeLocationRow[]>('SELECT * FROM office_locations'),
+  ]);
+
+  const sites = new Map<string, OfficeLocation>(
+    locationRows.map((row) => [row.id, mapRowToOfficeLocation(row)])
+  );
+
+  const results: AutoCloseResult[] = [];
+
+  for (const row of openRows) {
+    const site = row.check_in_location_id ? sites.get(row.check_in_location_id) ?? null : null;
+    const now = getSiteDateTime(site, at);
+    const schedule = await getEffectiveSchedule(row.user_id, row.date, getDayOfWeek(row.date), site);
+
+    const checkInTime = row.check_in_time.slice(0, 5);
+    let checkInDate = row.date;
+    let checkOutDate = row.date;
+    let checkOutTime = checkInTime;
+
+    if (schedule && !schedule.isDayOff) {
+      checkOutTime = schedule.endTime;
+      if (isOvernight(schedule)) {
+        checkOutDate = addDays(row.date, 1);
+        // Check-in setelah tengah malam pada shift malam
+        if (checkInTime < schedule.startTime) {
+          checkInDate = checkOutDate;
+        }
+      }
+    }
+
+    // Check-in setelah jam pulang: tutup pada jam check-in (0 jam kerja)
+    if (minutesBetween(checkInDate, checkInTime, checkOutDate, checkOutTime) < 0) {
+      checkOutDate = checkInDate;
+      checkOutTime = checkInTime;
+    }
+
+    if (minutesBetween(checkOutDate, checkOutTime, now.date, now.time) < AUTO_CLOSE_AFTER_HOURS * 60) {
+      continue;
+    }
+
+    const breakMinutes = await getBreakMinutes(row.id, { date: checkOutDate, time: checkOutTime });
+    const { workHours, breakMinutes: deductedBreak } = computeNetWork(
+      row.date,
+      { date: checkInDate, time: checkInTime },
+      { date: checkOutDate, time: checkOutTime },
+      breakMinutes,
+      schedule
+    );
+
+    await closeOpenBreak(row.id, checkOutDate, checkOutTime);
+    await query(
+      `UPDATE attendance_records SET
+       check_out_date = ?, check_out_time = ?, work_hours = ?, break_minutes = ?, auto_closed = TRUE
+       WHERE id = ? AND check_out_time IS NULL`,
+      [checkOutDate, checkOutTime, workHours, deductedBreak, row.id]
+    );
+
+    results.push({
+      id: row.id,
+      userId: row.user_id,
+      date: row.date,
+      checkOutDate,
+      checkOutTime,
+      workHours,
+    });
+  }
+
+  return results;
+}
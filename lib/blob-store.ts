@@ -0,0 +1,70 @@
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * Blob Store
+ * Penyimpanan isi file (foto presensi, lampiran) di luar database.
+ * Database hanya menyimpan key file, driver bisa diganti lewat BLOB_STORE_DRIVER.
+ */
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Tidak error bila file sudah tidak ada
+  delete(key: string): Promise<void>;
+}
+
+// Driver yang didukung: 'local' (disk server, folder UPLOAD_DIR)
+const BLOB_STORE_DRIVER = process.env.BLOB_STORE_DRIVER || 'local';
+const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || './storage/uploads');
+
+let blobStore: BlobStore | null = null;
+
+/**
+ * Blob store sesuai konfigurasi (dibuat sekali per proses)
+ */
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    switch (BLOB_STORE_DRIVER) {
+      case 'local':
+        blobStore = createLocalBlobStore(UPLOAD_DIR);
+        break;
+      default:
+        throw new Error(`Unknown BLOB_STORE_DRIVER: ${BLOB_STORE_DRIVER}`);
+    }
+  }
+  return blobStore;
+}
+
+/**
+ * Blob store di disk lokal, key dipetakan ke path di bawah rootDir
+ */
+function createLocalBlobStore(rootDir: string): BlobStore {
+  const resolveKey = (key: string): string => {
+    const fullPath = path.resolve(rootDir, key);
+    if (!fullPath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return fullPath;
+  };
+
+  return {
+    async put(key, data) {
+      const fullPath = resolveKey(key);
+      await mkdir(path.dirname(fullPath), { recursive: true });
+      await writeFile(fullPath, data);
+    },
+
+    async get(key) {
+      return readFile(resolveKey(key));
+    },
+
+    async delete(key) {
+      try {
+        await unlink(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import { query } from './db';
+import { isOvernight } from './shifts';
+import { addDays, getMandatoryBreakOverlap, minutesBetween } from './time';
+import type { AttendanceBreak, AttendanceRecord, EffectiveSchedule } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Attendance Breaks
+ * Istirahat (makan siang, sholat) di antara check-in dan check-out. Jam kerja dihitung
+ * bersih: durasi kerja dikurangi istirahat, minimal sebesar istirahat wajib jadwal
+ * yang dilewati rentang kerja.
+ */
+
+export interface BreakRow extends RowDataPacket {
+  id: string;
+  attendance_id: string;
+  start_date: string;
+  start_time: string;
+  end_date: string | null;
+  end_time: string | null;
+}
+
+const BREAK_SELECT = `SELECT id, attendance_id,
+  DATE_FORMAT(start_date, '%Y-%m-%d') AS start_date, start_time,
+  DATE_FORMAT(end_date, '%Y-%m-%d') AS end_date, end_time
+FROM attendance_breaks`;
+
+function getDuration(row: BreakRow): number | null {
+  if (!row.end_date || !row.end_time) return null;
+  return Math.max(0, minutesBetween(row.start_date, row.start_time.slice(0, 5), row.end_date, row.end_time.slice(0, 5)));
+}
+
+export function mapRowToBreak(row: BreakRow): AttendanceBreak {
+  return {
+    id: row.id,
+    attendanceId: row.attendance_id,
+    startDate: row.start_date,
+    startTime: row.start_time.slice(0, 5),
+    endDate: row.end_date,
+    endTime: row.end_time?.slice(0, 5) ?? null,
+    durationMinutes: getDuration(row),
+  };
+}
+
+/**
+ * Ambil istirahat beberapa presensi sekaligus, dikelompokkan per presensi
+ */
+export async function getBreaks(attendanceIds: string[]): Promise<Map<string, AttendanceBreak[]>> {
+  const result = new Map<string, AttendanceBreak[]>();
+  if (attendanceIds.length === 0) return result;
+
+  // execute() does not expand arrays, so one placeholder per ID
+  const placeholders = attendanceIds.map(() => '?').join(', ');
+  const rows = await query<BreakRow[]>(
+    `${BREAK_SELECT} WHERE attendance_id IN (${placeholders}) ORDER BY start_date, start_time`,
+    attendanceIds
+  );
+
+  for (const row of rows) {
+    const breaks = result.get(row.attendance_id) || [];
+    breaks.push(mapRowToBreak(row));
+    result.set(row.attendance_id, breaks);
+  }
+  return result;
+}
+
+/**
+ * Lengkapi data presensi dengan daftar istirahatnya
+ */
+export async function attachBreaks(records: AttendanceRecord[]): Promise<AttendanceRecord[]> {
+  const breaks = await getBreaks(records.map((record) => record.id));
+  return records.map((record) => ({ ...record, breaks: breaks.get(record.id) || [] }));
+}
+
+/**
+ * Total menit istirahat sebuah presensi. Istirahat yang belum selesai dihitung
+ * sampai `until` (contoh jam check-out); tanpa `until` tidak dihitung.
+ */
+export async function getBreakMinutes(
+  attendanceId: string,
+  until?: { date: string; time: string }
+): Promise<number> {
+  const rows = await query<BreakRow[]>(`${BREAK_SELECT} WHERE attendance_id = ?`, [attendanceId]);
+
+  return rows.reduce((total, row) => {
+    const duration = getDuration(row)
+      ?? (until ? Math.max(0, minutesBetween(row.start_date, row.start_time.slice(0, 5), until.date, until.time)) : 0);
+    return total + duration;
+  }, 0);
+}
+
+/**
+ * Akhiri istirahat yang masih berjalan, contoh saat check-out.
+ * Istirahat yang dimulai setelah waktu tersebut ditutup dengan durasi 0.
+ */
+export async function closeOpenBreak(attendanceId: string, date: string, time: string): Promise<void> {
+  await query(
+    `UPDATE attendance_breaks SET
+     end_date = IF(TIMESTAMP(start_date, start_time) <= TIMESTAMP(?, ?), ?, start_date),
+     end_time = IF(TIMESTAMP(start_date, start_time) <= TIMESTAMP(?, ?), ?, start_time)
+     WHERE attendance_id = ? AND end_time IS NULL`,
+    [date, time, date, date, time, time, attendanceId]
+  );
+}
+
+/**
+ * Jam kerja bersih. Istirahat yang dipotong minimal sebesar bagian istirahat wajib jadwal
+ * yang dilewati rentang kerja (jendela di tengah shift), dan tidak melebihi durasi kerja itu sendiri.
+ */
+export function computeNetWork(
+  shiftDate: string,
+  checkIn: { date: string; time: string },
+  checkOut: { date: string; time: string },
+  breakMinutes: number,
+  schedule: Pick<EffectiveSchedule, 'startTime' | 'endTime' | 'minBreakMinutes'> | null
+): { workHours: number; breakMinutes: number } {
+  // Minutes from the start of the shift date, so overnight shifts stay on one axis
+  const toMinutes = (date: string, time: string) => minutesBetween(shiftDate, '00:00', date, time);
+  const worked = {
+    start: toMinutes(checkIn.date, checkIn.time),
+    end: toMinutes(checkOut.date, checkOut.time),
+  };
+  const gross = Math.max(0, worked.end - worked.start);
+
+  const mandatory = schedule && schedule.minBreakMinutes > 0
+    ? getMandatoryBreakOverlap(
+        {
+          start: toMinutes(shiftDate, schedule.startTime),
+          end: toMinutes(isOvernight(schedule) ? addDays(shiftDate, 1) : shiftDate, schedule.endTime),
+        },
+        schedule.minBreakMinutes,
+        worked
+      )
+    : 0;
+
+  const deducted = Math.min(gross, Math.max(breakMinutes, mandatory));
+  return { workHours: (gross - deducted) / 60, breakMinutes: deducted };
+}
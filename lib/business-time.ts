@@ -0,0 +1,54 @@
+import { queryOne } from './db';
+import { DEFAULT_TIMEZONE, getZonedDateTime, type ZonedDateTime } from './time';
+import type { OfficeLocation } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Business Time
+ * Tanggal bisnis dan jam lokal presensi selalu dihitung di server menurut zona
+ * waktu site (WIB/WITA/WIT), bukan zona waktu server atau UTC.
+ */
+
+interface TimezoneRow extends RowDataPacket {
+  timezone: string | null;
+}
+
+export interface BusinessDateTime extends ZonedDateTime {
+  timezone: string;
+}
+
+/**
+ * Tanggal dan jam lokal di sebuah site; tanpa site memakai zona waktu default
+ */
+export function getSiteDateTime(
+  site: Pick<OfficeLocation, 'timezone'> | null,
+  at: Date = new Date()
+): BusinessDateTime {
+  const timezone = site?.timezone || DEFAULT_TIMEZONE;
+  return { ...getZonedDateTime(timezone, at), timezone };
+}
+
+/**
+ * Zona waktu karyawan mengikuti site utamanya, atau zona waktu default bila belum ditugaskan
+ */
+export async function getUserTimezone(userId: string): Promise<string> {
+  const row = await queryOne<TimezoneRow>(
+    `SELECT ol.timezone FROM user_sites us
+     JOIN office_locations ol ON us.location_id = ol.id
+     WHERE us.user_id = ? AND ol.is_active = TRUE
+     ORDER BY us.is_primary DESC, ol.name
+     LIMIT 1`,
+    [userId]
+  );
+  return row?.timezone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Tanggal dan jam lokal seorang karyawan menurut zona waktu site utamanya
+ */
+export async function getUserDateTime(
+  userId: string,
+  at: Date = new Date()
+): Promise<BusinessDateTime> {
+  return getSiteDateTime({ timezone: await getUserTimezone(userId) }, at);
+}
@@ -0,0 +1,86 @@
+import { queryOne, transaction } from './db';
+import type { BusinessTrip } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Business Trips
+ * Perjalanan dinas beberapa hari. Setelah disetujui, hari kerja dalam rentangnya berstatus
+ * business_trip sehingga tidak dianggap tidak hadir; check-in di lokasi tujuan tetap boleh.
+ */
+
+// Batas rentang tanggal sekali perjalanan
+export const MAX_TRIP_RANGE_DAYS = 31;
+
+export interface BusinessTripRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  destination: string;
+  start_date: string;
+  end_date: string;
+  purpose: string;
+  approver_id: string | null;
+  approver_name: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_by: string | null;
+  created_at: string;
+}
+
+export const BUSINESS_TRIP_SELECT = `SELECT bt.*,
+  DATE_FORMAT(bt.start_date, '%Y-%m-%d') AS start_date,
+  DATE_FORMAT(bt.end_date, '%Y-%m-%d') AS end_date,
+  approver.name AS approver_name
+FROM business_trips bt
+LEFT JOIN users approver ON bt.approver_id = approver.id`;
+
+export function mapRowToBusinessTrip(row: BusinessTripRow): BusinessTrip {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    destination: row.destination,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    purpose: row.purpose,
+    approverId: row.approver_id,
+    approverName: row.approver_name,
+    status: row.status,
+    approvedBy: row.approved_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Perjalanan dinas disetujui yang mencakup tanggal tersebut
+ */
+export async function getApprovedTrip(userId: string, date: string): Promise<BusinessTrip | null> {
+  const row = await queryOne<BusinessTripRow>(
+    `${BUSINESS_TRIP_SELECT}
+     WHERE bt.user_id = ? AND bt.status = 'approved' AND bt.start_date <= ? AND bt.end_date >= ?
+     ORDER BY bt.start_date DESC LIMIT 1`,
+    [userId, date, date]
+  );
+  return row ? mapRowToBusinessTrip(row) : null;
+}
+
+/**
+ * Setujui perjalanan dinas dan tandai presensi tiap hari kerjanya sebagai business_trip.
+ * Hari yang sudah ada check-in ikut ditandai karena check-in dilakukan di lokasi tujuan.
+ */
+export async function approveBusinessTrip(
+  trip: BusinessTrip,
+  dates: string[],
+  approvedBy: string
+): Promise<void> {
+  await transaction([
+    {
+      sql: `UPDATE business_trips SET status = 'approved', approved_by = ?, approved_at = NOW()
+            WHERE id = ?`,
+      params: [approvedBy, trip.id],
+    },
+    ...dates.map((date) => ({
+      sql: `INSERT INTO attendance_records (id, user_id, date, status)
+            VALUES (?, ?, ?, 'business_trip')
+            ON DUPLICATE KEY UPDATE status = VALUES(status), late_minutes = 0`,
+      params: [`trip-${trip.userId}-${date}`, trip.userId, date],
+    })),
+  ]);
+}
@@ -0,0 +1,235 @@
+import { queryOne, transaction } from './db';
+import { mapRowToOfficeLocation, type OfficeLocationRow } from './geofence';
+import { getEffectiveSchedule, isOvernight } from './shifts';
+import { addDays, getDayOfWeek, minutesBetween } from './time';
+import { computeNetWork, getBreakMinutes } from './breaks';
+import { getApprovedEarlyLeave, getPartialStatus, isEarlyLeaveTimeReached } from './early-leave';
+import { isLeaveStatus } from './leave';
+import type { AttendanceCorrection, AttendanceStatus } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Attendance Corrections
+ * Pengajuan koreksi jam presensi oleh karyawan dan persetujuan admin
+ */
+
+export interface CorrectionRow extends RowDataPacket {
+  id: string;
+  attendance_id: string;
+  user_id: string;
+  date: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_by: string | null;
+  original_check_in_time: string | null;
+  original_check_out_date: string | null;
+  original_check_out_time: string | null;
+  original_status: string | null;
+  original_work_hours: number | null;
+  original_late_minutes: number | null;
+  created_at: string;
+}
+
+export interface AttendanceSnapshotRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  date: string;
+  check_in_time: string | null;
+  check_in_location_id: string | null;
+  check_out_date: string | null;
+  check_out_time: string | null;
+  status: string;
+  work_hours: number;
+  late_minutes: number;
+}
+
+// Koreksi beserta tanggal presensi yang dikoreksi
+export const CORRECTION_SELECT = `SELECT ac.*,
+  DATE_FORMAT(ar.date, '%Y-%m-%d') AS date,
+  DATE_FORMAT(ac.original_check_out_date, '%Y-%m-%d') AS original_check_out_date
+FROM attendance_corrections ac
+JOIN attendance_records ar ON ac.attendance_id = ar.id`;
+
+export const ATTENDANCE_SNAPSHOT_SELECT = `SELECT id, user_id,
+  DATE_FORMAT(date, '%Y-%m-%d') AS date, check_in_time, check_in_location_id,
+  DATE_FORMAT(check_out_date, '%Y-%m-%d') AS check_out_date, check_out_time,
+  status, work_hours, late_minutes
+FROM attendance_records`;
+
+export function mapRowToCorrection(row: CorrectionRow): AttendanceCorrection {
+  return {
+    id: row.id,
+    attendanceId: row.attendance_id,
+    userId: row.user_id,
+    date: row.date,
+    checkInTime: row.check_in_time?.slice(0, 5) ?? null,
+    checkOutTime: row.check_out_time?.slice(0, 5) ?? null,
+    reason: row.reason,
+    status: row.status,
+    approvedBy: row.approved_by,
+    original: {
+      checkInTime: row.original_check_in_time?.slice(0, 5) ?? null,
+      checkOutDate: row.original_check_out_date,
+      checkOutTime: row.original_check_out_time?.slice(0, 5) ?? null,
+      status: row.original_status || '',
+      workHours: Number(row.original_work_hours ?? 0),
+      lateMinutes: Number(row.original_late_minutes ?? 0),
+    },
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Parameter SQL untuk menyimpan nilai presensi sebelum dikoreksi
+ */
+export function snapshotParams(record: AttendanceSnapshotRow): unknown[] {
+  return [
+    record.check_in_time,
+    record.check_out_date,
+    record.check_out_time,
+    record.status,
+    record.work_hours,
+    record.late_minutes,
+  ];
+}
+
+/**
+ * Hitung ulang status, menit terlambat dan jam kerja bersih dari jam masuk/pulang
+ * berdasarkan jadwal efektif pada tanggal presensi.
+ */
+async function recomputeAttendance(
+  record: AttendanceSnapshotRow,
+  checkInTime: string,
+  checkOutTime: string | null
+): Promise<{
+  status: AttendanceStatus;
+  lateMinutes: number;
+  workHours: number;
+  breakMinutes: number;
+  checkOutDate: string | null;
+}> {
+  const siteRow = record.check_in_location_id
+    ? await queryOne<OfficeLocationRow>(
+        'SELECT * FROM office_locations WHERE id = ?',
+        [record.check_in_location_id]
+      )
+    : null;
+  const site = siteRow ? mapRowToOfficeLocation(siteRow) : null;
+  const schedule = await getEffectiveSchedule(record.user_id, record.date, getDayOfWeek(record.date), site);
+
+  // Check-in setelah tengah malam pada shift malam
+  const checkInDate =
+    schedule && isOvernight(schedule) && checkInTime < schedule.startTime
+      ? addDays(record.date, 1)
+      : record.date;
+
+  // Hari perjalanan dinas tetap berstatus perjalanan dinas, tanpa terlambat atau jam kerja minimal
+  const onTrip = record.status === 'business_trip';
+
+  let lateMinutes = 0;
+  if (schedule && !schedule.isDayOff && !onTrip) {
+    const minutesAfterStart = Math.max(0, minutesBetween(record.date, schedule.startTime, checkInDate, checkInTime));
+    lateMinutes = minutesAfterStart > schedule.lateToleranceMinutes ? minutesAfterStart : 0;
+  }
+
+  if (!checkOutTime) {
+    return {
+      status: onTrip ? 'business_trip' : lateMinutes > 0 ? 'late' : 'present',
+      lateMinutes,
+      workHours: 0,
+      breakMinutes: 0,
+      checkOutDate: null,
+    };
+  }
+
+  // Jam pulang lebih awal dari jam masuk berarti keesokan harinya
+  const checkOutDate = checkOutTime < checkInTime ? addDays(checkInDate, 1) : checkInDate;
+  const { workHours, breakMinutes } = computeNetWork(
+    record.date,
+    { date: checkInDate, time: checkInTime },
+    { date: checkOutDate, time: checkOutTime },
+    await getBreakMinutes(record.id),
+    schedule
+  );
+
+  // Pulang sebelum jam kerja minimal hanya sah dengan izin pulang cepat, mulai jam pulang yang diizinkan
+  let status: AttendanceStatus = onTrip ? 'business_trip' : lateMinutes > 0 ? 'late' : 'present';
+  if (!onTrip && schedule && workHours < schedule.minWorkHours) {
+    const earlyLeave = await getApprovedEarlyLeave(record.user_id, record.date);
+    if (earlyLeave && isEarlyLeaveTimeReached(earlyLeave, schedule, checkOutDate, checkOutTime)) {
+      status = getPartialStatus(workHours, schedule.minWorkHours);
+    }
+  }
+
+  return {
+    status,
+    lateMinutes,
+    workHours,
+    breakMinutes,
+    checkOutDate,
+  };
+}
+
+/**
+ * Terapkan koreksi ke data presensi dan simpan nilai aslinya untuk audit.
+ * Mengembalikan pesan kesalahan bila koreksi tidak dapat diterapkan, null bila berhasil.
+ */
+export async function applyCorrection(
+  correction: CorrectionRow,
+  approvedBy: string
+): Promise<string | null> {
+  const record = await queryOne<AttendanceSnapshotRow>(
+    `${ATTENDANCE_SNAPSHOT_SELECT} WHERE id = ?`,
+    [correction.attendance_id]
+  );
+
+  if (!record) {
+    throw new Error(`Attendance record ${correction.attendance_id} not found`);
+  }
+
+  // A leave day keeps its status and consumed quota; it has to be cancelled, not corrected
+  if (isLeaveStatus(record.status)) {
+    return 'Presensi pada hari cuti/izin tidak dapat dikoreksi';
+  }
+
+  // The check-in may have been cleared since the request was submitted
+  const checkInSource = correction.check_in_time ?? record.check_in_time;
+  if (!checkInSource) {
+    return 'Presensi belum memiliki jam check-in, koreksi tidak dapat diterapkan';
+  }
+
+  const checkInTime = checkInSource.slice(0, 5);
+  const checkOutTime = (correction.check_out_time ?? record.check_out_time)?.slice(0, 5) ?? null;
+  const result = await recomputeAttendance(record, checkInTime, checkOutTime);
+
+  await transaction([
+    {
+      sql: `UPDATE attendance_records SET
+            check_in_time = ?, check_out_date = ?, check_out_time = ?,
+            status = ?, late_minutes = ?, work_hours = ?, break_minutes = ?, auto_closed = FALSE
+            WHERE id = ?`,
+      params: [
+        checkInTime,
+        result.checkOutDate,
+        checkOutTime,
+        result.status,
+        result.lateMinutes,
+        result.workHours,
+        result.breakMinutes,
+        record.id,
+      ],
+    },
+    {
+      sql: `UPDATE attendance_corrections SET
+            status = 'approved', approved_by = ?, approved_at = NOW(),
+            original_check_in_time = ?, original_check_out_date = ?, original_check_out_time = ?,
+            original_status = ?, original_work_hours = ?, original_late_minutes = ?
+            WHERE id = ?`,
+      params: [approvedBy, ...snapshotParams(record), correction.id],
+    },
+  ]);
+
+  return null;
+}
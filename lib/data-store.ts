@@ -237,7 +237,12 @@ export function checkIn(
   const dayOfWeek = now.getDay();
   const schedules = getWorkSchedules();
   const schedule = schedules[dayOfWeek];
-  const isLate = timeString > schedule.startTime;
+  const [startHour, startMinute] = schedule.startTime.split(":").map(Number);
+  const lateMinutes = Math.max(
+    0,
+    now.getHours() * 60 + now.getMinutes() - (startHour * 60 + startMinute)
+  );
+  const isLate = lateMinutes > (schedule.lateToleranceMinutes || 0);
 
   const record: AttendanceRecord = existing || {
     id: `att-${Date.now()}`,
@@ -247,6 +252,7 @@ export function checkIn(
     checkOut: null,
     status: "present",
     workHours: 0,
+    lateMinutes: 0,
     overtime: null,
   };
 
@@ -254,8 +260,10 @@ export function checkIn(
     time: timeString,
     photo,
     location,
+    geofence: null,
   };
   record.status = isLate ? "late" : "present";
+  record.lateMinutes = isLate ? lateMinutes : 0;
 
   if (existing) {
     const index = records.findIndex((a) => a.id === existing.id);
@@ -315,6 +323,7 @@ export function checkOut(
     time: timeString,
     photo,
     location,
+    geofence: null,
   };
   existing.workHours = Math.max(0, workHours);
 
@@ -367,10 +376,15 @@ export function startOvertime(
   const overtime: OvertimeRecord = {
     id: `ot-${Date.now()}`,
     userId,
+    planId: null,
+    plannedHours: null,
     date: today,
+    dayType: "workday",
     startTime: new Date().toTimeString().slice(0, 5),
     endTime: null,
     duration: 0,
+    approvedHours: 0,
+    payAmount: null,
     reason,
     status: "pending",
     approvedBy: null,
@@ -424,6 +438,7 @@ export function approveOvertime(
   }
 
   overtime.status = approved ? "approved" : "rejected";
+  overtime.approvedHours = approved ? overtime.duration : 0;
   overtime.approvedBy = adminId;
 
   const index = records.findIndex((o) => o.id === overtimeId);
@@ -32,7 +32,9 @@ const dbConfig: mysql.PoolOptions = {
   multipleStatements: false, // Mencegah SQL injection dengan multiple statements
   
   // Timezone Configuration
-  timezone: '+07:00', // WIB (Indonesia)
+  // Hanya untuk konversi kolom DATETIME/TIMESTAMP, harus sama dengan time_zone server MySQL.
+  // Tanggal dan jam presensi dihitung per zona waktu site di lib/business-time.ts
+  timezone: process.env.DB_TIMEZONE || '+07:00',
   
   // Character Set (untuk mendukung karakter Indonesia)
   charset: 'utf8mb4',
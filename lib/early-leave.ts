@@ -0,0 +1,77 @@
+import { queryOne } from './db';
+import { isOvernight } from './shifts';
+import { addDays, minutesBetween } from './time';
+import type { EarlyLeaveRequest, EffectiveSchedule, PartialAttendanceStatus } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Early Leave
+ * Izin pulang cepat. Setelah disetujui admin, karyawan boleh check-out sebelum jam kerja
+ * minimal mulai jam pulang yang diizinkan, dan presensinya berstatus pulang cepat atau setengah hari.
+ */
+
+export interface EarlyLeaveRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  date: string;
+  leave_time: string;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_by: string | null;
+  created_at: string;
+}
+
+export const EARLY_LEAVE_SELECT = `SELECT el.*, DATE_FORMAT(el.date, '%Y-%m-%d') AS date
+FROM early_leave_requests el`;
+
+export function mapRowToEarlyLeave(row: EarlyLeaveRow): EarlyLeaveRequest {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    date: row.date,
+    leaveTime: row.leave_time.slice(0, 5),
+    reason: row.reason,
+    status: row.status,
+    approvedBy: row.approved_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Izin pulang cepat yang disetujui untuk tanggal presensi tersebut
+ */
+export async function getApprovedEarlyLeave(
+  userId: string,
+  date: string
+): Promise<EarlyLeaveRequest | null> {
+  const row = await queryOne<EarlyLeaveRow>(
+    `${EARLY_LEAVE_SELECT} WHERE el.user_id = ? AND el.date = ? AND el.status = 'approved'
+     ORDER BY el.created_at DESC LIMIT 1`,
+    [userId, date]
+  );
+  return row ? mapRowToEarlyLeave(row) : null;
+}
+
+/**
+ * Apakah check-out sudah mencapai jam pulang yang diizinkan. Toleransi jadwal berlaku juga di sini;
+ * jam pulang sebelum jam masuk pada shift malam berarti keesokan harinya.
+ */
+export function isEarlyLeaveTimeReached(
+  earlyLeave: EarlyLeaveRequest,
+  schedule: EffectiveSchedule,
+  checkOutDate: string,
+  checkOutTime: string
+): boolean {
+  const leaveDate = isOvernight(schedule) && earlyLeave.leaveTime < schedule.startTime
+    ? addDays(earlyLeave.date, 1)
+    : earlyLeave.date;
+  return minutesBetween(leaveDate, earlyLeave.leaveTime, checkOutDate, checkOutTime) >= -schedule.lateToleranceMinutes;
+}
+
+/**
+ * Status presensi untuk jam kerja di bawah minimal: setengah hari bila
+ * paling banyak separuh jam kerja minimal, selain itu pulang cepat.
+ */
+export function getPartialStatus(workHours: number, minWorkHours: number): PartialAttendanceStatus {
+  return workHours <= minWorkHours / 2 ? 'half_day' : 'early_leave';
+}
@@ -0,0 +1,164 @@
+import sharp from 'sharp';
+import type * as Ort from 'onnxruntime-node';
+import { queryOne } from './db';
+import { getPhotoUrl, getThumbnailUrl } from './photos';
+import type { FaceMatch, FaceReference } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Face Match
+ * Selfie presensi dicocokkan dengan foto referensi wajah karyawan (disetujui admin)
+ * menggunakan model face embedding ONNX yang berjalan di CPU server.
+ * Model menerima wajah 112x112 RGB (contoh MobileFaceNet/ArcFace) dan
+ * menghasilkan vektor embedding; kemiripan dihitung dengan cosine similarity.
+ */
+
+// Path model ONNX; kosong = pencocokan wajah nonaktif
+const FACE_MODEL_PATH = process.env.FACE_MODEL_PATH || '';
+
+// Skor minimal (cosine similarity 0-1) agar wajah dianggap cocok
+export const FACE_MATCH_THRESHOLD = parseFloat(process.env.FACE_MATCH_THRESHOLD || '0.5');
+
+// Mode pencocokan: 'reject' tolak presensi bila wajah tidak cocok, 'flag' tandai untuk ditinjau
+export const FACE_MATCH_MODE: 'reject' | 'flag' =
+  process.env.FACE_MATCH_MODE === 'reject' ? 'reject' : 'flag';
+
+const FACE_INPUT_SIZE = 112;
+
+interface EmbeddingRow extends RowDataPacket {
+  embedding: string | number[];
+}
+
+export interface FaceReferenceRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  photo_id: string;
+  status: FaceReference['status'];
+  approved_by: string | null;
+  approved_at: string | null;
+  created_at: string;
+}
+
+// Kolom embedding tidak ikut dikirim ke client
+export const FACE_REFERENCE_SELECT = `SELECT id, user_id, photo_id, status, approved_by, approved_at, created_at
+FROM face_references`;
+
+export function mapRowToFaceReference(row: FaceReferenceRow): FaceReference {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    photoUrl: getPhotoUrl(row.photo_id),
+    photoThumbnail: getThumbnailUrl(row.photo_id),
+    status: row.status,
+    approvedBy: row.approved_by,
+    approvedAt: row.approved_at,
+    createdAt: row.created_at,
+  };
+}
+
+interface FaceModel {
+  ort: typeof Ort;
+  session: Ort.InferenceSession;
+}
+
+let modelPromise: Promise<FaceModel> | null = null;
+
+export function isFaceMatchEnabled(): boolean {
+  return FACE_MODEL_PATH !== '';
+}
+
+// onnxruntime-node dan model baru dimuat saat pertama dipakai, sekali per proses;
+// bila gagal dimuat, dicoba lagi pada permintaan berikutnya
+function getModel(): Promise<FaceModel> {
+  if (modelPromise) return modelPromise;
+
+  const model = (async () => {
+    const ort = await import('onnxruntime-node');
+    const session = await ort.InferenceSession.create(FACE_MODEL_PATH, {
+      executionProviders: ['cpu'],
+    });
+    return { ort, session };
+  })();
+  modelPromise = model;
+  model.catch(() => {
+    modelPromise = null;
+  });
+  return model;
+}
+
+/**
+ * Hitung embedding wajah dari selfie. Selfie dari CameraCapture diasumsikan
+ * menampilkan wajah di tengah bingkai, jadi diambil potongan persegi bagian tengah.
+ */
+export async function computeFaceEmbedding(data: Buffer): Promise<number[]> {
+  const pixels = await sharp(data)
+    .rotate()
+    .resize(FACE_INPUT_SIZE, FACE_INPUT_SIZE, { fit: 'cover', position: 'centre' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  // HWC uint8 -> CHW float32 ternormalisasi ke [-1, 1]
+  const area = FACE_INPUT_SIZE * FACE_INPUT_SIZE;
+  const input = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    for (let channel = 0; channel < 3; channel++) {
+      input[channel * area + i] = (pixels[i * 3 + channel] - 127.5) / 128;
+    }
+  }
+
+  const { ort, session } = await getModel();
+  const outputs = await session.run({
+    [session.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, FACE_INPUT_SIZE, FACE_INPUT_SIZE]),
+  });
+  const embedding = Array.from(outputs[session.outputNames[0]].data as Float32Array);
+
+  const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return embedding.map((value) => value / norm);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0);
+}
+
+/**
+ * Embedding referensi wajah karyawan yang terakhir disetujui
+ */
+async function getReferenceEmbedding(userId: string): Promise<number[] | null> {
+  const row = await queryOne<EmbeddingRow>(
+    `SELECT embedding FROM face_references
+     WHERE user_id = ? AND status = 'approved'
+     ORDER BY approved_at DESC LIMIT 1`,
+    [userId]
+  );
+  if (!row) return null;
+  return typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding;
+}
+
+/**
+ * Cocokkan selfie dengan foto referensi karyawan.
+ * Null bila fitur nonaktif atau karyawan belum punya referensi yang disetujui.
+ */
+export async function matchFace(userId: string, photo: Buffer): Promise<FaceMatch | null> {
+  if (!isFaceMatchEnabled()) return null;
+
+  const reference = await getReferenceEmbedding(userId);
+  if (!reference) return null;
+
+  // Kegagalan model tidak boleh menghalangi presensi
+  try {
+    const score = cosineSimilarity(reference, await computeFaceEmbedding(photo));
+    return {
+      score: Math.round(score * 10000) / 10000,
+      matched: score >= FACE_MATCH_THRESHOLD,
+    };
+  } catch (error) {
+    console.error('[FaceMatch] Face match failed:', error);
+    return null;
+  }
+}
+
+export function mapFaceMatch(score: number | null, mismatch: boolean): FaceMatch | null {
+  if (score === null) return null;
+  return { score: Number(score), matched: !mismatch };
+}
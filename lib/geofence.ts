@@ -0,0 +1,150 @@
+import { query } from './db';
+import { getUserSiteIds } from './sites';
+import { DEFAULT_TIMEZONE } from './time';
+import type { OfficeLocation, GeofenceMatch } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Geofencing
+ * Validasi lokasi presensi terhadap daftar lokasi kantor yang diizinkan
+ */
+
+// Mode penanganan presensi di luar radius: 'reject' (tolak) atau 'flag' (tandai)
+export const GEOFENCE_MODE: 'reject' | 'flag' =
+  process.env.GEOFENCE_MODE === 'flag' ? 'flag' : 'reject';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export interface OfficeLocationRow extends RowDataPacket {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_meters: number;
+  timezone: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  min_work_hours: number | null;
+  late_tolerance_minutes: number | null;
+  min_break_minutes: number | null;
+  kiosk_secret: string | null;
+  is_active: boolean;
+}
+
+export function mapRowToOfficeLocation(row: OfficeLocationRow): OfficeLocation {
+  return {
+    id: row.id,
+    name: row.name,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    radiusMeters: row.radius_meters,
+    timezone: row.timezone || DEFAULT_TIMEZONE,
+    scheduleOverride: row.start_time && row.end_time ? {
+      startTime: row.start_time.slice(0, 5),
+      endTime: row.end_time.slice(0, 5),
+      minWorkHours: Number(row.min_work_hours ?? 8),
+      lateToleranceMinutes: Number(row.late_tolerance_minutes ?? 0),
+      minBreakMinutes: Number(row.min_break_minutes ?? 0),
+    } : null,
+    kioskEnabled: !!row.kiosk_secret,
+  };
+}
+
+export interface SiteResolution {
+  geofence: GeofenceMatch;
+  site: OfficeLocation | null;
+}
+
+/**
+ * Hitung jarak dua koordinat dalam meter (rumus haversine)
+ */
+export function haversineDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Cocokkan koordinat dengan lokasi yang diizinkan.
+ * Mengembalikan lokasi terdekat yang radiusnya mencakup koordinat, atau
+ * lokasi terdekat (withinRadius = false) jika tidak ada yang cocok.
+ * Jika tidak ada lokasi yang dikonfigurasi, semua presensi dianggap valid.
+ */
+export function matchOfficeLocation(
+  latitude: number,
+  longitude: number,
+  locations: OfficeLocation[]
+): SiteResolution {
+  if (locations.length === 0) {
+    return {
+      geofence: {
+        officeLocationId: null,
+        officeLocationName: null,
+        distance: null,
+        withinRadius: true,
+      },
+      site: null,
+    };
+  }
+
+  const measured = locations
+    .map((location) => ({
+      location,
+      distance: haversineDistance(latitude, longitude, location.latitude, location.longitude),
+    }))
+    .sort((a, b) => a.distance - b.distance);
+
+  const inside = measured.find((m) => m.distance <= m.location.radiusMeters);
+  const best = inside || measured[0];
+
+  return {
+    geofence: {
+      officeLocationId: best.location.id,
+      officeLocationName: best.location.name,
+      distance: Math.round(best.distance),
+      withinRadius: !!inside,
+    },
+    site: best.location,
+  };
+}
+
+/**
+ * Ambil semua lokasi kantor aktif
+ */
+export async function getActiveOfficeLocations(): Promise<OfficeLocation[]> {
+  const rows = await query<OfficeLocationRow[]>(
+    'SELECT * FROM office_locations WHERE is_active = TRUE ORDER BY name'
+  );
+  return rows.map(mapRowToOfficeLocation);
+}
+
+/**
+ * Validasi koordinat presensi karyawan.
+ * Karyawan yang ditugaskan ke site tertentu hanya divalidasi terhadap
+ * site tersebut; selain itu terhadap semua lokasi kantor aktif.
+ */
+export async function checkGeofence(
+  userId: string,
+  latitude: number,
+  longitude: number
+): Promise<SiteResolution> {
+  const [locations, siteIds] = await Promise.all([
+    getActiveOfficeLocations(),
+    getUserSiteIds(userId),
+  ]);
+
+  const allowed = siteIds.length > 0
+    ? locations.filter((location) => siteIds.includes(location.id))
+    : locations;
+
+  return matchOfficeLocation(latitude, longitude, allowed);
+}
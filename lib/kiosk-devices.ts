@@ -0,0 +1,216 @@
+import { createHash, randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { query, queryOne } from './db';
+import { verifyPassword } from './auth';
+import { mapRowToOfficeLocation, type OfficeLocationRow } from './geofence';
+import type { KioskDevice, KioskEmployee, OfficeLocation } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Kiosk Devices
+ * Tablet presensi bersama di gerbang site. Admin mendaftarkan tablet dari tablet itu
+ * sendiri; token perangkat disimpan di cookie tablet dan hanya hash-nya di database.
+ * Karyawan memilih nama lalu memasukkan PIN, tanpa login.
+ */
+
+const KIOSK_DEVICE_COOKIE_NAME = 'presensi_kiosk_device';
+
+// Cookie perangkat berlaku selama setahun; pendaftaran dicabut dengan menghapus perangkat
+const KIOSK_DEVICE_MAX_AGE = 365 * 24 * 60 * 60;
+
+// Salah PIN berturut-turut sebelum PIN dikunci sementara
+export const KIOSK_PIN_MAX_ATTEMPTS = parseInt(process.env.KIOSK_PIN_MAX_ATTEMPTS || '5', 10);
+
+// Lama PIN dikunci setelah terlalu banyak percobaan salah (menit)
+export const KIOSK_PIN_LOCK_MINUTES = parseInt(process.env.KIOSK_PIN_LOCK_MINUTES || '15', 10);
+
+const KIOSK_PIN_PATTERN = /^\d{4,6}$/;
+
+export interface KioskDeviceRow extends RowDataPacket {
+  id: string;
+  name: string;
+  location_id: string;
+  location_name: string;
+  registered_by: string | null;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+interface KioskPinRow extends RowDataPacket {
+  id: string;
+  name: string;
+  department: string;
+  position: string;
+  kiosk_pin_hash: string | null;
+  kiosk_pin_failed_attempts: number;
+  is_locked: number | null;
+}
+
+export const KIOSK_DEVICE_SELECT = `SELECT kd.id, kd.name, kd.location_id, ol.name AS location_name,
+  kd.registered_by, kd.last_seen_at, kd.created_at
+FROM kiosk_devices kd
+JOIN office_locations ol ON kd.location_id = ol.id`;
+
+export function mapRowToKioskDevice(row: KioskDeviceRow): KioskDevice {
+  return {
+    id: row.id,
+    name: row.name,
+    locationId: row.location_id,
+    locationName: row.location_name,
+    registeredBy: row.registered_by,
+    lastSeenAt: row.last_seen_at,
+    createdAt: row.created_at,
+  };
+}
+
+function hashDeviceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isValidKioskPin(pin: unknown): pin is string {
+  return typeof pin === 'string' && KIOSK_PIN_PATTERN.test(pin);
+}
+
+/**
+ * Daftarkan browser yang sedang dipakai sebagai tablet kiosk sebuah site
+ */
+export async function registerKioskDevice(
+  locationId: string,
+  name: string,
+  registeredBy: string
+): Promise<KioskDevice> {
+  const id = `kiosk-${Date.now()}`;
+  const token = randomBytes(32).toString('hex');
+
+  await query(
+    'INSERT INTO kiosk_devices (id, name, location_id, token_hash, registered_by) VALUES (?, ?, ?, ?, ?)',
+    [id, name, locationId, hashDeviceToken(token), registeredBy]
+  );
+
+  const cookieStore = await cookies();
+  cookieStore.set(KIOSK_DEVICE_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: KIOSK_DEVICE_MAX_AGE,
+    path: '/',
+  });
+
+  const row = await queryOne<KioskDeviceRow>(`${KIOSK_DEVICE_SELECT} WHERE kd.id = ?`, [id]);
+  return mapRowToKioskDevice(row!);
+}
+
+/**
+ * Tablet kiosk pemanggil beserta site-nya; null bila cookie tidak ada,
+ * perangkat sudah dicabut atau site-nya nonaktif
+ */
+export async function getCurrentKioskDevice(): Promise<{ device: KioskDevice; site: OfficeLocation } | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(KIOSK_DEVICE_COOKIE_NAME)?.value;
+  if (!token) return null;
+
+  const deviceRow = await queryOne<KioskDeviceRow>(
+    `${KIOSK_DEVICE_SELECT} WHERE kd.token_hash = ? AND ol.is_active = TRUE`,
+    [hashDeviceToken(token)]
+  );
+  if (!deviceRow) return null;
+
+  const siteRow = await queryOne<OfficeLocationRow>(
+    'SELECT * FROM office_locations WHERE id = ?',
+    [deviceRow.location_id]
+  );
+  if (!siteRow) return null;
+
+  await query('UPDATE kiosk_devices SET last_seen_at = NOW() WHERE id = ?', [deviceRow.id]);
+
+  return { device: mapRowToKioskDevice(deviceRow), site: mapRowToOfficeLocation(siteRow) };
+}
+
+/**
+ * Karyawan yang bisa presensi di tablet site ini: sudah punya PIN dan ditugaskan
+ * ke site tersebut (atau tidak ditugaskan ke site mana pun)
+ */
+export async function getKioskEmployees(locationId: string): Promise<KioskEmployee[]> {
+  const rows = await query<KioskPinRow[]>(
+    `SELECT u.id, u.name, u.department, u.position FROM users u
+     WHERE u.is_active = TRUE AND u.kiosk_pin_hash IS NOT NULL
+     AND (
+       EXISTS (SELECT 1 FROM user_sites us WHERE us.user_id = u.id AND us.location_id = ?)
+       OR NOT EXISTS (
+         SELECT 1 FROM user_sites us JOIN office_locations ol ON us.location_id = ol.id
+         WHERE us.user_id = u.id AND ol.is_active = TRUE
+       )
+     )
+     ORDER BY u.name`,
+    [locationId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    department: row.department,
+    position: row.position,
+  }));
+}
+
+/**
+ * Periksa PIN karyawan. Setelah KIOSK_PIN_MAX_ATTEMPTS kali salah berturut-turut,
+ * PIN dikunci selama KIOSK_PIN_LOCK_MINUTES menit.
+ */
+export async function verifyKioskPin(
+  userId: string,
+  pin: unknown
+): Promise<KioskEmployee | { error: string }> {
+  const row = await queryOne<KioskPinRow>(
+    `SELECT id, name, department, position, kiosk_pin_hash, kiosk_pin_failed_attempts,
+     kiosk_pin_locked_until > NOW() AS is_locked
+     FROM users WHERE id = ? AND is_active = TRUE`,
+    [userId]
+  );
+
+  if (!row?.kiosk_pin_hash) {
+    return { error: 'PIN kiosk belum diatur, hubungi admin' };
+  }
+
+  if (row.is_locked) {
+    return { error: 'PIN terkunci sementara karena terlalu banyak percobaan salah, coba lagi nanti' };
+  }
+
+  if (!isValidKioskPin(pin) || !(await verifyPassword(pin, row.kiosk_pin_hash))) {
+    // Count in the database so concurrent wrong guesses cannot overwrite each other
+    await query(
+      'UPDATE users SET kiosk_pin_failed_attempts = kiosk_pin_failed_attempts + 1 WHERE id = ?',
+      [userId]
+    );
+    const counter = await queryOne<KioskPinRow>(
+      'SELECT kiosk_pin_failed_attempts FROM users WHERE id = ?',
+      [userId]
+    );
+    const attempts = Number(counter?.kiosk_pin_failed_attempts ?? KIOSK_PIN_MAX_ATTEMPTS);
+
+    if (attempts >= KIOSK_PIN_MAX_ATTEMPTS) {
+      await query(
+        `UPDATE users SET kiosk_pin_failed_attempts = 0,
+         kiosk_pin_locked_until = DATE_ADD(NOW(), INTERVAL ? MINUTE) WHERE id = ?`,
+        [KIOSK_PIN_LOCK_MINUTES, userId]
+      );
+      return { error: `PIN salah ${KIOSK_PIN_MAX_ATTEMPTS} kali, PIN dikunci ${KIOSK_PIN_LOCK_MINUTES} menit` };
+    }
+
+    return { error: `PIN salah, sisa ${KIOSK_PIN_MAX_ATTEMPTS - attempts} percobaan` };
+  }
+
+  if (row.kiosk_pin_failed_attempts > 0) {
+    await query(
+      'UPDATE users SET kiosk_pin_failed_attempts = 0, kiosk_pin_locked_until = NULL WHERE id = ?',
+      [userId]
+    );
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    department: row.department,
+    position: row.position,
+  };
+}
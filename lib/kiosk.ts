@@ -0,0 +1,107 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { queryOne } from './db';
+import { mapRowToOfficeLocation, type OfficeLocationRow, type SiteResolution } from './geofence';
+import { getUserSiteIds } from './sites';
+import type { PositionInput } from './location-checks';
+import type { OfficeLocation } from './types';
+
+/**
+ * QR Kiosk
+ * Layar kiosk di lokasi kantor menampilkan kode QR yang berganti tiap 30 detik.
+ * Kode dihitung seperti TOTP: HMAC-SHA256 dari nomor periode waktu dengan secret
+ * per lokasi, sehingga kode hanya bisa dibuat oleh server dan kedaluwarsa sendiri.
+ */
+
+export const QR_ROTATION_SECONDS = 30;
+
+// Kode periode sebelumnya masih diterima, agar QR yang dipindai menjelang pergantian tetap berlaku
+const ACCEPTED_PAST_PERIODS = 1;
+
+export interface KioskToken {
+  token: string;
+  expiresAt: string;
+}
+
+export function generateKioskSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+function getPeriod(at: Date): number {
+  return Math.floor(at.getTime() / 1000 / QR_ROTATION_SECONDS);
+}
+
+function computeCode(secret: string, period: number): string {
+  return createHmac('sha256', secret).update(String(period)).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Token QR lokasi untuk periode saat ini, format `<locationId>.<kode>`
+ */
+export function getKioskToken(locationId: string, secret: string, at: Date = new Date()): KioskToken {
+  const period = getPeriod(at);
+  return {
+    token: `${locationId}.${computeCode(secret, period)}`,
+    expiresAt: new Date((period + 1) * QR_ROTATION_SECONDS * 1000).toISOString(),
+  };
+}
+
+/**
+ * Periksa token QR yang dipindai karyawan, mengembalikan lokasi kiosk bila valid
+ */
+export async function verifyKioskToken(token: unknown, at: Date = new Date()): Promise<OfficeLocation | null> {
+  if (typeof token !== 'string') return null;
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+  const locationId = token.slice(0, separator);
+  const code = Buffer.from(token.slice(separator + 1));
+
+  const row = await queryOne<OfficeLocationRow>(
+    'SELECT * FROM office_locations WHERE id = ? AND is_active = TRUE AND kiosk_secret IS NOT NULL',
+    [locationId]
+  );
+  if (!row?.kiosk_secret) return null;
+
+  const period = getPeriod(at);
+  for (let offset = 0; offset <= ACCEPTED_PAST_PERIODS; offset++) {
+    const expected = Buffer.from(computeCode(row.kiosk_secret, period - offset));
+    if (expected.length === code.length && timingSafeEqual(expected, code)) {
+      return mapRowToOfficeLocation(row);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Presensi lewat kiosk (QR atau tablet PIN) dianggap berada di titik lokasi kiosk.
+ * Karyawan yang ditugaskan ke site tertentu hanya boleh presensi di kiosk site tersebut.
+ */
+export async function resolveKioskPunch(
+  userId: string,
+  site: OfficeLocation,
+  label = 'Kiosk QR'
+): Promise<{ resolution: SiteResolution; position: PositionInput } | null> {
+  const siteIds = await getUserSiteIds(userId);
+  if (siteIds.length > 0 && !siteIds.includes(site.id)) return null;
+
+  return {
+    resolution: {
+      geofence: {
+        officeLocationId: site.id,
+        officeLocationName: site.name,
+        distance: 0,
+        withinRadius: true,
+      },
+      site,
+    },
+    position: {
+      latitude: site.latitude,
+      longitude: site.longitude,
+      address: `${label} ${site.name}`,
+      accuracy: null,
+      altitude: null,
+      capturedAt: null,
+    },
+  };
+}
@@ -0,0 +1,252 @@
+import { query, transaction } from './db';
+import { getEffectiveSchedule } from './shifts';
+import { addDays, getDayOfWeek } from './time';
+import type { LeaveBalance, LeaveCategory, LeaveRequest, LeaveType } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Leave Management
+ * Jenis cuti (cuti, sakit, izin), jatah tahunan per karyawan dan pengajuan cuti
+ */
+
+// Batas rentang tanggal sekali pengajuan
+export const MAX_LEAVE_RANGE_DAYS = 90;
+
+const LEAVE_CATEGORIES: LeaveCategory[] = ['leave', 'sick', 'permit'];
+
+/**
+ * Apakah status presensi berasal dari cuti/sakit/izin yang disetujui
+ */
+export function isLeaveStatus(status: string): status is LeaveCategory {
+  return LEAVE_CATEGORIES.includes(status as LeaveCategory);
+}
+
+export interface LeaveTypeRow extends RowDataPacket {
+  id: string;
+  name: string;
+  category: LeaveCategory;
+  annual_quota: number | null;
+  attachment_required_after_days: number | null;
+  is_active: boolean;
+}
+
+export interface LeaveRequestRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  leave_type_id: string;
+  leave_type_name: string;
+  category: LeaveCategory;
+  start_date: string;
+  end_date: string;
+  days: number;
+  reason: string | null;
+  attachment_path: string | null;
+  attachment_name: string | null;
+  attachment_mime_type: string | null;
+  attachment_required_after_days: number | null;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_by: string | null;
+  created_at: string;
+}
+
+interface QuotaRow extends RowDataPacket {
+  leave_type_id: string;
+  quota: number;
+}
+
+interface UsageRow extends RowDataPacket {
+  leave_type_id: string;
+  status: 'pending' | 'approved';
+  days: number;
+}
+
+interface DateRow extends RowDataPacket {
+  date: string;
+}
+
+// Pengajuan cuti beserta nama, kategori dan aturan lampiran jenis cutinya
+export const LEAVE_REQUEST_SELECT = `SELECT lr.*,
+  DATE_FORMAT(lr.start_date, '%Y-%m-%d') AS start_date,
+  DATE_FORMAT(lr.end_date, '%Y-%m-%d') AS end_date,
+  lt.name AS leave_type_name, lt.category, lt.attachment_required_after_days
+FROM leave_requests lr
+JOIN leave_types lt ON lr.leave_type_id = lt.id`;
+
+export function mapRowToLeaveType(row: LeaveTypeRow): LeaveType {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    annualQuota: row.annual_quota !== null ? Number(row.annual_quota) : null,
+    attachmentRequiredAfterDays:
+      row.attachment_required_after_days !== null ? Number(row.attachment_required_after_days) : null,
+  };
+}
+
+/**
+ * Apakah pengajuan wajib melampirkan dokumen (contoh sakit lebih dari 1 hari)
+ */
+export function isAttachmentRequired(requiredAfterDays: number | null, days: number): boolean {
+  return requiredAfterDays !== null && days > requiredAfterDays;
+}
+
+export function mapRowToLeaveRequest(row: LeaveRequestRow): LeaveRequest {
+  const requiredAfterDays =
+    row.attachment_required_after_days !== null ? Number(row.attachment_required_after_days) : null;
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    leaveTypeId: row.leave_type_id,
+    leaveTypeName: row.leave_type_name,
+    category: row.category,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    days: Number(row.days),
+    reason: row.reason || '',
+    attachment: row.attachment_path ? {
+      name: row.attachment_name || 'lampiran',
+      mimeType: row.attachment_mime_type || 'application/octet-stream',
+    } : null,
+    attachmentMissing:
+      !row.attachment_path && isAttachmentRequired(requiredAfterDays, Number(row.days)),
+    status: row.status,
+    approvedBy: row.approved_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Ambil semua jenis cuti aktif
+ */
+export async function getActiveLeaveTypes(): Promise<LeaveType[]> {
+  const rows = await query<LeaveTypeRow[]>(
+    'SELECT * FROM leave_types WHERE is_active = TRUE ORDER BY name'
+  );
+  return rows.map(mapRowToLeaveType);
+}
+
+/**
+ * Tanggal dalam rentang yang merupakan hari kerja karyawan.
+ * Hari libur nasional dan hari libur jadwal tidak memotong jatah cuti.
+ */
+export async function getLeaveDates(
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<string[]> {
+  const holidayRows = await query<DateRow[]>(
+    `SELECT DATE_FORMAT(date, '%Y-%m-%d') AS date FROM holidays
+     WHERE is_active = TRUE AND date BETWEEN ? AND ?`,
+    [startDate, endDate]
+  );
+  const holidays = new Set(holidayRows.map((row) => row.date));
+
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (holidays.has(date)) continue;
+    const schedule = await getEffectiveSchedule(userId, date, getDayOfWeek(date));
+    if (schedule && !schedule.isDayOff) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Saldo cuti karyawan per jenis cuti untuk satu tahun
+ */
+export async function getLeaveBalances(userId: string, year: number): Promise<LeaveBalance[]> {
+  const [leaveTypes, quotaRows, usageRows] = await Promise.all([
+    getActiveLeaveTypes(),
+    query<QuotaRow[]>(
+      'SELECT leave_type_id, quota FROM leave_quotas WHERE user_id = ? AND year = ?',
+      [userId, year]
+    ),
+    query<UsageRow[]>(
+      `SELECT leave_type_id, status, SUM(days) AS days FROM leave_requests
+       WHERE user_id = ? AND YEAR(start_date) = ? AND status IN ('pending', 'approved')
+       GROUP BY leave_type_id, status`,
+      [userId, year]
+    ),
+  ]);
+
+  const quotas = new Map(quotaRows.map((row) => [row.leave_type_id, Number(row.quota)]));
+
+  return leaveTypes.map((leaveType) => {
+    const usage = (status: UsageRow['status']) =>
+      Number(
+        usageRows.find((row) => row.leave_type_id === leaveType.id && row.status === status)?.days ?? 0
+      );
+    const quota = quotas.get(leaveType.id) ?? leaveType.annualQuota;
+    const used = usage('approved');
+
+    return {
+      leaveType,
+      year,
+      quota,
+      used,
+      pending: usage('pending'),
+      remaining: quota !== null ? quota - used : null,
+    };
+  });
+}
+
+/**
+ * Setujui pengajuan cuti dan catat status cuti pada presensi tiap hari kerjanya.
+ * Hari yang sudah ada check-in tidak ditimpa.
+ */
+export async function approveLeaveRequest(
+  request: LeaveRequest,
+  dates: string[],
+  approvedBy: string
+): Promise<void> {
+  await transaction([
+    {
+      sql: `UPDATE leave_requests SET status = 'approved', days = ?, approved_by = ?, approved_at = NOW()
+            WHERE id = ?`,
+      params: [dates.length, approvedBy, request.id],
+    },
+    ...dates.map((date) => ({
+      sql: `INSERT INTO attendance_records (id, user_id, date, status)
+            VALUES (?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE status = IF(check_in_time IS NULL, VALUES(status), status)`,
+      params: [`leave-${request.userId}-${date}`, request.userId, date, request.category],
+    })),
+  ]);
+}
+
+/**
+ * Batalkan cuti yang sudah disetujui mulai hari ini, misalnya karyawan masuk lebih awal.
+ * Hari yang sudah lewat tetap tercatat sebagai cuti; sisa hari dikembalikan ke jatah
+ * dan status cuti pada presensinya dihapus. Mengembalikan false bila tidak ada sisa hari.
+ */
+export async function cancelApprovedLeave(request: LeaveRequest, today: string): Promise<boolean> {
+  if (request.endDate < today) return false;
+
+  // Presensi hari ini dan seterusnya yang masih berstatus cuti (belum ada check-in)
+  const clearAttendance = {
+    sql: `DELETE FROM attendance_records
+          WHERE user_id = ? AND date BETWEEN ? AND ? AND status = ? AND check_in_time IS NULL`,
+    params: [request.userId, today > request.startDate ? today : request.startDate, request.endDate, request.category],
+  };
+
+  if (request.startDate >= today) {
+    await transaction([
+      clearAttendance,
+      { sql: 'DELETE FROM leave_requests WHERE id = ?', params: [request.id] },
+    ]);
+    return true;
+  }
+
+  const lastDay = addDays(today, -1);
+  const takenDates = await getLeaveDates(request.userId, request.startDate, lastDay);
+  await transaction([
+    clearAttendance,
+    {
+      sql: 'UPDATE leave_requests SET end_date = ?, days = ? WHERE id = ?',
+      params: [lastDay, takenDates.length, request.id],
+    },
+  ]);
+  return true;
+}
@@ -0,0 +1,143 @@
+import { queryOne } from './db';
+import { addDays } from './time';
+import { haversineDistance } from './geofence';
+import type { LocationFlag } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Location Checks
+ * Heuristik dugaan GPS palsu (aplikasi fake GPS / mock location). Presensi tidak
+ * ditolak, hanya ditandai agar bisa ditinjau admin.
+ */
+
+// Akurasi (meter) yang terlalu sempurna untuk GPS ponsel; mock location sering melaporkan 0-1 m
+export const GPS_PERFECT_ACCURACY_METERS = parseFloat(process.env.GPS_PERFECT_ACCURACY_METERS || '1');
+
+// Kecepatan perpindahan maksimal yang masih wajar antara check-in dan check-out (km/jam)
+export const GPS_MAX_TRAVEL_SPEED_KMH = parseFloat(process.env.GPS_MAX_TRAVEL_SPEED_KMH || '150');
+
+// Rentang hari presensi sebelumnya yang dibandingkan koordinatnya
+export const GPS_REPEAT_LOOKBACK_DAYS = parseInt(process.env.GPS_REPEAT_LOOKBACK_DAYS || '30', 10);
+
+// Jarak minimal (meter) agar perpindahan dihitung, di bawahnya dianggap simpangan GPS biasa
+const MIN_TRAVEL_DISTANCE_METERS = 1000;
+
+// Presisi kolom latitude/longitude di database
+const COORDINATE_DECIMALS = 8;
+
+export interface PositionInput {
+  latitude: number;
+  longitude: number;
+  address: string;
+  accuracy: number | null;
+  altitude: number | null;
+  capturedAt: Date | null;
+}
+
+interface MatchRow extends RowDataPacket {
+  id: string;
+}
+
+function toOptionalNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Ambil posisi dari body presensi; null bila koordinat tidak valid.
+ * Akurasi, ketinggian dan waktu posisi opsional (klien lama hanya mengirim koordinat).
+ */
+export function parsePositionInput(location: unknown): PositionInput | null {
+  if (!location || typeof location !== 'object') return null;
+  const input = location as Record<string, unknown>;
+
+  if (typeof input.latitude !== 'number' || typeof input.longitude !== 'number') {
+    return null;
+  }
+
+  const capturedAt = typeof input.capturedAt === 'string' ? new Date(input.capturedAt) : null;
+
+  return {
+    latitude: input.latitude,
+    longitude: input.longitude,
+    address: typeof input.address === 'string' ? input.address : '',
+    accuracy: toOptionalNumber(input.accuracy),
+    altitude: toOptionalNumber(input.altitude),
+    capturedAt: capturedAt && !Number.isNaN(capturedAt.getTime()) ? capturedAt : null,
+  };
+}
+
+function hasPerfectAccuracy(position: PositionInput): boolean {
+  return position.accuracy !== null && position.accuracy <= GPS_PERFECT_ACCURACY_METERS;
+}
+
+/**
+ * Perpindahan dari titik check-in ke titik check-out lebih cepat dari kecepatan wajar
+ */
+function isImpossibleTravel(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+  elapsedMinutes: number
+): boolean {
+  const distance = haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  if (distance < MIN_TRAVEL_DISTANCE_METERS) return false;
+
+  const hours = Math.max(elapsedMinutes, 1) / 60;
+  return distance / 1000 / hours > GPS_MAX_TRAVEL_SPEED_KMH;
+}
+
+/**
+ * Koordinat sama persis (sampai digit terakhir) dengan presensi karyawan di hari lain
+ */
+async function hasRepeatedCoordinates(
+  userId: string,
+  date: string,
+  position: PositionInput
+): Promise<boolean> {
+  const latitude = position.latitude.toFixed(COORDINATE_DECIMALS);
+  const longitude = position.longitude.toFixed(COORDINATE_DECIMALS);
+
+  const match = await queryOne<MatchRow>(
+    `SELECT id FROM attendance_records
+     WHERE user_id = ? AND date <> ? AND date >= ?
+     AND ((check_in_latitude = ? AND check_in_longitude = ?)
+       OR (check_out_latitude = ? AND check_out_longitude = ?))
+     LIMIT 1`,
+    [userId, date, addDays(date, -GPS_REPEAT_LOOKBACK_DAYS), latitude, longitude, latitude, longitude]
+  );
+
+  return !!match;
+}
+
+/**
+ * Jalankan seluruh heuristik untuk satu presensi.
+ * `previous` diisi titik check-in saat check-out untuk memeriksa kecepatan perpindahan.
+ */
+export async function checkLocation(
+  userId: string,
+  date: string,
+  position: PositionInput,
+  previous?: { latitude: number; longitude: number; elapsedMinutes: number } | null
+): Promise<LocationFlag[]> {
+  const flags: LocationFlag[] = [];
+
+  if (hasPerfectAccuracy(position)) {
+    flags.push('perfect_accuracy');
+  }
+
+  if (previous && isImpossibleTravel(previous, position, previous.elapsedMinutes)) {
+    flags.push('impossible_travel');
+  }
+
+  if (await hasRepeatedCoordinates(userId, date, position)) {
+    flags.push('repeated_coordinates');
+  }
+
+  return flags;
+}
+
+/**
+ * Kolom SET MySQL dikembalikan sebagai string dipisah koma
+ */
+export function mapLocationFlags(value: string | null): LocationFlag[] {
+  return value ? (value.split(',') as LocationFlag[]) : [];
+}
@@ -0,0 +1,72 @@
+/**
+ * Offline Punch
+ * Presensi yang diambil tanpa sinyal disimpan di perangkat (IndexedDB) lalu dikirim
+ * saat online bersama waktu pengambilan menurut jam perangkat. Jam perangkat hanya
+ * dipercaya bila presensi memang tertahan di antrean, selisihnya dengan jam server saat
+ * pengiriman masih dalam batas dan presensi belum terlalu lama; presensi offline tetap
+ * ditandai untuk ditinjau admin.
+ */
+
+// Selisih maksimal jam perangkat dengan jam server saat presensi dikirim (menit)
+export const OFFLINE_MAX_CLOCK_SKEW_MINUTES = parseInt(process.env.OFFLINE_MAX_CLOCK_SKEW_MINUTES || '5', 10);
+
+// Jeda minimal antara pengambilan dan pengiriman agar presensi dianggap berasal dari antrean offline (menit)
+export const OFFLINE_MIN_QUEUE_MINUTES = parseInt(process.env.OFFLINE_MIN_QUEUE_MINUTES || '2', 10);
+
+// Umur maksimal presensi offline yang masih diterima, dihitung dari jam server (jam)
+export const OFFLINE_MAX_AGE_HOURS = parseInt(process.env.OFFLINE_MAX_AGE_HOURS || '12', 10);
+
+export interface PunchTime {
+  at: Date;
+  offline: boolean;
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Tentukan waktu presensi. Presensi online memakai jam server; presensi offline
+ * (ada capturedAt) memakai jam perangkat setelah divalidasi terhadap sentAt. Presensi yang
+ * dikirim sebelum jeda antrean minimal diperlakukan sebagai presensi online.
+ */
+export function resolvePunchTime(
+  capturedAt: unknown,
+  sentAt: unknown,
+  now: Date = new Date()
+): PunchTime | { error: string } {
+  if (capturedAt === undefined || capturedAt === null) {
+    return { at: now, offline: false };
+  }
+
+  const captured = parseTimestamp(capturedAt);
+  const sent = parseTimestamp(sentAt);
+  if (!captured || !sent) {
+    return { error: 'Waktu presensi offline tidak valid' };
+  }
+
+  const skewMinutes = Math.abs(now.getTime() - sent.getTime()) / 60000;
+  if (skewMinutes > OFFLINE_MAX_CLOCK_SKEW_MINUTES) {
+    return { error: `Jam perangkat berbeda ${Math.round(skewMinutes)} menit dari jam server. Atur jam perangkat ke otomatis lalu kirim ulang.` };
+  }
+
+  if (captured.getTime() > sent.getTime()) {
+    return { error: 'Waktu presensi offline tidak valid' };
+  }
+
+  // A punch sent right after it was taken never sat in the offline queue; the server clock
+  // is accurate enough there and the body cannot be used to pick the punch time
+  if (sent.getTime() - captured.getTime() < OFFLINE_MIN_QUEUE_MINUTES * 60000) {
+    return { at: now, offline: false };
+  }
+
+  // sentAt comes from the device too, so the age is measured against the server clock
+  const ageHours = (now.getTime() - captured.getTime()) / 3600000;
+  if (ageHours > OFFLINE_MAX_AGE_HOURS) {
+    return { error: `Presensi offline lebih dari ${OFFLINE_MAX_AGE_HOURS} jam tidak dapat dikirim, ajukan koreksi presensi` };
+  }
+
+  return { at: captured, offline: true };
+}
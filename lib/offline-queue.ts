@@ -0,0 +1,94 @@
+import { submitQueuedPunch } from "./api-client";
+import type { AttendanceRecord, QueuedPunch } from "./types";
+
+/**
+ * Offline Queue
+ * Antrean presensi di IndexedDB untuk lokasi tanpa sinyal. Presensi dikirim
+ * berurutan saat perangkat kembali online.
+ */
+
+const DB_NAME = "presensi-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "punches";
+
+export interface SyncResult {
+  synced: AttendanceRecord[];
+  rejected: { punch: QueuedPunch; error: string }[];
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      store.createIndex("userId", "userId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function isOfflineQueueSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export async function enqueuePunch(punch: Omit<QueuedPunch, "id">): Promise<QueuedPunch> {
+  const queued = { ...punch, id: `queued-${Date.now()}` };
+  await withStore("readwrite", (store) => store.put(queued));
+  return queued;
+}
+
+/**
+ * Presensi yang belum terkirim, urut dari yang paling lama diambil
+ */
+export async function getQueuedPunches(userId: string): Promise<QueuedPunch[]> {
+  const punches = await withStore<QueuedPunch[]>("readonly", (store) =>
+    store.index("userId").getAll(userId)
+  );
+  return punches.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+}
+
+export async function removeQueuedPunch(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+// Penolakan validasi yang pasti; status lain (sesi habis, error server/proxy) dicoba lagi nanti
+const REJECTED_STATUSES = [400, 409];
+
+/**
+ * Kirim seluruh antrean secara berurutan. Presensi hanya dikeluarkan dari antrean bila
+ * berhasil tersimpan atau ditolak validasi server (dilaporkan); selain itu pengiriman
+ * berhenti dan sisa antrean dicoba lagi nanti.
+ */
+export async function syncQueuedPunches(userId: string): Promise<SyncResult> {
+  const result: SyncResult = { synced: [], rejected: [] };
+
+  for (const punch of await getQueuedPunches(userId)) {
+    const response = await submitQueuedPunch(punch);
+    if ("error" in response) {
+      if (response.status === null || !REJECTED_STATUSES.includes(response.status)) break;
+      result.rejected.push({ punch, error: response.error });
+    } else {
+      result.synced.push(response);
+    }
+    await removeQueuedPunch(punch.id);
+  }
+
+  return result;
+}
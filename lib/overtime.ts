@@ -0,0 +1,287 @@
+import { query, queryOne } from './db';
+import { getEffectiveSchedule } from './shifts';
+import { getDayOfWeek } from './time';
+import type { OvertimeDayType, OvertimePlan, OvertimeRecord, WorkWeekDays } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Overtime
+ * Lembur harus didasari rencana (surat perintah lembur) yang disetujui sebelum dimulai.
+ * Setelah lembur selesai, durasi aktual dicocokkan dengan jam pada rencana, dan upah
+ * lembur jam yang diakui dihitung menurut PP 35/2021 dan disimpan saat jam diakui, agar
+ * perubahan upah sebulan tidak mengubah upah lembur yang sudah lewat.
+ */
+
+// Batas lembur per hari kerja (PP 35/2021 Pasal 26)
+export const MAX_OVERTIME_HOURS_PER_DAY = 4;
+
+// Batas lembur di hari istirahat/libur, sampai tingkat pengali terakhir (PP 35/2021 Pasal 31)
+const MAX_REST_DAY_OVERTIME_HOURS: Record<WorkWeekDays, number> = { 6: 11, 5: 12 };
+
+// Batas lembur hari libur yang jatuh pada hari kerja terpendek pola 6 hari kerja
+const MAX_SHORT_DAY_HOLIDAY_OVERTIME_HOURS = 9;
+
+// Upah sejam = 1/173 upah sebulan (PP 35/2021 Pasal 32)
+export const HOURLY_WAGE_DIVISOR = 173;
+
+export const WORK_WEEK_OPTIONS: WorkWeekDays[] = [5, 6];
+
+interface PayTier {
+  untilHour: number;
+  multiplier: number;
+}
+
+// Pengali upah per jam lembur ke-n (PP 35/2021 Pasal 31)
+const WORKDAY_TIERS: PayTier[] = [
+  { untilHour: 1, multiplier: 1.5 },
+  { untilHour: Infinity, multiplier: 2 },
+];
+
+const REST_DAY_TIERS: Record<WorkWeekDays, PayTier[]> = {
+  6: [
+    { untilHour: 7, multiplier: 2 },
+    { untilHour: 8, multiplier: 3 },
+    { untilHour: Infinity, multiplier: 4 },
+  ],
+  5: [
+    { untilHour: 8, multiplier: 2 },
+    { untilHour: 9, multiplier: 3 },
+    { untilHour: Infinity, multiplier: 4 },
+  ],
+};
+
+// Hari libur pada hari kerja terpendek pola 6 hari kerja: 5 jam pertama 2x, jam ke-6 3x, jam ke-7 s.d. 9 4x
+const SHORT_DAY_HOLIDAY_TIERS: PayTier[] = [
+  { untilHour: 5, multiplier: 2 },
+  { untilHour: 6, multiplier: 3 },
+  { untilHour: Infinity, multiplier: 4 },
+];
+
+function getPayTiers(dayType: OvertimeDayType, workWeekDays: WorkWeekDays): PayTier[] {
+  if (dayType === 'workday') return WORKDAY_TIERS;
+  if (dayType === 'short_day_holiday') return SHORT_DAY_HOLIDAY_TIERS;
+  return REST_DAY_TIERS[workWeekDays];
+}
+
+export interface OvertimePlanRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  date: string;
+  expected_hours: number;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_by: string | null;
+  created_at: string;
+}
+
+export interface OvertimeRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  plan_id: string | null;
+  planned_hours: number | null;
+  date: string;
+  start_time: string;
+  end_date: string | null;
+  end_time: string | null;
+  duration: number;
+  approved_hours: number;
+  day_type: OvertimeDayType;
+  pay_amount: number | null;
+  // Upah sebulan saat ini, hanya dipakai untuk menghitung pay_amount saat jam diakui
+  monthly_salary: number | null;
+  work_week_days: number;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_by: string | null;
+}
+
+export const OVERTIME_PLAN_SELECT = `SELECT op.*, DATE_FORMAT(op.date, '%Y-%m-%d') AS date
+FROM overtime_plans op`;
+
+export const OVERTIME_SELECT = `SELECT ot.*,
+  DATE_FORMAT(ot.date, '%Y-%m-%d') AS date,
+  DATE_FORMAT(ot.end_date, '%Y-%m-%d') AS end_date,
+  op.expected_hours AS planned_hours,
+  u.monthly_salary, u.work_week_days
+FROM overtime_records ot
+JOIN users u ON ot.user_id = u.id
+LEFT JOIN overtime_plans op ON ot.plan_id = op.id`;
+
+export function mapRowToOvertimePlan(row: OvertimePlanRow): OvertimePlan {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    date: row.date,
+    expectedHours: Number(row.expected_hours),
+    reason: row.reason,
+    status: row.status,
+    approvedBy: row.approved_by,
+    createdAt: row.created_at,
+  };
+}
+
+export function mapRowToOvertimeRecord(row: OvertimeRow): OvertimeRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    planId: row.plan_id,
+    plannedHours: row.planned_hours !== null ? Number(row.planned_hours) : null,
+    date: row.date,
+    dayType: row.day_type,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    duration: Number(row.duration),
+    approvedHours: Number(row.approved_hours),
+    payAmount: row.pay_amount !== null ? Number(row.pay_amount) : null,
+    reason: row.reason,
+    status: row.status,
+    approvedBy: row.approved_by,
+  };
+}
+
+/**
+ * Rencana lembur disetujui untuk tanggal tersebut yang belum dipakai memulai lembur
+ */
+export async function getUnusedApprovedPlan(userId: string, date: string): Promise<OvertimePlan | null> {
+  const row = await queryOne<OvertimePlanRow>(
+    `${OVERTIME_PLAN_SELECT}
+     WHERE op.user_id = ? AND op.date = ? AND op.status = 'approved'
+     AND NOT EXISTS (SELECT 1 FROM overtime_records ot WHERE ot.plan_id = op.id)
+     ORDER BY op.created_at LIMIT 1`,
+    [userId, date]
+  );
+  return row ? mapRowToOvertimePlan(row) : null;
+}
+
+/**
+ * Jam lembur yang sudah diakui lewat rencana: durasi aktual, paling banyak sebesar rencana
+ */
+export function getPlannedPortion(duration: number, plannedHours: number | null): number {
+  return Math.min(duration, plannedHours ?? 0);
+}
+
+/**
+ * Cocokkan lembur aktual dengan rencananya. Lembur dalam batas rencana langsung disetujui;
+ * kelebihannya menunggu persetujuan admin sementara jam sesuai rencana tetap diakui.
+ * Lembur tanpa rencana (data lama) seluruhnya menunggu persetujuan.
+ * Jam yang diakui tidak pernah melebihi batas lembur sehari (maxHours).
+ */
+export function reconcileOvertime(
+  duration: number,
+  plannedHours: number | null,
+  maxHours: number
+): { status: 'pending' | 'approved'; approvedHours: number } {
+  if (plannedHours !== null && duration <= plannedHours) {
+    return { status: 'approved', approvedHours: Math.min(duration, maxHours) };
+  }
+  return { status: 'pending', approvedHours: Math.min(getPlannedPortion(duration, plannedHours), maxHours) };
+}
+
+/**
+ * Batas jam lembur sehari; batas 4 jam tidak berlaku di hari istirahat mingguan dan hari libur
+ */
+export function getMaxOvertimeHours(dayType: OvertimeDayType, workWeekDays: WorkWeekDays): number {
+  if (dayType === 'workday') return MAX_OVERTIME_HOURS_PER_DAY;
+  if (dayType === 'short_day_holiday') return MAX_SHORT_DAY_HOLIDAY_OVERTIME_HOURS;
+  return MAX_REST_DAY_OVERTIME_HOURS[workWeekDays];
+}
+
+export function isValidMonthlySalary(value: unknown): boolean {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+}
+
+export function isValidWorkWeekDays(value: unknown): value is WorkWeekDays {
+  return WORK_WEEK_OPTIONS.includes(value as WorkWeekDays);
+}
+
+export function toWorkWeekDays(value: unknown): WorkWeekDays {
+  return Number(value) === 5 ? 5 : 6;
+}
+
+/**
+ * Apakah hari dalam seminggu ini hari kerja terpendek pada jadwal harian
+ * (contoh Sabtu 5 jam pada pola 6 hari kerja). Bila semua hari kerja sama panjang, tidak ada.
+ */
+async function isShortestWorkday(dayOfWeek: number): Promise<boolean> {
+  const rows = await query<RowDataPacket[]>(
+    'SELECT day_of_week, min_work_hours FROM work_schedules WHERE is_active = TRUE'
+  );
+  const today = rows.find((row) => Number(row.day_of_week) === dayOfWeek);
+  if (!today) return false;
+
+  const hours = rows.map((row) => Number(row.min_work_hours));
+  return Number(today.min_work_hours) === Math.min(...hours) && Math.min(...hours) < Math.max(...hours);
+}
+
+/**
+ * Jenis hari lembur: hari libur nasional (termasuk yang jatuh pada hari kerja terpendek
+ * pola 6 hari kerja), hari istirahat mingguan/roster, atau hari kerja
+ */
+export async function getOvertimeDayType(userId: string, date: string): Promise<OvertimeDayType> {
+  const holiday = await queryOne<RowDataPacket>(
+    'SELECT date FROM holidays WHERE date = ? AND is_active = TRUE',
+    [date]
+  );
+
+  if (holiday) {
+    const employee = await queryOne<RowDataPacket>(
+      'SELECT work_week_days FROM users WHERE id = ?',
+      [userId]
+    );
+    const shortDay = toWorkWeekDays(employee?.work_week_days) === 6
+      && (await isShortestWorkday(getDayOfWeek(date)));
+    return shortDay ? 'short_day_holiday' : 'holiday';
+  }
+
+  const schedule = await getEffectiveSchedule(userId, date, getDayOfWeek(date));
+  return !schedule || schedule.isDayOff ? 'rest_day' : 'workday';
+}
+
+/**
+ * Jam lembur dikalikan pengalinya. Di hari kerja jam pertama 1,5x dan berikutnya 2x;
+ * di hari istirahat/libur pengalinya bertingkat 2x, 3x, 4x menurut pola 5 atau 6 hari kerja,
+ * atau menurut tingkat khusus bila hari libur jatuh pada hari kerja terpendek.
+ */
+export function getWeightedOvertimeHours(
+  hours: number,
+  dayType: OvertimeDayType,
+  workWeekDays: WorkWeekDays
+): number {
+  const tiers = getPayTiers(dayType, workWeekDays);
+
+  let weighted = 0;
+  let previous = 0;
+  for (const tier of tiers) {
+    if (hours <= previous) break;
+    weighted += (Math.min(hours, tier.untilHour) - previous) * tier.multiplier;
+    previous = tier.untilHour;
+  }
+  return weighted;
+}
+
+/**
+ * Upah lembur dalam rupiah; null bila upah sebulan karyawan belum diatur
+ */
+export function calculateOvertimePay(
+  hours: number,
+  dayType: OvertimeDayType,
+  workWeekDays: WorkWeekDays,
+  monthlySalary: number | null
+): number | null {
+  if (monthlySalary === null) return null;
+  const hourlyWage = monthlySalary / HOURLY_WAGE_DIVISOR;
+  return Math.round(getWeightedOvertimeHours(hours, dayType, workWeekDays) * hourlyWage);
+}
+
+/**
+ * Upah lembur untuk jam yang diakui menurut upah sebulan karyawan saat ini,
+ * untuk disimpan ke pay_amount saat lembur selesai atau diproses admin
+ */
+export function getOvertimePayForRow(row: OvertimeRow, approvedHours: number): number | null {
+  return calculateOvertimePay(
+    approvedHours,
+    row.day_type,
+    toWorkWeekDays(row.work_week_days),
+    row.monthly_salary !== null ? Number(row.monthly_salary) : null
+  );
+}
@@ -0,0 +1,114 @@
+import { query, queryOne } from './db';
+import { getPhotoUrl, getThumbnailUrl } from './photos';
+import type { PhotoDuplicate, SuspiciousPunch } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Duplicate Photo Detection
+ * Perceptual hash (dHash 64-bit) tiap foto presensi dibandingkan dengan foto
+ * karyawan yang sama beberapa hari terakhir dan foto seluruh karyawan hari ini,
+ * agar foto lama yang dikirim ulang lewat API bisa ditandai
+ */
+
+// Selisih bit maksimal agar dua foto dianggap sama (0 = identik, dari 64 bit)
+export const PHOTO_DUPLICATE_THRESHOLD = parseInt(process.env.PHOTO_DUPLICATE_THRESHOLD || '5', 10);
+
+// Rentang hari foto karyawan yang sama yang ikut dibandingkan
+export const PHOTO_DUPLICATE_LOOKBACK_DAYS = parseInt(process.env.PHOTO_DUPLICATE_LOOKBACK_DAYS || '30', 10);
+
+interface MatchRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  distance: number;
+  created_at: string;
+}
+
+interface SuspiciousRow extends RowDataPacket {
+  record_id: string;
+  user_id: string;
+  date: string;
+  type: SuspiciousPunch['type'];
+  time: string;
+  photo_id: string;
+  duplicate_of: string;
+  duplicate_distance: number;
+  duplicate_user_id: string;
+  duplicate_created_at: string;
+}
+
+export function mapDuplicate(
+  photoId: string | null,
+  userId: string | null,
+  distance: number | null,
+  createdAt: string | null
+): PhotoDuplicate | null {
+  if (!photoId || !userId) return null;
+  return {
+    photoId,
+    userId,
+    distance: Number(distance),
+    thumbnailUrl: getThumbnailUrl(photoId),
+    capturedAt: createdAt || '',
+  };
+}
+
+/**
+ * Cari foto yang mirip dengan foto baru dan tandai di tabel photos.
+ * Mengembalikan foto yang paling mirip, atau null bila tidak ada.
+ */
+export async function flagDuplicatePhoto(photoId: string): Promise<PhotoDuplicate | null> {
+  const match = await queryOne<MatchRow>(
+    `SELECT other.id, other.user_id, other.created_at,
+       BIT_COUNT(CAST(CONV(other.phash, 16, 10) AS UNSIGNED) ^ CAST(CONV(photo.phash, 16, 10) AS UNSIGNED)) AS distance
+     FROM photos photo
+     JOIN photos other ON other.id <> photo.id AND other.phash IS NOT NULL
+       AND (
+         (other.user_id = photo.user_id AND other.created_at >= photo.created_at - INTERVAL ? DAY)
+         OR DATE(other.created_at) = DATE(photo.created_at)
+       )
+     WHERE photo.id = ? AND photo.phash IS NOT NULL
+     HAVING distance <= ?
+     ORDER BY distance, other.created_at DESC
+     LIMIT 1`,
+    [PHOTO_DUPLICATE_LOOKBACK_DAYS, photoId, PHOTO_DUPLICATE_THRESHOLD]
+  );
+
+  if (!match) return null;
+
+  await query(
+    'UPDATE photos SET duplicate_of = ?, duplicate_distance = ? WHERE id = ?',
+    [match.id, match.distance, photoId]
+  );
+
+  return mapDuplicate(match.id, match.user_id, match.distance, match.created_at);
+}
+
+/**
+ * Presensi yang fotonya ditandai mirip foto lain dalam rentang tanggal
+ */
+export async function getSuspiciousPunches(startDate: string, endDate: string): Promise<SuspiciousPunch[]> {
+  const rows = await query<SuspiciousRow[]>(
+    `SELECT ar.id AS record_id, ar.user_id, DATE_FORMAT(ar.date, '%Y-%m-%d') AS date,
+       IF(p.id = ar.check_in_photo_id, 'check-in', 'check-out') AS type,
+       IF(p.id = ar.check_in_photo_id, ar.check_in_time, ar.check_out_time) AS time,
+       p.id AS photo_id, p.duplicate_of, p.duplicate_distance,
+       d.user_id AS duplicate_user_id, d.created_at AS duplicate_created_at
+     FROM attendance_records ar
+     JOIN photos p ON p.id IN (ar.check_in_photo_id, ar.check_out_photo_id) AND p.duplicate_of IS NOT NULL
+     JOIN photos d ON d.id = p.duplicate_of
+     WHERE ar.date BETWEEN ? AND ?
+     ORDER BY ar.date DESC, time DESC`,
+    [startDate, endDate]
+  );
+
+  return rows.map((row) => ({
+    recordId: row.record_id,
+    userId: row.user_id,
+    date: row.date,
+    type: row.type,
+    time: row.time,
+    photoUrl: getPhotoUrl(row.photo_id),
+    photoThumbnail: getThumbnailUrl(row.photo_id),
+    duplicate: mapDuplicate(row.duplicate_of, row.duplicate_user_id, row.duplicate_distance, row.duplicate_created_at)!,
+  }));
+}
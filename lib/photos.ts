@@ -0,0 +1,259 @@
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { query, queryOne } from './db';
+import { getBlobStore } from './blob-store';
+import { validateAttachment } from './attachments';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Attendance Photos
+ * Foto check-in/check-out disimpan di blob store, tabel photos hanya
+ * menyimpan key file dan checksum SHA-256 untuk memastikan file utuh.
+ * Thumbnail dan perceptual hash dibuat saat upload.
+ */
+
+// Sisi terpanjang thumbnail (px)
+const THUMBNAIL_SIZE = 160;
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export interface PhotoRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  storage_key: string;
+  thumbnail_key: string | null;
+  mime_type: string;
+  size_bytes: number;
+  checksum: string;
+  phash: string | null;
+  duplicate_of: string | null;
+  duplicate_distance: number | null;
+  created_at: string;
+}
+
+export interface DecodedPhoto {
+  data: Buffer;
+  mimeType: string;
+}
+
+/**
+ * URL foto yang dilayani /api/photos/[id], kosong bila tidak ada foto
+ */
+export function getPhotoUrl(photoId: string | null): string {
+  return photoId ? `/api/photos/${photoId}` : '';
+}
+
+export function getThumbnailUrl(photoId: string | null): string {
+  return photoId ? `/api/photos/${photoId}?size=thumbnail` : '';
+}
+
+export function computeChecksum(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Decode foto dari data URL kamera (data:image/jpeg;base64,...)
+ */
+export function decodePhotoDataUrl(dataUrl: unknown): DecodedPhoto | { error: string } {
+  const match = typeof dataUrl === 'string'
+    ? /^data:([\w/+.-]+);base64,(.+)$/.exec(dataUrl)
+    : null;
+
+  if (!match || !PHOTO_EXTENSIONS[match[1]]) {
+    return { error: 'Foto harus berupa gambar JPG, PNG atau WEBP' };
+  }
+
+  const data = Buffer.from(match[2], 'base64');
+  const validationError = validateAttachment(data, match[1]);
+  if (validationError) {
+    return { error: validationError };
+  }
+
+  return { data, mimeType: match[1] };
+}
+
+/**
+ * Buat thumbnail JPEG, null bila gambar tidak bisa diproses (foto asli tetap disimpan)
+ */
+async function createThumbnail(data: Buffer): Promise<Buffer | null> {
+  try {
+    return await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+  } catch (error) {
+    console.warn('[Photos] Thumbnail generation failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Perceptual hash (dHash): gambar diperkecil ke 9x8 grayscale, tiap bit = piksel kiri lebih gelap dari kanannya.
+ * Tahan terhadap kompresi ulang dan perubahan ukuran. Hasil 16 digit hex.
+ */
+export async function computePerceptualHash(data: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(data)
+      .rotate()
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = '';
+    for (let nibble = 0; nibble < 16; nibble++) {
+      let value = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const index = nibble * 4 + bit;
+        const offset = Math.floor(index / 8) * 9 + (index % 8);
+        value = (value << 1) | (pixels[offset] < pixels[offset + 1] ? 1 : 0);
+      }
+      hash += value.toString(16);
+    }
+    return hash;
+  } catch (error) {
+    console.warn('[Photos] Perceptual hash failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Simpan foto beserta thumbnail ke blob store dan catat di tabel photos, mengembalikan ID foto
+ */
+export async function savePhoto(userId: string, photo: DecodedPhoto): Promise<string> {
+  // Suffix acak karena migrasi bisa menyimpan beberapa foto dalam milidetik yang sama
+  const photoId = `photo-${Date.now()}-${randomUUID().slice(0, 8)}`;
+  const storageKey = path.posix.join('photos', userId, `${photoId}.${PHOTO_EXTENSIONS[photo.mimeType]}`);
+  const blobStore = getBlobStore();
+
+  await blobStore.put(storageKey, photo.data, photo.mimeType);
+
+  const [thumbnail, phash] = await Promise.all([
+    createThumbnail(photo.data),
+    computePerceptualHash(photo.data),
+  ]);
+  const thumbnailKey = thumbnail ? path.posix.join('photos', userId, `${photoId}-thumb.jpg`) : null;
+  if (thumbnail && thumbnailKey) {
+    await blobStore.put(thumbnailKey, thumbnail, 'image/jpeg');
+  }
+
+  await query(
+    `INSERT INTO photos (id, user_id, storage_key, thumbnail_key, mime_type, size_bytes, checksum, phash)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [photoId, userId, storageKey, thumbnailKey, photo.mimeType, photo.data.length, computeChecksum(photo.data), phash]
+  );
+
+  return photoId;
+}
+
+export async function getPhoto(photoId: string): Promise<PhotoRow | null> {
+  return queryOne<PhotoRow>('SELECT * FROM photos WHERE id = ?', [photoId]);
+}
+
+/**
+ * Baca isi foto, error bila checksum tidak cocok (file rusak atau diganti)
+ */
+export async function readPhoto(photo: PhotoRow): Promise<Buffer> {
+  const data = await getBlobStore().get(photo.storage_key);
+  if (computeChecksum(data) !== photo.checksum) {
+    throw new Error(`Photo checksum mismatch: ${photo.id}`);
+  }
+  return data;
+}
+
+/**
+ * Baca thumbnail foto, null bila foto tidak punya thumbnail
+ */
+export async function readThumbnail(photo: PhotoRow): Promise<Buffer | null> {
+  return photo.thumbnail_key ? getBlobStore().get(photo.thumbnail_key) : null;
+}
+
+// Jumlah presensi yang dimigrasi per pemanggilan job
+const MIGRATION_BATCH_SIZE = 50;
+
+interface LegacyPhotoRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  check_in_photo: string | null;
+  check_out_photo: string | null;
+}
+
+interface CountRow extends RowDataPacket {
+  count: number;
+}
+
+export interface PhotoMigrationResult {
+  migrated: number;
+  failed: number;
+  remaining: number;
+  nextAfterId: string | null;
+}
+
+/**
+ * Pindahkan foto base64 lama (kolom LONGTEXT check_in_photo/check_out_photo) ke blob store.
+ * Diproses per batch urut id; panggil ulang dengan nextAfterId sampai bernilai null.
+ * Foto yang bukan gambar valid tidak dihapus dan tetap terhitung di remaining.
+ */
+export async function migrateLegacyPhotos(afterId: string | null = null): Promise<PhotoMigrationResult> {
+  const legacyColumns = await queryOne<CountRow>(
+    `SELECT COUNT(*) AS count FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'attendance_records'
+     AND COLUMN_NAME IN ('check_in_photo', 'check_out_photo')`
+  );
+
+  if (!legacyColumns || Number(legacyColumns.count) < 2) {
+    return { migrated: 0, failed: 0, remaining: 0, nextAfterId: null };
+  }
+
+  const legacyFilter = '(check_in_photo IS NOT NULL OR check_out_photo IS NOT NULL)';
+  const rows = await query<LegacyPhotoRow[]>(
+    `SELECT id, user_id, check_in_photo, check_out_photo FROM attendance_records
+     WHERE ${legacyFilter} AND id > ? ORDER BY id LIMIT ${MIGRATION_BATCH_SIZE}`,
+    [afterId ?? '']
+  );
+
+  let migrated = 0;
+  let failed = 0;
+
+  const migrate = async (row: LegacyPhotoRow, dataUrl: string | null): Promise<string | null> => {
+    if (!dataUrl) return null;
+    const decoded = decodePhotoDataUrl(dataUrl);
+    if ('error' in decoded) {
+      failed++;
+      return null;
+    }
+    migrated++;
+    return savePhoto(row.user_id, decoded);
+  };
+
+  for (const row of rows) {
+    const checkInPhotoId = await migrate(row, row.check_in_photo);
+    const checkOutPhotoId = await migrate(row, row.check_out_photo);
+
+    // Only clear a legacy column once its photo is safely in the blob store
+    await query(
+      `UPDATE attendance_records SET
+       check_in_photo_id = COALESCE(?, check_in_photo_id), check_in_photo = IF(? IS NULL, check_in_photo, NULL),
+       check_out_photo_id = COALESCE(?, check_out_photo_id), check_out_photo = IF(? IS NULL, check_out_photo, NULL)
+       WHERE id = ?`,
+      [checkInPhotoId, checkInPhotoId, checkOutPhotoId, checkOutPhotoId, row.id]
+    );
+  }
+
+  const remaining = await queryOne<CountRow>(
+    `SELECT COUNT(*) AS count FROM attendance_records WHERE ${legacyFilter}`
+  );
+
+  return {
+    migrated,
+    failed,
+    remaining: Number(remaining?.count ?? 0),
+    nextAfterId: rows.length === MIGRATION_BATCH_SIZE ? rows[rows.length - 1].id : null,
+  };
+}
@@ -0,0 +1,233 @@
+import { query, queryOne, transaction } from './db';
+import { addDays } from './time';
+import type { Shift, RosterEntry, EffectiveSchedule, OfficeLocation } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Shift Scheduling
+ * Shift kerja bernama dan roster shift per karyawan per tanggal
+ */
+
+// Batas rentang tanggal sekali generate roster
+export const MAX_ROSTER_DAYS = 366;
+
+// Batas toleransi keterlambatan yang boleh diatur (menit)
+export const MAX_LATE_TOLERANCE_MINUTES = 240;
+
+export function isValidLateTolerance(value: unknown): boolean {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= MAX_LATE_TOLERANCE_MINUTES
+  );
+}
+
+// Batas istirahat wajib yang boleh diatur (menit)
+export const MAX_MIN_BREAK_MINUTES = 240;
+
+export function isValidMinBreak(value: unknown): boolean {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= MAX_MIN_BREAK_MINUTES
+  );
+}
+
+export interface ShiftRow extends RowDataPacket {
+  id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  min_work_hours: number;
+  late_tolerance_minutes: number;
+  min_break_minutes: number;
+  is_active: boolean;
+}
+
+interface RosterRow extends RowDataPacket {
+  user_id: string;
+  date: string;
+  shift_id: string | null;
+  shift_name: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  min_work_hours: number | null;
+  late_tolerance_minutes: number | null;
+  min_break_minutes: number | null;
+}
+
+interface WorkScheduleRow extends RowDataPacket {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  min_work_hours: number;
+  late_tolerance_minutes: number;
+  min_break_minutes: number;
+  is_active: boolean;
+}
+
+export function mapRowToShift(row: ShiftRow): Shift {
+  return {
+    id: row.id,
+    name: row.name,
+    startTime: row.start_time.slice(0, 5),
+    endTime: row.end_time.slice(0, 5),
+    minWorkHours: Number(row.min_work_hours),
+    lateToleranceMinutes: Number(row.late_tolerance_minutes),
+    minBreakMinutes: Number(row.min_break_minutes),
+  };
+}
+
+function mapRowToRosterEntry(row: RosterRow): RosterEntry {
+  return {
+    userId: row.user_id,
+    date: row.date,
+    shiftId: row.shift_id,
+    shiftName: row.shift_name,
+  };
+}
+
+const ROSTER_SELECT = `SELECT sr.user_id, DATE_FORMAT(sr.date, '%Y-%m-%d') AS date, sr.shift_id,
+  s.name AS shift_name, s.start_time, s.end_time, s.min_work_hours, s.late_tolerance_minutes,
+  s.min_break_minutes
+FROM shift_roster sr
+LEFT JOIN shifts s ON sr.shift_id = s.id`;
+
+/**
+ * Shift yang jam pulangnya lewat tengah malam (contoh 22:00 - 06:00)
+ */
+export function isOvernight(schedule: { startTime: string; endTime: string }): boolean {
+  return schedule.endTime < schedule.startTime;
+}
+
+/**
+ * Ambil semua shift aktif
+ */
+export async function getActiveShifts(): Promise<Shift[]> {
+  const rows = await query<ShiftRow[]>(
+    'SELECT * FROM shifts WHERE is_active = TRUE ORDER BY start_time'
+  );
+  return rows.map(mapRowToShift);
+}
+
+/**
+ * Ambil roster dalam rentang tanggal, opsional untuk satu karyawan
+ */
+export async function getRoster(
+  startDate: string,
+  endDate: string,
+  userId?: string
+): Promise<RosterEntry[]> {
+  let sql = `${ROSTER_SELECT} WHERE sr.date BETWEEN ? AND ?`;
+  const params: unknown[] = [startDate, endDate];
+
+  if (userId) {
+    sql += ' AND sr.user_id = ?';
+    params.push(userId);
+  }
+
+  sql += ' ORDER BY sr.date, sr.user_id';
+
+  const rows = await query<RosterRow[]>(sql, params);
+  return rows.map(mapRowToRosterEntry);
+}
+
+/**
+ * Bentuk roster dari pola rotasi. Pola diulang mulai startDate,
+ * contoh 2 hari masuk 1 libur: ['shift-pagi', 'shift-pagi', null].
+ */
+export function expandRotation(
+  startDate: string,
+  endDate: string,
+  pattern: (string | null)[]
+): { date: string; shiftId: string | null }[] {
+  const entries: { date: string; shiftId: string | null }[] = [];
+  for (
+    let date = startDate, index = 0;
+    date <= endDate && index < MAX_ROSTER_DAYS;
+    date = addDays(date, 1), index++
+  ) {
+    entries.push({ date, shiftId: pattern[index % pattern.length] });
+  }
+  return entries;
+}
+
+/**
+ * Simpan roster untuk beberapa karyawan sekaligus (menimpa tanggal yang sama)
+ */
+export async function saveRoster(
+  userIds: string[],
+  entries: { date: string; shiftId: string | null }[],
+  createdBy: string
+): Promise<void> {
+  await transaction(
+    userIds.flatMap((userId) =>
+      entries.map((entry) => ({
+        sql: `INSERT INTO shift_roster (user_id, date, shift_id, created_by)
+              VALUES (?, ?, ?, ?)
+              ON DUPLICATE KEY UPDATE shift_id = VALUES(shift_id), created_by = VALUES(created_by)`,
+        params: [userId, entry.date, entry.shiftId, createdBy],
+      }))
+    )
+  );
+}
+
+/**
+ * Tentukan jadwal kerja karyawan pada suatu tanggal.
+ * Urutan prioritas: roster shift > jadwal khusus site > jadwal harian.
+ */
+export async function getEffectiveSchedule(
+  userId: string,
+  date: string,
+  dayOfWeek: number,
+  site: OfficeLocation | null = null
+): Promise<EffectiveSchedule | null> {
+  const rostered = await queryOne<RosterRow>(
+    `${ROSTER_SELECT} WHERE sr.user_id = ? AND sr.date = ?`,
+    [userId, date]
+  );
+
+  if (rostered) {
+    return {
+      shiftId: rostered.shift_id,
+      shiftName: rostered.shift_name,
+      startTime: rostered.start_time?.slice(0, 5) ?? '00:00',
+      endTime: rostered.end_time?.slice(0, 5) ?? '00:00',
+      minWorkHours: Number(rostered.min_work_hours ?? 0),
+      lateToleranceMinutes: Number(rostered.late_tolerance_minutes ?? 0),
+      minBreakMinutes: Number(rostered.min_break_minutes ?? 0),
+      isDayOff: !rostered.shift_id,
+    };
+  }
+
+  const schedule = await queryOne<WorkScheduleRow>(
+    'SELECT * FROM work_schedules WHERE day_of_week = ?',
+    [dayOfWeek]
+  );
+
+  // The site override only replaces the hours; working days still follow the weekday schedule
+  if (site?.scheduleOverride) {
+    return {
+      shiftId: null,
+      shiftName: null,
+      ...site.scheduleOverride,
+      isDayOff: schedule ? !schedule.is_active : false,
+    };
+  }
+
+  if (!schedule) return null;
+
+  return {
+    shiftId: null,
+    shiftName: null,
+    startTime: schedule.start_time.slice(0, 5),
+    endTime: schedule.end_time.slice(0, 5),
+    minWorkHours: Number(schedule.min_work_hours),
+    lateToleranceMinutes: Number(schedule.late_tolerance_minutes),
+    minBreakMinutes: Number(schedule.min_break_minutes),
+    // Jadwal harian yang dinonaktifkan berarti hari libur mingguan
+    isDayOff: !schedule.is_active,
+  };
+}
@@ -0,0 +1,62 @@
+import { query, transaction } from './db';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Work Site Assignment
+ * Penugasan karyawan ke satu atau lebih lokasi kerja (site)
+ */
+
+interface UserSiteRow extends RowDataPacket {
+  user_id: string;
+  location_id: string;
+}
+
+/**
+ * Ambil ID site yang ditugaskan ke seorang karyawan
+ */
+export async function getUserSiteIds(userId: string): Promise<string[]> {
+  const rows = await query<UserSiteRow[]>(
+    `SELECT us.user_id, us.location_id FROM user_sites us
+     JOIN office_locations ol ON us.location_id = ol.id
+     WHERE us.user_id = ? AND ol.is_active = TRUE
+     ORDER BY us.is_primary DESC, ol.name`,
+    [userId]
+  );
+  return rows.map((row) => row.location_id);
+}
+
+/**
+ * Ambil seluruh penugasan site, dikelompokkan per karyawan
+ */
+export async function getAllUserSiteIds(): Promise<Map<string, string[]>> {
+  const rows = await query<UserSiteRow[]>(
+    `SELECT us.user_id, us.location_id FROM user_sites us
+     JOIN office_locations ol ON us.location_id = ol.id
+     WHERE ol.is_active = TRUE
+     ORDER BY us.is_primary DESC, ol.name`
+  );
+
+  const result = new Map<string, string[]>();
+  for (const row of rows) {
+    const siteIds = result.get(row.user_id) || [];
+    siteIds.push(row.location_id);
+    result.set(row.user_id, siteIds);
+  }
+  return result;
+}
+
+/**
+ * Ganti seluruh penugasan site seorang karyawan.
+ * Site pertama dalam daftar dianggap site utama.
+ */
+export async function setUserSites(userId: string, siteIds: string[]): Promise<void> {
+  const uniqueSiteIds = Array.from(new Set(siteIds));
+
+  await transaction([
+    { sql: 'DELETE FROM user_sites WHERE user_id = ?', params: [userId] },
+    ...uniqueSiteIds.map((siteId, index) => ({
+      sql: 'INSERT INTO user_sites (user_id, location_id, is_primary) VALUES (?, ?, ?)',
+      params: [userId, siteId, index === 0],
+    })),
+  ]);
+}
@@ -0,0 +1,87 @@
+/**
+ * Time helpers
+ * Konversi waktu server ke waktu lokal zona waktu tertentu (WIB/WITA/WIT)
+ */
+
+// Zona waktu untuk karyawan/site tanpa zona waktu sendiri
+export const DEFAULT_TIMEZONE = process.env.APP_TIMEZONE || 'Asia/Jakarta';
+
+export interface ZonedDateTime {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  dayOfWeek: number; // 0 = Minggu
+}
+
+/**
+ * Ambil tanggal, jam dan hari dalam zona waktu tertentu
+ */
+export function getZonedDateTime(
+  timezone: string = DEFAULT_TIMEZONE,
+  date: Date = new Date()
+): ZonedDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || '';
+
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+    dayOfWeek: weekdays.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Tambah/kurangi hari pada tanggal YYYY-MM-DD
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Hari dalam minggu (0 = Minggu) untuk tanggal YYYY-MM-DD
+ */
+export function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Selisih menit antara dua titik waktu (tanggal YYYY-MM-DD + jam HH:mm)
+ */
+export function minutesBetween(
+  startDate: string,
+  startTime: string,
+  endDate: string,
+  endTime: string
+): number {
+  const toMs = (date: string, time: string) =>
+    new Date(`${date}T${time.slice(0, 5)}:00Z`).getTime();
+  return (toMs(endDate, endTime) - toMs(startDate, startTime)) / 60000;
+}
+
+/**
+ * Menit istirahat wajib yang tercakup rentang kerja. Jendela istirahat wajib diletakkan
+ * di tengah jadwal shift; semua nilai dalam menit pada sumbu waktu yang sama.
+ */
+export function getMandatoryBreakOverlap(
+  shift: { start: number; end: number },
+  minBreakMinutes: number,
+  worked: { start: number; end: number }
+): number {
+  const windowStart = (shift.start + shift.end - minBreakMinutes) / 2;
+  const windowEnd = windowStart + minBreakMinutes;
+  return Math.max(0, Math.min(worked.end, windowEnd) - Math.max(worked.start, windowStart));
+}
@@ -11,62 +11,393 @@ export interface User {
   email: string;
   phone: string;
   createdAt: string;
+  siteIds?: string[];
+  hasKioskPin?: boolean; // PIN tablet kiosk sudah diatur (hash tidak pernah dikirim ke client)
+  monthlySalary?: number | null; // upah sebulan, dasar upah lembur
+  workWeekDays?: WorkWeekDays;
 }
 
+// Pola hari kerja seminggu, menentukan pengali lembur di hari istirahat/libur
+export type WorkWeekDays = 5 | 6;
+
 export interface AttendanceRecord {
   id: string;
   userId: string;
   date: string;
   checkIn: {
     time: string;
-    photo: string;
-    location: {
-      latitude: number;
-      longitude: number;
-      address: string;
-    };
+    photo: string; // URL foto (/api/photos/[id]), kosong bila tanpa foto
+    photoThumbnail?: string; // URL thumbnail untuk daftar, fallback ke photo
+    photoDuplicate?: PhotoDuplicate | null; // foto mirip foto lain (dugaan foto lama dikirim ulang)
+    faceMatch?: FaceMatch | null; // null bila tidak dicocokkan (belum ada referensi wajah)
+    faceUnverified?: boolean; // pencocokan wajah aktif tetapi tidak ada referensi/foto atau model gagal
+    location: AttendanceLocation;
+    locationFlags?: LocationFlag[]; // heuristik dugaan lokasi palsu, kosong bila wajar
+    submittedOffline?: boolean; // diambil tanpa sinyal, dikirim dari antrean offline
+    method?: AttendanceMethod;
+    geofence: GeofenceMatch | null;
   } | null;
   checkOut: {
     time: string;
-    photo: string;
-    location: {
-      latitude: number;
-      longitude: number;
-      address: string;
-    };
+    date?: string; // tanggal check-out, bisa H+1 untuk shift malam
+    photo: string; // URL foto (/api/photos/[id]), kosong bila tanpa foto
+    photoThumbnail?: string; // URL thumbnail untuk daftar, fallback ke photo
+    photoDuplicate?: PhotoDuplicate | null; // foto mirip foto lain (dugaan foto lama dikirim ulang)
+    faceMatch?: FaceMatch | null; // null bila tidak dicocokkan (belum ada referensi wajah)
+    faceUnverified?: boolean; // pencocokan wajah aktif tetapi tidak ada referensi/foto atau model gagal
+    location: AttendanceLocation;
+    locationFlags?: LocationFlag[]; // heuristik dugaan lokasi palsu, kosong bila wajar
+    submittedOffline?: boolean; // diambil tanpa sinyal, dikirim dari antrean offline
+    method?: AttendanceMethod;
+    geofence: GeofenceMatch | null;
   } | null;
-  status: "present" | "late" | "absent" | "holiday";
-  workHours: number;
+  status: AttendanceStatus;
+  mode?: AttendanceMode;
+  assignment?: { id: string; destinationName: string | null } | null; // penugasan WFH/dinas luar yang dipakai
+  workHours: number; // jam kerja bersih setelah dikurangi istirahat
+  breakMinutes?: number; // istirahat yang dipotong dari jam kerja (minimal istirahat wajib)
+  breaks?: AttendanceBreak[];
+  lateMinutes: number;
   overtime: OvertimeRecord | null;
+  shiftId?: string | null;
+  autoClosed?: boolean;
+}
+
+// Istirahat (makan siang, sholat) di antara check-in dan check-out
+export interface AttendanceBreak {
+  id: string;
+  attendanceId: string;
+  startDate: string;
+  startTime: string;
+  endDate: string | null;
+  endTime: string | null; // null selama istirahat berlangsung
+  durationMinutes: number | null;
+}
+
+export interface SiteScheduleOverride {
+  startTime: string;
+  endTime: string;
+  minWorkHours: number;
+  lateToleranceMinutes: number;
+  minBreakMinutes: number;
+}
+
+export interface OfficeLocation {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  timezone: string;
+  scheduleOverride: SiteScheduleOverride | null;
+  kioskEnabled: boolean; // kiosk QR aktif (secret tidak pernah dikirim ke client)
+}
+
+// Tablet presensi bersama yang didaftarkan admin untuk satu site
+export interface KioskDevice {
+  id: string;
+  name: string;
+  locationId: string;
+  locationName: string;
+  registeredBy: string | null;
+  lastSeenAt: string | null;
+  createdAt: string;
+}
+
+// Karyawan yang dapat dipilih di tablet kiosk
+export interface KioskEmployee {
+  id: string;
+  name: string;
+  department: string;
+  position: string;
+}
+
+export const INDONESIAN_TIMEZONES = [
+  { value: "Asia/Jakarta", label: "WIB (UTC+7)" },
+  { value: "Asia/Makassar", label: "WITA (UTC+8)" },
+  { value: "Asia/Jayapura", label: "WIT (UTC+9)" },
+];
+
+// Posisi dari Geolocation API saat presensi
+export interface AttendanceLocation {
+  latitude: number;
+  longitude: number;
+  address: string;
+  accuracy?: number | null; // meter
+  altitude?: number | null; // meter di atas permukaan laut
+  capturedAt?: string | null; // waktu posisi diambil perangkat
+}
+
+// Presensi yang diambil tanpa sinyal, disimpan di IndexedDB sampai berhasil dikirim
+export interface QueuedPunch {
+  id: string;
+  userId: string;
+  action: "check-in" | "check-out";
+  photo: string; // data URL
+  location: AttendanceLocation;
+  capturedAt: string; // jam perangkat saat presensi diambil
+  mode?: AttendanceMode;
+  assignmentId?: string | null;
+}
+
+// Cara verifikasi kehadiran: selfie + GPS, pindai QR kiosk di lokasi, atau PIN di tablet kiosk
+export type AttendanceMethod = "selfie" | "qr" | "pin";
+
+// Tempat bekerja: kantor/site, WFH (hari yang disetujui) atau dinas luar (penugasan dengan tujuan)
+export type AttendanceMode = "office" | "wfh" | "field";
+
+export const ATTENDANCE_MODE_LABELS: Record<AttendanceMode, string> = {
+  office: "Kantor",
+  wfh: "WFH",
+  field: "Dinas Luar",
+};
+
+// Hari WFH yang disetujui atau penugasan dinas luar dengan lokasi tujuan
+export interface WorkAssignment {
+  id: string;
+  userId: string;
+  mode: Exclude<AttendanceMode, "office">;
+  startDate: string;
+  endDate: string;
+  destinationName: string | null; // hanya dinas luar
+  latitude: number | null;
+  longitude: number | null;
+  radiusMeters: number | null;
+  purpose: string;
+  status: "pending" | "approved" | "rejected";
+  approvedBy: string | null;
+  createdAt: string;
+}
+
+export type LocationFlag = "perfect_accuracy" | "impossible_travel" | "repeated_coordinates";
+
+export const LOCATION_FLAG_LABELS: Record<LocationFlag, string> = {
+  perfect_accuracy: "Akurasi GPS terlalu sempurna",
+  impossible_travel: "Perpindahan lokasi tidak wajar",
+  repeated_coordinates: "Koordinat sama persis dengan hari lain",
+};
+
+export interface GeofenceMatch {
+  officeLocationId: string | null;
+  officeLocationName: string | null;
+  distance: number | null; // meter
+  withinRadius: boolean;
+}
+
+// Hasil pencocokan selfie dengan foto referensi wajah
+export interface FaceMatch {
+  score: number; // cosine similarity 0-1
+  matched: boolean; // skor memenuhi FACE_MATCH_THRESHOLD saat presensi
+}
+
+// Foto referensi wajah karyawan, berlaku setelah disetujui admin
+export interface FaceReference {
+  id: string;
+  userId: string;
+  photoUrl: string;
+  photoThumbnail: string;
+  status: "pending" | "approved" | "rejected";
+  approvedBy: string | null;
+  approvedAt: string | null;
+  createdAt: string;
+}
+
+// Foto lain yang mirip dengan foto presensi (perceptual hash)
+export interface PhotoDuplicate {
+  photoId: string;
+  userId: string; // pemilik foto yang mirip, bisa karyawan lain
+  distance: number; // selisih bit hash, 0 = identik
+  thumbnailUrl: string;
+  capturedAt: string;
+}
+
+export interface SuspiciousPunch {
+  recordId: string;
+  userId: string;
+  date: string;
+  type: "check-in" | "check-out";
+  time: string;
+  photoUrl: string;
+  photoThumbnail: string;
+  duplicate: PhotoDuplicate;
+}
+
+export interface OvertimePlan {
+  id: string;
+  userId: string;
+  date: string;
+  expectedHours: number;
+  reason: string;
+  status: "pending" | "approved" | "rejected";
+  approvedBy: string | null;
+  createdAt: string;
 }
 
+export type OvertimeDayType = "workday" | "rest_day" | "holiday" | "short_day_holiday";
+
 export interface OvertimeRecord {
   id: string;
   userId: string;
+  planId: string | null;
+  plannedHours: number | null; // jam pada rencana lembur yang disetujui
   date: string;
+  dayType: OvertimeDayType;
   startTime: string;
   endTime: string | null;
   duration: number;
+  approvedHours: number; // jam yang diakui setelah dicocokkan dengan rencana
+  payAmount: number | null; // upah lembur jam yang diakui (Rp) menurut upah saat diakui, null bila upah belum diatur
   reason: string;
   status: "pending" | "approved" | "rejected";
   approvedBy: string | null;
 }
 
+export interface AttendanceCorrection {
+  id: string;
+  attendanceId: string;
+  userId: string;
+  date: string;
+  checkInTime: string | null; // null = tidak diubah
+  checkOutTime: string | null;
+  reason: string;
+  status: "pending" | "approved" | "rejected";
+  approvedBy: string | null;
+  original: {
+    checkInTime: string | null;
+    checkOutDate: string | null;
+    checkOutTime: string | null;
+    status: string;
+    workHours: number;
+    lateMinutes: number;
+  };
+  createdAt: string;
+}
+
+// Status presensi untuk hari cuti yang disetujui
+export type LeaveCategory = "leave" | "sick" | "permit";
+
+// Pulang sebelum jam kerja minimal dengan izin pulang cepat yang disetujui
+export type PartialAttendanceStatus = "early_leave" | "half_day";
+
+export type AttendanceStatus =
+  | "present"
+  | "late"
+  | "absent"
+  | "holiday"
+  | LeaveCategory
+  | PartialAttendanceStatus
+  | "business_trip";
+
+// Izin pulang cepat, contoh kontrol ke dokter
+export interface EarlyLeaveRequest {
+  id: string;
+  userId: string;
+  date: string; // tanggal presensi (tanggal shift)
+  leaveTime: string; // rencana jam pulang
+  reason: string;
+  status: "pending" | "approved" | "rejected";
+  approvedBy: string | null;
+  createdAt: string;
+}
+
+// Perjalanan dinas beberapa hari; hari kerjanya berstatus business_trip setelah disetujui
+export interface BusinessTrip {
+  id: string;
+  userId: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  purpose: string;
+  approverId: string | null; // atasan yang dipilih untuk menyetujui
+  approverName: string | null;
+  status: "pending" | "approved" | "rejected";
+  approvedBy: string | null;
+  createdAt: string;
+}
+
+export interface LeaveType {
+  id: string;
+  name: string;
+  category: LeaveCategory;
+  annualQuota: number | null; // null = tanpa batas
+  attachmentRequiredAfterDays: number | null; // lampiran wajib bila lebih dari N hari
+}
+
+export interface LeaveRequest {
+  id: string;
+  userId: string;
+  leaveTypeId: string;
+  leaveTypeName: string;
+  category: LeaveCategory;
+  startDate: string;
+  endDate: string;
+  days: number;
+  reason: string;
+  attachment: {
+    name: string;
+    mimeType: string;
+  } | null;
+  attachmentMissing: boolean; // lampiran wajib tetapi belum diunggah
+  status: "pending" | "approved" | "rejected";
+  approvedBy: string | null;
+  createdAt: string;
+}
+
+export interface LeaveBalance {
+  leaveType: LeaveType;
+  year: number;
+  quota: number | null; // jatah karyawan (override atau bawaan jenis cuti)
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
 export interface WorkSchedule {
   dayOfWeek: number;
   startTime: string;
   endTime: string;
   minWorkHours: number;
+  lateToleranceMinutes: number; // toleransi keterlambatan (menit)
+  minBreakMinutes: number; // istirahat wajib di tengah jadwal yang dipotong dari jam kerja (menit)
+}
+
+export interface Shift {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  minWorkHours: number;
+  lateToleranceMinutes: number;
+  minBreakMinutes: number;
+}
+
+export interface RosterEntry {
+  userId: string;
+  date: string;
+  shiftId: string | null; // null = libur
+  shiftName: string | null;
+}
+
+// Jadwal yang berlaku untuk seorang karyawan pada tanggal tertentu
+export interface EffectiveSchedule {
+  shiftId: string | null;
+  shiftName: string | null;
+  startTime: string;
+  endTime: string;
+  minWorkHours: number;
+  lateToleranceMinutes: number;
+  minBreakMinutes: number;
+  isDayOff: boolean;
 }
 
 export const DEFAULT_WORK_SCHEDULES: WorkSchedule[] = [
-  { dayOfWeek: 0, startTime: "08:00", endTime: "16:00", minWorkHours: 8 }, // Sunday
-  { dayOfWeek: 1, startTime: "08:00", endTime: "16:00", minWorkHours: 8 }, // Monday
-  { dayOfWeek: 2, startTime: "08:00", endTime: "16:00", minWorkHours: 8 }, // Tuesday
-  { dayOfWeek: 3, startTime: "08:00", endTime: "16:00", minWorkHours: 8 }, // Wednesday
-  { dayOfWeek: 4, startTime: "08:00", endTime: "16:00", minWorkHours: 8 }, // Thursday
-  { dayOfWeek: 5, startTime: "08:00", endTime: "16:00", minWorkHours: 8 }, // Friday
-  { dayOfWeek: 6, startTime: "08:00", endTime: "13:00", minWorkHours: 5 }, // Saturday
+  { dayOfWeek: 0, startTime: "08:00", endTime: "16:00", minWorkHours: 8, lateToleranceMinutes: 0, minBreakMinutes: 0 }, // Sunday
+  { dayOfWeek: 1, startTime: "08:00", endTime: "16:00", minWorkHours: 8, lateToleranceMinutes: 0, minBreakMinutes: 0 }, // Monday
+  { dayOfWeek: 2, startTime: "08:00", endTime: "16:00", minWorkHours: 8, lateToleranceMinutes: 0, minBreakMinutes: 0 }, // Tuesday
+  { dayOfWeek: 3, startTime: "08:00", endTime: "16:00", minWorkHours: 8, lateToleranceMinutes: 0, minBreakMinutes: 0 }, // Wednesday
+  { dayOfWeek: 4, startTime: "08:00", endTime: "16:00", minWorkHours: 8, lateToleranceMinutes: 0, minBreakMinutes: 0 }, // Thursday
+  { dayOfWeek: 5, startTime: "08:00", endTime: "16:00", minWorkHours: 8, lateToleranceMinutes: 0, minBreakMinutes: 0 }, // Friday
+  { dayOfWeek: 6, startTime: "08:00", endTime: "13:00", minWorkHours: 5, lateToleranceMinutes: 0, minBreakMinutes: 0 }, // Saturday
 ];
 
 export interface Holiday {
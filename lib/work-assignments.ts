@@ -0,0 +1,214 @@
+import { queryOne } from './db';
+import {
+  haversineDistance,
+  mapRowToOfficeLocation,
+  type OfficeLocationRow,
+  type SiteResolution,
+} from './geofence';
+import { getSiteDateTime } from './business-time';
+import { getApprovedTrip } from './business-trips';
+import type { AttendanceMode, OfficeLocation, WorkAssignment } from './types';
+import type { RowDataPacket } from 'mysql2';
+
+/**
+ * Work Assignments
+ * Hari WFH yang disetujui dan penugasan dinas luar. Mode presensi dipilih saat check-in:
+ * kantor memakai geofence site, WFH tanpa geofence, dinas luar memakai geofence lokasi tujuan.
+ * Jadwal dan zona waktu presensi WFH/dinas luar tetap mengikuti site utama karyawan.
+ */
+
+// Batas rentang tanggal sekali penugasan
+export const MAX_ASSIGNMENT_RANGE_DAYS = 31;
+
+// Radius geofence lokasi tujuan dinas luar bila tidak diisi (meter)
+export const DEFAULT_FIELD_RADIUS_METERS = 200;
+
+export const ATTENDANCE_MODES: AttendanceMode[] = ['office', 'wfh', 'field'];
+
+export interface WorkAssignmentRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  mode: 'wfh' | 'field';
+  start_date: string;
+  end_date: string;
+  destination_name: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  radius_meters: number | null;
+  purpose: string;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_by: string | null;
+  created_at: string;
+}
+
+interface OpenAttendanceRow extends RowDataPacket {
+  attendance_mode: AttendanceMode;
+  assignment_id: string | null;
+}
+
+export const WORK_ASSIGNMENT_SELECT = `SELECT wa.*,
+  DATE_FORMAT(wa.start_date, '%Y-%m-%d') AS start_date,
+  DATE_FORMAT(wa.end_date, '%Y-%m-%d') AS end_date
+FROM work_assignments wa`;
+
+export function mapRowToWorkAssignment(row: WorkAssignmentRow): WorkAssignment {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    mode: row.mode,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    destinationName: row.destination_name,
+    latitude: row.latitude !== null ? Number(row.latitude) : null,
+    longitude: row.longitude !== null ? Number(row.longitude) : null,
+    radiusMeters: row.radius_meters !== null ? Number(row.radius_meters) : null,
+    purpose: row.purpose,
+    status: row.status,
+    approvedBy: row.approved_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Site utama karyawan, penentu jadwal dan zona waktu saat tidak bekerja di site
+ */
+async function getPrimarySite(userId: string): Promise<OfficeLocation | null> {
+  const row = await queryOne<OfficeLocationRow>(
+    `SELECT ol.* FROM user_sites us
+     JOIN office_locations ol ON us.location_id = ol.id
+     WHERE us.user_id = ? AND ol.is_active = TRUE
+     ORDER BY us.is_primary DESC, ol.name
+     LIMIT 1`,
+    [userId]
+  );
+  return row ? mapRowToOfficeLocation(row) : null;
+}
+
+/**
+ * Penugasan disetujui yang mencakup tanggal tersebut; bila ID diberikan harus penugasan itu
+ */
+async function findApprovedAssignment(
+  userId: string,
+  mode: 'wfh' | 'field',
+  date: string,
+  assignmentId?: unknown
+): Promise<WorkAssignment | null> {
+  const params: unknown[] = [userId, mode, date, date];
+  let sql = `${WORK_ASSIGNMENT_SELECT}
+    WHERE wa.user_id = ? AND wa.mode = ? AND wa.status = 'approved'
+    AND wa.start_date <= ? AND wa.end_date >= ?`;
+
+  if (typeof assignmentId === 'string' && assignmentId) {
+    sql += ' AND wa.id = ?';
+    params.push(assignmentId);
+  }
+
+  const row = await queryOne<WorkAssignmentRow>(`${sql} ORDER BY wa.start_date DESC LIMIT 1`, params);
+  return row ? mapRowToWorkAssignment(row) : null;
+}
+
+function resolveAssignmentSite(
+  assignment: WorkAssignment | null,
+  site: OfficeLocation | null,
+  latitude: number,
+  longitude: number
+): SiteResolution {
+  if (assignment?.mode !== 'field' || assignment.latitude === null || assignment.longitude === null) {
+    return {
+      geofence: { officeLocationId: null, officeLocationName: null, distance: null, withinRadius: true },
+      site,
+    };
+  }
+
+  const distance = haversineDistance(latitude, longitude, assignment.latitude, assignment.longitude);
+  return {
+    geofence: {
+      officeLocationId: null,
+      officeLocationName: assignment.destinationName,
+      distance: Math.round(distance),
+      withinRadius: distance <= (assignment.radiusMeters ?? DEFAULT_FIELD_RADIUS_METERS),
+    },
+    site,
+  };
+}
+
+export type PunchModeResult =
+  | { mode: AttendanceMode; assignment: WorkAssignment | null; resolution?: SiteResolution }
+  | { error: string };
+
+/**
+ * Tentukan mode presensi dan validasi lokasinya. Check-in memakai mode yang dipilih karyawan;
+ * check-out mengikuti mode saat check-in. Mode kantor dikembalikan tanpa resolution
+ * sehingga lokasi dicocokkan dengan geofence site seperti biasa, kecuali pada hari
+ * perjalanan dinas: check-in dicatat sebagai dinas luar di kota tujuan tanpa geofence.
+ */
+export async function resolvePunchMode(
+  userId: string,
+  action: 'check-in' | 'check-out',
+  requestedMode: unknown,
+  assignmentId: unknown,
+  position: { latitude: number; longitude: number },
+  at: Date
+): Promise<PunchModeResult> {
+  if (action === 'check-out') {
+    const open = await queryOne<OpenAttendanceRow>(
+      `SELECT attendance_mode, assignment_id FROM attendance_records
+       WHERE user_id = ? AND check_in_time IS NOT NULL AND check_out_time IS NULL
+       ORDER BY date DESC LIMIT 1`,
+      [userId]
+    );
+    if (!open || open.attendance_mode === 'office') {
+      return { mode: 'office', assignment: null };
+    }
+
+    const row = open.assignment_id
+      ? await queryOne<WorkAssignmentRow>(`${WORK_ASSIGNMENT_SELECT} WHERE wa.id = ?`, [open.assignment_id])
+      : null;
+    const assignment = row ? mapRowToWorkAssignment(row) : null;
+    const site = await getPrimarySite(userId);
+    return {
+      mode: open.attendance_mode,
+      assignment,
+      resolution: resolveAssignmentSite(assignment, site, position.latitude, position.longitude),
+    };
+  }
+
+  const mode = requestedMode ?? 'office';
+  if (!ATTENDANCE_MODES.includes(mode as AttendanceMode)) {
+    return { error: 'Mode presensi tidak valid' };
+  }
+
+  const site = await getPrimarySite(userId);
+  const { date } = getSiteDateTime(site, at);
+
+  if (mode === 'office') {
+    const trip = await getApprovedTrip(userId, date);
+    if (!trip) {
+      return { mode: 'office', assignment: null };
+    }
+    return {
+      mode: 'field',
+      assignment: null,
+      resolution: {
+        geofence: { officeLocationId: null, officeLocationName: trip.destination, distance: null, withinRadius: true },
+        site,
+      },
+    };
+  }
+
+  const assignment = await findApprovedAssignment(userId, mode as 'wfh' | 'field', date, assignmentId);
+
+  if (!assignment) {
+    return {
+      error: mode === 'wfh'
+        ? 'Hari ini bukan hari WFH yang disetujui'
+        : 'Tidak ada penugasan dinas luar yang disetujui untuk hari ini',
+    };
+  }
+
+  return {
+    mode: mode as AttendanceMode,
+    assignment,
+    resolution: resolveAssignmentSite(assignment, site, position.latitude, position.longitude),
+  };
+}
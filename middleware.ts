@@ -27,7 +27,8 @@ export function middleware(request: NextRequest) {
   // Redirect to login if accessing protected route without auth
   if (isProtectedRoute && !isAuthenticated) {
     const loginUrl = new URL('/login', request.url);
-    loginUrl.searchParams.set('redirect', pathname);
+    // Keep the query too, a kiosk QR link carries its token in ?qr=
+    loginUrl.searchParams.set('redirect', pathname + request.nextUrl.search);
     return NextResponse.redirect(loginUrl);
   }
 
@@ -53,6 +53,16 @@ const nextConfig = {
           },
         ],
       },
+      {
+        // Service worker selalu diperiksa ulang agar versi baru langsung terpasang
+        source: '/sw.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'no-cache, no-store, must-revalidate',
+          },
+        ],
+      },
     ];
   },
 }
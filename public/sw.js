@@ -0,0 +1,90 @@
+/**
+ * Service Worker Presensi
+ * Menyimpan halaman yang pernah dibuka dan aset statis agar aplikasi tetap terbuka
+ * tanpa sinyal. Presensi offline disimpan halaman di IndexedDB (lib/offline-queue.ts),
+ * bukan di service worker.
+ */
+
+const CACHE_NAME = 'presensi-v1';
+
+// Data user terakhir, agar sesi tetap dikenali saat offline
+const AUTH_ME_URL = '/api/auth/me';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(['/icon.svg', '/placeholder.svg']))
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key)))
+    )
+  );
+  self.clients.claim();
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok && !response.redirected) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) return;
+
+  // Setelah logout, data user tidak boleh tersisa di cache
+  if (url.pathname === '/api/auth/logout') {
+    event.respondWith(
+      caches.open(CACHE_NAME)
+        .then((cache) => cache.delete(AUTH_ME_URL))
+        .then(() => fetch(request))
+    );
+    return;
+  }
+
+  if (request.method !== 'GET') return;
+
+  if (url.pathname === AUTH_ME_URL) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  // API lain selalu langsung ke server
+  if (url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/') || url.pathname === '/icon.svg' || url.pathname === '/placeholder.svg') {
+    event.respondWith(cacheFirst(request));
+  }
+});
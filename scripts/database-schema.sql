@@ -23,6 +23,16 @@ CREATE TABLE IF NOT EXISTS users (
     position VARCHAR(100) NOT NULL,
     email VARCHAR(100) NOT NULL,
     phone VARCHAR(20),
+
+    -- PIN presensi di tablet kiosk bersama (hash bcrypt, NULL = belum diatur)
+    kiosk_pin_hash VARCHAR(255) NULL,
+    kiosk_pin_failed_attempts INT NOT NULL DEFAULT 0,
+    kiosk_pin_locked_until DATETIME NULL,
+
+    -- Dasar upah lembur (PP 35/2021): upah sebulan dan pola hari kerja seminggu
+    monthly_salary DECIMAL(15, 2) NULL,
+    work_week_days TINYINT NOT NULL DEFAULT 6 CHECK (work_week_days IN (5, 6)),
+
     is_active BOOLEAN DEFAULT TRUE,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -33,53 +43,315 @@ CREATE TABLE IF NOT EXISTS users (
     INDEX idx_is_active (is_active)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- ===========================================
+-- Tabel Office Locations (Lokasi Kantor / Geofence)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS office_locations (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    latitude DECIMAL(10, 8) NOT NULL,
+    longitude DECIMAL(11, 8) NOT NULL,
+    radius_meters INT NOT NULL DEFAULT 100,
+    timezone VARCHAR(50) NOT NULL DEFAULT 'Asia/Jakarta',
+
+    -- Schedule Override (NULL = ikuti jadwal kerja harian)
+    start_time TIME NULL,
+    end_time TIME NULL,
+    min_work_hours DECIMAL(4, 2) NULL,
+    late_tolerance_minutes INT NULL,
+    min_break_minutes INT NULL,
+
+    -- Secret kode QR kiosk yang berganti tiap 30 detik (NULL = kiosk QR nonaktif)
+    kiosk_secret VARCHAR(64) NULL,
+
+    is_active BOOLEAN DEFAULT TRUE,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    INDEX idx_is_active (is_active)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel User Sites (Penugasan Karyawan ke Site)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS user_sites (
+    user_id VARCHAR(50) NOT NULL,
+    location_id VARCHAR(50) NOT NULL,
+    is_primary BOOLEAN DEFAULT FALSE,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (user_id, location_id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (location_id) REFERENCES office_locations(id) ON DELETE CASCADE,
+    INDEX idx_location_id (location_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Kiosk Devices (Tablet Presensi Bersama per Site)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    location_id VARCHAR(50) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,  -- SHA-256 token perangkat (token asli hanya ada di cookie tablet)
+    registered_by VARCHAR(50),
+    last_seen_at TIMESTAMP NULL,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (location_id) REFERENCES office_locations(id) ON DELETE CASCADE,
+    FOREIGN KEY (registered_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_location_id (location_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Shifts (Shift Kerja)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS shifts (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(50) NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    min_work_hours DECIMAL(4, 2) NOT NULL DEFAULT 8.00,
+    late_tolerance_minutes INT NOT NULL DEFAULT 0,
+    min_break_minutes INT NOT NULL DEFAULT 0,  -- istirahat wajib yang dipotong dari jam kerja
+    is_active BOOLEAN DEFAULT TRUE,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    INDEX idx_is_active (is_active)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Shift Roster (Jadwal Shift per Karyawan per Tanggal)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS shift_roster (
+    user_id VARCHAR(50) NOT NULL,
+    date DATE NOT NULL,
+    shift_id VARCHAR(50) NULL,  -- NULL = libur
+    created_by VARCHAR(50),
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (user_id, date),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (shift_id) REFERENCES shifts(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_date (date)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Photos (Foto Presensi)
+-- Isi foto ada di blob store (BLOB_STORE_DRIVER), tabel ini hanya menyimpan key dan checksum
+-- ===========================================
+CREATE TABLE IF NOT EXISTS photos (
+    id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    storage_key VARCHAR(255) NOT NULL,
+    thumbnail_key VARCHAR(255),  -- thumbnail JPEG untuk daftar presensi
+    mime_type VARCHAR(50) NOT NULL,
+    size_bytes INT NOT NULL,
+    checksum CHAR(64) NOT NULL,  -- SHA-256 (hex)
+    phash CHAR(16),  -- perceptual hash (dHash 64-bit, hex) untuk deteksi foto dipakai ulang
+    duplicate_of VARCHAR(50),  -- foto lain yang mirip saat upload
+    duplicate_distance TINYINT,  -- selisih bit hash dengan duplicate_of
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (duplicate_of) REFERENCES photos(id) ON DELETE SET NULL,
+    INDEX idx_user_id (user_id),
+    INDEX idx_created_at (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Face References (Foto Referensi Wajah)
+-- Embedding wajah dari model ONNX (FACE_MODEL_PATH), berlaku setelah disetujui admin
+-- ===========================================
+CREATE TABLE IF NOT EXISTS face_references (
+    id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    photo_id VARCHAR(50) NOT NULL,
+    embedding JSON NOT NULL,
+    status ENUM('pending', 'approved', 'rejected') DEFAULT 'pending',
+    approved_by VARCHAR(50),
+    approved_at TIMESTAMP NULL,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (photo_id) REFERENCES photos(id) ON DELETE CASCADE,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_user_status (user_id, status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Work Assignments (Hari WFH & Penugasan Dinas Luar)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS work_assignments (
+    id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    mode ENUM('wfh', 'field') NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+
+    -- Lokasi tujuan dinas luar, presensi divalidasi dengan geofence tujuan
+    destination_name VARCHAR(255),
+    latitude DECIMAL(10, 8),
+    longitude DECIMAL(11, 8),
+    radius_meters INT,
+
+    purpose TEXT NOT NULL,
+    status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+    approved_by VARCHAR(50),
+    approved_at TIMESTAMP NULL,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_user_dates (user_id, start_date, end_date),
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- ===========================================
 -- Tabel Attendance Records (Rekaman Kehadiran)
 -- ===========================================
 CREATE TABLE IF NOT EXISTS attendance_records (
     id VARCHAR(50) PRIMARY KEY,
     user_id VARCHAR(50) NOT NULL,
-    date DATE NOT NULL,
+    date DATE NOT NULL,  -- tanggal mulai shift
 
     -- Check In Data
     check_in_time TIME,
-    check_in_photo LONGTEXT,
+    check_in_photo_id VARCHAR(50),
     check_in_latitude DECIMAL(10, 8),
     check_in_longitude DECIMAL(11, 8),
     check_in_address TEXT,
-
-    -- Check Out Data
+    check_in_accuracy DECIMAL(10, 2),  -- dari Geolocation API, NULL untuk klien lama
+    check_in_altitude DECIMAL(10, 2),
+    check_in_position_at DATETIME,
+    check_in_location_flags SET('perfect_accuracy', 'impossible_travel', 'repeated_coordinates'),  -- dugaan GPS palsu
+    check_in_location_id VARCHAR(50),
+    check_in_distance DECIMAL(10, 2),
+    check_in_outside_geofence BOOLEAN DEFAULT FALSE,
+    check_in_face_score DECIMAL(5, 4),  -- kemiripan dengan foto referensi wajah, NULL = tidak dicocokkan
+    check_in_face_mismatch BOOLEAN DEFAULT FALSE,
+    check_in_face_unverified BOOLEAN DEFAULT FALSE,  -- pencocokan wajah aktif tetapi tidak dapat dilakukan
+    check_in_offline BOOLEAN DEFAULT FALSE,  -- diambil tanpa sinyal dan dikirim belakangan dari antrean perangkat
+    check_in_method ENUM('selfie', 'qr', 'pin') NOT NULL DEFAULT 'selfie',  -- cara verifikasi kehadiran
+
+    -- Check Out Data (tanggal bisa H+1 untuk shift malam)
+    check_out_date DATE,
     check_out_time TIME,
-    check_out_photo LONGTEXT,
+    check_out_photo_id VARCHAR(50),
     check_out_latitude DECIMAL(10, 8),
     check_out_longitude DECIMAL(11, 8),
     check_out_address TEXT,
+    check_out_accuracy DECIMAL(10, 2),
+    check_out_altitude DECIMAL(10, 2),
+    check_out_position_at DATETIME,
+    check_out_location_flags SET('perfect_accuracy', 'impossible_travel', 'repeated_coordinates'),
+    check_out_location_id VARCHAR(50),
+    check_out_distance DECIMAL(10, 2),
+    check_out_outside_geofence BOOLEAN DEFAULT FALSE,
+    check_out_face_score DECIMAL(5, 4),
+    check_out_face_mismatch BOOLEAN DEFAULT FALSE,
+    check_out_face_unverified BOOLEAN DEFAULT FALSE,
+    check_out_offline BOOLEAN DEFAULT FALSE,
+    check_out_method ENUM('selfie', 'qr', 'pin') NOT NULL DEFAULT 'selfie',
+    auto_closed BOOLEAN DEFAULT FALSE,  -- check-out diisi otomatis karena lupa check-out
+
+    -- Tempat bekerja: kantor, WFH atau dinas luar (dengan penugasan)
+    attendance_mode ENUM('office', 'wfh', 'field') NOT NULL DEFAULT 'office',
+    assignment_id VARCHAR(50),
 
     -- Status & Calculations
-    status ENUM('present', 'late', 'absent', 'holiday') NOT NULL DEFAULT 'present',
-    work_hours DECIMAL(5, 2) DEFAULT 0,
+    -- early_leave/half_day: pulang sebelum jam kerja minimal dengan izin pulang cepat yang disetujui
+    -- business_trip: hari kerja dalam perjalanan dinas yang disetujui, check-in opsional
+    status ENUM('present', 'late', 'absent', 'holiday', 'leave', 'sick', 'permit', 'early_leave', 'half_day', 'business_trip') NOT NULL DEFAULT 'present',
+    work_hours DECIMAL(5, 2) DEFAULT 0,  -- jam kerja bersih setelah dikurangi istirahat
+    break_minutes INT NOT NULL DEFAULT 0,  -- istirahat yang dipotong (minimal istirahat wajib jadwal)
+    late_minutes INT NOT NULL DEFAULT 0,  -- menit terlambat dihitung dari jam masuk
+    shift_id VARCHAR(50),
 
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
 
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (check_in_location_id) REFERENCES office_locations(id) ON DELETE SET NULL,
+    FOREIGN KEY (check_out_location_id) REFERENCES office_locations(id) ON DELETE SET NULL,
+    FOREIGN KEY (check_in_photo_id) REFERENCES photos(id) ON DELETE SET NULL,
+    FOREIGN KEY (check_out_photo_id) REFERENCES photos(id) ON DELETE SET NULL,
+    FOREIGN KEY (shift_id) REFERENCES shifts(id) ON DELETE SET NULL,
+    FOREIGN KEY (assignment_id) REFERENCES work_assignments(id) ON DELETE SET NULL,
     UNIQUE KEY unique_user_date (user_id, date),
     INDEX idx_user_id (user_id),
     INDEX idx_date (date),
     INDEX idx_status (status),
+    INDEX idx_mode (attendance_mode),
     INDEX idx_user_date (user_id, date)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- ===========================================
+-- Tabel Attendance Breaks (Istirahat dalam Hari Kerja)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS attendance_breaks (
+    id VARCHAR(50) PRIMARY KEY,
+    attendance_id VARCHAR(50) NOT NULL,
+    start_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_date DATE,  -- NULL selama istirahat berlangsung
+    end_time TIME,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (attendance_id) REFERENCES attendance_records(id) ON DELETE CASCADE,
+    INDEX idx_attendance_id (attendance_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Overtime Plans (Surat Perintah Lembur)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS overtime_plans (
+    id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    date DATE NOT NULL,
+    expected_hours DECIMAL(4, 2) NOT NULL,
+    reason TEXT NOT NULL,
+    status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+    approved_by VARCHAR(50),
+    approved_at TIMESTAMP NULL,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_user_date (user_id, date),
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- ===========================================
 -- Tabel Overtime Records (Rekaman Lembur)
 -- ===========================================
 CREATE TABLE IF NOT EXISTS overtime_records (
     id VARCHAR(50) PRIMARY KEY,
     user_id VARCHAR(50) NOT NULL,
+    plan_id VARCHAR(50),  -- surat perintah lembur yang mendasari
     date DATE NOT NULL,
     start_time TIME NOT NULL,
+    end_date DATE,
     end_time TIME,
     duration DECIMAL(5, 2) DEFAULT 0,
+    approved_hours DECIMAL(5, 2) DEFAULT 0,  -- jam lembur yang diakui setelah dicocokkan dengan rencana
+    day_type ENUM('workday', 'rest_day', 'holiday', 'short_day_holiday') NOT NULL DEFAULT 'workday',  -- penentu pengali upah lembur
+    pay_amount DECIMAL(15, 2) NULL,  -- upah lembur jam yang diakui, dihitung dari upah sebulan saat diakui
     reason TEXT NOT NULL,
     status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
     approved_by VARCHAR(50),
@@ -89,12 +361,158 @@ CREATE TABLE IF NOT EXISTS overtime_records (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
 
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (plan_id) REFERENCES overtime_plans(id) ON DELETE SET NULL,
     FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
     INDEX idx_user_id (user_id),
     INDEX idx_date (date),
     INDEX idx_status (status)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- ===========================================
+-- Tabel Attendance Corrections (Pengajuan Koreksi Presensi)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS attendance_corrections (
+    id VARCHAR(50) PRIMARY KEY,
+    attendance_id VARCHAR(50) NOT NULL,
+    user_id VARCHAR(50) NOT NULL,
+
+    -- Jam yang diajukan (NULL = tidak diubah)
+    check_in_time TIME,
+    check_out_time TIME,
+    reason TEXT NOT NULL,
+    status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+    approved_by VARCHAR(50),
+    approved_at TIMESTAMP NULL,
+
+    -- Nilai presensi sebelum koreksi (audit)
+    original_check_in_time TIME,
+    original_check_out_date DATE,
+    original_check_out_time TIME,
+    original_status VARCHAR(20),
+    original_work_hours DECIMAL(5, 2),
+    original_late_minutes INT,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (attendance_id) REFERENCES attendance_records(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_attendance_id (attendance_id),
+    INDEX idx_user_id (user_id),
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Early Leave Requests (Izin Pulang Cepat)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS early_leave_requests (
+    id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    date DATE NOT NULL,  -- tanggal presensi (tanggal shift)
+    leave_time TIME NOT NULL,  -- rencana jam pulang
+    reason TEXT NOT NULL,
+    status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+    approved_by VARCHAR(50),
+    approved_at TIMESTAMP NULL,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_user_date (user_id, date),
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Business Trips (Perjalanan Dinas)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS business_trips (
+    id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    destination VARCHAR(255) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    purpose TEXT NOT NULL,
+    approver_id VARCHAR(50),  -- atasan yang dipilih karyawan untuk menyetujui
+    status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+    approved_by VARCHAR(50),
+    approved_at TIMESTAMP NULL,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (approver_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_user_dates (user_id, start_date, end_date),
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Leave Types (Jenis Cuti: Cuti, Sakit, Izin)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS leave_types (
+    id VARCHAR(50) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    category ENUM('leave', 'sick', 'permit') NOT NULL,  -- status presensi saat cuti disetujui
+    annual_quota INT,  -- jatah hari per tahun, NULL = tanpa batas
+    attachment_required_after_days INT,  -- lampiran wajib bila lebih dari N hari, NULL = tidak wajib
+    is_active BOOLEAN DEFAULT TRUE,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Leave Quotas (Jatah Cuti per Karyawan per Tahun)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS leave_quotas (
+    user_id VARCHAR(50) NOT NULL,
+    leave_type_id VARCHAR(50) NOT NULL,
+    year SMALLINT NOT NULL,
+    quota INT NOT NULL,  -- menggantikan annual_quota jenis cuti untuk karyawan ini
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (user_id, leave_type_id, year),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (leave_type_id) REFERENCES leave_types(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- ===========================================
+-- Tabel Leave Requests (Pengajuan Cuti/Izin)
+-- ===========================================
+CREATE TABLE IF NOT EXISTS leave_requests (
+    id VARCHAR(50) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    leave_type_id VARCHAR(50) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    days INT NOT NULL DEFAULT 0,  -- jumlah hari kerja yang dipotong dari jatah
+    reason TEXT,
+
+    -- Lampiran (contoh surat dokter), disimpan di UPLOAD_DIR
+    attachment_path VARCHAR(255),
+    attachment_name VARCHAR(255),
+    attachment_mime_type VARCHAR(100),
+
+    status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'pending',
+    approved_by VARCHAR(50),
+    approved_at TIMESTAMP NULL,
+
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (leave_type_id) REFERENCES leave_types(id),
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_user_dates (user_id, start_date, end_date),
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- ===========================================
 -- Tabel Work Schedules (Jadwal Kerja)
 -- ===========================================
@@ -104,6 +522,8 @@ CREATE TABLE IF NOT EXISTS work_schedules (
     start_time TIME NOT NULL,
     end_time TIME NOT NULL,
     min_work_hours DECIMAL(4, 2) NOT NULL DEFAULT 8.00,
+    late_tolerance_minutes INT NOT NULL DEFAULT 0,
+    min_break_minutes INT NOT NULL DEFAULT 0,  -- istirahat wajib yang dipotong dari jam kerja
     is_active BOOLEAN DEFAULT TRUE,
 
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -176,6 +596,22 @@ VALUES
     (6, '08:00:00', '13:00:00', 5.00)   -- Saturday
 ON DUPLICATE KEY UPDATE day_of_week = day_of_week;
 
+-- Default Shifts
+INSERT INTO shifts (id, name, start_time, end_time, min_work_hours)
+VALUES
+    ('shift-pagi', 'Pagi', '07:00:00', '15:00:00', 8.00),
+    ('shift-siang', 'Siang', '15:00:00', '23:00:00', 8.00),
+    ('shift-malam', 'Malam', '22:00:00', '06:00:00', 8.00)
+ON DUPLICATE KEY UPDATE id = id;
+
+-- Default Leave Types
+INSERT INTO leave_types (id, name, category, annual_quota, attachment_required_after_days)
+VALUES
+    ('leave-annual', 'Cuti Tahunan', 'leave', 12, NULL),
+    ('leave-sick', 'Sakit', 'sick', NULL, 1),
+    ('leave-permit', 'Izin', 'permit', NULL, NULL)
+ON DUPLICATE KEY UPDATE id = id;
+
 -- Default Holidays 2026
 INSERT INTO holidays (date, name)
 VALUES
@@ -210,7 +646,9 @@ SELECT
     ar.check_in_time,
     ar.check_out_time,
     ar.status,
-    ar.work_hours
+    ar.attendance_mode,
+    ar.work_hours,
+    ar.break_minutes
 FROM attendance_records ar
 JOIN users u ON ar.user_id = u.id
 WHERE u.is_active = TRUE
@@ -227,6 +665,12 @@ SELECT
     COUNT(CASE WHEN ar.status = 'present' THEN 1 END) AS present_count,
     COUNT(CASE WHEN ar.status = 'late' THEN 1 END) AS late_count,
     COUNT(CASE WHEN ar.status = 'absent' THEN 1 END) AS absent_count,
+    COUNT(CASE WHEN ar.status = 'leave' THEN 1 END) AS leave_count,
+    COUNT(CASE WHEN ar.status = 'sick' THEN 1 END) AS sick_count,
+    COUNT(CASE WHEN ar.status = 'permit' THEN 1 END) AS permit_count,
+    COUNT(CASE WHEN ar.status = 'early_leave' THEN 1 END) AS early_leave_count,
+    COUNT(CASE WHEN ar.status = 'half_day' THEN 1 END) AS half_day_count,
+    COUNT(CASE WHEN ar.status = 'business_trip' THEN 1 END) AS business_trip_count,
     SUM(ar.work_hours) AS total_work_hours
 FROM users u
 LEFT JOIN attendance_records ar ON u.id = ar.user_id
@@ -256,6 +700,9 @@ BEGIN
         COUNT(CASE WHEN status = 'present' THEN 1 END) AS present,
         COUNT(CASE WHEN status = 'late' THEN 1 END) AS late,
         COUNT(CASE WHEN status = 'absent' THEN 1 END) AS absent,
+        COUNT(CASE WHEN status = 'leave' THEN 1 END) AS `leave`,
+        COUNT(CASE WHEN status = 'sick' THEN 1 END) AS sick,
+        COUNT(CASE WHEN status = 'permit' THEN 1 END) AS permit,
         COALESCE(SUM(work_hours), 0) AS total_work_hours,
         COUNT(*) AS total
     FROM attendance_records
@@ -0,0 +1,10 @@
+-- ===========================================
+-- Migrasi Tutup Presensi Otomatis
+-- Untuk database lama: penanda check-out yang diisi otomatis
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-auto-close.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN auto_closed BOOLEAN DEFAULT FALSE AFTER check_out_outside_geofence;
@@ -0,0 +1,21 @@
+-- ===========================================
+-- Migrasi Istirahat
+-- Untuk database lama: istirahat wajib per jadwal dan istirahat yang dipotong pada presensi
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel attendance_breaks)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-breaks.sql
+-- 3. npm run db:migrate  (view v_daily_attendance memakai kolom baru)
+-- ===========================================
+
+ALTER TABLE office_locations
+    ADD COLUMN min_break_minutes INT NULL AFTER late_tolerance_minutes;
+
+ALTER TABLE shifts
+    ADD COLUMN min_break_minutes INT NOT NULL DEFAULT 0 AFTER late_tolerance_minutes;
+
+ALTER TABLE work_schedules
+    ADD COLUMN min_break_minutes INT NOT NULL DEFAULT 0 AFTER late_tolerance_minutes;
+
+ALTER TABLE attendance_records
+    ADD COLUMN break_minutes INT NOT NULL DEFAULT 0 AFTER work_hours;
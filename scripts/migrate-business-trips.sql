@@ -0,0 +1,11 @@
+-- ===========================================
+-- Migrasi Perjalanan Dinas
+-- Untuk database lama: status business_trip pada presensi
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel business_trips)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-business-trips.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    MODIFY COLUMN status ENUM('present', 'late', 'absent', 'holiday', 'leave', 'sick', 'permit', 'early_leave', 'half_day', 'business_trip') NOT NULL DEFAULT 'present';
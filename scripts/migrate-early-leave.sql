@@ -0,0 +1,11 @@
+-- ===========================================
+-- Migrasi Izin Pulang Cepat
+-- Untuk database lama: status early_leave dan half_day pada presensi
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel early_leave_requests)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-early-leave.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    MODIFY COLUMN status ENUM('present', 'late', 'absent', 'holiday', 'leave', 'sick', 'permit', 'early_leave', 'half_day') NOT NULL DEFAULT 'present';
@@ -0,0 +1,16 @@
+-- ===========================================
+-- Migrasi Pencocokan Wajah
+-- Untuk database lama: skor kemiripan wajah dan tanda wajah belum diverifikasi pada presensi
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel face_references)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-face-match.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN check_in_face_score DECIMAL(5, 4) AFTER check_in_outside_geofence,
+    ADD COLUMN check_in_face_mismatch BOOLEAN DEFAULT FALSE AFTER check_in_face_score,
+    ADD COLUMN check_in_face_unverified BOOLEAN DEFAULT FALSE AFTER check_in_face_mismatch,
+    ADD COLUMN check_out_face_score DECIMAL(5, 4) AFTER check_out_outside_geofence,
+    ADD COLUMN check_out_face_mismatch BOOLEAN DEFAULT FALSE AFTER check_out_face_score,
+    ADD COLUMN check_out_face_unverified BOOLEAN DEFAULT FALSE AFTER check_out_face_mismatch;
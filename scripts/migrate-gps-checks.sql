@@ -0,0 +1,17 @@
+-- ===========================================
+-- Migrasi Pemeriksaan GPS
+-- Untuk database lama: akurasi, ketinggian, waktu fix GPS dan penanda lokasi mencurigakan
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-gps-checks.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN check_in_accuracy DECIMAL(10, 2) AFTER check_in_address,
+    ADD COLUMN check_in_altitude DECIMAL(10, 2) AFTER check_in_accuracy,
+    ADD COLUMN check_in_position_at DATETIME AFTER check_in_altitude,
+    ADD COLUMN check_in_location_flags SET('perfect_accuracy', 'impossible_travel', 'repeated_coordinates') AFTER check_in_position_at,
+    ADD COLUMN check_out_accuracy DECIMAL(10, 2) AFTER check_out_address,
+    ADD COLUMN check_out_altitude DECIMAL(10, 2) AFTER check_out_accuracy,
+    ADD COLUMN check_out_position_at DATETIME AFTER check_out_altitude,
+    ADD COLUMN check_out_location_flags SET('perfect_accuracy', 'impossible_travel', 'repeated_coordinates') AFTER check_out_position_at;
@@ -0,0 +1,17 @@
+-- ===========================================
+-- Migrasi Tablet Kiosk PIN
+-- Untuk database lama: PIN kiosk karyawan dan cara verifikasi 'pin'
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel kiosk_devices)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-kiosk-devices.sql
+-- ===========================================
+
+ALTER TABLE users
+    ADD COLUMN kiosk_pin_hash VARCHAR(255) NULL AFTER phone,
+    ADD COLUMN kiosk_pin_failed_attempts INT NOT NULL DEFAULT 0 AFTER kiosk_pin_hash,
+    ADD COLUMN kiosk_pin_locked_until DATETIME NULL AFTER kiosk_pin_failed_attempts;
+
+ALTER TABLE attendance_records
+    MODIFY COLUMN check_in_method ENUM('selfie', 'qr', 'pin') NOT NULL DEFAULT 'selfie',
+    MODIFY COLUMN check_out_method ENUM('selfie', 'qr', 'pin') NOT NULL DEFAULT 'selfie';
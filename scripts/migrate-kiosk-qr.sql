@@ -0,0 +1,14 @@
+-- ===========================================
+-- Migrasi Kiosk QR
+-- Untuk database lama: secret kiosk per lokasi dan cara verifikasi presensi
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-kiosk-qr.sql
+-- ===========================================
+
+ALTER TABLE office_locations
+    ADD COLUMN kiosk_secret VARCHAR(64) NULL AFTER late_tolerance_minutes;
+
+ALTER TABLE attendance_records
+    ADD COLUMN check_in_method ENUM('selfie', 'qr') NOT NULL DEFAULT 'selfie' AFTER check_in_offline,
+    ADD COLUMN check_out_method ENUM('selfie', 'qr') NOT NULL DEFAULT 'selfie' AFTER check_out_offline;
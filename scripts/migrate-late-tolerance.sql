@@ -0,0 +1,21 @@
+-- ===========================================
+-- Migrasi Toleransi Keterlambatan
+-- Untuk database lama: toleransi terlambat per jadwal dan menit terlambat pada presensi
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-late-tolerance.sql
+--
+-- Presensi lama berstatus 'late' tetap tercatat terlambat dengan late_minutes = 0.
+-- ===========================================
+
+ALTER TABLE office_locations
+    ADD COLUMN late_tolerance_minutes INT NULL AFTER min_work_hours;
+
+ALTER TABLE shifts
+    ADD COLUMN late_tolerance_minutes INT NOT NULL DEFAULT 0 AFTER min_work_hours;
+
+ALTER TABLE work_schedules
+    ADD COLUMN late_tolerance_minutes INT NOT NULL DEFAULT 0 AFTER min_work_hours;
+
+ALTER TABLE attendance_records
+    ADD COLUMN late_minutes INT NOT NULL DEFAULT 0 AFTER work_hours;
@@ -0,0 +1,19 @@
+-- ===========================================
+-- Migrasi Lampiran Cuti
+-- Untuk database lama: syarat lampiran per jenis cuti dan lampiran pada pengajuan
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-leave-attachments.sql
+-- 2. npm run db:migrate  (data awal jenis cuti memakai kolom baru)
+-- ===========================================
+
+ALTER TABLE leave_types
+    ADD COLUMN attachment_required_after_days INT AFTER annual_quota;
+
+ALTER TABLE leave_requests
+    ADD COLUMN attachment_path VARCHAR(255) AFTER reason,
+    ADD COLUMN attachment_name VARCHAR(255) AFTER attachment_path,
+    ADD COLUMN attachment_mime_type VARCHAR(100) AFTER attachment_name;
+
+-- Sakit lebih dari 1 hari wajib surat dokter, sama dengan data awal
+UPDATE leave_types SET attachment_required_after_days = 1 WHERE id = 'leave-sick';
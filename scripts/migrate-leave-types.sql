@@ -0,0 +1,27 @@
+-- ===========================================
+-- Migrasi Jenis & Jatah Cuti
+-- Untuk database lama: status cuti/sakit/izin pada presensi dan jenis cuti pada pengajuan
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel leave_types & leave_quotas beserta jenis cuti bawaan)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-leave-types.sql
+-- 3. npm run db:migrate  (membuat ulang sp_get_user_attendance_stats)
+--
+-- Pengajuan lama dianggap 'Izin' dan tidak memotong jatah (days = 0).
+-- ===========================================
+
+ALTER TABLE attendance_records
+    MODIFY COLUMN status ENUM('present', 'late', 'absent', 'holiday', 'leave', 'sick', 'permit') NOT NULL DEFAULT 'present';
+
+ALTER TABLE leave_requests
+    ADD COLUMN leave_type_id VARCHAR(50) NULL AFTER user_id,
+    ADD COLUMN days INT NOT NULL DEFAULT 0 AFTER end_date;
+
+UPDATE leave_requests SET leave_type_id = 'leave-permit' WHERE leave_type_id IS NULL;
+
+ALTER TABLE leave_requests
+    MODIFY COLUMN leave_type_id VARCHAR(50) NOT NULL,
+    ADD FOREIGN KEY (leave_type_id) REFERENCES leave_types(id);
+
+-- Procedure dibuat dengan IF NOT EXISTS, hapus agar langkah 3 membuat versi dengan status cuti
+DROP PROCEDURE IF EXISTS sp_get_user_attendance_stats;
@@ -0,0 +1,17 @@
+-- ===========================================
+-- Migrasi Shift Malam
+-- Untuk database lama: tanggal check-out dan tanggal selesai lembur yang bisa H+1
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-night-shift.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN check_out_date DATE AFTER check_in_outside_geofence;
+
+ALTER TABLE overtime_records
+    ADD COLUMN end_date DATE AFTER start_time;
+
+-- Data lama selalu check-out dan selesai lembur di tanggal yang sama
+UPDATE attendance_records SET check_out_date = date WHERE check_out_time IS NOT NULL;
+UPDATE overtime_records SET end_date = date WHERE end_time IS NOT NULL;
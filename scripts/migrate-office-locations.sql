@@ -0,0 +1,18 @@
+-- ===========================================
+-- Migrasi Geofence Lokasi Kantor
+-- Untuk database lama: kolom lokasi kantor dan jarak geofence pada presensi
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel office_locations)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-office-locations.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN check_in_location_id VARCHAR(50) AFTER check_in_address,
+    ADD COLUMN check_in_distance DECIMAL(10, 2) AFTER check_in_location_id,
+    ADD COLUMN check_in_outside_geofence BOOLEAN DEFAULT FALSE AFTER check_in_distance,
+    ADD COLUMN check_out_location_id VARCHAR(50) AFTER check_out_address,
+    ADD COLUMN check_out_distance DECIMAL(10, 2) AFTER check_out_location_id,
+    ADD COLUMN check_out_outside_geofence BOOLEAN DEFAULT FALSE AFTER check_out_distance,
+    ADD FOREIGN KEY (check_in_location_id) REFERENCES office_locations(id) ON DELETE SET NULL,
+    ADD FOREIGN KEY (check_out_location_id) REFERENCES office_locations(id) ON DELETE SET NULL;
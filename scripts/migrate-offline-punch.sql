@@ -0,0 +1,11 @@
+-- ===========================================
+-- Migrasi Presensi Offline
+-- Untuk database lama: penanda presensi yang dikirim dari antrean offline
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-offline-punch.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN check_in_offline BOOLEAN DEFAULT FALSE AFTER check_in_face_mismatch,
+    ADD COLUMN check_out_offline BOOLEAN DEFAULT FALSE AFTER check_out_face_mismatch;
@@ -0,0 +1,23 @@
+-- ===========================================
+-- Migrasi Upah Lembur (PP 35/2021)
+-- Untuk database lama: upah sebulan dan pola hari kerja karyawan, jenis hari dan upah pada lembur
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-overtime-pay.sql
+-- 2. Isi upah sebulan karyawan di Kelola Karyawan
+--
+-- Lembur lama di hari libur nasional ditandai 'holiday'; sisanya dianggap hari kerja.
+-- Upah lembur lama dibiarkan kosong karena upah sebulan saat itu tidak tercatat.
+-- ===========================================
+
+ALTER TABLE users
+    ADD COLUMN monthly_salary DECIMAL(15, 2) NULL AFTER kiosk_pin_locked_until,
+    ADD COLUMN work_week_days TINYINT NOT NULL DEFAULT 6 CHECK (work_week_days IN (5, 6)) AFTER monthly_salary;
+
+ALTER TABLE overtime_records
+    ADD COLUMN day_type ENUM('workday', 'rest_day', 'holiday', 'short_day_holiday') NOT NULL DEFAULT 'workday' AFTER approved_hours,
+    ADD COLUMN pay_amount DECIMAL(15, 2) NULL AFTER day_type;
+
+UPDATE overtime_records ot
+JOIN holidays h ON h.date = ot.date AND h.is_active = TRUE
+SET ot.day_type = 'holiday';
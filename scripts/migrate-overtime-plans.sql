@@ -0,0 +1,16 @@
+-- ===========================================
+-- Migrasi Rencana Lembur
+-- Untuk database lama: rencana yang mendasari lembur dan jam lembur yang diakui
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel overtime_plans)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-overtime-plans.sql
+-- ===========================================
+
+ALTER TABLE overtime_records
+    ADD COLUMN plan_id VARCHAR(50) AFTER user_id,
+    ADD COLUMN approved_hours DECIMAL(5, 2) DEFAULT 0 AFTER duration,
+    ADD FOREIGN KEY (plan_id) REFERENCES overtime_plans(id) ON DELETE SET NULL;
+
+-- Lembur lama yang sudah disetujui diakui seluruh durasinya
+UPDATE overtime_records SET approved_hours = duration WHERE status = 'approved';
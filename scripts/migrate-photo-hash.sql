@@ -0,0 +1,16 @@
+-- ===========================================
+-- Migrasi Deteksi Foto Dipakai Ulang
+-- Untuk database lama: perceptual hash dan penanda duplikat pada foto presensi
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-photo-hash.sql
+--
+-- Foto lama tanpa hash tidak ikut dibandingkan.
+-- ===========================================
+
+ALTER TABLE photos
+    ADD COLUMN phash CHAR(16) AFTER checksum,
+    ADD COLUMN duplicate_of VARCHAR(50) AFTER phash,
+    ADD COLUMN duplicate_distance TINYINT AFTER duplicate_of,
+    ADD FOREIGN KEY (duplicate_of) REFERENCES photos(id) ON DELETE SET NULL,
+    ADD INDEX idx_created_at (created_at);
@@ -0,0 +1,24 @@
+-- ===========================================
+-- Migrasi Foto Presensi ke Blob Store
+-- Untuk database lama yang masih menyimpan foto base64 di kolom LONGTEXT
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel photos)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-photo-store.sql
+-- 3. Panggil POST /api/jobs/migrate-photos?after=<nextAfterId> berulang sampai "nextAfterId": null
+-- 4. Bila "remaining": 0, jalankan bagian "Setelah migrasi selesai" di bawah
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN check_in_photo_id VARCHAR(50) AFTER check_in_photo,
+    ADD COLUMN check_out_photo_id VARCHAR(50) AFTER check_out_photo,
+    ADD FOREIGN KEY (check_in_photo_id) REFERENCES photos(id) ON DELETE SET NULL,
+    ADD FOREIGN KEY (check_out_photo_id) REFERENCES photos(id) ON DELETE SET NULL;
+
+-- ===========================================
+-- Setelah migrasi selesai (remaining = 0), hapus kolom lama:
+--
+-- ALTER TABLE attendance_records
+--     DROP COLUMN check_in_photo,
+--     DROP COLUMN check_out_photo;
+-- ===========================================
@@ -0,0 +1,12 @@
+-- ===========================================
+-- Migrasi Thumbnail Foto
+-- Untuk database lama: key thumbnail pada foto presensi
+--
+-- Langkah:
+-- 1. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-photo-thumbnails.sql
+--
+-- Foto lama tanpa thumbnail ditampilkan dengan foto aslinya.
+-- ===========================================
+
+ALTER TABLE photos
+    ADD COLUMN thumbnail_key VARCHAR(255) AFTER storage_key;
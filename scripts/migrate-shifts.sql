@@ -0,0 +1,12 @@
+-- ===========================================
+-- Migrasi Shift Kerja
+-- Untuk database lama: shift yang berlaku pada presensi
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel shifts dan shift_roster)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-shifts.sql
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN shift_id VARCHAR(50) AFTER work_hours,
+    ADD FOREIGN KEY (shift_id) REFERENCES shifts(id) ON DELETE SET NULL;
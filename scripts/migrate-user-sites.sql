@@ -0,0 +1,14 @@
+-- ===========================================
+-- Migrasi Site Karyawan
+-- Untuk database lama: zona waktu dan jadwal khusus per lokasi kantor
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel user_sites)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-user-sites.sql
+-- ===========================================
+
+ALTER TABLE office_locations
+    ADD COLUMN timezone VARCHAR(50) NOT NULL DEFAULT 'Asia/Jakarta' AFTER radius_meters,
+    ADD COLUMN start_time TIME NULL AFTER timezone,
+    ADD COLUMN end_time TIME NULL AFTER start_time,
+    ADD COLUMN min_work_hours DECIMAL(4, 2) NULL AFTER end_time;
@@ -0,0 +1,15 @@
+-- ===========================================
+-- Migrasi WFH & Dinas Luar
+-- Untuk database lama: tempat bekerja dan penugasan pada presensi
+--
+-- Langkah:
+-- 1. npm run db:migrate  (membuat tabel work_assignments)
+-- 2. mysql -u $DB_USER -p $DB_NAME < scripts/migrate-work-modes.sql
+-- 3. npm run db:migrate  (view v_daily_attendance memakai kolom baru)
+-- ===========================================
+
+ALTER TABLE attendance_records
+    ADD COLUMN attendance_mode ENUM('office', 'wfh', 'field') NOT NULL DEFAULT 'office' AFTER auto_closed,
+    ADD COLUMN assignment_id VARCHAR(50) AFTER attendance_mode,
+    ADD FOREIGN KEY (assignment_id) REFERENCES work_assignments(id) ON DELETE SET NULL,
+    ADD INDEX idx_mode (attendance_mode);